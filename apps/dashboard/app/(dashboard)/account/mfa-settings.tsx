@@ -0,0 +1,301 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useSession } from "next-auth/react";
+import { Check, KeyRound, Loader2, ShieldCheck, ShieldOff } from "lucide-react";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface MfaStatus {
+  enabled: boolean;
+  pending: boolean;
+  recoveryCodesRemaining: number;
+  /** The user's role requires MFA, so it cannot be turned off */
+  required: boolean;
+  /** This session was signed in with the second factor, or has entered a code since */
+  verified: boolean;
+}
+
+interface Enrolment {
+  secret: string;
+  qrCode: string;
+}
+
+const inputClass =
+  "mt-1.5 w-full rounded-xl border border-brand-pewter/30 bg-white px-4 py-2.5 text-sm text-brand-charcoal outline-none transition focus:border-brand-teal focus:ring-2 focus:ring-brand-teal/20";
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+/**
+ * TOTP enrolment: scan the QR code, confirm a code, save the recovery
+ * codes, then enter a code so the session carries the second factor. The
+ * same code step serves Microsoft sign-ins Entra did not ask a second
+ * factor for.
+ */
+export function MfaSettings() {
+  const router = useRouter();
+  const { update } = useSession();
+  const [status, setStatus] = useState<MfaStatus | null>(null);
+  const [enrolment, setEnrolment] = useState<Enrolment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+  const [error, setError] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const fetchStatus = useCallback(async () => {
+    const res = await fetch("/api/account/mfa");
+    const data = await res.json();
+    if (!res.ok) {
+      setError(data.error ?? "Could not load MFA settings");
+      return;
+    }
+    setStatus(data);
+  }, []);
+
+  useEffect(() => { fetchStatus(); }, [fetchStatus]);
+
+  /** Call the MFA API; returns the JSON body, or null after showing the error */
+  async function call(method: string, body?: object) {
+    setError("");
+    setBusy(true);
+    try {
+      const res = await fetch("/api/account/mfa", {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: body && JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? "Request failed");
+      return data;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleStart() {
+    const data = await call("POST");
+    if (data) {
+      setEnrolment(data);
+      setCode("");
+    }
+  }
+
+  async function handleConfirm(e: React.FormEvent) {
+    e.preventDefault();
+    const data = await call("PUT", { code });
+    if (data) {
+      setEnrolment(null);
+      setRecoveryCodes(data.recoveryCodes);
+    }
+  }
+
+  async function handleVerify(e: React.FormEvent) {
+    e.preventDefault();
+    setError("");
+    setBusy(true);
+    try {
+      // Checked by the jwt callback in lib/auth.ts
+      const session = await update({ code });
+      if (!session?.user.mfa) throw new Error("Invalid authentication code.");
+      setCode("");
+      await fetchStatus();
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function handleSavedRecoveryCodes() {
+    setRecoveryCodes(null);
+    setCode("");
+    fetchStatus();
+  }
+
+  async function handleDisable(e: React.FormEvent) {
+    e.preventDefault();
+    if (await call("DELETE", { code })) {
+      setCode("");
+      await fetchStatus();
+    }
+  }
+
+  // -----------------------------------------------------------------------
+  // Render
+  // -----------------------------------------------------------------------
+
+  let content: React.ReactNode;
+
+  if (recoveryCodes) {
+    content = (
+      <div className="flex flex-col gap-4">
+        <p className="text-sm text-brand-charcoal">
+          MFA is on. Save these recovery codes somewhere safe — each one signs
+          you in once if you lose your authenticator. They will not be shown again.
+        </p>
+        <ul className="grid grid-cols-2 gap-2 rounded-2xl bg-brand-mist/40 p-4 font-mono text-sm text-brand-charcoal">
+          {recoveryCodes.map((recoveryCode) => (
+            <li key={recoveryCode}>{recoveryCode}</li>
+          ))}
+        </ul>
+        <button
+          onClick={handleSavedRecoveryCodes}
+          className="inline-flex items-center justify-center gap-2 self-start rounded-xl bg-brand-teal px-4 py-2 text-sm font-semibold text-white transition hover:bg-brand-teal-deep"
+        >
+          <Check className="h-4 w-4" />
+          I&apos;ve saved them
+        </button>
+      </div>
+    );
+  } else if (enrolment) {
+    content = (
+      <form onSubmit={handleConfirm} className="flex flex-col gap-4">
+        <p className="text-sm text-brand-charcoal">
+          Scan the code with an authenticator app (Microsoft Authenticator,
+          Google Authenticator, 1Password…) and enter the 6-digit code it shows.
+        </p>
+        <div className="flex flex-col items-center gap-2 sm:flex-row sm:items-start sm:gap-6">
+          {/* eslint-disable-next-line @next/next/no-img-element -- data: URL */}
+          <img src={enrolment.qrCode} alt="MFA QR code" width={180} height={180} className="rounded-xl border border-brand-pewter/20" />
+          <div className="text-xs text-brand-pewter">
+            Can&apos;t scan? Enter this key:
+            <p className="mt-1 break-all font-mono text-sm text-brand-charcoal">{enrolment.secret}</p>
+          </div>
+        </div>
+        <div>
+          <label htmlFor="mfa-code" className="block text-xs font-semibold uppercase tracking-wide text-brand-pewter">
+            Authentication code
+          </label>
+          <input
+            id="mfa-code"
+            required
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            pattern="[0-9]{6}"
+            value={code}
+            onChange={(e) => setCode(e.target.value.trim())}
+            className={inputClass}
+            placeholder="123456"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={busy}
+          className="inline-flex items-center justify-center gap-2 self-start rounded-xl bg-brand-teal px-4 py-2 text-sm font-semibold text-white transition hover:bg-brand-teal-deep disabled:opacity-60"
+        >
+          {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+          Turn on MFA
+        </button>
+      </form>
+    );
+  } else if (status?.enabled && !status.verified) {
+    content = (
+      <form onSubmit={handleVerify} className="flex flex-col gap-4">
+        <p className="text-sm text-brand-charcoal">
+          This session was signed in without a second factor. Enter a code
+          from your authenticator app (or a recovery code) to continue.
+        </p>
+        <div>
+          <label htmlFor="mfa-verify-code" className="block text-xs font-semibold uppercase tracking-wide text-brand-pewter">
+            Code or recovery code
+          </label>
+          <input
+            id="mfa-verify-code"
+            required
+            autoComplete="one-time-code"
+            value={code}
+            onChange={(e) => setCode(e.target.value.trim())}
+            className={inputClass}
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={busy}
+          className="inline-flex items-center justify-center gap-2 self-start rounded-xl bg-brand-teal px-4 py-2 text-sm font-semibold text-white transition hover:bg-brand-teal-deep disabled:opacity-60"
+        >
+          {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <KeyRound className="h-4 w-4" />}
+          Verify
+        </button>
+      </form>
+    );
+  } else if (status?.enabled) {
+    content = (
+      <div className="flex flex-col gap-4">
+        <p className="flex items-center gap-2 text-sm font-medium text-brand-teal">
+          <ShieldCheck className="h-5 w-5" />
+          MFA is on · {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? "" : "s"} left
+        </p>
+        {status.required ? (
+          <p className="text-sm text-brand-pewter">
+            Your role requires MFA. An administrator can reset it if you lose your authenticator.
+          </p>
+        ) : (
+          <form onSubmit={handleDisable} className="flex flex-col gap-3 sm:flex-row sm:items-end">
+            <div className="flex-1">
+              <label htmlFor="mfa-off-code" className="block text-xs font-semibold uppercase tracking-wide text-brand-pewter">
+                Code or recovery code
+              </label>
+              <input
+                id="mfa-off-code"
+                required
+                autoComplete="one-time-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value.trim())}
+                className={inputClass}
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={busy}
+              className="inline-flex items-center justify-center gap-2 rounded-xl border border-red-300 px-4 py-2.5 text-sm font-semibold text-red-600 transition hover:bg-red-50 disabled:opacity-60"
+            >
+              {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <ShieldOff className="h-4 w-4" />}
+              Turn off MFA
+            </button>
+          </form>
+        )}
+      </div>
+    );
+  } else if (status) {
+    content = (
+      <div className="flex flex-col gap-4">
+        <p className="text-sm text-brand-pewter">
+          MFA is off. Anyone with your password can sign in as you.
+        </p>
+        <button
+          onClick={handleStart}
+          disabled={busy}
+          className="inline-flex items-center justify-center gap-2 self-start rounded-xl bg-brand-teal px-4 py-2 text-sm font-semibold text-white transition hover:bg-brand-teal-deep disabled:opacity-60"
+        >
+          {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <ShieldCheck className="h-4 w-4" />}
+          Set up MFA
+        </button>
+      </div>
+    );
+  } else if (!error) {
+    content = <Loader2 className="h-5 w-5 animate-spin text-brand-pewter" />;
+  }
+
+  return (
+    <section className="rounded-3xl border border-brand-pewter/20 bg-white/90 p-8 shadow-card">
+      <p className="text-xs font-semibold uppercase tracking-[0.45em] text-brand-pewter">
+        Multi-factor authentication
+      </p>
+      <div className="mt-4">{content}</div>
+      {error && (
+        <p className="mt-4 rounded-lg bg-red-50 px-3 py-2 text-sm font-medium text-red-700">
+          {error}
+        </p>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,44 @@
+import { redirect } from "next/navigation";
+import { getSession } from "@/lib/auth-helpers";
+import { MfaSettings } from "./mfa-settings";
+
+export default async function AccountPage() {
+  const session = await getSession();
+  if (!session) redirect("/login");
+
+  const mustEnrol = session.user.mfaRequired && !session.user.mfa;
+
+  return (
+    <div className="mx-auto flex max-w-2xl flex-col gap-8">
+      {/* Hero */}
+      <section className="relative overflow-hidden rounded-3xl border border-brand-pewter/20 bg-gradient-to-br from-brand-parchment via-white to-brand-mist px-10 py-12 text-brand-charcoal shadow-card">
+        <div className="relative z-10 flex flex-col items-center gap-4 text-center">
+          <p className="text-xs uppercase tracking-[0.45em] text-brand-pewter">
+            Account
+          </p>
+          <h1 className="text-4xl font-semibold leading-tight">
+            Sign-in Security
+          </h1>
+          <p className="max-w-xl text-sm text-brand-pewter">
+            Protect {session.user.email} with a one-time code from an
+            authenticator app, asked for after your password or a Microsoft
+            sign-in without Entra MFA.
+          </p>
+        </div>
+        <div className="pointer-events-none absolute inset-0 opacity-50">
+          <div className="absolute -right-10 top-10 h-64 w-64 rounded-full bg-brand-teal-soft/40 blur-3xl" />
+          <div className="absolute bottom-4 left-6 h-40 w-40 rounded-full bg-brand-teal/20 blur-3xl" />
+        </div>
+      </section>
+
+      {mustEnrol && (
+        <p className="rounded-2xl border border-amber-200 bg-amber-50 px-5 py-3 text-sm font-medium text-amber-800">
+          Your role requires multi-factor authentication. Set it up below (or
+          enter a code if you already have) to use the dashboard.
+        </p>
+      )}
+
+      <MfaSettings />
+    </div>
+  );
+}
@@ -0,0 +1,386 @@
+"use client";
+
+import { Fragment, useCallback, useEffect, useState } from "react";
+import { ChevronDown, ChevronRight, Download, Filter, Loader2, ShieldAlert, ShieldCheck, X } from "lucide-react";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface AuditEntry {
+  seq: number;
+  id: string;
+  timestamp: string;
+  actor: string;
+  actorRole: string;
+  action: string;
+  target: string;
+  before: unknown;
+  after: unknown;
+  requestId: string | null;
+  ip: string | null;
+  prevHash: string;
+  hash: string;
+}
+
+interface Verification {
+  valid: boolean;
+  entries: number;
+  brokenAt: number | null;
+}
+
+interface Filters {
+  actor: string;
+  action: string;
+  /** yyyy-mm-dd, local time */
+  from: string;
+  to: string;
+}
+
+const PAGE_SIZE = 50;
+
+const EMPTY_FILTERS: Filters = { actor: "", action: "", from: "", to: "" };
+
+const inputClass =
+  "mt-1.5 w-full rounded-xl border border-brand-pewter/30 bg-white px-4 py-2.5 text-sm text-brand-charcoal outline-none transition focus:border-brand-teal focus:ring-2 focus:ring-brand-teal/20";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Gateway query parameters for the filters; dates cover whole local days */
+function filterParams(filters: Filters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.actor.trim()) params.set("actor", filters.actor.trim());
+  if (filters.action.trim()) params.set("action", filters.action.trim());
+  if (filters.from) params.set("from", new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) params.set("to", new Date(`${filters.to}T23:59:59.999`).toISOString());
+  return params;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function formatValue(value: unknown): string {
+  return value === undefined ? "—" : JSON.stringify(value);
+}
+
+/** Fields whose value differs between before and after */
+function changedFields(before: unknown, after: unknown): { field: string; before: unknown; after: unknown }[] {
+  if (!isRecord(before) || !isRecord(after)) return [];
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+  return fields
+    .filter((field) => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map((field) => ({ field, before: before[field], after: after[field] }));
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+export function AuditLog() {
+  const [draft, setDraft] = useState<Filters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [nextBefore, setNextBefore] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState("");
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const [verification, setVerification] = useState<Verification | null>(null);
+
+  // -----------------------------------------------------------------------
+  // Fetch entries and verification
+  // -----------------------------------------------------------------------
+
+  const fetchEntries = useCallback(async (before?: number) => {
+    const params = filterParams(filters);
+    params.set("limit", String(PAGE_SIZE));
+    if (before) params.set("before", String(before));
+
+    const res = await fetch(`/api/audit?${params}`);
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error ?? "Failed to load the audit log");
+    return data as { entries: AuditEntry[]; nextBefore: number | null };
+  }, [filters]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    fetchEntries()
+      .then((data) => {
+        if (cancelled) return;
+        setEntries(data.entries);
+        setNextBefore(data.nextBefore);
+        setError("");
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load the audit log");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [fetchEntries]);
+
+  useEffect(() => {
+    fetch("/api/audit?view=verify")
+      .then((res) => (res.ok ? res.json() : null))
+      .then(setVerification)
+      .catch(() => setVerification(null));
+  }, []);
+
+  async function loadMore() {
+    if (!nextBefore) return;
+    setLoadingMore(true);
+    try {
+      const data = await fetchEntries(nextBefore);
+      setEntries((current) => [...current, ...data.entries]);
+      setNextBefore(data.nextBefore);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load the audit log");
+    } finally {
+      setLoadingMore(false);
+    }
+  }
+
+  function applyFilters(e: React.FormEvent) {
+    e.preventDefault();
+    setExpanded(null);
+    setFilters(draft);
+  }
+
+  function clearFilters() {
+    setExpanded(null);
+    setDraft(EMPTY_FILTERS);
+    setFilters(EMPTY_FILTERS);
+  }
+
+  function exportHref(format: "csv" | "json") {
+    const params = filterParams(filters);
+    params.set("view", "export");
+    params.set("format", format);
+    return `/api/audit?${params}`;
+  }
+
+  // -----------------------------------------------------------------------
+  // Render
+  // -----------------------------------------------------------------------
+
+  return (
+    <section className="rounded-3xl border border-brand-pewter/20 bg-white/90 p-8 shadow-card">
+      {/* Header row */}
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-[0.45em] text-brand-pewter">
+            Audit
+          </p>
+          <h2 className="mt-2 text-2xl font-semibold text-brand-charcoal">Privileged actions</h2>
+          {verification && (
+            verification.valid ? (
+              <p className="mt-2 inline-flex items-center gap-1.5 text-xs font-medium text-emerald-700">
+                <ShieldCheck className="h-4 w-4" />
+                Hash chain intact ({verification.entries} entr{verification.entries === 1 ? "y" : "ies"})
+              </p>
+            ) : (
+              <p className="mt-2 inline-flex items-center gap-1.5 text-xs font-semibold text-red-700">
+                <ShieldAlert className="h-4 w-4" />
+                Hash chain broken at entry #{verification.brokenAt} &mdash; the log has been altered
+              </p>
+            )
+          )}
+        </div>
+        <div className="flex gap-2">
+          {(["csv", "json"] as const).map((format) => (
+            <a
+              key={format}
+              href={exportHref(format)}
+              className="inline-flex items-center gap-2 rounded-xl border border-brand-pewter/30 px-4 py-2 text-sm font-medium text-brand-pewter transition hover:text-brand-charcoal"
+            >
+              <Download className="h-4 w-4" />
+              {format.toUpperCase()}
+            </a>
+          ))}
+        </div>
+      </div>
+
+      {/* Filters */}
+      <form
+        onSubmit={applyFilters}
+        className="mt-6 grid gap-4 rounded-2xl border border-brand-pewter/20 bg-brand-mist/30 p-6 sm:grid-cols-2 lg:grid-cols-5"
+      >
+        <div>
+          <label className="block text-xs font-semibold uppercase tracking-wide text-brand-pewter">Actor</label>
+          <input
+            value={draft.actor}
+            onChange={(e) => setDraft((f) => ({ ...f, actor: e.target.value }))}
+            className={inputClass}
+            placeholder="user@example.com"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-semibold uppercase tracking-wide text-brand-pewter">Action</label>
+          <input
+            value={draft.action}
+            onChange={(e) => setDraft((f) => ({ ...f, action: e.target.value }))}
+            className={inputClass}
+            placeholder="container, user.update"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-semibold uppercase tracking-wide text-brand-pewter">From</label>
+          <input
+            type="date"
+            value={draft.from}
+            onChange={(e) => setDraft((f) => ({ ...f, from: e.target.value }))}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-semibold uppercase tracking-wide text-brand-pewter">To</label>
+          <input
+            type="date"
+            value={draft.to}
+            onChange={(e) => setDraft((f) => ({ ...f, to: e.target.value }))}
+            className={inputClass}
+          />
+        </div>
+        <div className="flex items-end gap-2">
+          <button
+            type="submit"
+            className="inline-flex items-center gap-2 rounded-xl bg-brand-teal px-4 py-2.5 text-sm font-semibold text-white transition hover:bg-brand-teal-deep"
+          >
+            <Filter className="h-4 w-4" />
+            Apply
+          </button>
+          <button
+            type="button"
+            onClick={clearFilters}
+            className="inline-flex items-center gap-2 rounded-xl border border-brand-pewter/30 px-3 py-2.5 text-sm font-medium text-brand-pewter transition hover:text-brand-charcoal"
+            aria-label="Clear filters"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      </form>
+
+      {error && (
+        <p className="mt-4 rounded-lg bg-red-50 px-3 py-2 text-sm font-medium text-red-700">{error}</p>
+      )}
+
+      {/* Entries table */}
+      {loading ? (
+        <div className="flex items-center justify-center py-20">
+          <Loader2 className="h-6 w-6 animate-spin text-brand-teal" />
+        </div>
+      ) : (
+        <div className="mt-6 overflow-hidden rounded-2xl border border-brand-pewter/20">
+          <table className="w-full text-left text-sm">
+            <thead>
+              <tr className="border-b border-brand-pewter/20 bg-brand-mist/40">
+                <th className="w-8 px-3 py-3" />
+                {["Time", "Actor", "Action", "Target"].map((heading) => (
+                  <th key={heading} className="px-5 py-3 font-semibold uppercase tracking-wider text-brand-pewter text-xs">
+                    {heading}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {entries.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-5 py-10 text-center text-brand-pewter">
+                    No audit entries match these filters.
+                  </td>
+                </tr>
+              )}
+              {entries.map((entry) => {
+                const isExpanded = expanded === entry.seq;
+                const changes = changedFields(entry.before, entry.after);
+
+                return (
+                  <Fragment key={entry.seq}>
+                    <tr
+                      onClick={() => setExpanded(isExpanded ? null : entry.seq)}
+                      className="cursor-pointer border-b border-brand-pewter/10 transition hover:bg-brand-mist/20"
+                    >
+                      <td className="px-3 py-3 text-brand-pewter">
+                        {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                      </td>
+                      <td className="whitespace-nowrap px-5 py-3 text-brand-pewter">
+                        {new Date(entry.timestamp).toLocaleString()}
+                      </td>
+                      <td className="px-5 py-3">
+                        <span className="font-medium text-brand-charcoal">{entry.actor}</span>
+                        <span className="ml-2 rounded-full bg-brand-mist px-2 py-0.5 text-xs text-brand-pewter">
+                          {entry.actorRole}
+                        </span>
+                      </td>
+                      <td className="px-5 py-3 font-mono text-xs text-brand-charcoal">{entry.action}</td>
+                      <td className="px-5 py-3 font-mono text-xs text-brand-pewter">{entry.target}</td>
+                    </tr>
+                    {isExpanded && (
+                      <tr className="border-b border-brand-pewter/10 bg-brand-mist/20">
+                        <td colSpan={5} className="px-5 py-4">
+                          <dl className="grid gap-x-6 gap-y-1 text-xs text-brand-pewter sm:grid-cols-[auto_1fr]">
+                            <dt className="font-semibold">Entry</dt>
+                            <dd className="font-mono">#{entry.seq} ({entry.id})</dd>
+                            <dt className="font-semibold">Request</dt>
+                            <dd className="font-mono">{entry.requestId ?? "—"}</dd>
+                            <dt className="font-semibold">IP</dt>
+                            <dd className="font-mono">{entry.ip ?? "—"}</dd>
+                            <dt className="font-semibold">Hash</dt>
+                            <dd className="break-all font-mono">{entry.hash}</dd>
+                          </dl>
+
+                          {changes.length > 0 ? (
+                            <table className="mt-4 w-full font-mono text-xs">
+                              <tbody>
+                                {changes.map((change) => (
+                                  <tr key={change.field} className="align-top">
+                                    <td className="py-1 pr-4 font-semibold text-brand-charcoal">{change.field}</td>
+                                    <td className="break-all py-1 pr-4 text-red-700 line-through">{formatValue(change.before)}</td>
+                                    <td className="break-all py-1 text-emerald-700">{formatValue(change.after)}</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          ) : (
+                            <div className="mt-4 grid gap-4 sm:grid-cols-2">
+                              {(["before", "after"] as const).map((side) => (
+                                <div key={side}>
+                                  <p className="text-xs font-semibold uppercase tracking-wide text-brand-pewter">{side}</p>
+                                  <pre className="mt-1 max-h-64 overflow-auto rounded-xl bg-white p-3 text-xs text-brand-charcoal">
+                                    {JSON.stringify(entry[side], null, 2)}
+                                  </pre>
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {nextBefore && !loading && (
+        <div className="mt-4 flex justify-center">
+          <button
+            onClick={loadMore}
+            disabled={loadingMore}
+            className="inline-flex items-center gap-2 rounded-xl border border-brand-pewter/30 px-4 py-2 text-sm font-medium text-brand-pewter transition hover:text-brand-charcoal disabled:opacity-60"
+          >
+            {loadingMore && <Loader2 className="h-4 w-4 animate-spin" />}
+            Load more
+          </button>
+        </div>
+      )}
+    </section>
+  );
+}
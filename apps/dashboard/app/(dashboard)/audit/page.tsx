@@ -0,0 +1,35 @@
+import { redirect } from "next/navigation";
+import { requirePermission } from "@/lib/auth-helpers";
+import { AuditLog } from "./audit-log";
+
+export default async function AuditPage() {
+  const session = await requirePermission("audit:read");
+  if (!session) redirect("/");
+
+  return (
+    <div className="mx-auto flex max-w-6xl flex-col gap-8">
+      {/* Hero */}
+      <section className="relative overflow-hidden rounded-3xl border border-brand-pewter/20 bg-gradient-to-br from-brand-parchment via-white to-brand-mist px-10 py-12 text-brand-charcoal shadow-card">
+        <div className="relative z-10 flex flex-col items-center gap-4 text-center">
+          <p className="text-xs uppercase tracking-[0.45em] text-brand-pewter">
+            Administration
+          </p>
+          <h1 className="text-4xl font-semibold leading-tight">
+            Audit Log
+          </h1>
+          <p className="max-w-xl text-sm text-brand-pewter">
+            Every privileged action&nbsp;&mdash; container control, schedules,
+            API keys and user changes&nbsp;&mdash; in a tamper-evident hash chain.
+          </p>
+        </div>
+        <div className="pointer-events-none absolute inset-0 opacity-50">
+          <div className="absolute -right-10 top-10 h-64 w-64 rounded-full bg-brand-teal-soft/40 blur-3xl" />
+          <div className="absolute bottom-4 left-6 h-40 w-40 rounded-full bg-brand-teal/20 blur-3xl" />
+        </div>
+      </section>
+
+      {/* Filters, entries and export (client component) */}
+      <AuditLog />
+    </div>
+  );
+}
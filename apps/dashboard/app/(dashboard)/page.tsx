@@ -1,7 +1,7 @@
 import { FileText, Workflow } from "lucide-react";
 import { serviceUrls, config } from "@/lib/config";
 import { ServiceStatus } from "@/components/service-status";
-import { ContainerControl } from "@/components/container-control";
+import { ContainerGrid } from "@/components/container-grid";
 import { LaunchButton } from "@/components/launch-button";
 
 const workspaces = [
@@ -9,6 +9,7 @@ const workspaces = [
     title: "Document Analysis Tool",
     description: "Use the internal Frazer Walker analysis tool to upload policies and review structured outputs.",
     href: serviceUrls.fwAnalysis,
+    permission: "fw-analysis:launch" as const,
     icon: FileText,
     status: "Launch ready",
     note: config.isProduction ? "Document analysis service" : "Running locally on port 5173"
@@ -17,6 +18,7 @@ const workspaces = [
     title: "BackPro AI Platform",
     description: "Jump into the platform to ingest compliance evidence, spin up RAG agents, and orchestrate audits end to end.",
     href: serviceUrls.backpro,
+    permission: "backpro:launch" as const,
     icon: Workflow,
     status: "Preview",
     note: config.isProduction ? "BackPro AI platform" : "Start with: cd fw_frontend && npm run dev"
@@ -29,8 +31,8 @@ export default function DashboardPage() {
       {/* Service Status Panel */}
       <ServiceStatus />
 
-      {/* Document Processor Control (admin only) */}
-      <ContainerControl />
+      {/* Container App Controls (container:read) */}
+      <ContainerGrid />
 
       {/* Hero Section */}
       <section className="relative overflow-hidden rounded-3xl border border-brand-pewter/20 bg-gradient-to-br from-brand-parchment via-white to-brand-mist px-10 py-12 text-brand-charcoal shadow-card">
@@ -70,7 +72,7 @@ export default function DashboardPage() {
               <p className="mt-4 text-xs font-medium uppercase tracking-[0.35em] text-brand-pewter">
                 {workspace.note}
               </p>
-              <LaunchButton href={workspace.href} />
+              <LaunchButton href={workspace.href} permission={workspace.permission} />
             </article>
           ))}
         </div>
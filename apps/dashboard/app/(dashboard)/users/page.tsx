@@ -1,9 +1,9 @@
 import { redirect } from "next/navigation";
-import { requireRole } from "@/lib/auth-helpers";
+import { requirePermission } from "@/lib/auth-helpers";
 import { UserManagement } from "./user-management";
 
 export default async function UsersPage() {
-  const session = await requireRole("admin");
+  const session = await requirePermission("users:manage");
   if (!session) redirect("/");
 
   return (
@@ -18,8 +18,9 @@ export default async function UsersPage() {
             User Management
           </h1>
           <p className="max-w-xl text-sm text-brand-pewter">
-            Add, edit, and remove dashboard users. Changes take effect
-            immediately&nbsp;&mdash; no redeployment required.
+            Add, edit, and remove dashboard users and the roles that grant
+            their permissions. Changes take effect immediately&nbsp;&mdash; no
+            redeployment required.
           </p>
         </div>
         <div className="pointer-events-none absolute inset-0 opacity-50">
@@ -0,0 +1,346 @@
+"use client";
+
+import { useState } from "react";
+import { Check, Loader2, Lock, Pencil, Plus, ShieldCheck, Trash2, X } from "lucide-react";
+import { PERMISSION_LABELS, PERMISSIONS, roleLabel, type Permission, type Role } from "@/lib/permissions";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface Props {
+  roles: Role[];
+  users: { role: string }[];
+  onChanged: () => Promise<void>;
+}
+
+interface RoleForm {
+  name: string;
+  description: string;
+  permissions: Permission[];
+  requireMfa: boolean;
+}
+
+const EMPTY_FORM: RoleForm = { name: "", description: "", permissions: [], requireMfa: false };
+
+const inputClass =
+  "mt-1.5 w-full rounded-xl border border-brand-pewter/30 bg-white px-4 py-2.5 text-sm text-brand-charcoal outline-none transition focus:border-brand-teal focus:ring-2 focus:ring-brand-teal/20";
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+/**
+ * Built-in and custom roles with their permissions. Built-in roles are
+ * read-only; custom roles can be created, edited and, once no user holds
+ * them, deleted.
+ */
+export function RoleManagement({ roles, users, onChanged }: Props) {
+  // null: closed, "": creating, otherwise the role being edited
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<RoleForm>(EMPTY_FORM);
+  const [formError, setFormError] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [deletingName, setDeletingName] = useState<string | null>(null);
+
+  function startCreate() {
+    setEditing("");
+    setForm(EMPTY_FORM);
+    setFormError("");
+  }
+
+  function startEdit(role: Role) {
+    setEditing(role.name);
+    setForm({ name: role.name, description: role.description, permissions: role.permissions, requireMfa: role.requireMfa });
+    setFormError("");
+  }
+
+  function togglePermission(permission: Permission) {
+    setForm((f) => ({
+      ...f,
+      permissions: f.permissions.includes(permission)
+        ? f.permissions.filter((p) => p !== permission)
+        : [...f.permissions, permission],
+    }));
+  }
+
+  // -----------------------------------------------------------------------
+  // Save / delete
+  // -----------------------------------------------------------------------
+
+  async function handleSave(e: React.FormEvent) {
+    e.preventDefault();
+    setFormError("");
+    setSaving(true);
+    try {
+      const creating = editing === "";
+      const res = await fetch(creating ? "/api/roles" : `/api/roles/${encodeURIComponent(editing ?? "")}`, {
+        method: creating ? "POST" : "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(
+          creating
+            ? form
+            : { description: form.description, permissions: form.permissions, requireMfa: form.requireMfa }
+        ),
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error ?? "Failed to save role");
+      }
+      setEditing(null);
+      await onChanged();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : "Failed to save role");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDelete(name: string) {
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/roles/${encodeURIComponent(name)}`, { method: "DELETE" });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error ?? "Failed to delete role");
+      }
+      await onChanged();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to delete role");
+    } finally {
+      setDeletingName(null);
+      setSaving(false);
+    }
+  }
+
+  // -----------------------------------------------------------------------
+  // Render
+  // -----------------------------------------------------------------------
+
+  return (
+    <section className="rounded-3xl border border-brand-pewter/20 bg-white/90 p-8 shadow-card">
+      {/* Header row */}
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-[0.45em] text-brand-pewter">
+            Roles
+          </p>
+          <h2 className="mt-2 text-2xl font-semibold text-brand-charcoal">
+            Roles &amp; permissions
+          </h2>
+        </div>
+        <button
+          onClick={startCreate}
+          className="inline-flex items-center gap-2 rounded-2xl bg-brand-teal px-4 py-2 text-sm font-semibold text-white transition hover:bg-brand-teal-deep"
+        >
+          <Plus className="h-4 w-4" />
+          Add Role
+        </button>
+      </div>
+
+      {/* Create / edit form */}
+      {editing !== null && (
+        <form
+          onSubmit={handleSave}
+          className="mt-6 rounded-2xl border border-brand-pewter/20 bg-brand-mist/30 p-6"
+        >
+          <h3 className="text-sm font-semibold text-brand-charcoal">
+            {editing === "" ? "New Role" : `Editing ${roleLabel(editing)}`}
+          </h3>
+          <div className="mt-4 grid gap-4 sm:grid-cols-2">
+            <div>
+              <label className="block text-xs font-semibold uppercase tracking-wide text-brand-pewter">
+                Name
+              </label>
+              <input
+                required
+                pattern="[a-z][a-z0-9\-]{1,31}"
+                value={form.name}
+                disabled={editing !== ""}
+                onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))}
+                className={`${inputClass} disabled:opacity-50`}
+                placeholder="release-manager"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-semibold uppercase tracking-wide text-brand-pewter">
+                Description
+              </label>
+              <input
+                maxLength={200}
+                value={form.description}
+                onChange={(e) => setForm((f) => ({ ...f, description: e.target.value }))}
+                className={inputClass}
+                placeholder="What this role is for"
+              />
+            </div>
+          </div>
+
+          <fieldset className="mt-4">
+            <legend className="text-xs font-semibold uppercase tracking-wide text-brand-pewter">
+              Permissions
+            </legend>
+            <div className="mt-2 grid gap-2 sm:grid-cols-2">
+              {PERMISSIONS.map((permission) => (
+                <label key={permission} className="flex items-start gap-2 text-sm text-brand-charcoal">
+                  <input
+                    type="checkbox"
+                    checked={form.permissions.includes(permission)}
+                    onChange={() => togglePermission(permission)}
+                    className="mt-0.5 accent-brand-teal"
+                  />
+                  <span>
+                    {PERMISSION_LABELS[permission]}
+                    <span className="ml-1.5 font-mono text-xs text-brand-pewter">{permission}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <label className="mt-4 flex items-start gap-2 text-sm text-brand-charcoal">
+            <input
+              type="checkbox"
+              checked={form.requireMfa}
+              onChange={(e) => setForm((f) => ({ ...f, requireMfa: e.target.checked }))}
+              className="mt-0.5 accent-brand-teal"
+            />
+            <span>
+              Require multi-factor authentication
+              <span className="block text-xs text-brand-pewter">
+                Password users with this role must set up an authenticator app before using the dashboard.
+              </span>
+            </span>
+          </label>
+
+          {formError && (
+            <p className="mt-3 rounded-lg bg-red-50 px-3 py-2 text-sm font-medium text-red-700">
+              {formError}
+            </p>
+          )}
+
+          <div className="mt-4 flex gap-3">
+            <button
+              type="submit"
+              disabled={saving}
+              className="inline-flex items-center gap-2 rounded-xl bg-brand-teal px-4 py-2 text-sm font-semibold text-white transition hover:bg-brand-teal-deep disabled:opacity-60"
+            >
+              {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+              {editing === "" ? "Create Role" : "Save"}
+            </button>
+            <button
+              type="button"
+              onClick={() => setEditing(null)}
+              className="inline-flex items-center gap-2 rounded-xl border border-brand-pewter/30 px-4 py-2 text-sm font-medium text-brand-pewter transition hover:text-brand-charcoal"
+            >
+              <X className="h-4 w-4" />
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Roles table */}
+      <div className="mt-6 overflow-hidden rounded-2xl border border-brand-pewter/20">
+        <table className="w-full text-left text-sm">
+          <thead>
+            <tr className="border-b border-brand-pewter/20 bg-brand-mist/40">
+              {["Role", "Permissions", "Users"].map((heading) => (
+                <th key={heading} className="px-5 py-3 font-semibold uppercase tracking-wider text-brand-pewter text-xs">
+                  {heading}
+                </th>
+              ))}
+              <th className="px-5 py-3 text-right font-semibold uppercase tracking-wider text-brand-pewter text-xs">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {roles.map((role) => {
+              const holders = users.filter((user) => user.role === role.name).length;
+
+              return (
+                <tr key={role.name} className="border-b border-brand-pewter/10 align-top last:border-b-0">
+                  <td className="px-5 py-3">
+                    <p className="font-medium text-brand-charcoal">
+                      {roleLabel(role.name)}
+                      {role.requireMfa && (
+                        <span title="Requires MFA">
+                          <ShieldCheck className="ml-1.5 inline h-4 w-4 text-brand-teal" aria-label="Requires MFA" />
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-xs text-brand-pewter">{role.description}</p>
+                  </td>
+                  <td className="px-5 py-3">
+                    <div className="flex flex-wrap gap-1">
+                      {role.permissions.length === 0 && <span className="text-xs text-brand-pewter">None</span>}
+                      {role.permissions.map((permission) => (
+                        <span
+                          key={permission}
+                          title={PERMISSION_LABELS[permission]}
+                          className="rounded-full bg-brand-mist px-2 py-0.5 font-mono text-xs text-brand-pewter"
+                        >
+                          {permission}
+                        </span>
+                      ))}
+                    </div>
+                  </td>
+                  <td className="px-5 py-3 text-brand-pewter">{holders}</td>
+                  <td className="px-5 py-3 text-right">
+                    {role.builtIn ? (
+                      <span className="inline-flex items-center gap-1 text-xs text-brand-pewter" title="Built-in roles cannot be changed">
+                        <Lock className="h-3.5 w-3.5" />
+                        Built-in
+                      </span>
+                    ) : (
+                      <div className="flex items-center justify-end gap-2">
+                        <button
+                          onClick={() => startEdit(role)}
+                          className="rounded-lg border border-brand-pewter/30 p-1.5 text-brand-pewter transition hover:border-brand-teal hover:text-brand-teal"
+                          aria-label={`Edit ${role.name}`}
+                        >
+                          <Pencil className="h-3.5 w-3.5" />
+                        </button>
+                        {deletingName === role.name ? (
+                          <div className="flex items-center gap-1">
+                            <span className="text-xs text-red-600">Delete?</span>
+                            <button
+                              onClick={() => handleDelete(role.name)}
+                              disabled={saving}
+                              className="rounded-lg border border-red-300 p-1.5 text-red-600 transition hover:bg-red-50"
+                              aria-label="Confirm delete"
+                            >
+                              {saving ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Check className="h-3.5 w-3.5" />}
+                            </button>
+                            <button
+                              onClick={() => setDeletingName(null)}
+                              className="rounded-lg border border-brand-pewter/30 p-1.5 text-brand-pewter transition hover:text-brand-charcoal"
+                              aria-label="Cancel delete"
+                            >
+                              <X className="h-3.5 w-3.5" />
+                            </button>
+                          </div>
+                        ) : (
+                          <button
+                            onClick={() => setDeletingName(role.name)}
+                            disabled={holders > 0}
+                            title={holders > 0 ? "Reassign its users first" : undefined}
+                            className="rounded-lg border border-brand-pewter/30 p-1.5 text-brand-pewter transition hover:border-red-300 hover:text-red-600 disabled:cursor-not-allowed disabled:opacity-30"
+                            aria-label={`Delete ${role.name}`}
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </button>
+                        )}
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
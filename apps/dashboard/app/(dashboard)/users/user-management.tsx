@@ -1,7 +1,9 @@
 "use client";
 
 import { useCallback, useEffect, useState } from "react";
-import { Loader2, Plus, Pencil, Trash2, X, Check } from "lucide-react";
+import { Loader2, Plus, Pencil, Trash2, X, Check, Lock, LockOpen, ShieldCheck, ShieldOff } from "lucide-react";
+import { roleLabel, type Role } from "@/lib/permissions";
+import { RoleManagement } from "./role-management";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -9,7 +11,13 @@ import { Loader2, Plus, Pencil, Trash2, X, Check } from "lucide-react";
 
 interface SafeUser {
   email: string;
-  role: "admin" | "viewer";
+  role: string;
+  provider?: "entra";
+  /** Entra object ID Microsoft sign-in opens this account with */
+  ssoSubject?: string;
+  mfaEnabled: boolean;
+  /** Set while sign-in is locked after repeated failures */
+  lockedUntil: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -24,18 +32,19 @@ interface Props {
 
 export function UserManagement({ currentEmail }: Props) {
   const [users, setUsers] = useState<SafeUser[]>([]);
+  const [roles, setRoles] = useState<Role[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState("");
 
   // Add form
   const [showAdd, setShowAdd] = useState(false);
-  const [addForm, setAddForm] = useState({ email: "", password: "", confirm: "", role: "viewer" as "admin" | "viewer" });
+  const [addForm, setAddForm] = useState({ email: "", password: "", confirm: "", role: "viewer" });
   const [addError, setAddError] = useState("");
   const [addLoading, setAddLoading] = useState(false);
 
   // Edit state
   const [editingEmail, setEditingEmail] = useState<string | null>(null);
-  const [editForm, setEditForm] = useState({ role: "viewer" as "admin" | "viewer", password: "", confirm: "" });
+  const [editForm, setEditForm] = useState({ role: "viewer", password: "", confirm: "", ssoSubject: "" });
   const [editError, setEditError] = useState("");
   const [editLoading, setEditLoading] = useState(false);
 
@@ -43,6 +52,13 @@ export function UserManagement({ currentEmail }: Props) {
   const [deletingEmail, setDeletingEmail] = useState<string | null>(null);
   const [deleteLoading, setDeleteLoading] = useState(false);
 
+  // MFA reset state
+  const [resettingEmail, setResettingEmail] = useState<string | null>(null);
+  const [resetLoading, setResetLoading] = useState(false);
+
+  // Unlock state
+  const [unlockingEmail, setUnlockingEmail] = useState<string | null>(null);
+
   // -----------------------------------------------------------------------
   // Fetch users
   // -----------------------------------------------------------------------
@@ -62,7 +78,18 @@ export function UserManagement({ currentEmail }: Props) {
     }
   }, []);
 
+  const fetchRoles = useCallback(async () => {
+    try {
+      const res = await fetch("/api/roles");
+      if (!res.ok) throw new Error("Failed to fetch roles");
+      setRoles(await res.json());
+    } catch {
+      setError("Could not load roles.");
+    }
+  }, []);
+
   useEffect(() => { fetchUsers(); }, [fetchUsers]);
+  useEffect(() => { fetchRoles(); }, [fetchRoles]);
 
   // -----------------------------------------------------------------------
   // Add user
@@ -104,7 +131,7 @@ export function UserManagement({ currentEmail }: Props) {
 
   function startEdit(user: SafeUser) {
     setEditingEmail(user.email);
-    setEditForm({ role: user.role, password: "", confirm: "" });
+    setEditForm({ role: user.role, password: "", confirm: "", ssoSubject: user.ssoSubject ?? "" });
     setEditError("");
   }
 
@@ -120,8 +147,11 @@ export function UserManagement({ currentEmail }: Props) {
 
     setEditLoading(true);
     try {
-      const body: Record<string, string> = { role: editForm.role };
+      const body: Record<string, string | null> = { role: editForm.role };
       if (editForm.password) body.password = editForm.password;
+      const ssoSubject = editForm.ssoSubject.trim();
+      const current = users.find((user) => user.email === editingEmail)?.ssoSubject ?? "";
+      if (ssoSubject !== current) body.ssoSubject = ssoSubject || null;
 
       const res = await fetch(`/api/users/${encodeURIComponent(editingEmail)}`, {
         method: "PATCH",
@@ -163,6 +193,47 @@ export function UserManagement({ currentEmail }: Props) {
     }
   }
 
+  // -----------------------------------------------------------------------
+  // Reset MFA
+  // -----------------------------------------------------------------------
+
+  async function handleResetMfa(email: string) {
+    setResetLoading(true);
+    try {
+      const res = await fetch(`/api/users/${encodeURIComponent(email)}/mfa`, { method: "DELETE" });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error ?? "Failed to reset MFA");
+      }
+      await fetchUsers();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to reset MFA");
+    } finally {
+      setResettingEmail(null);
+      setResetLoading(false);
+    }
+  }
+
+  // -----------------------------------------------------------------------
+  // Unlock
+  // -----------------------------------------------------------------------
+
+  async function handleUnlock(email: string) {
+    setUnlockingEmail(email);
+    try {
+      const res = await fetch(`/api/users/${encodeURIComponent(email)}/lock`, { method: "DELETE" });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error ?? "Failed to unlock user");
+      }
+      await fetchUsers();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to unlock user");
+    } finally {
+      setUnlockingEmail(null);
+    }
+  }
+
   // -----------------------------------------------------------------------
   // Render
   // -----------------------------------------------------------------------
@@ -184,303 +255,409 @@ export function UserManagement({ currentEmail }: Props) {
   }
 
   return (
-    <section className="rounded-3xl border border-brand-pewter/20 bg-white/90 p-8 shadow-card">
-      {/* Header row */}
-      <div className="flex items-center justify-between">
-        <div>
-          <p className="text-xs font-semibold uppercase tracking-[0.45em] text-brand-pewter">
-            Users
-          </p>
-          <h2 className="mt-2 text-2xl font-semibold text-brand-charcoal">
-            {users.length} registered user{users.length !== 1 ? "s" : ""}
-          </h2>
+    <>
+      <section className="rounded-3xl border border-brand-pewter/20 bg-white/90 p-8 shadow-card">
+        {/* Header row */}
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-xs font-semibold uppercase tracking-[0.45em] text-brand-pewter">
+              Users
+            </p>
+            <h2 className="mt-2 text-2xl font-semibold text-brand-charcoal">
+              {users.length} registered user{users.length !== 1 ? "s" : ""}
+            </h2>
+          </div>
+          <button
+            onClick={() => { setShowAdd(true); setAddError(""); }}
+            className="inline-flex items-center gap-2 rounded-2xl bg-brand-teal px-4 py-2 text-sm font-semibold text-white transition hover:bg-brand-teal-deep"
+          >
+            <Plus className="h-4 w-4" />
+            Add User
+          </button>
         </div>
-        <button
-          onClick={() => { setShowAdd(true); setAddError(""); }}
-          className="inline-flex items-center gap-2 rounded-2xl bg-brand-teal px-4 py-2 text-sm font-semibold text-white transition hover:bg-brand-teal-deep"
-        >
-          <Plus className="h-4 w-4" />
-          Add User
-        </button>
-      </div>
 
-      {/* Add user form */}
-      {showAdd && (
-        <form
-          onSubmit={handleAdd}
-          className="mt-6 rounded-2xl border border-brand-pewter/20 bg-brand-mist/30 p-6"
-        >
-          <h3 className="text-sm font-semibold text-brand-charcoal">New User</h3>
-          <div className="mt-4 grid gap-4 sm:grid-cols-2">
-            <div>
-              <label className="block text-xs font-semibold uppercase tracking-wide text-brand-pewter">
-                Email
-              </label>
-              <input
-                type="email"
-                required
-                value={addForm.email}
-                onChange={(e) => setAddForm((f) => ({ ...f, email: e.target.value }))}
-                className="mt-1.5 w-full rounded-xl border border-brand-pewter/30 bg-white px-4 py-2.5 text-sm text-brand-charcoal outline-none transition focus:border-brand-teal focus:ring-2 focus:ring-brand-teal/20"
-                placeholder="user@example.com"
-              />
+        {/* Add user form */}
+        {showAdd && (
+          <form
+            onSubmit={handleAdd}
+            className="mt-6 rounded-2xl border border-brand-pewter/20 bg-brand-mist/30 p-6"
+          >
+            <h3 className="text-sm font-semibold text-brand-charcoal">New User</h3>
+            <div className="mt-4 grid gap-4 sm:grid-cols-2">
+              <div>
+                <label className="block text-xs font-semibold uppercase tracking-wide text-brand-pewter">
+                  Email
+                </label>
+                <input
+                  type="email"
+                  required
+                  value={addForm.email}
+                  onChange={(e) => setAddForm((f) => ({ ...f, email: e.target.value }))}
+                  className="mt-1.5 w-full rounded-xl border border-brand-pewter/30 bg-white px-4 py-2.5 text-sm text-brand-charcoal outline-none transition focus:border-brand-teal focus:ring-2 focus:ring-brand-teal/20"
+                  placeholder="user@example.com"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-semibold uppercase tracking-wide text-brand-pewter">
+                  Role
+                </label>
+                <select
+                  value={addForm.role}
+                  onChange={(e) => setAddForm((f) => ({ ...f, role: e.target.value }))}
+                  className="mt-1.5 w-full rounded-xl border border-brand-pewter/30 bg-white px-4 py-2.5 text-sm text-brand-charcoal outline-none transition focus:border-brand-teal focus:ring-2 focus:ring-brand-teal/20"
+                >
+                  {roles.map((role) => (
+                    <option key={role.name} value={role.name}>{roleLabel(role.name)}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-semibold uppercase tracking-wide text-brand-pewter">
+                  Password
+                </label>
+                <input
+                  type="password"
+                  required
+                  minLength={8}
+                  value={addForm.password}
+                  onChange={(e) => setAddForm((f) => ({ ...f, password: e.target.value }))}
+                  className="mt-1.5 w-full rounded-xl border border-brand-pewter/30 bg-white px-4 py-2.5 text-sm text-brand-charcoal outline-none transition focus:border-brand-teal focus:ring-2 focus:ring-brand-teal/20"
+                  placeholder="Min 8 characters"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-semibold uppercase tracking-wide text-brand-pewter">
+                  Confirm Password
+                </label>
+                <input
+                  type="password"
+                  required
+                  minLength={8}
+                  value={addForm.confirm}
+                  onChange={(e) => setAddForm((f) => ({ ...f, confirm: e.target.value }))}
+                  className="mt-1.5 w-full rounded-xl border border-brand-pewter/30 bg-white px-4 py-2.5 text-sm text-brand-charcoal outline-none transition focus:border-brand-teal focus:ring-2 focus:ring-brand-teal/20"
+                  placeholder="Repeat password"
+                />
+              </div>
             </div>
-            <div>
-              <label className="block text-xs font-semibold uppercase tracking-wide text-brand-pewter">
-                Role
-              </label>
-              <select
-                value={addForm.role}
-                onChange={(e) => setAddForm((f) => ({ ...f, role: e.target.value as "admin" | "viewer" }))}
-                className="mt-1.5 w-full rounded-xl border border-brand-pewter/30 bg-white px-4 py-2.5 text-sm text-brand-charcoal outline-none transition focus:border-brand-teal focus:ring-2 focus:ring-brand-teal/20"
+
+            {addError && (
+              <p className="mt-3 rounded-lg bg-red-50 px-3 py-2 text-sm font-medium text-red-700">
+                {addError}
+              </p>
+            )}
+
+            <div className="mt-4 flex gap-3">
+              <button
+                type="submit"
+                disabled={addLoading}
+                className="inline-flex items-center gap-2 rounded-xl bg-brand-teal px-4 py-2 text-sm font-semibold text-white transition hover:bg-brand-teal-deep disabled:opacity-60"
               >
-                <option value="viewer">Viewer</option>
-                <option value="admin">Admin</option>
-              </select>
-            </div>
-            <div>
-              <label className="block text-xs font-semibold uppercase tracking-wide text-brand-pewter">
-                Password
-              </label>
-              <input
-                type="password"
-                required
-                minLength={8}
-                value={addForm.password}
-                onChange={(e) => setAddForm((f) => ({ ...f, password: e.target.value }))}
-                className="mt-1.5 w-full rounded-xl border border-brand-pewter/30 bg-white px-4 py-2.5 text-sm text-brand-charcoal outline-none transition focus:border-brand-teal focus:ring-2 focus:ring-brand-teal/20"
-                placeholder="Min 8 characters"
-              />
-            </div>
-            <div>
-              <label className="block text-xs font-semibold uppercase tracking-wide text-brand-pewter">
-                Confirm Password
-              </label>
-              <input
-                type="password"
-                required
-                minLength={8}
-                value={addForm.confirm}
-                onChange={(e) => setAddForm((f) => ({ ...f, confirm: e.target.value }))}
-                className="mt-1.5 w-full rounded-xl border border-brand-pewter/30 bg-white px-4 py-2.5 text-sm text-brand-charcoal outline-none transition focus:border-brand-teal focus:ring-2 focus:ring-brand-teal/20"
-                placeholder="Repeat password"
-              />
+                {addLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+                Create User
+              </button>
+              <button
+                type="button"
+                onClick={() => setShowAdd(false)}
+                className="inline-flex items-center gap-2 rounded-xl border border-brand-pewter/30 px-4 py-2 text-sm font-medium text-brand-pewter transition hover:text-brand-charcoal"
+              >
+                <X className="h-4 w-4" />
+                Cancel
+              </button>
             </div>
-          </div>
+          </form>
+        )}
+
+        {/* Users table */}
+        <div className="mt-6 overflow-hidden rounded-2xl border border-brand-pewter/20">
+          <table className="w-full text-left text-sm">
+            <thead>
+              <tr className="border-b border-brand-pewter/20 bg-brand-mist/40">
+                <th className="px-5 py-3 font-semibold uppercase tracking-wider text-brand-pewter text-xs">
+                  Email
+                </th>
+                <th className="px-5 py-3 font-semibold uppercase tracking-wider text-brand-pewter text-xs">
+                  Role
+                </th>
+                <th className="px-5 py-3 font-semibold uppercase tracking-wider text-brand-pewter text-xs">
+                  Created
+                </th>
+                <th className="px-5 py-3 text-right font-semibold uppercase tracking-wider text-brand-pewter text-xs">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {users.map((user) => {
+                const isSelf = user.email.toLowerCase() === currentEmail.toLowerCase();
+                const isEditing = editingEmail === user.email;
+
+                if (isEditing) {
+                  return (
+                    <tr key={user.email} className="border-b border-brand-pewter/10 bg-brand-mist/20">
+                      <td colSpan={4} className="px-5 py-4">
+                        <form onSubmit={handleEdit}>
+                          <h4 className="text-sm font-semibold text-brand-charcoal">
+                            Editing {user.email}
+                          </h4>
+                          <div className="mt-3 grid gap-4 sm:grid-cols-3">
+                            <div>
+                              <label className="block text-xs font-semibold uppercase tracking-wide text-brand-pewter">
+                                Role
+                              </label>
+                              <select
+                                value={editForm.role}
+                                onChange={(e) => setEditForm((f) => ({ ...f, role: e.target.value }))}
+                                disabled={isSelf}
+                                className="mt-1.5 w-full rounded-xl border border-brand-pewter/30 bg-white px-4 py-2.5 text-sm text-brand-charcoal outline-none transition focus:border-brand-teal focus:ring-2 focus:ring-brand-teal/20 disabled:opacity-50"
+                              >
+                                {roles.map((role) => (
+                                  <option key={role.name} value={role.name}>{roleLabel(role.name)}</option>
+                                ))}
+                              </select>
+                            </div>
+                            <div>
+                              <label className="block text-xs font-semibold uppercase tracking-wide text-brand-pewter">
+                                New Password <span className="normal-case tracking-normal">(optional)</span>
+                              </label>
+                              <input
+                                type="password"
+                                minLength={8}
+                                value={editForm.password}
+                                onChange={(e) => setEditForm((f) => ({ ...f, password: e.target.value }))}
+                                className="mt-1.5 w-full rounded-xl border border-brand-pewter/30 bg-white px-4 py-2.5 text-sm text-brand-charcoal outline-none transition focus:border-brand-teal focus:ring-2 focus:ring-brand-teal/20"
+                                placeholder="Leave blank to keep"
+                              />
+                            </div>
+                            <div>
+                              <label className="block text-xs font-semibold uppercase tracking-wide text-brand-pewter">
+                                Confirm Password
+                              </label>
+                              <input
+                                type="password"
+                                minLength={8}
+                                value={editForm.confirm}
+                                onChange={(e) => setEditForm((f) => ({ ...f, confirm: e.target.value }))}
+                                className="mt-1.5 w-full rounded-xl border border-brand-pewter/30 bg-white px-4 py-2.5 text-sm text-brand-charcoal outline-none transition focus:border-brand-teal focus:ring-2 focus:ring-brand-teal/20"
+                                placeholder="Repeat new password"
+                              />
+                            </div>
+                          </div>
 
-          {addError && (
-            <p className="mt-3 rounded-lg bg-red-50 px-3 py-2 text-sm font-medium text-red-700">
-              {addError}
-            </p>
-          )}
-
-          <div className="mt-4 flex gap-3">
-            <button
-              type="submit"
-              disabled={addLoading}
-              className="inline-flex items-center gap-2 rounded-xl bg-brand-teal px-4 py-2 text-sm font-semibold text-white transition hover:bg-brand-teal-deep disabled:opacity-60"
-            >
-              {addLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
-              Create User
-            </button>
-            <button
-              type="button"
-              onClick={() => setShowAdd(false)}
-              className="inline-flex items-center gap-2 rounded-xl border border-brand-pewter/30 px-4 py-2 text-sm font-medium text-brand-pewter transition hover:text-brand-charcoal"
-            >
-              <X className="h-4 w-4" />
-              Cancel
-            </button>
-          </div>
-        </form>
-      )}
-
-      {/* Users table */}
-      <div className="mt-6 overflow-hidden rounded-2xl border border-brand-pewter/20">
-        <table className="w-full text-left text-sm">
-          <thead>
-            <tr className="border-b border-brand-pewter/20 bg-brand-mist/40">
-              <th className="px-5 py-3 font-semibold uppercase tracking-wider text-brand-pewter text-xs">
-                Email
-              </th>
-              <th className="px-5 py-3 font-semibold uppercase tracking-wider text-brand-pewter text-xs">
-                Role
-              </th>
-              <th className="px-5 py-3 font-semibold uppercase tracking-wider text-brand-pewter text-xs">
-                Created
-              </th>
-              <th className="px-5 py-3 text-right font-semibold uppercase tracking-wider text-brand-pewter text-xs">
-                Actions
-              </th>
-            </tr>
-          </thead>
-          <tbody>
-            {users.map((user) => {
-              const isSelf = user.email.toLowerCase() === currentEmail.toLowerCase();
-              const isEditing = editingEmail === user.email;
-
-              if (isEditing) {
-                return (
-                  <tr key={user.email} className="border-b border-brand-pewter/10 bg-brand-mist/20">
-                    <td colSpan={4} className="px-5 py-4">
-                      <form onSubmit={handleEdit}>
-                        <h4 className="text-sm font-semibold text-brand-charcoal">
-                          Editing {user.email}
-                        </h4>
-                        <div className="mt-3 grid gap-4 sm:grid-cols-3">
-                          <div>
-                            <label className="block text-xs font-semibold uppercase tracking-wide text-brand-pewter">
-                              Role
-                            </label>
-                            <select
-                              value={editForm.role}
-                              onChange={(e) => setEditForm((f) => ({ ...f, role: e.target.value as "admin" | "viewer" }))}
-                              disabled={isSelf}
-                              className="mt-1.5 w-full rounded-xl border border-brand-pewter/30 bg-white px-4 py-2.5 text-sm text-brand-charcoal outline-none transition focus:border-brand-teal focus:ring-2 focus:ring-brand-teal/20 disabled:opacity-50"
+                          {user.provider !== "entra" && (
+                            <div className="mt-4">
+                              <label className="block text-xs font-semibold uppercase tracking-wide text-brand-pewter">
+                                Microsoft Object ID <span className="normal-case tracking-normal">(optional)</span>
+                              </label>
+                              <input
+                                value={editForm.ssoSubject}
+                                onChange={(e) => setEditForm((f) => ({ ...f, ssoSubject: e.target.value }))}
+                                className="mt-1.5 w-full rounded-xl border border-brand-pewter/30 bg-white px-4 py-2.5 font-mono text-sm text-brand-charcoal outline-none transition focus:border-brand-teal focus:ring-2 focus:ring-brand-teal/20"
+                                placeholder="Entra ID → Users → Object ID; blank for password sign-in only"
+                              />
+                              <p className="mt-1 text-xs text-brand-pewter">
+                                Lets this person open the account with Microsoft sign-in. Accounts are
+                                never matched on email.
+                              </p>
+                            </div>
+                          )}
+
+                          {editError && (
+                            <p className="mt-3 rounded-lg bg-red-50 px-3 py-2 text-sm font-medium text-red-700">
+                              {editError}
+                            </p>
+                          )}
+
+                          <div className="mt-4 flex gap-3">
+                            <button
+                              type="submit"
+                              disabled={editLoading}
+                              className="inline-flex items-center gap-2 rounded-xl bg-brand-teal px-4 py-2 text-sm font-semibold text-white transition hover:bg-brand-teal-deep disabled:opacity-60"
                             >
-                              <option value="viewer">Viewer</option>
-                              <option value="admin">Admin</option>
-                            </select>
-                          </div>
-                          <div>
-                            <label className="block text-xs font-semibold uppercase tracking-wide text-brand-pewter">
-                              New Password <span className="normal-case tracking-normal">(optional)</span>
-                            </label>
-                            <input
-                              type="password"
-                              minLength={8}
-                              value={editForm.password}
-                              onChange={(e) => setEditForm((f) => ({ ...f, password: e.target.value }))}
-                              className="mt-1.5 w-full rounded-xl border border-brand-pewter/30 bg-white px-4 py-2.5 text-sm text-brand-charcoal outline-none transition focus:border-brand-teal focus:ring-2 focus:ring-brand-teal/20"
-                              placeholder="Leave blank to keep"
-                            />
-                          </div>
-                          <div>
-                            <label className="block text-xs font-semibold uppercase tracking-wide text-brand-pewter">
-                              Confirm Password
-                            </label>
-                            <input
-                              type="password"
-                              minLength={8}
-                              value={editForm.confirm}
-                              onChange={(e) => setEditForm((f) => ({ ...f, confirm: e.target.value }))}
-                              className="mt-1.5 w-full rounded-xl border border-brand-pewter/30 bg-white px-4 py-2.5 text-sm text-brand-charcoal outline-none transition focus:border-brand-teal focus:ring-2 focus:ring-brand-teal/20"
-                              placeholder="Repeat new password"
-                            />
+                              {editLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+                              Save
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => setEditingEmail(null)}
+                              className="inline-flex items-center gap-2 rounded-xl border border-brand-pewter/30 px-4 py-2 text-sm font-medium text-brand-pewter transition hover:text-brand-charcoal"
+                            >
+                              <X className="h-4 w-4" />
+                              Cancel
+                            </button>
                           </div>
-                        </div>
-
-                        {editError && (
-                          <p className="mt-3 rounded-lg bg-red-50 px-3 py-2 text-sm font-medium text-red-700">
-                            {editError}
-                          </p>
-                        )}
+                        </form>
+                      </td>
+                    </tr>
+                  );
+                }
 
-                        <div className="mt-4 flex gap-3">
-                          <button
-                            type="submit"
-                            disabled={editLoading}
-                            className="inline-flex items-center gap-2 rounded-xl bg-brand-teal px-4 py-2 text-sm font-semibold text-white transition hover:bg-brand-teal-deep disabled:opacity-60"
-                          >
-                            {editLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
-                            Save
-                          </button>
-                          <button
-                            type="button"
-                            onClick={() => setEditingEmail(null)}
-                            className="inline-flex items-center gap-2 rounded-xl border border-brand-pewter/30 px-4 py-2 text-sm font-medium text-brand-pewter transition hover:text-brand-charcoal"
-                          >
-                            <X className="h-4 w-4" />
-                            Cancel
-                          </button>
-                        </div>
-                      </form>
+                return (
+                  <tr key={user.email} className="border-b border-brand-pewter/10 last:border-b-0">
+                    <td className="px-5 py-3 font-medium text-brand-charcoal">
+                      {user.email}
+                      {isSelf && (
+                        <span className="ml-2 text-xs text-brand-pewter">(you)</span>
+                      )}
+                      {user.mfaEnabled && (
+                        <span title="MFA enabled">
+                          <ShieldCheck className="ml-2 inline h-4 w-4 text-brand-teal" aria-label="MFA enabled" />
+                        </span>
+                      )}
+                      {user.lockedUntil && (
+                        <span
+                          className="ml-2 inline-flex items-center gap-1 rounded-full bg-red-50 px-2 py-0.5 text-xs font-medium text-red-700"
+                          title="Too many failed sign-in attempts"
+                        >
+                          <Lock className="h-3 w-3" />
+                          Locked until {new Date(user.lockedUntil).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                        </span>
+                      )}
+                      {user.provider === "entra" ? (
+                        <span
+                          className="ml-2 rounded-full bg-brand-mist px-2 py-0.5 text-xs text-brand-pewter"
+                          title="Provisioned by Microsoft sign-in; the role follows their Entra groups"
+                        >
+                          SSO
+                        </span>
+                      ) : user.ssoSubject && (
+                        <span
+                          className="ml-2 rounded-full bg-brand-mist px-2 py-0.5 text-xs text-brand-pewter"
+                          title={`Password account linked to Microsoft account ${user.ssoSubject}`}
+                        >
+                          SSO linked
+                        </span>
+                      )}
                     </td>
-                  </tr>
-                );
-              }
-
-              return (
-                <tr key={user.email} className="border-b border-brand-pewter/10 last:border-b-0">
-                  <td className="px-5 py-3 font-medium text-brand-charcoal">
-                    {user.email}
-                    {isSelf && (
-                      <span className="ml-2 text-xs text-brand-pewter">(you)</span>
-                    )}
-                  </td>
-                  <td className="px-5 py-3">
-                    <span
-                      className={`rounded-full px-2 py-0.5 text-xs font-semibold ${
-                        user.role === "admin"
-                          ? "bg-brand-teal/10 text-brand-teal"
-                          : "bg-brand-pewter/10 text-brand-pewter"
-                      }`}
-                    >
-                      {user.role === "admin" ? "Admin" : "Viewer"}
-                    </span>
-                  </td>
-                  <td className="px-5 py-3 text-brand-pewter">
-                    {new Date(user.createdAt).toLocaleDateString()}
-                  </td>
-                  <td className="px-5 py-3 text-right">
-                    <div className="flex items-center justify-end gap-2">
-                      <button
-                        onClick={() => startEdit(user)}
-                        className="rounded-lg border border-brand-pewter/30 p-1.5 text-brand-pewter transition hover:border-brand-teal hover:text-brand-teal"
-                        aria-label={`Edit ${user.email}`}
+                    <td className="px-5 py-3">
+                      <span
+                        className={`rounded-full px-2 py-0.5 text-xs font-semibold ${
+                          user.role === "admin"
+                            ? "bg-brand-teal/10 text-brand-teal"
+                            : "bg-brand-pewter/10 text-brand-pewter"
+                        }`}
                       >
-                        <Pencil className="h-3.5 w-3.5" />
-                      </button>
+                        {roleLabel(user.role)}
+                      </span>
+                    </td>
+                    <td className="px-5 py-3 text-brand-pewter">
+                      {new Date(user.createdAt).toLocaleDateString()}
+                    </td>
+                    <td className="px-5 py-3 text-right">
+                      <div className="flex items-center justify-end gap-2">
+                        <button
+                          onClick={() => startEdit(user)}
+                          className="rounded-lg border border-brand-pewter/30 p-1.5 text-brand-pewter transition hover:border-brand-teal hover:text-brand-teal"
+                          aria-label={`Edit ${user.email}`}
+                        >
+                          <Pencil className="h-3.5 w-3.5" />
+                        </button>
 
-                      {deletingEmail === user.email ? (
-                        <div className="flex items-center gap-1">
-                          <span className="text-xs text-red-600">Delete?</span>
+                        {user.lockedUntil && (
                           <button
-                            onClick={() => handleDelete(user.email)}
-                            disabled={deleteLoading}
-                            className="rounded-lg border border-red-300 p-1.5 text-red-600 transition hover:bg-red-50"
-                            aria-label="Confirm delete"
+                            onClick={() => handleUnlock(user.email)}
+                            disabled={unlockingEmail === user.email}
+                            title="Unlock now"
+                            className="rounded-lg border border-brand-pewter/30 p-1.5 text-brand-pewter transition hover:border-brand-teal hover:text-brand-teal"
+                            aria-label={`Unlock ${user.email}`}
                           >
-                            {deleteLoading ? (
+                            {unlockingEmail === user.email ? (
                               <Loader2 className="h-3.5 w-3.5 animate-spin" />
                             ) : (
-                              <Check className="h-3.5 w-3.5" />
+                              <LockOpen className="h-3.5 w-3.5" />
                             )}
                           </button>
+                        )}
+
+                        {user.mfaEnabled && !isSelf && (
+                          resettingEmail === user.email ? (
+                            <div className="flex items-center gap-1">
+                              <span className="text-xs text-red-600">Reset MFA?</span>
+                              <button
+                                onClick={() => handleResetMfa(user.email)}
+                                disabled={resetLoading}
+                                className="rounded-lg border border-red-300 p-1.5 text-red-600 transition hover:bg-red-50"
+                                aria-label="Confirm MFA reset"
+                              >
+                                {resetLoading ? (
+                                  <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                                ) : (
+                                  <Check className="h-3.5 w-3.5" />
+                                )}
+                              </button>
+                              <button
+                                onClick={() => setResettingEmail(null)}
+                                className="rounded-lg border border-brand-pewter/30 p-1.5 text-brand-pewter transition hover:text-brand-charcoal"
+                                aria-label="Cancel MFA reset"
+                              >
+                                <X className="h-3.5 w-3.5" />
+                              </button>
+                            </div>
+                          ) : (
+                            <button
+                              onClick={() => setResettingEmail(user.email)}
+                              title="Reset MFA (e.g. a lost phone); they can enrol again at next sign-in"
+                              className="rounded-lg border border-brand-pewter/30 p-1.5 text-brand-pewter transition hover:border-red-300 hover:text-red-600"
+                              aria-label={`Reset MFA for ${user.email}`}
+                            >
+                              <ShieldOff className="h-3.5 w-3.5" />
+                            </button>
+                          )
+                        )}
+
+                        {deletingEmail === user.email ? (
+                          <div className="flex items-center gap-1">
+                            <span className="text-xs text-red-600">Delete?</span>
+                            <button
+                              onClick={() => handleDelete(user.email)}
+                              disabled={deleteLoading}
+                              className="rounded-lg border border-red-300 p-1.5 text-red-600 transition hover:bg-red-50"
+                              aria-label="Confirm delete"
+                            >
+                              {deleteLoading ? (
+                                <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                              ) : (
+                                <Check className="h-3.5 w-3.5" />
+                              )}
+                            </button>
+                            <button
+                              onClick={() => setDeletingEmail(null)}
+                              className="rounded-lg border border-brand-pewter/30 p-1.5 text-brand-pewter transition hover:text-brand-charcoal"
+                              aria-label="Cancel delete"
+                            >
+                              <X className="h-3.5 w-3.5" />
+                            </button>
+                          </div>
+                        ) : (
                           <button
-                            onClick={() => setDeletingEmail(null)}
-                            className="rounded-lg border border-brand-pewter/30 p-1.5 text-brand-pewter transition hover:text-brand-charcoal"
-                            aria-label="Cancel delete"
+                            onClick={() => setDeletingEmail(user.email)}
+                            disabled={isSelf}
+                            className="rounded-lg border border-brand-pewter/30 p-1.5 text-brand-pewter transition hover:border-red-300 hover:text-red-600 disabled:cursor-not-allowed disabled:opacity-30"
+                            aria-label={`Delete ${user.email}`}
                           >
-                            <X className="h-3.5 w-3.5" />
+                            <Trash2 className="h-3.5 w-3.5" />
                           </button>
-                        </div>
-                      ) : (
-                        <button
-                          onClick={() => setDeletingEmail(user.email)}
-                          disabled={isSelf}
-                          className="rounded-lg border border-brand-pewter/30 p-1.5 text-brand-pewter transition hover:border-red-300 hover:text-red-600 disabled:cursor-not-allowed disabled:opacity-30"
-                          aria-label={`Delete ${user.email}`}
-                        >
-                          <Trash2 className="h-3.5 w-3.5" />
-                        </button>
-                      )}
-                    </div>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+
+              {users.length === 0 && (
+                <tr>
+                  <td colSpan={4} className="px-5 py-8 text-center text-brand-pewter">
+                    No users found. Click &ldquo;Add User&rdquo; to create one.
                   </td>
                 </tr>
-              );
-            })}
-
-            {users.length === 0 && (
-              <tr>
-                <td colSpan={4} className="px-5 py-8 text-center text-brand-pewter">
-                  No users found. Click &ldquo;Add User&rdquo; to create one.
-                </td>
-              </tr>
-            )}
-          </tbody>
-        </table>
-      </div>
-    </section>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      {/* Roles and their permissions */}
+      <RoleManagement roles={roles} users={users} onChanged={fetchRoles} />
+    </>
   );
 }
@@ -0,0 +1,130 @@
+import { NextResponse } from "next/server";
+import { getSession } from "@/lib/auth-helpers";
+import { confirmEnrolment, disableMfa, mfaAvailable, mfaStatus, startEnrolment, verifySecondFactor } from "@/lib/mfa";
+import { getUserByEmail } from "@/lib/user-store";
+
+/**
+ * The signed-in user's own MFA settings. Microsoft sign-in accounts enrol
+ * too: their code is asked for when Entra did not require a second factor.
+ */
+
+/** Store errors and the status they map to */
+function errorStatus(message: string): number {
+  if (message.includes("not found")) return 404;
+  if (message.includes("already enabled") || message.includes("pending")) return 409;
+  if (message.includes("Invalid")) return 400;
+  return 500;
+}
+
+async function readCode(request: Request): Promise<string | null> {
+  try {
+    const body: { code?: unknown } = await request.json();
+    return typeof body.code === "string" && body.code.trim() ? body.code : null;
+  } catch {
+    return null;
+  }
+}
+
+/** The session and stored user, or an error response */
+async function currentUser() {
+  const session = await getSession();
+  if (!session) {
+    return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+  }
+  if (!mfaAvailable()) {
+    return {
+      error: NextResponse.json(
+        { error: "MFA needs Upstash Redis configured. Set UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN." },
+        { status: 400 }
+      ),
+    };
+  }
+  const user = await getUserByEmail(session.user.email);
+  if (!user) {
+    return { error: NextResponse.json({ error: "User not found." }, { status: 404 }) };
+  }
+  return { session, user };
+}
+
+// ---------------------------------------------------------------------------
+// GET /api/account/mfa — MFA status, and whether this session has the second factor (signed in)
+// ---------------------------------------------------------------------------
+
+export async function GET() {
+  const result = await currentUser();
+  if (result.error) return result.error;
+
+  const { session, user } = result;
+  return NextResponse.json({ ...mfaStatus(user), required: session.user.mfaRequired, verified: session.user.mfa });
+}
+
+// ---------------------------------------------------------------------------
+// POST /api/account/mfa — start enrolment: new secret and QR code (signed in)
+// ---------------------------------------------------------------------------
+
+export async function POST() {
+  const result = await currentUser();
+  if (result.error) return result.error;
+
+  try {
+    const enrolment = await startEnrolment(result.user.email);
+    return NextResponse.json(enrolment, { headers: { "Cache-Control": "no-store" } });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Internal error";
+    return NextResponse.json({ error: message }, { status: errorStatus(message) });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// PUT /api/account/mfa — confirm enrolment with a code, returns recovery codes (signed in)
+//   { code }
+// ---------------------------------------------------------------------------
+
+export async function PUT(request: Request) {
+  const result = await currentUser();
+  if (result.error) return result.error;
+
+  const code = await readCode(request);
+  if (!code) {
+    return NextResponse.json({ error: "An authentication code is required." }, { status: 400 });
+  }
+
+  try {
+    const recoveryCodes = await confirmEnrolment(result.user.email, code);
+    return NextResponse.json({ recoveryCodes }, { headers: { "Cache-Control": "no-store" } });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Internal error";
+    return NextResponse.json({ error: message }, { status: errorStatus(message) });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// DELETE /api/account/mfa — turn MFA off with a current or recovery code (signed in)
+//   { code }
+// ---------------------------------------------------------------------------
+
+export async function DELETE(request: Request) {
+  const result = await currentUser();
+  if (result.error) return result.error;
+  const { session, user } = result;
+
+  if (session.user.mfaRequired) {
+    return NextResponse.json({ error: "Your role requires MFA." }, { status: 400 });
+  }
+
+  // A pending enrolment can be cancelled without a code
+  if (user.mfa?.enabledAt) {
+    const code = await readCode(request);
+    if (!code || !(await verifySecondFactor(user, code))) {
+      return NextResponse.json({ error: "Invalid authentication code." }, { status: 400 });
+    }
+  }
+
+  try {
+    await disableMfa(user.email);
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Internal error";
+    return NextResponse.json({ error: message }, { status: errorStatus(message) });
+  }
+}
@@ -0,0 +1,82 @@
+import { NextResponse } from "next/server";
+import { requirePermission } from "@/lib/auth-helpers";
+import { serviceUrls } from "@/lib/config";
+import { gatewayAuthHeader } from "@/lib/gateway-token";
+
+/**
+ * Audit log proxy — reads the gateway's audit log (/api/v1/audit) with the
+ * signed-in user's gateway token. Filters are validated by the gateway; its
+ * 4xx messages are passed on.
+ */
+
+const GATEWAY_BASE = serviceUrls.apiGateway;
+
+/** Gateway statuses returned to the browser as-is (anything else becomes a 500) */
+const FORWARDED_STATUSES = new Set([400, 403, 429]);
+
+/** Query parameters passed through to the gateway */
+const FILTER_PARAMS = ["actor", "action", "from", "to", "limit", "before", "format"];
+
+const VIEW_PATHS = new Map([
+  ["entries", ""],
+  ["export", "/export"],
+  ["verify", "/verify"],
+]);
+
+// ---------------------------------------------------------------------------
+// GET /api/audit — the audit log (audit:read)
+//   ?actor&action&from&to&limit&before   entries, newest first (default view)
+//   ?view=export&format=csv|json&…       the same filters as a download
+//   ?view=verify                         hash chain verification
+// ---------------------------------------------------------------------------
+
+export async function GET(request: Request) {
+  const session = await requirePermission("audit:read");
+  if (!session) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const view = searchParams.get("view") ?? "entries";
+  const path = VIEW_PATHS.get(view);
+  if (path === undefined) {
+    return NextResponse.json({ error: `Unknown view "${view}"` }, { status: 400 });
+  }
+
+  const query = new URLSearchParams();
+  for (const name of FILTER_PARAMS) {
+    const value = searchParams.get(name);
+    if (value) query.set(name, value);
+  }
+
+  try {
+    const res = await fetch(`${GATEWAY_BASE}/api/v1/audit${path}?${query}`, {
+      headers: await gatewayAuthHeader(session.user),
+      cache: "no-store",
+    });
+
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      const message = data.message ?? `Gateway error (${res.status})`;
+      return NextResponse.json(
+        { error: message },
+        { status: FORWARDED_STATUSES.has(res.status) ? res.status : 500 }
+      );
+    }
+
+    if (view === "export") {
+      return new Response(res.body, {
+        headers: {
+          "Content-Type": res.headers.get("content-type") ?? "application/octet-stream",
+          "Content-Disposition": res.headers.get("content-disposition") ?? "attachment",
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    return NextResponse.json(await res.json());
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Internal error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -1,40 +1,64 @@
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import type { Session } from "next-auth";
+import { hasMfa, MFA_REQUIRED_ERROR, requirePermission } from "@/lib/auth-helpers";
 import { serviceUrls } from "@/lib/config";
+import { gatewayAuthHeader } from "@/lib/gateway-token";
+import { hasPermission } from "@/lib/permissions";
 
 /**
  * Container control proxy — routes through the API Gateway.
  *
  * The API Gateway Container App has Managed Identity enabled and
- * Contributor role on the document processor Container App, so it
+ * Contributor role on every managed Container App, so it
  * can call the Azure Management API without any stored credentials.
  *
  * Dashboard (SWA) → API Gateway (Container App + Managed Identity) → Azure Management API
+ *
+ * Calls authenticate with a short-lived gateway token minted for the
+ * signed-in user, so the gateway sees (and rate-limits) the real user.
+ * Request bodies are validated by the gateway; its 4xx messages are passed on.
  */
 
 const GATEWAY_BASE = serviceUrls.apiGateway;
-const API_KEY = process.env.NEXT_PUBLIC_API_KEY ?? "";
 
-// ---------------------------------------------------------------------------
-// GET /api/container — fetch container app status (admin only)
-// ---------------------------------------------------------------------------
+/** Gateway statuses returned to the browser as-is (anything else becomes a 500) */
+const FORWARDED_STATUSES = new Set([400, 403, 404, 409, 429]);
 
-export async function GET() {
-  const session = await getServerSession(authOptions);
-  if (!session || session.user.role !== "admin") {
-    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
-  }
+/** Revision names as accepted by the gateway */
+const REVISION_NAME = /^[a-z0-9][a-z0-9-]{0,62}$/;
+
+/** Container app ids as configured on the gateway */
+const APP_ID = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+/** Start/stop operation ids issued by the gateway */
+const OPERATION_ID = /^[0-9a-f]{16}$/;
+
+/** Log streams offered by the gateway */
+const LOG_TYPES = new Set(["console", "system"]);
 
+async function forward(
+  session: Session,
+  path: string,
+  init: { method?: string; body?: unknown } = {}
+): Promise<NextResponse> {
   try {
-    const res = await fetch(`${GATEWAY_BASE}/api/v1/container/status`, {
-      headers: { "x-fw-admin-key": API_KEY },
+    const res = await fetch(`${GATEWAY_BASE}/api/v1/container${path}`, {
+      method: init.method ?? "GET",
+      headers: {
+        ...(await gatewayAuthHeader(session.user)),
+        ...(init.body !== undefined && { "Content-Type": "application/json" }),
+      },
+      ...(init.body !== undefined && { body: JSON.stringify(init.body) }),
       cache: "no-store",
     });
 
     if (!res.ok) {
       const data = await res.json().catch(() => ({}));
-      throw new Error(data.message ?? `Gateway error (${res.status})`);
+      const message = data.message ?? `Gateway error (${res.status})`;
+      return NextResponse.json(
+        { error: message },
+        { status: FORWARDED_STATUSES.has(res.status) ? res.status : 500 }
+      );
     }
 
     return NextResponse.json(await res.json());
@@ -44,50 +68,155 @@ export async function GET() {
   }
 }
 
+/**
+ * Passes a gateway Server-Sent Events stream through to the browser.
+ */
+async function forwardStream(session: Session, path: string): Promise<Response> {
+  try {
+    const res = await fetch(`${GATEWAY_BASE}/api/v1/container${path}`, {
+      headers: { ...(await gatewayAuthHeader(session.user)), Accept: "text/event-stream" },
+      cache: "no-store",
+    });
+
+    if (!res.ok || !res.body) {
+      const data = await res.json().catch(() => ({}));
+      const message = data.message ?? `Gateway error (${res.status})`;
+      return NextResponse.json(
+        { error: message },
+        { status: FORWARDED_STATUSES.has(res.status) ? res.status : 500 }
+      );
+    }
+
+    return new Response(res.body, {
+      headers: { "Content-Type": "text/event-stream", "Cache-Control": "no-cache, no-transform" },
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Internal error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// GET /api/container — managed container apps (container:read)
+//   ?view=apps                      configured apps, their allowed actions and the provider
+//   ?app=&view=status               status of one app (default view)
+//   ?app=&view=revisions            revisions with traffic weights
+//   ?app=&view=scale                min/max replicas and scale rules
+//   ?app=&view=replicas&revision=   live replicas of a revision
+//   ?app=&view=schedules            start/stop schedules and the next scheduled action
+//   ?app=&view=logs&type=&tail=     live console/system logs as Server-Sent Events (container:logs)
+//   ?view=operation&id=             one start/stop operation
+//   ?view=operation-events&id=      the operation's progress as Server-Sent Events
+// ---------------------------------------------------------------------------
+
+export async function GET(request: Request) {
+  const session = await requirePermission("container:read");
+  if (!session) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const params = new URL(request.url).searchParams;
+  const view = params.get("view") ?? "status";
+  if (view === "apps") {
+    return forward(session, "");
+  }
+  if (view === "operation" || view === "operation-events") {
+    const id = params.get("id") ?? "";
+    if (!OPERATION_ID.test(id)) {
+      return NextResponse.json({ error: "A valid operation id is required." }, { status: 400 });
+    }
+    return view === "operation" ? forward(session, `/operations/${id}`) : forwardStream(session, `/operations/${id}/events`);
+  }
+
+  const app = params.get("app") ?? "";
+  if (!APP_ID.test(app)) {
+    return NextResponse.json({ error: "A valid app is required." }, { status: 400 });
+  }
+
+  switch (view) {
+    case "status":
+    case "revisions":
+    case "scale":
+      return forward(session, `/${app}/${view}`);
+    case "schedules":
+      return forward(session, `/schedules?${new URLSearchParams({ app })}`);
+    case "logs": {
+      if (!hasPermission(session.user, "container:logs")) {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+      }
+      const type = params.get("type") ?? "console";
+      const tail = params.get("tail") ?? "100";
+      if (!LOG_TYPES.has(type) || !/^\d{1,4}$/.test(tail)) {
+        return NextResponse.json({ error: "A valid log type and tail are required." }, { status: 400 });
+      }
+      return forwardStream(session, `/logs?${new URLSearchParams({ app, type, tail })}`);
+    }
+    case "replicas": {
+      const revision = params.get("revision") ?? "";
+      if (!REVISION_NAME.test(revision)) {
+        return NextResponse.json({ error: "A valid revision is required." }, { status: 400 });
+      }
+      return forward(session, `/${app}/revisions/${revision}/replicas`);
+    }
+    default:
+      return NextResponse.json({ error: `Unknown view "${view}".` }, { status: 400 });
+  }
+}
+
 // ---------------------------------------------------------------------------
-// POST /api/container — start or stop the container app (admin only)
-//   Body: { action: "start" | "stop" }
+// POST /api/container — lifecycle actions on one app (container:control + MFA)
+//   Every body carries the target { app }, plus:
+//   { action: "start" | "stop" }
+//   { action: "restart", revision? }
+//   { action: "activate" | "deactivate", revision }
+//   { action: "traffic", traffic: [{ revisionName | latestRevision, weight }] }
+//   { action: "scale", minReplicas, maxReplicas }
 // ---------------------------------------------------------------------------
 
 export async function POST(request: Request) {
-  const session = await getServerSession(authOptions);
-  if (!session || session.user.role !== "admin") {
+  const session = await requirePermission("container:control");
+  if (!session) {
     return NextResponse.json({ error: "Forbidden" }, { status: 403 });
   }
+  if (!hasMfa(session)) {
+    return NextResponse.json({ error: MFA_REQUIRED_ERROR }, { status: 403 });
+  }
 
-  let body: { action?: string };
+  let body: { app?: unknown; action?: string; revision?: string; traffic?: unknown; minReplicas?: unknown; maxReplicas?: unknown };
   try {
     body = await request.json();
   } catch {
     return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
   }
 
-  const { action } = body;
-
-  if (action !== "start" && action !== "stop") {
-    return NextResponse.json(
-      { error: 'Action must be "start" or "stop".' },
-      { status: 400 }
-    );
+  const { app, action, revision } = body;
+  if (typeof app !== "string" || !APP_ID.test(app)) {
+    return NextResponse.json({ error: "A valid app is required." }, { status: 400 });
   }
 
-  try {
-    const res = await fetch(`${GATEWAY_BASE}/api/v1/container/${action}`, {
-      method: "POST",
-      headers: {
-        "x-fw-admin-key": API_KEY,
-        "Content-Type": "application/json",
-      },
-    });
-
-    if (!res.ok) {
-      const data = await res.json().catch(() => ({}));
-      throw new Error(data.message ?? `Gateway error (${res.status})`);
-    }
-
-    return NextResponse.json(await res.json());
-  } catch (err) {
-    const message = err instanceof Error ? err.message : "Internal error";
-    return NextResponse.json({ error: message }, { status: 500 });
+  switch (action) {
+    case "start":
+    case "stop":
+      return forward(session, `/${app}/${action}`, { method: "POST" });
+    case "restart":
+      return forward(session, `/${app}/restart`, { method: "POST", body: revision ? { revision } : {} });
+    case "activate":
+    case "deactivate":
+      if (typeof revision !== "string" || !REVISION_NAME.test(revision)) {
+        return NextResponse.json({ error: "A valid revision is required." }, { status: 400 });
+      }
+      return forward(session, `/${app}/revisions/${revision}/${action}`, { method: "POST" });
+    case "traffic":
+      return forward(session, `/${app}/traffic`, { method: "PUT", body: { traffic: body.traffic } });
+    case "scale":
+      return forward(session, `/${app}/scale`, {
+        method: "PUT",
+        body: { minReplicas: body.minReplicas, maxReplicas: body.maxReplicas },
+      });
+    default:
+      return NextResponse.json(
+        { error: 'Action must be one of "start", "stop", "restart", "activate", "deactivate", "traffic" or "scale".' },
+        { status: 400 }
+      );
   }
 }
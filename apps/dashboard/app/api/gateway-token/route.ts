@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { mintGatewayToken } from "@/lib/gateway-token";
+
+// ---------------------------------------------------------------------------
+// GET /api/gateway-token — exchange the session for a short-lived gateway token
+// ---------------------------------------------------------------------------
+
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const token = await mintGatewayToken(session.user);
+    return NextResponse.json(token, { headers: { "Cache-Control": "no-store" } });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Internal error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
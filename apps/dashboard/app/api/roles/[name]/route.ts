@@ -0,0 +1,103 @@
+import { NextResponse } from "next/server";
+import { recordAudit } from "@/lib/audit";
+import { hasMfa, MFA_REQUIRED_ERROR, requirePermission } from "@/lib/auth-helpers";
+import { builtInRole, isPermission, type Permission } from "@/lib/permissions";
+import { deleteRole, getRole, updateRole } from "@/lib/role-store";
+
+interface RouteContext {
+  params: Promise<{ name: string }>;
+}
+
+/** Store errors and the status they map to */
+function errorStatus(message: string): number {
+  if (message.includes("not found")) return 404;
+  if (message.includes("Built-in")) return 400;
+  if (message.includes("still assigned")) return 409;
+  return 500;
+}
+
+// ---------------------------------------------------------------------------
+// PATCH /api/roles/[name] — update a custom role's description, permissions and/or MFA requirement (users:manage + MFA)
+// ---------------------------------------------------------------------------
+
+export async function PATCH(request: Request, context: RouteContext) {
+  const session = await requirePermission("users:manage");
+  if (!session) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  if (!hasMfa(session)) {
+    return NextResponse.json({ error: MFA_REQUIRED_ERROR }, { status: 403 });
+  }
+
+  const { name } = await context.params;
+  if (builtInRole(name)) {
+    return NextResponse.json({ error: "Built-in roles cannot be changed." }, { status: 400 });
+  }
+
+  let body: { description?: unknown; permissions?: unknown; requireMfa?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const { description, permissions, requireMfa } = body;
+
+  if (description !== undefined && (typeof description !== "string" || description.length > 200)) {
+    return NextResponse.json({ error: "Description must be at most 200 characters." }, { status: 400 });
+  }
+  if (permissions !== undefined && (!Array.isArray(permissions) || !permissions.every(isPermission))) {
+    return NextResponse.json({ error: "Permissions must be a list of known permissions." }, { status: 400 });
+  }
+  if (requireMfa !== undefined && typeof requireMfa !== "boolean") {
+    return NextResponse.json({ error: "requireMfa must be a boolean." }, { status: 400 });
+  }
+
+  // Safety: admins cannot take user management away from their own role
+  if (name === session.user.role && permissions !== undefined && !permissions.includes("users:manage")) {
+    return NextResponse.json(
+      { error: "You cannot remove user management from your own role." },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const existing = await getRole(name);
+    const updated = await updateRole(name, {
+      description,
+      permissions: permissions && Array.from(new Set<Permission>(permissions)),
+      requireMfa,
+    });
+    await recordAudit(session, request, { action: "role.update", target: `role:${name}`, before: existing, after: updated });
+    return NextResponse.json(updated);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Internal error";
+    return NextResponse.json({ error: message }, { status: errorStatus(message) });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// DELETE /api/roles/[name] — delete a custom role no user holds (users:manage + MFA)
+// ---------------------------------------------------------------------------
+
+export async function DELETE(request: Request, context: RouteContext) {
+  const session = await requirePermission("users:manage");
+  if (!session) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  if (!hasMfa(session)) {
+    return NextResponse.json({ error: MFA_REQUIRED_ERROR }, { status: 403 });
+  }
+
+  const { name } = await context.params;
+
+  try {
+    const existing = await getRole(name);
+    await deleteRole(name);
+    await recordAudit(session, request, { action: "role.delete", target: `role:${name}`, before: existing });
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Internal error";
+    return NextResponse.json({ error: message }, { status: errorStatus(message) });
+  }
+}
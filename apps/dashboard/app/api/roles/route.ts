@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+import { recordAudit } from "@/lib/audit";
+import { hasMfa, MFA_REQUIRED_ERROR, requirePermission } from "@/lib/auth-helpers";
+import { isPermission, ROLE_NAME, type Permission } from "@/lib/permissions";
+import { createRole, listRoles } from "@/lib/role-store";
+
+// ---------------------------------------------------------------------------
+// GET /api/roles — built-in and custom roles (users:manage)
+// ---------------------------------------------------------------------------
+
+export async function GET() {
+  const session = await requirePermission("users:manage");
+  if (!session) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  try {
+    return NextResponse.json(await listRoles());
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Internal error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// POST /api/roles — create a custom role (users:manage + MFA)
+//   { name, description?, permissions: Permission[], requireMfa? }
+// ---------------------------------------------------------------------------
+
+export async function POST(request: Request) {
+  const session = await requirePermission("users:manage");
+  if (!session) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  if (!hasMfa(session)) {
+    return NextResponse.json({ error: MFA_REQUIRED_ERROR }, { status: 403 });
+  }
+
+  let body: { name?: unknown; description?: unknown; permissions?: unknown; requireMfa?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const { name, description = "", permissions, requireMfa = false } = body;
+
+  if (typeof name !== "string" || !ROLE_NAME.test(name)) {
+    return NextResponse.json(
+      { error: "Role names are 2-32 lowercase letters, digits or dashes, starting with a letter." },
+      { status: 400 }
+    );
+  }
+  if (typeof description !== "string" || description.length > 200) {
+    return NextResponse.json({ error: "Description must be at most 200 characters." }, { status: 400 });
+  }
+  if (!Array.isArray(permissions) || !permissions.every(isPermission)) {
+    return NextResponse.json({ error: "Permissions must be a list of known permissions." }, { status: 400 });
+  }
+  if (typeof requireMfa !== "boolean") {
+    return NextResponse.json({ error: "requireMfa must be a boolean." }, { status: 400 });
+  }
+
+  try {
+    const role = await createRole({
+      name,
+      description,
+      permissions: Array.from(new Set<Permission>(permissions)),
+      requireMfa,
+    });
+    await recordAudit(session, request, { action: "role.create", target: `role:${role.name}`, after: role });
+    return NextResponse.json(role, { status: 201 });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Internal error";
+    const status = message.includes("already exists") ? 409 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
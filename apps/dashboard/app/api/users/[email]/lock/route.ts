@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { recordAudit } from "@/lib/audit";
+import { hasMfa, MFA_REQUIRED_ERROR, requirePermission } from "@/lib/auth-helpers";
+import { lockedUntil, unlockAccount } from "@/lib/login-throttle";
+
+interface RouteContext {
+  params: Promise<{ email: string }>;
+}
+
+// ---------------------------------------------------------------------------
+// DELETE /api/users/[email]/lock — lift a sign-in lockout early (users:manage + MFA)
+// ---------------------------------------------------------------------------
+
+export async function DELETE(request: Request, context: RouteContext) {
+  const session = await requirePermission("users:manage");
+  if (!session) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  if (!hasMfa(session)) {
+    return NextResponse.json({ error: MFA_REQUIRED_ERROR }, { status: 403 });
+  }
+
+  const { email: rawEmail } = await context.params;
+  const email = decodeURIComponent(rawEmail).toLowerCase().trim();
+
+  try {
+    const until = await lockedUntil(email);
+    if (!until) {
+      return NextResponse.json({ error: "Account is not locked." }, { status: 409 });
+    }
+    await unlockAccount(email);
+    await recordAudit(session, request, {
+      action: "user.unlock",
+      target: `user:${email}`,
+      before: { lockedUntil: until },
+    });
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Internal error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { recordAudit } from "@/lib/audit";
+import { hasMfa, MFA_REQUIRED_ERROR, requirePermission } from "@/lib/auth-helpers";
+import { disableMfa } from "@/lib/mfa";
+import { getUserByEmail, stripHash } from "@/lib/user-store";
+
+interface RouteContext {
+  params: Promise<{ email: string }>;
+}
+
+// ---------------------------------------------------------------------------
+// DELETE /api/users/[email]/mfa — reset a user's MFA, e.g. a lost phone (users:manage + MFA)
+// ---------------------------------------------------------------------------
+
+export async function DELETE(request: Request, context: RouteContext) {
+  const session = await requirePermission("users:manage");
+  if (!session) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  if (!hasMfa(session)) {
+    return NextResponse.json({ error: MFA_REQUIRED_ERROR }, { status: 403 });
+  }
+
+  const { email: rawEmail } = await context.params;
+  const email = decodeURIComponent(rawEmail).toLowerCase().trim();
+
+  // Safety: your own MFA is turned off from the account page, with a code
+  if (email === session.user.email?.toLowerCase()) {
+    return NextResponse.json(
+      { error: "Use the Account page to change your own MFA." },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const existing = await getUserByEmail(email);
+    if (!existing) {
+      return NextResponse.json({ error: "User not found." }, { status: 404 });
+    }
+    await disableMfa(email);
+    await recordAudit(session, request, {
+      action: "user.mfa.reset",
+      target: `user:${email}`,
+      before: stripHash(existing),
+    });
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Internal error";
+    const status = message.includes("not found") ? 404 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
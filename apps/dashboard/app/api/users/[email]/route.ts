@@ -1,87 +1,123 @@
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
-import { updateUser, deleteUser } from "@/lib/user-store";
+import { recordAudit } from "@/lib/audit";
+import { hasMfa, MFA_REQUIRED_ERROR, requirePermission } from "@/lib/auth-helpers";
+import { getRole } from "@/lib/role-store";
+import { getUserByEmail, linkSsoUser, stripHash, updateUser, deleteUser } from "@/lib/user-store";
 
 interface RouteContext {
   params: Promise<{ email: string }>;
 }
 
 // ---------------------------------------------------------------------------
-// PATCH /api/users/[email] — update role and/or password (admin only)
+// PATCH /api/users/[email] — update role, password and/or the linked Microsoft
+// account (users:manage + MFA)
+//   { role?, password?, ssoSubject?: "<Entra object ID>" | null }
 // ---------------------------------------------------------------------------
 
+/** Entra object IDs are GUIDs; the mock issuer's subjects are base64url */
+const SSO_SUBJECT_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
 export async function PATCH(request: Request, context: RouteContext) {
-  const session = await getServerSession(authOptions);
-  if (!session || session.user.role !== "admin") {
+  const session = await requirePermission("users:manage");
+  if (!session) {
     return NextResponse.json({ error: "Forbidden" }, { status: 403 });
   }
+  if (!hasMfa(session)) {
+    return NextResponse.json({ error: MFA_REQUIRED_ERROR }, { status: 403 });
+  }
 
   const { email: rawEmail } = await context.params;
   const email = decodeURIComponent(rawEmail).toLowerCase().trim();
 
-  let body: { role?: string; password?: string };
+  let body: { role?: string; password?: string; ssoSubject?: string | null };
   try {
     body = await request.json();
   } catch {
     return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
   }
 
-  const { role, password } = body;
-
-  // Safety: admin cannot downgrade their own role
-  if (email === session.user.email?.toLowerCase() && role && role !== "admin") {
-    return NextResponse.json(
-      { error: "You cannot downgrade your own admin role." },
-      { status: 400 }
-    );
-  }
+  const { role, password, ssoSubject } = body;
 
-  // Validate role if provided
-  if (role !== undefined && role !== "admin" && role !== "viewer") {
+  // Validate password if provided
+  if (password !== undefined && (typeof password !== "string" || password.length < 8)) {
     return NextResponse.json(
-      { error: 'Role must be "admin" or "viewer".' },
+      { error: "Password must be at least 8 characters." },
       { status: 400 }
     );
   }
 
-  // Validate password if provided
-  if (password !== undefined && (typeof password !== "string" || password.length < 8)) {
+  if (ssoSubject !== undefined && ssoSubject !== null && (typeof ssoSubject !== "string" || !SSO_SUBJECT_PATTERN.test(ssoSubject))) {
     return NextResponse.json(
-      { error: "Password must be at least 8 characters." },
+      { error: "Microsoft object ID must be the user's object ID from Entra ID." },
       { status: 400 }
     );
   }
 
-  if (!role && !password) {
+  if (!role && !password && ssoSubject === undefined) {
     return NextResponse.json(
-      { error: "Provide at least one field to update (role or password)." },
+      { error: "Provide at least one field to update (role, password or Microsoft account)." },
       { status: 400 }
     );
   }
 
   try {
-    const updated = await updateUser(email, {
-      role: role as "admin" | "viewer" | undefined,
-      password: password || undefined,
+    if (role !== undefined) {
+      // Validate role if provided
+      const granted = typeof role === "string" ? await getRole(role) : null;
+      if (!granted) {
+        return NextResponse.json({ error: "Role must be an existing role." }, { status: 400 });
+      }
+
+      // Safety: admins cannot take user management away from themselves
+      if (email === session.user.email?.toLowerCase() && !granted.permissions.includes("users:manage")) {
+        return NextResponse.json(
+          { error: "You cannot remove your own user management permission." },
+          { status: 400 }
+        );
+      }
+    }
+
+    const existing = await getUserByEmail(email);
+    if (!existing) {
+      return NextResponse.json({ error: "User not found." }, { status: 404 });
+    }
+    let updated = stripHash(existing);
+    if (role || password) {
+      updated = await updateUser(email, {
+        role,
+        password: password || undefined,
+      });
+    }
+    if (ssoSubject !== undefined && ssoSubject !== (existing.ssoSubject ?? null)) {
+      updated = await linkSsoUser(email, ssoSubject);
+    }
+    await recordAudit(session, request, {
+      action: "user.update",
+      target: `user:${email}`,
+      before: stripHash(existing),
+      // Never the password itself — only that it changed
+      after: { ...updated, ...(password && { passwordChanged: true }) },
     });
     return NextResponse.json(updated);
   } catch (err) {
     const message = err instanceof Error ? err.message : "Internal error";
-    const status = message.includes("not found") ? 404 : 500;
+    const status = message.includes("not found") ? 404 : message.includes("already linked") ? 409 : 500;
     return NextResponse.json({ error: message }, { status });
   }
 }
 
 // ---------------------------------------------------------------------------
-// DELETE /api/users/[email] — delete a user (admin only)
+// DELETE /api/users/[email] — delete a user (users:manage + MFA)
 // ---------------------------------------------------------------------------
 
-export async function DELETE(_request: Request, context: RouteContext) {
-  const session = await getServerSession(authOptions);
-  if (!session || session.user.role !== "admin") {
+export async function DELETE(request: Request, context: RouteContext) {
+  const session = await requirePermission("users:manage");
+  if (!session) {
     return NextResponse.json({ error: "Forbidden" }, { status: 403 });
   }
+  if (!hasMfa(session)) {
+    return NextResponse.json({ error: MFA_REQUIRED_ERROR }, { status: 403 });
+  }
 
   const { email: rawEmail } = await context.params;
   const email = decodeURIComponent(rawEmail).toLowerCase().trim();
@@ -95,7 +131,13 @@ export async function DELETE(_request: Request, context: RouteContext) {
   }
 
   try {
+    const existing = await getUserByEmail(email);
     await deleteUser(email);
+    await recordAudit(session, request, {
+      action: "user.delete",
+      target: `user:${email}`,
+      before: existing && stripHash(existing),
+    });
     return NextResponse.json({ ok: true });
   } catch (err) {
     const message = err instanceof Error ? err.message : "Internal error";
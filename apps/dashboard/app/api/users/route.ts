@@ -1,21 +1,25 @@
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+import { hasMfa, MFA_REQUIRED_ERROR, requirePermission } from "@/lib/auth-helpers";
+import { lockedUntil } from "@/lib/login-throttle";
+import { getRole } from "@/lib/role-store";
 import { listUsers, createUser } from "@/lib/user-store";
 
 // ---------------------------------------------------------------------------
-// GET /api/users — list all users (admin only)
+// GET /api/users — list all users with their lockout status (users:manage)
 // ---------------------------------------------------------------------------
 
 export async function GET() {
-  const session = await getServerSession(authOptions);
-  if (!session || session.user.role !== "admin") {
+  const session = await requirePermission("users:manage");
+  if (!session) {
     return NextResponse.json({ error: "Forbidden" }, { status: 403 });
   }
 
   try {
     const users = await listUsers();
-    return NextResponse.json(users);
+    return NextResponse.json(
+      await Promise.all(users.map(async (user) => ({ ...user, lockedUntil: await lockedUntil(user.email) })))
+    );
   } catch (err) {
     const message = err instanceof Error ? err.message : "Internal error";
     return NextResponse.json({ error: message }, { status: 500 });
@@ -23,14 +27,17 @@ export async function GET() {
 }
 
 // ---------------------------------------------------------------------------
-// POST /api/users — create a new user (admin only)
+// POST /api/users — create a new user (users:manage + MFA)
 // ---------------------------------------------------------------------------
 
 export async function POST(request: Request) {
-  const session = await getServerSession(authOptions);
-  if (!session || session.user.role !== "admin") {
+  const session = await requirePermission("users:manage");
+  if (!session) {
     return NextResponse.json({ error: "Forbidden" }, { status: 403 });
   }
+  if (!hasMfa(session)) {
+    return NextResponse.json({ error: MFA_REQUIRED_ERROR }, { status: 403 });
+  }
 
   let body: { email?: string; password?: string; role?: string };
   try {
@@ -54,16 +61,14 @@ export async function POST(request: Request) {
     );
   }
 
-  // Validate role
-  if (role !== "admin" && role !== "viewer") {
-    return NextResponse.json(
-      { error: 'Role must be "admin" or "viewer".' },
-      { status: 400 }
-    );
-  }
-
   try {
+    // Validate role
+    if (typeof role !== "string" || !(await getRole(role))) {
+      return NextResponse.json({ error: "Role must be an existing role." }, { status: 400 });
+    }
+
     const user = await createUser(email, password, role);
+    await recordAudit(session, request, { action: "user.create", target: `user:${user.email}`, after: user });
     return NextResponse.json(user, { status: 201 });
   } catch (err) {
     const message = err instanceof Error ? err.message : "Internal error";
@@ -6,13 +6,40 @@ import { useSearchParams } from "next/navigation";
 import Image from "next/image";
 import { Loader2 } from "lucide-react";
 
-export function LoginForm() {
+/** Messages for the ?error= codes NextAuth redirects back with */
+const SIGN_IN_ERRORS: Record<string, string> = {
+  AccessDenied: "Your Microsoft account is not allowed to use this dashboard",
+  OAuthSignin: "Could not start Microsoft sign-in",
+  OAuthCallback: "Microsoft sign-in failed",
+};
+
+/** Messages for the error codes thrown by authorize() in lib/auth.ts */
+const LOGIN_ERRORS: Record<string, string> = {
+  MfaInvalid: "Invalid authentication code",
+  // Also shown for unknown emails, so it does not reveal which accounts exist
+  TooManyAttempts: "Too many failed sign-in attempts. Try again later.",
+};
+
+interface Props {
+  /** Show the email/password form (AUTH_PASSWORD_LOGIN) */
+  passwordLogin: boolean;
+  /** Show "Sign in with Microsoft" (Entra ID configured) */
+  sso: boolean;
+}
+
+export function LoginForm({ passwordLogin, sso }: Props) {
   const searchParams = useSearchParams();
   const callbackUrl = searchParams.get("callbackUrl") ?? "/";
+  const errorCode = searchParams.get("error");
 
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
-  const [error, setError] = useState("");
+  // Second step, after the password was accepted for an account with MFA
+  const [needsCode, setNeedsCode] = useState(false);
+  const [code, setCode] = useState("");
+  const [error, setError] = useState(
+    errorCode ? (SIGN_IN_ERRORS[errorCode] ?? "Sign-in failed") : ""
+  );
   const [loading, setLoading] = useState(false);
 
   async function handleSubmit(e: React.FormEvent) {
@@ -23,12 +50,19 @@ export function LoginForm() {
     const result = await signIn("credentials", {
       email,
       password,
+      ...(needsCode && { code }),
       redirect: false,
       callbackUrl,
     });
 
+    if (result?.error === "MfaRequired") {
+      setNeedsCode(true);
+      setLoading(false);
+      return;
+    }
     if (result?.error) {
-      setError("Invalid email or password");
+      setError(LOGIN_ERRORS[result.error] ?? "Invalid email or password");
+      setCode("");
       setLoading(false);
       return;
     }
@@ -36,6 +70,12 @@ export function LoginForm() {
     window.location.href = callbackUrl;
   }
 
+  function handleSso() {
+    setError("");
+    setLoading(true);
+    signIn("azure-ad", { callbackUrl });
+  }
+
   return (
     <div className="flex min-h-screen items-center justify-center px-4">
       <div className="w-full max-w-sm">
@@ -59,65 +99,133 @@ export function LoginForm() {
             </div>
           </div>
 
-          <form onSubmit={handleSubmit} className="mt-8 flex flex-col gap-4">
-            <div>
-              <label
-                htmlFor="email"
-                className="block text-xs font-semibold uppercase tracking-wide text-brand-pewter"
-              >
-                Email
-              </label>
-              <input
-                id="email"
-                type="email"
-                required
-                autoComplete="email"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                className="mt-1.5 w-full rounded-xl border border-brand-pewter/30 bg-white px-4 py-2.5 text-sm text-brand-charcoal outline-none transition focus:border-brand-teal focus:ring-2 focus:ring-brand-teal/20"
-                placeholder="you@frazerwalker.com"
-              />
-            </div>
-            <div>
-              <label
-                htmlFor="password"
-                className="block text-xs font-semibold uppercase tracking-wide text-brand-pewter"
+          {sso && (
+            <div className="mt-8 flex flex-col gap-4">
+              <button
+                type="button"
+                onClick={handleSso}
+                disabled={loading}
+                className="flex items-center justify-center gap-2 rounded-xl border border-brand-pewter/30 bg-white px-4 py-2.5 text-sm font-semibold text-brand-charcoal transition hover:border-brand-teal hover:text-brand-teal disabled:opacity-60"
               >
-                Password
-              </label>
-              <input
-                id="password"
-                type="password"
-                required
-                autoComplete="current-password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                className="mt-1.5 w-full rounded-xl border border-brand-pewter/30 bg-white px-4 py-2.5 text-sm text-brand-charcoal outline-none transition focus:border-brand-teal focus:ring-2 focus:ring-brand-teal/20"
-                placeholder="••••••••"
-              />
+                <MicrosoftLogo />
+                Sign in with Microsoft
+              </button>
+              {passwordLogin && (
+                <div className="flex items-center gap-3 text-xs uppercase tracking-wide text-brand-pewter">
+                  <span className="h-px flex-1 bg-brand-pewter/20" />
+                  or
+                  <span className="h-px flex-1 bg-brand-pewter/20" />
+                </div>
+              )}
             </div>
+          )}
 
-            {error && (
-              <p className="rounded-lg bg-red-50 px-3 py-2 text-center text-sm font-medium text-red-700">
-                {error}
-              </p>
-            )}
-
-            <button
-              type="submit"
-              disabled={loading}
-              className="mt-2 flex items-center justify-center gap-2 rounded-xl bg-brand-teal px-4 py-2.5 text-sm font-semibold text-white transition hover:bg-brand-teal-deep disabled:opacity-60"
-            >
-              {loading ? (
+          {passwordLogin && (
+            <form onSubmit={handleSubmit} className={`${sso ? "mt-4" : "mt-8"} flex flex-col gap-4`}>
+              {needsCode ? (
+                <div>
+                  <label
+                    htmlFor="code"
+                    className="block text-xs font-semibold uppercase tracking-wide text-brand-pewter"
+                  >
+                    Authentication code
+                  </label>
+                  <input
+                    id="code"
+                    required
+                    autoFocus
+                    autoComplete="one-time-code"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value.trim())}
+                    className="mt-1.5 w-full rounded-xl border border-brand-pewter/30 bg-white px-4 py-2.5 text-sm text-brand-charcoal outline-none transition focus:border-brand-teal focus:ring-2 focus:ring-brand-teal/20"
+                    placeholder="123456"
+                  />
+                  <p className="mt-1.5 text-xs text-brand-pewter">
+                    The 6-digit code from your authenticator app, or a recovery code.{" "}
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setNeedsCode(false);
+                        setCode("");
+                        setError("");
+                      }}
+                      className="font-medium text-brand-teal hover:underline"
+                    >
+                      Back
+                    </button>
+                  </p>
+                </div>
+              ) : (
                 <>
-                  <Loader2 className="h-4 w-4 animate-spin" />
-                  Signing in...
+                  <div>
+                    <label
+                      htmlFor="email"
+                      className="block text-xs font-semibold uppercase tracking-wide text-brand-pewter"
+                    >
+                      Email
+                    </label>
+                    <input
+                      id="email"
+                      type="email"
+                      required
+                      autoComplete="email"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      className="mt-1.5 w-full rounded-xl border border-brand-pewter/30 bg-white px-4 py-2.5 text-sm text-brand-charcoal outline-none transition focus:border-brand-teal focus:ring-2 focus:ring-brand-teal/20"
+                      placeholder="you@frazerwalker.com"
+                    />
+                  </div>
+                  <div>
+                    <label
+                      htmlFor="password"
+                      className="block text-xs font-semibold uppercase tracking-wide text-brand-pewter"
+                    >
+                      Password
+                    </label>
+                    <input
+                      id="password"
+                      type="password"
+                      required
+                      autoComplete="current-password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      className="mt-1.5 w-full rounded-xl border border-brand-pewter/30 bg-white px-4 py-2.5 text-sm text-brand-charcoal outline-none transition focus:border-brand-teal focus:ring-2 focus:ring-brand-teal/20"
+                      placeholder="••••••••"
+                    />
+                  </div>
                 </>
-              ) : (
-                "Sign in"
               )}
-            </button>
-          </form>
+
+              {error && (
+                <p className="rounded-lg bg-red-50 px-3 py-2 text-center text-sm font-medium text-red-700">
+                  {error}
+                </p>
+              )}
+
+              <button
+                type="submit"
+                disabled={loading}
+                className="mt-2 flex items-center justify-center gap-2 rounded-xl bg-brand-teal px-4 py-2.5 text-sm font-semibold text-white transition hover:bg-brand-teal-deep disabled:opacity-60"
+              >
+                {loading ? (
+                  <>
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Signing in...
+                  </>
+                ) : needsCode ? (
+                  "Verify"
+                ) : (
+                  "Sign in"
+                )}
+              </button>
+            </form>
+          )}
+
+          {!passwordLogin && error && (
+            <p className="mt-4 rounded-lg bg-red-50 px-3 py-2 text-center text-sm font-medium text-red-700">
+              {error}
+            </p>
+          )}
         </div>
 
         <p className="mt-6 text-center text-xs text-brand-pewter">
@@ -127,3 +235,15 @@ export function LoginForm() {
     </div>
   );
 }
+
+/** The four-square Microsoft mark, as their sign-in branding asks for */
+function MicrosoftLogo() {
+  return (
+    <svg viewBox="0 0 21 21" className="h-4 w-4" aria-hidden="true">
+      <rect x="1" y="1" width="9" height="9" fill="#f25022" />
+      <rect x="11" y="1" width="9" height="9" fill="#7fba00" />
+      <rect x="1" y="11" width="9" height="9" fill="#00a4ef" />
+      <rect x="11" y="11" width="9" height="9" fill="#ffb900" />
+    </svg>
+  );
+}
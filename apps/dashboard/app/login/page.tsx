@@ -1,10 +1,14 @@
 import { Suspense } from "react";
+import { passwordLoginEnabled, ssoConfig } from "@/lib/sso";
 import { LoginForm } from "./login-form";
 
+// Sign-in options come from runtime env, not the build
+export const dynamic = "force-dynamic";
+
 export default function LoginPage() {
   return (
     <Suspense>
-      <LoginForm />
+      <LoginForm passwordLogin={passwordLoginEnabled} sso={ssoConfig !== null} />
     </Suspense>
   );
 }
@@ -2,18 +2,22 @@
 
 import Link from "next/link";
 import { useSession } from "next-auth/react";
+import { hasPermission, type Permission } from "@/lib/permissions";
 
 interface AdminNavProps {
-  items: { label: string; href: string }[];
+  items: { label: string; href: string; permission?: Permission }[];
 }
 
+/**
+ * Navigation links for the signed-in user's permissions.
+ */
 export function AdminNav({ items }: AdminNavProps) {
   const { data: session } = useSession();
-  if (session?.user.role !== "admin") return null;
+  if (!session?.user) return null;
 
   return (
     <>
-      {items.map((item) => (
+      {items.filter((item) => !item.permission || hasPermission(session.user, item.permission)).map((item) => (
         <Link
           key={item.href}
           href={item.href}
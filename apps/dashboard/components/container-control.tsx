@@ -1,12 +1,39 @@
 "use client";
 
 import { useCallback, useEffect, useState } from "react";
-import { Loader2, Power, PowerOff } from "lucide-react";
+import { useSession } from "next-auth/react";
+import {
+  AlertTriangle,
+  CalendarClock,
+  CheckCircle2,
+  Loader2,
+  Power,
+  PowerOff,
+  RotateCw,
+  ScrollText,
+  Settings2,
+  X,
+} from "lucide-react";
+import { hasPermission } from "@/lib/permissions";
+import { ContainerLifecycle } from "./container-lifecycle";
+import { ContainerLogs } from "./container-logs";
 
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
+export type ContainerAppAction = "start" | "stop" | "restart" | "revisions" | "traffic" | "scale";
+
+/** Backend the gateway runs containers on; revisions and scale exist on Azure only */
+export type ContainerProviderKind = "azure" | "docker" | "fake";
+
+/** A managed Container App as listed by the gateway */
+export interface ContainerApp {
+  id: string;
+  name: string;
+  actions: ContainerAppAction[];
+}
+
 interface ContainerStatus {
   name: string;
   runningStatus: "Running" | "Stopped" | "Progressing" | "Unknown";
@@ -14,25 +41,48 @@ interface ContainerStatus {
   location: string;
 }
 
+/** A start/stop followed by the gateway until the provider reports the outcome */
+interface ContainerOperation {
+  id: string;
+  action: "start" | "stop";
+  state: "running" | "succeeded" | "failed" | "canceled" | "timed-out";
+  azureStatus: string;
+  createdAt: string;
+  completedAt: string | null;
+  error: { code: string; message: string } | null;
+}
+
+/** Earliest upcoming scheduled start/stop of an app */
+interface NextScheduledAction {
+  action: "start" | "stop";
+  at: string;
+}
+
 // ---------------------------------------------------------------------------
 // Component
 // ---------------------------------------------------------------------------
 
-export function ContainerControl() {
+/**
+ * Status and start/stop/restart of one managed Container App, rendered by
+ * ContainerGrid. Status needs container:read and Logs container:logs;
+ * start/stop/restart and Manage are shown only with container:control.
+ */
+export function ContainerControl({ app, provider }: { app: ContainerApp; provider: ContainerProviderKind }) {
   const [status, setStatus] = useState<ContainerStatus | null>(null);
   const [loading, setLoading] = useState(true);
   const [actionLoading, setActionLoading] = useState(false);
   const [error, setError] = useState("");
+  const [managing, setManaging] = useState(false);
+  const [showLogs, setShowLogs] = useState(false);
+  const [nextScheduled, setNextScheduled] = useState<NextScheduledAction | null>(null);
+  const [operation, setOperation] = useState<ContainerOperation | null>(null);
+  const { data: session } = useSession();
+  const canControl = hasPermission(session?.user, "container:control");
+  const canViewLogs = hasPermission(session?.user, "container:logs");
 
   const fetchStatus = useCallback(async () => {
     try {
-      const res = await fetch("/api/container");
-      if (res.status === 403) {
-        // Not admin — hide the control entirely
-        setStatus(null);
-        setLoading(false);
-        return;
-      }
+      const res = await fetch(`/api/container?${new URLSearchParams({ app: app.id })}`);
       if (!res.ok) {
         const data = await res.json();
         throw new Error(data.error ?? "Failed to fetch container status");
@@ -40,12 +90,19 @@ export function ContainerControl() {
       const data: ContainerStatus = await res.json();
       setStatus(data);
       setError("");
+
+      // Schedules are informational; the card works without them
+      const schedulesRes = await fetch(`/api/container?${new URLSearchParams({ app: app.id, view: "schedules" })}`);
+      if (schedulesRes.ok) {
+        const schedules: { next: NextScheduledAction | null } = await schedulesRes.json();
+        setNextScheduled(schedules.next);
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to fetch status");
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [app.id]);
 
   useEffect(() => {
     fetchStatus();
@@ -53,23 +110,56 @@ export function ContainerControl() {
     return () => clearInterval(interval);
   }, [fetchStatus]);
 
-  async function handleAction(action: "start" | "stop") {
+  // Follow a running start/stop through the gateway's event stream
+  const operationId = operation?.state === "running" ? operation.id : null;
+  useEffect(() => {
+    if (!operationId) return;
+
+    const source = new EventSource(
+      `/api/container?${new URLSearchParams({ view: "operation-events", id: operationId })}`
+    );
+    source.addEventListener("operation", (event) => {
+      const update: ContainerOperation = JSON.parse((event as MessageEvent<string>).data);
+      setOperation(update);
+      if (update.state !== "running") {
+        source.close();
+        fetchStatus();
+      }
+    });
+    source.onerror = () => {
+      // Closed for good (e.g. the operation expired) - fall back to the status
+      if (source.readyState === EventSource.CLOSED) {
+        setOperation(null);
+        fetchStatus();
+      }
+    };
+    return () => source.close();
+  }, [operationId, fetchStatus]);
+
+  async function handleAction(action: "start" | "stop" | "restart") {
     setActionLoading(true);
     setError("");
     try {
       const res = await fetch("/api/container", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ action }),
+        body: JSON.stringify({ app: app.id, action }),
       });
+      const data = await res.json();
       if (!res.ok) {
-        const data = await res.json();
         throw new Error(data.error ?? `Failed to ${action} container`);
       }
-      // Poll more frequently after an action to catch the transition
-      setTimeout(fetchStatus, 3000);
-      setTimeout(fetchStatus, 8000);
-      setTimeout(fetchStatus, 15000);
+      if (data.operation) {
+        setOperation(data.operation);
+        if (data.operation.state !== "running") {
+          fetchStatus();
+        }
+      } else {
+        // Restarts are not tracked: poll to catch the transition
+        setTimeout(fetchStatus, 3000);
+        setTimeout(fetchStatus, 8000);
+        setTimeout(fetchStatus, 15000);
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : `Failed to ${action}`);
     } finally {
@@ -77,13 +167,19 @@ export function ContainerControl() {
     }
   }
 
-  // Don't render anything while loading initial state or if not admin
-  if (loading) return null;
-  if (!status && !error) return null;
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 rounded-2xl border border-brand-pewter/20 bg-white/90 p-6 text-xs text-brand-pewter shadow-sm">
+        <Loader2 className="h-3.5 w-3.5 animate-spin" />
+        Loading {app.name}...
+      </div>
+    );
+  }
 
   const isRunning = status?.runningStatus === "Running";
   const isStopped = status?.runningStatus === "Stopped";
-  const isTransitioning = status?.runningStatus === "Progressing" || actionLoading;
+  const isTransitioning =
+    status?.runningStatus === "Progressing" || actionLoading || operation?.state === "running";
 
   const statusConfig = {
     Running: { dot: "bg-emerald-500", text: "text-emerald-700", bg: "bg-emerald-50", label: "Running" },
@@ -96,10 +192,10 @@ export function ContainerControl() {
 
   return (
     <div className="rounded-2xl border border-brand-pewter/20 bg-white/90 p-6 shadow-sm">
-      <div className="flex items-center justify-between">
+      <div className="flex flex-wrap items-center justify-between gap-3">
         <div className="flex items-center gap-3">
           <h3 className="text-sm font-semibold uppercase tracking-wide text-brand-pewter">
-            Document Processor
+            {app.name}
           </h3>
           <span
             className={`inline-flex items-center gap-1.5 rounded-full px-2.5 py-1 text-xs font-medium ${cfg.bg} ${cfg.text}`}
@@ -114,7 +210,23 @@ export function ContainerControl() {
             <span className="text-xs text-red-600">{error}</span>
           )}
 
-          {isRunning && (
+          {canControl && isRunning && app.actions.includes("restart") && (
+            <button
+              onClick={() => handleAction("restart")}
+              disabled={isTransitioning}
+              title="Restart the latest ready revision"
+              className="inline-flex items-center gap-2 rounded-lg border border-brand-pewter/30 px-3 py-1.5 text-xs font-medium text-brand-charcoal transition hover:bg-brand-mist disabled:opacity-50"
+            >
+              {isTransitioning ? (
+                <Loader2 className="h-3.5 w-3.5 animate-spin" />
+              ) : (
+                <RotateCw className="h-3.5 w-3.5" />
+              )}
+              Restart
+            </button>
+          )}
+
+          {canControl && isRunning && app.actions.includes("stop") && (
             <button
               onClick={() => handleAction("stop")}
               disabled={isTransitioning}
@@ -129,7 +241,7 @@ export function ContainerControl() {
             </button>
           )}
 
-          {isStopped && (
+          {canControl && isStopped && app.actions.includes("start") && (
             <button
               onClick={() => handleAction("start")}
               disabled={isTransitioning}
@@ -150,18 +262,127 @@ export function ContainerControl() {
               Transitioning...
             </span>
           )}
+
+          {canViewLogs && status && (
+            <button
+              onClick={() => setShowLogs(!showLogs)}
+              aria-expanded={showLogs}
+              className="inline-flex items-center gap-2 rounded-lg border border-brand-pewter/30 px-3 py-1.5 text-xs font-medium text-brand-charcoal transition hover:bg-brand-mist"
+            >
+              <ScrollText className="h-3.5 w-3.5" />
+              {showLogs ? "Hide logs" : "Logs"}
+            </button>
+          )}
+
+          {canControl && status && provider === "azure" && (
+            <button
+              onClick={() => setManaging(!managing)}
+              aria-expanded={managing}
+              className="inline-flex items-center gap-2 rounded-lg border border-brand-pewter/30 px-3 py-1.5 text-xs font-medium text-brand-charcoal transition hover:bg-brand-mist"
+            >
+              <Settings2 className="h-3.5 w-3.5" />
+              {managing ? "Hide" : "Manage"}
+            </button>
+          )}
         </div>
       </div>
 
       {status && (
-        <div className="mt-3 flex items-center gap-4 text-xs text-brand-pewter">
+        <div className="mt-3 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-brand-pewter">
           <span>{status.name}</span>
           <span className="text-brand-pewter/40">|</span>
           <span>{status.location}</span>
           <span className="text-brand-pewter/40">|</span>
           <span>{status.provisioningState}</span>
+          {nextScheduled && (
+            <>
+              <span className="text-brand-pewter/40">|</span>
+              <span className="inline-flex items-center gap-1" title={new Date(nextScheduled.at).toString()}>
+                <CalendarClock className="h-3.5 w-3.5" />
+                Scheduled {nextScheduled.action}{" "}
+                {new Date(nextScheduled.at).toLocaleString(undefined, {
+                  weekday: "short",
+                  day: "numeric",
+                  month: "short",
+                  hour: "2-digit",
+                  minute: "2-digit",
+                })}
+              </span>
+            </>
+          )}
         </div>
       )}
+
+      {operation && <OperationProgress operation={operation} onDismiss={() => setOperation(null)} />}
+
+      {status && managing && <ContainerLifecycle app={app} onChanged={() => setTimeout(fetchStatus, 3000)} />}
+
+      {canViewLogs && showLogs && <ContainerLogs app={app} />}
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Operation progress
+// ---------------------------------------------------------------------------
+
+const OPERATION_VERBS = {
+  start: { running: "Starting", done: "Started", failed: "Start" },
+  stop: { running: "Stopping", done: "Stopped", failed: "Stop" },
+};
+
+/**
+ * Progress of the latest start/stop as reported by Azure, with its failure if any.
+ */
+function OperationProgress({ operation, onDismiss }: { operation: ContainerOperation; onDismiss: () => void }) {
+  const verbs = OPERATION_VERBS[operation.action];
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (operation.state !== "running") return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [operation.state]);
+
+  const end = operation.completedAt ? Date.parse(operation.completedAt) : now;
+  const seconds = Math.max(0, Math.round((end - Date.parse(operation.createdAt)) / 1000));
+
+  if (operation.state === "running") {
+    return (
+      <div className="mt-3 inline-flex items-center gap-2 rounded-lg bg-amber-50 px-3 py-2 text-xs text-amber-700">
+        <Loader2 className="h-3.5 w-3.5 animate-spin" />
+        {verbs.running}... Azure reports {operation.azureStatus} ({seconds}s)
+      </div>
+    );
+  }
+
+  if (operation.state === "succeeded") {
+    return (
+      <div className="mt-3 inline-flex items-center gap-2 rounded-lg bg-emerald-50 px-3 py-2 text-xs text-emerald-700">
+        <CheckCircle2 className="h-3.5 w-3.5" />
+        {verbs.done} in {seconds}s
+        <button onClick={onDismiss} aria-label="Dismiss" className="ml-1 rounded p-0.5 hover:bg-emerald-100">
+          <X className="h-3 w-3" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-3 flex items-start gap-2 rounded-lg bg-red-50 px-3 py-2 text-xs text-red-700">
+      <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+      <span className="flex-1">
+        {verbs.failed} {operation.state === "timed-out" ? "timed out" : operation.state} after {seconds}s
+        {operation.error && (
+          <>
+            : {operation.error.message || operation.error.code}{" "}
+            <span className="text-red-700/60">({operation.error.code})</span>
+          </>
+        )}
+      </span>
+      <button onClick={onDismiss} aria-label="Dismiss" className="rounded p-0.5 hover:bg-red-100">
+        <X className="h-3 w-3" />
+      </button>
     </div>
   );
 }
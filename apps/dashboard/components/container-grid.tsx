@@ -0,0 +1,56 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { ContainerControl, type ContainerApp, type ContainerProviderKind } from "./container-control";
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+/**
+ * One ContainerControl card per Container App configured on the gateway
+ * (container:read — renders nothing for other users or when no apps are configured).
+ */
+export function ContainerGrid() {
+  const [apps, setApps] = useState<ContainerApp[] | null>(null);
+  const [provider, setProvider] = useState<ContainerProviderKind>("azure");
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    async function fetchApps() {
+      try {
+        const res = await fetch("/api/container?view=apps");
+        if (res.status === 403) {
+          // No container:read — hide the controls entirely
+          setApps([]);
+          return;
+        }
+        const data = await res.json();
+        if (!res.ok) {
+          throw new Error(data.error ?? "Failed to load container apps");
+        }
+        setApps(data.apps);
+        setProvider(data.provider ?? "azure");
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load container apps");
+      }
+    }
+
+    fetchApps();
+  }, []);
+
+  if (error) {
+    return (
+      <div className="rounded-2xl border border-red-200 bg-red-50 p-4 text-xs text-red-700">{error}</div>
+    );
+  }
+  if (!apps || apps.length === 0) return null;
+
+  return (
+    <div className="grid items-start gap-4 xl:grid-cols-2">
+      {apps.map((app) => (
+        <ContainerControl key={app.id} app={app} provider={provider} />
+      ))}
+    </div>
+  );
+}
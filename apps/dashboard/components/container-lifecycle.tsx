@@ -0,0 +1,466 @@
+"use client";
+
+import { Fragment, useCallback, useEffect, useState } from "react";
+import { ChevronDown, ChevronRight, Loader2, RotateCw } from "lucide-react";
+import type { ContainerApp } from "./container-control";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface Revision {
+  name: string;
+  active: boolean;
+  createdTime: string | null;
+  trafficWeight: number;
+  replicas: number;
+  runningState: string;
+  healthState: string;
+  provisioningState: string;
+}
+
+interface RevisionsResponse {
+  latestRevisionName: string | null;
+  latestReadyRevisionName: string | null;
+  activeRevisionsMode: "Single" | "Multiple";
+  revisions: Revision[];
+}
+
+interface ScaleResponse {
+  minReplicas: number;
+  maxReplicas: number;
+  rules: Array<{ name: string; type: string }>;
+}
+
+interface Replica {
+  name: string;
+  createdTime: string | null;
+  runningState: string;
+  containers: Array<{ name: string; ready: boolean; restartCount: number; runningState: string }>;
+}
+
+type LifecycleAction =
+  | { action: "restart"; revision?: string }
+  | { action: "activate" | "deactivate"; revision: string }
+  | { action: "traffic"; traffic: Array<{ revisionName: string; weight: number }> }
+  | { action: "scale"; minReplicas: number; maxReplicas: number };
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+/**
+ * Revisions, traffic split, scale and replicas of a managed Container App
+ * (container:control, rendered inside ContainerControl). Controls for actions the
+ * app does not allow are hidden.
+ */
+export function ContainerLifecycle({ app, onChanged }: { app: ContainerApp; onChanged: () => void }) {
+  const [revisions, setRevisions] = useState<RevisionsResponse | null>(null);
+  const [scale, setScale] = useState<ScaleResponse | null>(null);
+  const [pending, setPending] = useState<string | null>(null);
+  const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
+
+  const refresh = useCallback(async () => {
+    try {
+      const [revisionData, scaleData] = await Promise.all([
+        fetchContainerJson<RevisionsResponse>(app.id, "revisions"),
+        fetchContainerJson<ScaleResponse>(app.id, "scale"),
+      ]);
+      setRevisions(revisionData);
+      setScale(scaleData);
+      setError("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load revisions");
+    }
+  }, [app.id]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  async function run(key: string, body: LifecycleAction, success: string) {
+    setPending(key);
+    setError("");
+    setNotice("");
+    try {
+      const res = await fetch("/api/container", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ app: app.id, ...body }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error ?? `Failed to ${body.action}`);
+      }
+      setNotice(data.status === "accepted" ? `${success} (in progress)` : success);
+      onChanged();
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${body.action}`);
+    } finally {
+      setPending(null);
+    }
+  }
+
+  if (!revisions && !error) {
+    return (
+      <div className="mt-4 flex items-center gap-2 text-xs text-brand-pewter">
+        <Loader2 className="h-3.5 w-3.5 animate-spin" />
+        Loading revisions...
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-4 space-y-5 border-t border-brand-pewter/10 pt-4">
+      {(error || notice) && (
+        <p className={`text-xs ${error ? "text-red-600" : "text-emerald-700"}`}>{error || notice}</p>
+      )}
+
+      {revisions && (
+        <RevisionsTable
+          appId={app.id}
+          data={revisions}
+          pending={pending}
+          canRestart={app.actions.includes("restart")}
+          canToggle={app.actions.includes("revisions")}
+          onRestart={(revision) => run(`restart:${revision}`, { action: "restart", revision }, `Restarting ${revision}`)}
+          onToggle={(revision) =>
+            run(
+              `toggle:${revision.name}`,
+              { action: revision.active ? "deactivate" : "activate", revision: revision.name },
+              `${revision.active ? "Deactivated" : "Activated"} ${revision.name}`
+            )
+          }
+        />
+      )}
+
+      <div className="grid gap-5 md:grid-cols-2">
+        {revisions && app.actions.includes("traffic") && (
+          <TrafficEditor
+            data={revisions}
+            saving={pending === "traffic"}
+            onSave={(traffic) => run("traffic", { action: "traffic", traffic }, "Traffic split updated")}
+          />
+        )}
+        {scale && (
+          <ScaleEditor
+            data={scale}
+            editable={app.actions.includes("scale")}
+            saving={pending === "scale"}
+            onSave={(minReplicas, maxReplicas) =>
+              run("scale", { action: "scale", minReplicas, maxReplicas }, "Scale updated")
+            }
+          />
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Sub-components
+// ---------------------------------------------------------------------------
+
+function RevisionsTable({
+  appId,
+  data,
+  pending,
+  canRestart,
+  canToggle,
+  onRestart,
+  onToggle,
+}: {
+  appId: string;
+  data: RevisionsResponse;
+  pending: string | null;
+  canRestart: boolean;
+  canToggle: boolean;
+  onRestart: (revision: string) => void;
+  onToggle: (revision: Revision) => void;
+}) {
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  return (
+    <div>
+      <h4 className="text-xs font-semibold uppercase tracking-wide text-brand-pewter">Revisions</h4>
+      <table className="mt-2 w-full text-left text-xs">
+        <thead className="text-brand-pewter">
+          <tr>
+            <th className="py-1 font-medium">Name</th>
+            <th className="py-1 font-medium">Created</th>
+            <th className="py-1 font-medium">State</th>
+            <th className="py-1 text-right font-medium">Replicas</th>
+            <th className="py-1 text-right font-medium">Traffic</th>
+            <th className="py-1" />
+          </tr>
+        </thead>
+        <tbody className="text-brand-charcoal">
+          {data.revisions.map((revision) => (
+            <Fragment key={revision.name}>
+              <tr className="border-t border-brand-pewter/10">
+                <td className="py-1.5">
+                  <button
+                    onClick={() => setExpanded(expanded === revision.name ? null : revision.name)}
+                    className="inline-flex items-center gap-1 font-mono hover:text-brand-teal"
+                  >
+                    {expanded === revision.name ? (
+                      <ChevronDown className="h-3 w-3" />
+                    ) : (
+                      <ChevronRight className="h-3 w-3" />
+                    )}
+                    {revision.name}
+                  </button>
+                  {revision.name === data.latestRevisionName && (
+                    <span className="ml-2 rounded bg-brand-teal/10 px-1.5 py-0.5 text-[10px] text-brand-teal">latest</span>
+                  )}
+                </td>
+                <td className="py-1.5 text-brand-pewter">
+                  {revision.createdTime ? new Date(revision.createdTime).toLocaleString() : "—"}
+                </td>
+                <td className="py-1.5">
+                  {revision.active ? `${revision.runningState} · ${revision.healthState}` : "Inactive"}
+                </td>
+                <td className="py-1.5 text-right">{revision.replicas}</td>
+                <td className="py-1.5 text-right">{revision.trafficWeight}%</td>
+                <td className="py-1.5 text-right">
+                  <div className="inline-flex gap-2">
+                    {revision.active && canRestart && (
+                      <button
+                        onClick={() => onRestart(revision.name)}
+                        disabled={pending !== null}
+                        title="Restart revision"
+                        className="inline-flex items-center gap-1 rounded border border-brand-pewter/30 px-2 py-0.5 hover:bg-brand-mist disabled:opacity-50"
+                      >
+                        {pending === `restart:${revision.name}` ? (
+                          <Loader2 className="h-3 w-3 animate-spin" />
+                        ) : (
+                          <RotateCw className="h-3 w-3" />
+                        )}
+                        Restart
+                      </button>
+                    )}
+                    {canToggle && (
+                      <button
+                        onClick={() => onToggle(revision)}
+                        disabled={pending !== null || (revision.active && revision.trafficWeight > 0)}
+                        title={
+                          revision.active && revision.trafficWeight > 0
+                            ? "Move traffic away before deactivating"
+                            : undefined
+                        }
+                        className="rounded border border-brand-pewter/30 px-2 py-0.5 hover:bg-brand-mist disabled:opacity-50"
+                      >
+                        {pending === `toggle:${revision.name}` ? (
+                          <Loader2 className="h-3 w-3 animate-spin" />
+                        ) : revision.active ? (
+                          "Deactivate"
+                        ) : (
+                          "Activate"
+                        )}
+                      </button>
+                    )}
+                  </div>
+                </td>
+              </tr>
+              {expanded === revision.name && (
+                <tr>
+                  <td colSpan={6} className="pb-2 pl-5">
+                    <ReplicaList appId={appId} revision={revision.name} />
+                  </td>
+                </tr>
+              )}
+            </Fragment>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function ReplicaList({ appId, revision }: { appId: string; revision: string }) {
+  const [replicas, setReplicas] = useState<Replica[] | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    fetchContainerJson<{ replicas: Replica[] }>(appId, "replicas", { revision })
+      .then((data) => setReplicas(data.replicas))
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to load replicas"));
+  }, [appId, revision]);
+
+  if (error) return <p className="text-xs text-red-600">{error}</p>;
+  if (!replicas) return <Loader2 className="h-3.5 w-3.5 animate-spin text-brand-pewter" />;
+  if (replicas.length === 0) return <p className="text-xs text-brand-pewter">No live replicas (scaled to zero).</p>;
+
+  return (
+    <ul className="space-y-1 text-xs">
+      {replicas.map((replica) => (
+        <li key={replica.name} className="flex flex-wrap items-center gap-3">
+          <span className="font-mono">{replica.name}</span>
+          <span className="text-brand-pewter">{replica.runningState}</span>
+          {replica.containers.map((container) => (
+            <span key={container.name} className={container.ready ? "text-emerald-700" : "text-amber-700"}>
+              {container.name}: {container.ready ? "ready" : container.runningState}
+              {container.restartCount > 0 && ` (${container.restartCount} restarts)`}
+            </span>
+          ))}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function TrafficEditor({
+  data,
+  saving,
+  onSave,
+}: {
+  data: RevisionsResponse;
+  saving: boolean;
+  onSave: (traffic: Array<{ revisionName: string; weight: number }>) => void;
+}) {
+  const active = data.revisions.filter((revision) => revision.active);
+  const [weights, setWeights] = useState<Record<string, number>>({});
+
+  useEffect(() => {
+    setWeights(Object.fromEntries(active.map((revision) => [revision.name, revision.trafficWeight])));
+    // Reset the form whenever fresh revisions arrive
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [data]);
+
+  const total = Object.values(weights).reduce((sum, weight) => sum + weight, 0);
+
+  return (
+    <div>
+      <h4 className="text-xs font-semibold uppercase tracking-wide text-brand-pewter">Traffic split</h4>
+      {data.activeRevisionsMode !== "Multiple" ? (
+        <p className="mt-2 text-xs text-brand-pewter">
+          Single revision mode: the latest revision receives all traffic.
+        </p>
+      ) : (
+        <>
+          <div className="mt-2 space-y-1.5">
+            {active.map((revision) => (
+              <label key={revision.name} className="flex items-center justify-between gap-3 text-xs">
+                <span className="font-mono">{revision.name}</span>
+                <span className="inline-flex items-center gap-1">
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={weights[revision.name] ?? 0}
+                    onChange={(event) =>
+                      setWeights({ ...weights, [revision.name]: Number(event.target.value) })
+                    }
+                    className="w-16 rounded border border-brand-pewter/30 px-2 py-0.5 text-right"
+                  />
+                  %
+                </span>
+              </label>
+            ))}
+          </div>
+          <div className="mt-2 flex items-center justify-between text-xs">
+            <span className={total === 100 ? "text-brand-pewter" : "text-red-600"}>Total {total}%</span>
+            <button
+              onClick={() =>
+                onSave(
+                  Object.entries(weights)
+                    .filter(([, weight]) => weight > 0)
+                    .map(([revisionName, weight]) => ({ revisionName, weight }))
+                )
+              }
+              disabled={saving || total !== 100}
+              className="inline-flex items-center gap-1 rounded-lg border border-brand-teal/40 px-3 py-1 font-medium text-brand-teal hover:bg-brand-teal/10 disabled:opacity-50"
+            >
+              {saving && <Loader2 className="h-3 w-3 animate-spin" />}
+              Apply split
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+function ScaleEditor({
+  data,
+  editable,
+  saving,
+  onSave,
+}: {
+  data: ScaleResponse;
+  editable: boolean;
+  saving: boolean;
+  onSave: (minReplicas: number, maxReplicas: number) => void;
+}) {
+  const [min, setMin] = useState(data.minReplicas);
+  const [max, setMax] = useState(data.maxReplicas);
+
+  useEffect(() => {
+    setMin(data.minReplicas);
+    setMax(data.maxReplicas);
+  }, [data]);
+
+  const valid = min >= 0 && max >= 1 && min <= max;
+
+  return (
+    <div>
+      <h4 className="text-xs font-semibold uppercase tracking-wide text-brand-pewter">Scale</h4>
+      <div className="mt-2 flex items-center gap-4 text-xs">
+        <label className="inline-flex items-center gap-1">
+          Min
+          <input
+            type="number"
+            min={0}
+            value={min}
+            disabled={!editable}
+            onChange={(event) => setMin(Number(event.target.value))}
+            className="w-16 rounded border border-brand-pewter/30 px-2 py-0.5 text-right"
+          />
+        </label>
+        <label className="inline-flex items-center gap-1">
+          Max
+          <input
+            type="number"
+            min={1}
+            value={max}
+            disabled={!editable}
+            onChange={(event) => setMax(Number(event.target.value))}
+            className="w-16 rounded border border-brand-pewter/30 px-2 py-0.5 text-right"
+          />
+        </label>
+        {editable && (
+          <button
+            onClick={() => onSave(min, max)}
+            disabled={saving || !valid || (min === data.minReplicas && max === data.maxReplicas)}
+            className="inline-flex items-center gap-1 rounded-lg border border-brand-teal/40 px-3 py-1 font-medium text-brand-teal hover:bg-brand-teal/10 disabled:opacity-50"
+          >
+            {saving && <Loader2 className="h-3 w-3 animate-spin" />}
+            Save
+          </button>
+        )}
+      </div>
+      <p className="mt-2 text-xs text-brand-pewter">
+        {data.rules.length > 0
+          ? `Rules: ${data.rules.map((rule) => `${rule.name} (${rule.type})`).join(", ")}`
+          : "No scale rules (HTTP concurrency defaults)."}
+        {min === 0 && " Min 0 allows scale to zero."}
+      </p>
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+async function fetchContainerJson<T>(app: string, view: string, params: Record<string, string> = {}): Promise<T> {
+  const query = new URLSearchParams({ app, view, ...params });
+  const res = await fetch(`/api/container?${query}`, { cache: "no-store" });
+  const data = await res.json();
+  if (!res.ok) {
+    throw new Error(data.error ?? `Failed to load ${view}`);
+  }
+  return data as T;
+}
@@ -0,0 +1,289 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Download, Loader2, Pause, Play, RefreshCw } from "lucide-react";
+import type { ContainerApp } from "./container-control";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface LogEntry {
+  timestamp: string | null;
+  stream: "stdout" | "stderr" | "system";
+  message: string;
+}
+
+type LogType = "console" | "system";
+
+type LogLevel = "error" | "warn" | "info" | "debug";
+
+interface LogLine extends LogEntry {
+  /** Position in the session, used as the React key */
+  seq: number;
+  level: LogLevel;
+}
+
+type StreamState =
+  | { kind: "connecting" }
+  | { kind: "live" }
+  | { kind: "ended"; error: string | null };
+
+/** Lines kept in the viewer; older ones are dropped */
+const MAX_LINES = 2000;
+
+/** Earlier lines requested when the stream opens */
+const TAIL_LINES = 200;
+
+const LEVEL_STYLES: Record<LogLevel, string> = {
+  error: "text-red-300",
+  warn: "text-amber-300",
+  info: "text-slate-200",
+  debug: "text-slate-500",
+};
+
+/** pino/bunyan numeric levels */
+const NUMERIC_LEVELS: Array<[number, LogLevel]> = [
+  [50, "error"],
+  [40, "warn"],
+  [30, "info"],
+  [0, "debug"],
+];
+
+/**
+ * Best-effort level of a line: a JSON `level` field, else the first level word
+ * in the message. System events are warnings when the platform says so.
+ */
+function detectLevel(entry: LogEntry): LogLevel {
+  const json = /"level"\s*:\s*(\d+|"\w+")/.exec(entry.message);
+  if (json) {
+    const value = json[1].replace(/"/g, "").toLowerCase();
+    if (/^\d+$/.test(value)) {
+      return NUMERIC_LEVELS.find(([min]) => Number(value) >= min)?.[1] ?? "info";
+    }
+    return levelWord(value) ?? "info";
+  }
+  const word = /\b(fatal|critical|error|err|exception|warning|warn|info|debug|trace)\b/i.exec(entry.message);
+  return (word && levelWord(word[1].toLowerCase())) ?? "info";
+}
+
+function levelWord(word: string): LogLevel | null {
+  if (["fatal", "critical", "error", "err", "exception"].includes(word)) return "error";
+  if (word === "warning" || word === "warn") return "warn";
+  if (word === "debug" || word === "trace") return "debug";
+  return word === "info" ? "info" : null;
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+/**
+ * Live console output or system events of a managed container (admin only,
+ * rendered inside ContainerControl), streamed from the gateway. Follow keeps
+ * the newest line in view; pause holds new lines back until resumed.
+ */
+export function ContainerLogs({ app }: { app: ContainerApp }) {
+  const [type, setType] = useState<LogType>("console");
+  const [lines, setLines] = useState<LogLine[]>([]);
+  const [held, setHeld] = useState<LogLine[]>([]);
+  const [state, setState] = useState<StreamState>({ kind: "connecting" });
+  const [paused, setPaused] = useState(false);
+  const [follow, setFollow] = useState(true);
+  const [level, setLevel] = useState<LogLevel | "all">("all");
+  const [filter, setFilter] = useState("");
+  const [session, setSession] = useState(0);
+  const pausedRef = useRef(paused);
+  const viewport = useRef<HTMLDivElement>(null);
+
+  pausedRef.current = paused;
+
+  useEffect(() => {
+    let seq = 0;
+    setLines([]);
+    setHeld([]);
+    setState({ kind: "connecting" });
+
+    const source = new EventSource(
+      `/api/container?${new URLSearchParams({ app: app.id, view: "logs", type, tail: String(TAIL_LINES) })}`
+    );
+    source.onopen = () => {
+      // A reconnect replays the tail, so start over
+      seq = 0;
+      setLines([]);
+      setHeld([]);
+      setState({ kind: "live" });
+    };
+    source.addEventListener("log", (event) => {
+      const entry: LogEntry = JSON.parse((event as MessageEvent<string>).data);
+      const line: LogLine = { ...entry, seq: seq++, level: detectLevel(entry) };
+      const append = (current: LogLine[]) => [...current, line].slice(-MAX_LINES);
+      if (pausedRef.current) {
+        setHeld(append);
+      } else {
+        setLines(append);
+      }
+    });
+    source.addEventListener("end", (event) => {
+      const data: { error: { message: string } | null } = JSON.parse((event as MessageEvent<string>).data);
+      source.close();
+      setState({ kind: "ended", error: data.error?.message ?? null });
+    });
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        setState({ kind: "ended", error: "Log stream unavailable" });
+      } else {
+        setState({ kind: "connecting" });
+      }
+    };
+    return () => source.close();
+  }, [app.id, type, session]);
+
+  const visible = useMemo(() => {
+    const needle = filter.trim().toLowerCase();
+    return lines.filter(
+      (line) =>
+        (level === "all" || line.level === level) &&
+        (needle === "" || line.message.toLowerCase().includes(needle))
+    );
+  }, [lines, level, filter]);
+
+  useEffect(() => {
+    if (follow && viewport.current) {
+      viewport.current.scrollTop = viewport.current.scrollHeight;
+    }
+  }, [visible, follow]);
+
+  function togglePause() {
+    if (paused) {
+      setLines((current) => [...current, ...held].slice(-MAX_LINES));
+      setHeld([]);
+    }
+    setPaused(!paused);
+  }
+
+  function handleScroll() {
+    const element = viewport.current;
+    if (!element) return;
+    // Scrolling up stops following; scrolling back to the bottom resumes it
+    setFollow(element.scrollHeight - element.scrollTop - element.clientHeight < 24);
+  }
+
+  function download() {
+    const text = visible
+      .map((line) => `${line.timestamp ?? "-"} ${line.stream} ${line.message}`)
+      .join("\n");
+    const url = URL.createObjectURL(new Blob([`${text}\n`], { type: "text/plain" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${app.id}-${type}-${new Date().toISOString().replace(/[:.]/g, "-")}.log`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  return (
+    <div className="mt-4 space-y-3 border-t border-brand-pewter/10 pt-4">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <select
+          value={type}
+          onChange={(event) => setType(event.target.value as LogType)}
+          aria-label="Log type"
+          className="rounded-lg border border-brand-pewter/30 bg-white px-2 py-1.5 text-brand-charcoal"
+        >
+          <option value="console">Console</option>
+          <option value="system">System</option>
+        </select>
+        <select
+          value={level}
+          onChange={(event) => setLevel(event.target.value as LogLevel | "all")}
+          aria-label="Level"
+          className="rounded-lg border border-brand-pewter/30 bg-white px-2 py-1.5 text-brand-charcoal"
+        >
+          <option value="all">All levels</option>
+          <option value="error">Errors</option>
+          <option value="warn">Warnings</option>
+          <option value="info">Info</option>
+          <option value="debug">Debug</option>
+        </select>
+        <input
+          type="search"
+          value={filter}
+          onChange={(event) => setFilter(event.target.value)}
+          placeholder="Filter"
+          aria-label="Filter log lines"
+          className="min-w-[8rem] flex-1 rounded-lg border border-brand-pewter/30 px-2 py-1.5 text-brand-charcoal"
+        />
+        <button
+          onClick={togglePause}
+          className="inline-flex items-center gap-1.5 rounded-lg border border-brand-pewter/30 px-2.5 py-1.5 font-medium text-brand-charcoal transition hover:bg-brand-mist"
+        >
+          {paused ? <Play className="h-3.5 w-3.5" /> : <Pause className="h-3.5 w-3.5" />}
+          {paused ? `Resume${held.length > 0 ? ` (${held.length})` : ""}` : "Pause"}
+        </button>
+        <label className="inline-flex items-center gap-1.5 text-brand-pewter">
+          <input type="checkbox" checked={follow} onChange={(event) => setFollow(event.target.checked)} />
+          Follow
+        </label>
+        <button
+          onClick={download}
+          disabled={visible.length === 0}
+          className="inline-flex items-center gap-1.5 rounded-lg border border-brand-pewter/30 px-2.5 py-1.5 font-medium text-brand-charcoal transition hover:bg-brand-mist disabled:opacity-50"
+        >
+          <Download className="h-3.5 w-3.5" />
+          Download
+        </button>
+      </div>
+
+      <div
+        ref={viewport}
+        onScroll={handleScroll}
+        className="h-72 overflow-y-auto rounded-lg bg-slate-950 p-3 font-mono text-[11px] leading-relaxed"
+      >
+        {visible.length === 0 ? (
+          <p className="text-slate-500">
+            {state.kind === "connecting" ? "Connecting..." : lines.length > 0 ? "No lines match the filter." : "No output yet."}
+          </p>
+        ) : (
+          visible.map((line) => (
+            <div key={line.seq} className={`whitespace-pre-wrap break-all ${LEVEL_STYLES[line.level]}`}>
+              <span className="mr-2 text-slate-500">
+                {line.timestamp ? new Date(line.timestamp).toLocaleTimeString() : "--:--:--"}
+              </span>
+              {line.stream === "stderr" && <span className="mr-2 text-red-400">err</span>}
+              {line.message}
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="flex items-center gap-2 text-xs text-brand-pewter">
+        {state.kind === "connecting" && (
+          <>
+            <Loader2 className="h-3.5 w-3.5 animate-spin" />
+            Connecting to the log stream...
+          </>
+        )}
+        {state.kind === "live" && (
+          <>
+            <span className="h-2 w-2 rounded-full bg-emerald-500" />
+            Live{paused ? " (paused)" : ""} - {lines.length} line{lines.length === 1 ? "" : "s"}
+          </>
+        )}
+        {state.kind === "ended" && (
+          <>
+            <span className={state.error ? "text-red-600" : undefined}>
+              {state.error ? `Stream ended: ${state.error}` : "Stream ended"}
+            </span>
+            <button
+              onClick={() => setSession((current) => current + 1)}
+              className="inline-flex items-center gap-1 font-medium text-brand-charcoal hover:underline"
+            >
+              <RefreshCw className="h-3 w-3" />
+              Reconnect
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
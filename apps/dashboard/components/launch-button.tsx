@@ -2,12 +2,13 @@
 
 import Link from "next/link";
 import { ArrowRight } from "lucide-react";
+import type { Permission } from "@/lib/permissions";
 import { RoleGate } from "./role-gate";
 
-export function LaunchButton({ href }: { href: string }) {
+export function LaunchButton({ href, permission }: { href: string; permission: Permission }) {
   return (
     <div className="mt-6">
-      <RoleGate requiredRole="admin">
+      <RoleGate permission={permission}>
         <Link
           href={href}
           prefetch={false}
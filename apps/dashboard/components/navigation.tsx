@@ -4,8 +4,8 @@ import { routes } from "../lib/routes";
 import { UserMenu } from "./user-menu";
 import { AdminNav } from "./admin-nav";
 
-const publicRoutes = routes.filter((r) => !("adminOnly" in r && r.adminOnly));
-const adminRoutes = routes.filter((r) => "adminOnly" in r && r.adminOnly);
+const publicRoutes = routes.filter((r) => !r.permission);
+const gatedRoutes = routes.filter((r) => r.permission);
 
 export function Navigation() {
   return (
@@ -28,16 +28,16 @@ export function Navigation() {
             <Link
               key={route.href}
               href={route.href}
-              prefetch={!("external" in route && route.external)}
-              target={"external" in route && route.external ? "_blank" : undefined}
-              rel={"external" in route && route.external ? "noreferrer" : undefined}
+              prefetch={!route.external}
+              target={route.external ? "_blank" : undefined}
+              rel={route.external ? "noreferrer" : undefined}
               className="group relative transition hover:text-brand-teal"
             >
               {route.label}
               <span className="pointer-events-none absolute inset-x-0 -bottom-1 h-0.5 origin-left scale-x-0 bg-brand-teal transition-transform duration-200 group-hover:scale-x-100" />
             </Link>
           ))}
-          <AdminNav items={adminRoutes} />
+          <AdminNav items={gatedRoutes} />
         </nav>
         <UserMenu />
       </div>
@@ -2,22 +2,23 @@
 
 import { useSession } from "next-auth/react";
 import { ShieldAlert } from "lucide-react";
+import { hasPermission, type Permission } from "@/lib/permissions";
 
 interface RoleGateProps {
-  requiredRole: "admin" | "viewer";
+  permission: Permission;
   children: React.ReactNode;
   fallback?: React.ReactNode;
 }
 
-export function RoleGate({ requiredRole, children, fallback }: RoleGateProps) {
+/**
+ * Renders children only for users whose role grants the permission.
+ */
+export function RoleGate({ permission, children, fallback }: RoleGateProps) {
   const { data: session } = useSession();
 
   if (!session?.user) return null;
 
-  const userRole = session.user.role;
-
-  // viewer can access viewer-gated content, admin can access everything
-  if (requiredRole === "admin" && userRole !== "admin") {
+  if (!hasPermission(session.user, permission)) {
     return (
       fallback ?? (
         <span className="inline-flex items-center gap-1.5 rounded-2xl bg-brand-pewter/10 px-4 py-2 text-sm font-medium text-brand-pewter">
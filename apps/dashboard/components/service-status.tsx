@@ -2,6 +2,7 @@
 
 import { useEffect, useState, useCallback } from "react";
 import { serviceUrls } from "@/lib/config";
+import { gatewayAuthHeaders } from "@/lib/gateway-browser";
 
 // =============================================================================
 // TYPES
@@ -26,6 +27,35 @@ interface ServicesStatusResponse {
   };
 }
 
+interface HealthSample {
+  timestamp: string;
+  status: "healthy" | "unhealthy";
+  latencyMs: number;
+  code?: string;
+}
+
+interface Outage {
+  startedAt: string;
+  endedAt: string | null;
+  durationMs: number;
+  code?: string;
+}
+
+interface ServiceHistory {
+  name: string;
+  current: "healthy" | "unhealthy" | "unknown";
+  uptimePercent: number | null;
+  latency: { p50: number | null; p95: number | null };
+  samples: HealthSample[];
+  outages: Outage[];
+}
+
+interface ServicesHistoryResponse {
+  intervalMs: number;
+  windowMs: number;
+  services: Record<string, ServiceHistory>;
+}
+
 type FetchState = "loading" | "success" | "error";
 
 // =============================================================================
@@ -38,42 +68,39 @@ const POLL_INTERVAL_MS = 30000;
 /** Request timeout (10 seconds) */
 const REQUEST_TIMEOUT_MS = 10000;
 
+/** Samples charted per service (one hour at the gateway's default 30 s probe interval) */
+const HISTORY_SAMPLES = 120;
+
 // =============================================================================
 // COMPONENT
 // =============================================================================
 
 /**
  * ServiceStatus component displays real-time health status of all services.
- * Polls the gateway's /api/v1/services/status endpoint periodically.
+ * Polls the gateway's /api/v1/services/status endpoint periodically,
+ * authenticated with a short-lived gateway token (never an API key).
  *
  * Features:
  * - Visual status indicators (green/yellow/red dots)
  * - Auto-refresh every 30 seconds
  * - Manual refresh button
  * - Latency display for each service
+ * - Uptime, p95 latency and a recent-history chart from /api/v1/services/history
  */
 export function ServiceStatus() {
   const [data, setData] = useState<ServicesStatusResponse | null>(null);
+  const [history, setHistory] = useState<ServicesHistoryResponse | null>(null);
   const [fetchState, setFetchState] = useState<FetchState>("loading");
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
 
   const fetchStatus = useCallback(async () => {
-    try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
-
-      const response = await fetch(`${serviceUrls.apiGateway}/api/v1/services/status`, {
-        signal: controller.signal,
-        headers: { Accept: "application/json" }
-      });
+    // History is best-effort: the cards still work without it
+    void fetchGatewayJson<ServicesHistoryResponse>(`/api/v1/services/history?limit=${HISTORY_SAMPLES}`)
+      .then(setHistory)
+      .catch((error) => console.error("Failed to fetch service history:", error));
 
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}`);
-      }
-
-      const json: ServicesStatusResponse = await response.json();
+    try {
+      const json = await fetchGatewayJson<ServicesStatusResponse>("/api/v1/services/status");
       setData(json);
       setFetchState("success");
       setLastUpdated(new Date());
@@ -128,11 +155,15 @@ export function ServiceStatus() {
           name="Document Analysis"
           status={fetchState === "error" ? "unknown" : data?.services.fwAnalysis.status ?? "unknown"}
           latencyMs={data?.services.fwAnalysis.latencyMs}
+          history={history?.services.fwAnalysis}
+          windowMs={history?.windowMs}
         />
         <ServiceCard
           name="BackPro Platform"
           status={fetchState === "error" ? "unknown" : data?.services.backpro.status ?? "unknown"}
           latencyMs={data?.services.backpro.latencyMs}
+          history={history?.services.backpro}
+          windowMs={history?.windowMs}
         />
       </div>
     </div>
@@ -189,12 +220,16 @@ function ServiceCard({
   name,
   status,
   latencyMs,
-  version
+  version,
+  history,
+  windowMs
 }: {
   name: string;
   status: "healthy" | "unhealthy" | "unknown";
   latencyMs: number | null | undefined;
   version?: string;
+  history?: ServiceHistory;
+  windowMs?: number;
 }) {
   const statusConfig = {
     healthy: {
@@ -238,14 +273,113 @@ function ServiceCard({
           <span className="text-xs text-brand-pewter">v{version}</span>
         )}
       </div>
+      {history && history.samples.length > 0 && windowMs !== undefined && (
+        <HealthHistory history={history} windowMs={windowMs} />
+      )}
+    </div>
+  );
+}
+
+/**
+ * Uptime and latency over the history window, plus a chart of recent probes:
+ * a latency sparkline above one bar per probe (green healthy, red unhealthy).
+ */
+function HealthHistory({ history, windowMs }: { history: ServiceHistory; windowMs: number }) {
+  const lastOutage = history.outages[history.outages.length - 1];
+
+  return (
+    <div className="mt-3 space-y-1.5">
+      <div className="flex items-center justify-between text-xs text-brand-pewter">
+        <span>
+          {history.uptimePercent !== null ? `${history.uptimePercent}%` : "—"} uptime ({formatDuration(windowMs)})
+        </span>
+        {history.latency.p95 !== null && <span>p95 {history.latency.p95}ms</span>}
+      </div>
+      <LatencySparkline samples={history.samples} />
+      <div className="flex h-2 gap-px" aria-label="Recent health checks">
+        {history.samples.map((sample) => (
+          <span
+            key={sample.timestamp}
+            className={`flex-1 rounded-sm ${sample.status === "healthy" ? "bg-emerald-400" : "bg-red-400"}`}
+            title={`${new Date(sample.timestamp).toLocaleTimeString()} · ${
+              sample.status === "healthy" ? `${sample.latencyMs}ms` : sample.code ?? "unhealthy"
+            }`}
+          />
+        ))}
+      </div>
+      {lastOutage && (
+        <p className="text-xs text-brand-pewter">
+          {lastOutage.endedAt === null
+            ? `Down for ${formatDuration(lastOutage.durationMs)}`
+            : `Last outage ${formatDuration(lastOutage.durationMs)}, ${formatTimeAgo(new Date(lastOutage.endedAt))}`}
+        </p>
+      )}
     </div>
   );
 }
 
+function LatencySparkline({ samples }: { samples: HealthSample[] }) {
+  const healthy = samples.filter((sample) => sample.status === "healthy");
+  if (healthy.length < 2) {
+    return null;
+  }
+
+  const max = Math.max(...healthy.map((sample) => sample.latencyMs), 1);
+  const points = healthy
+    .map((sample, index) => `${(index / (healthy.length - 1)) * 100},${24 - (sample.latencyMs / max) * 22}`)
+    .join(" ");
+
+  return (
+    <svg viewBox="0 0 100 24" preserveAspectRatio="none" className="h-6 w-full" aria-label="Latency trend">
+      <polyline
+        points={points}
+        fill="none"
+        stroke="currentColor"
+        strokeWidth="1.5"
+        vectorEffect="non-scaling-stroke"
+        className="text-brand-teal"
+      />
+    </svg>
+  );
+}
+
 // =============================================================================
 // UTILITIES
 // =============================================================================
 
+/**
+ * GETs a gateway endpoint with a gateway token and a request timeout.
+ */
+async function fetchGatewayJson<T>(path: string): Promise<T> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(`${serviceUrls.apiGateway}${path}`, {
+      signal: controller.signal,
+      headers: { Accept: "application/json", ...(await gatewayAuthHeaders()) }
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    return (await response.json()) as T;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 1) return `${Math.max(1, Math.round(ms / 1000))}s`;
+  if (minutes < 60) return `${minutes}m`;
+
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `${hours}h`;
+
+  return `${Math.round(hours / 24)}d`;
+}
+
 function formatTimeAgo(date: Date): string {
   const seconds = Math.floor((Date.now() - date.getTime()) / 1000);
 
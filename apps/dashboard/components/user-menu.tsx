@@ -1,7 +1,9 @@
 "use client";
 
+import Link from "next/link";
 import { useSession, signOut } from "next-auth/react";
 import { LogOut } from "lucide-react";
+import { roleLabel } from "@/lib/permissions";
 
 export function UserMenu() {
   const { data: session } = useSession();
@@ -13,9 +15,13 @@ export function UserMenu() {
   return (
     <div className="flex items-center gap-3">
       <div className="flex items-center gap-2">
-        <span className="text-sm font-medium text-brand-charcoal">
+        <Link
+          href="/account"
+          title="Sign-in security"
+          className="text-sm font-medium text-brand-charcoal transition hover:text-brand-teal"
+        >
           {session.user.email}
-        </span>
+        </Link>
         <span
           className={`rounded-full px-2 py-0.5 text-xs font-semibold ${
             isAdmin
@@ -23,7 +29,7 @@ export function UserMenu() {
               : "bg-brand-pewter/10 text-brand-pewter"
           }`}
         >
-          {isAdmin ? "Admin" : "Viewer"}
+          {roleLabel(session.user.role)}
         </span>
       </div>
       <button
@@ -0,0 +1,59 @@
+import type { Session } from "next-auth";
+import { clientIp } from "./client-ip";
+import { serviceUrls } from "./config";
+import { auditAuthHeader } from "./gateway-token";
+
+/**
+ * Audit log entries for dashboard actions.
+ *
+ * The audit log lives in the API gateway. Actions the dashboard performs on
+ * its own (user management) are posted to POST /api/v1/audit with an
+ * audit:write token minted here for the acting user — never one the browser
+ * can obtain — so the gateway attributes them to that user and chains them
+ * with its own entries (container control, schedules, API keys). Sign-in
+ * lockouts have no user and are posted as the "dashboard" actor.
+ */
+
+export interface AuditEvent {
+  /** Dotted action name, e.g. "user.update" */
+  action: string;
+  /** e.g. "user:ops@example.com" */
+  target: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+/** The dashboard itself, as the actor for events no signed-in user caused (account lockouts) */
+const SYSTEM_ACTOR = { email: "dashboard", role: "system" };
+
+/**
+ * Records an action the signed-in user has already performed. Failures are
+ * logged, not thrown — the action itself succeeded.
+ */
+export async function recordAudit(session: Session, request: Request, event: AuditEvent): Promise<void> {
+  await postAudit(session.user, event, clientIp(request.headers.get("x-forwarded-for")));
+}
+
+/**
+ * Records an event the dashboard itself observed, attributed to the
+ * "dashboard" actor. Failures are logged, not thrown.
+ */
+export async function recordSystemAudit(event: AuditEvent, ip?: string): Promise<void> {
+  await postAudit(SYSTEM_ACTOR, event, ip);
+}
+
+async function postAudit(actor: { email: string; role: string }, event: AuditEvent, ip: string | undefined): Promise<void> {
+  try {
+    const res = await fetch(`${serviceUrls.apiGateway}/api/v1/audit`, {
+      method: "POST",
+      headers: { ...(await auditAuthHeader(actor)), "Content-Type": "application/json" },
+      body: JSON.stringify({ ...event, ...(ip && { ip }) }),
+      cache: "no-store",
+    });
+    if (!res.ok) {
+      throw new Error(`Gateway error (${res.status})`);
+    }
+  } catch (err) {
+    console.error("Audit log write failed", event.action, event.target, err);
+  }
+}
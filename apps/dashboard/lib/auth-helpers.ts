@@ -1,13 +1,30 @@
-import { getServerSession } from "next-auth";
+import { getServerSession, type Session } from "next-auth";
 import { authOptions } from "./auth";
+import { mfaAvailable } from "./mfa";
+import { hasPermission, type Permission } from "./permissions";
 
 export async function getSession() {
   return getServerSession(authOptions);
 }
 
-export async function requireRole(role: "admin" | "viewer") {
+/**
+ * The session when the signed-in user holds the permission, otherwise null.
+ * Pages redirect and API routes answer 403 on null.
+ */
+export async function requirePermission(permission: Permission) {
   const session = await getSession();
-  if (!session) return null;
-  if (role === "admin" && session.user.role !== "admin") return null;
+  if (!session || !hasPermission(session.user, permission)) return null;
   return session;
 }
+
+/** 403 message for sensitive actions attempted without MFA */
+export const MFA_REQUIRED_ERROR = "This action requires signing in with multi-factor authentication.";
+
+/**
+ * Whether the session may perform sensitive actions (container control,
+ * user and role changes): it was signed in with a second factor, or MFA is
+ * unavailable because Upstash Redis is not configured.
+ */
+export function hasMfa(session: Session): boolean {
+  return session.user.mfa || !mfaAvailable();
+}
@@ -1,33 +1,98 @@
 import type { NextAuthOptions } from "next-auth";
+import type { Provider } from "next-auth/providers/index";
 import CredentialsProvider from "next-auth/providers/credentials";
 import bcrypt from "bcryptjs";
+import { clientIp } from "./client-ip";
+import { checkLogin, recordLoginFailure, recordLoginSuccess } from "./login-throttle";
+import { mfaAvailable, verifySecondFactor } from "./mfa";
+import { getRole } from "./role-store";
+import { SSO_PROVIDER_ID, completeSsoSignIn, entraProvider, passwordLoginEnabled, ssoConfig } from "./sso";
 import { getUserByEmail } from "./user-store";
 
-export const authOptions: NextAuthOptions = {
-  providers: [
+/** Compared against when the email is unknown, so both cases take as long */
+const DUMMY_HASH = bcrypt.hashSync("not-a-real-password", 10);
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * The second step for a session signed in without one (a Microsoft sign-in
+ * Entra did not ask a second factor for, or a password sign-in before
+ * enrolling): a current TOTP or recovery code, throttled like a sign-in.
+ */
+async function verifySessionCode(email: string, code: string): Promise<boolean> {
+  const throttle = await checkLogin(email);
+  if (throttle.blocked) return false;
+  await sleep(throttle.delayMs);
+
+  const user = await getUserByEmail(email);
+  if (!user?.mfa?.enabledAt) return false;
+  if (!(await verifySecondFactor(user, code))) {
+    await recordLoginFailure(email);
+    return false;
+  }
+  await recordLoginSuccess(email);
+  return true;
+}
+
+const providers: Provider[] = [];
+
+if (passwordLoginEnabled) {
+  providers.push(
     CredentialsProvider({
       name: "Credentials",
       credentials: {
         email: { label: "Email", type: "email" },
         password: { label: "Password", type: "password" },
+        code: { label: "Authentication code", type: "text" },
       },
-      async authorize(credentials) {
+      async authorize(credentials, req) {
         if (!credentials?.email || !credentials?.password) return null;
 
-        const user = await getUserByEmail(credentials.email);
-        if (!user) return null;
+        // Every refusal below reads the same whether or not the account exists
+        const email = credentials.email.toLowerCase().trim();
+        const forwarded = req?.headers?.["x-forwarded-for"];
+        const ip = clientIp(typeof forwarded === "string" ? forwarded : undefined);
+        const throttle = await checkLogin(email, ip);
+        if (throttle.blocked) throw new Error("TooManyAttempts");
+        await sleep(throttle.delayMs);
+
+        const user = await getUserByEmail(email);
+        // SSO-provisioned users have no password
+        const valid = await bcrypt.compare(credentials.password, user?.hash || DUMMY_HASH);
+        if (!user?.hash || !valid) {
+          await recordLoginFailure(email, ip);
+          return null;
+        }
 
-        const valid = await bcrypt.compare(credentials.password, user.hash);
-        if (!valid) return null;
+        // Second step: the login form asks for a code on "MfaRequired"
+        if (user.mfa?.enabledAt) {
+          if (!credentials.code) throw new Error("MfaRequired");
+          if (!(await verifySecondFactor(user, credentials.code))) {
+            await recordLoginFailure(email, ip);
+            throw new Error("MfaInvalid");
+          }
+        }
 
+        await recordLoginSuccess(email);
         return {
           id: user.email,
           email: user.email,
           role: user.role,
+          mfa: Boolean(user.mfa?.enabledAt),
         };
       },
-    }),
-  ],
+    })
+  );
+}
+
+if (ssoConfig) {
+  providers.push(entraProvider(ssoConfig));
+}
+
+export const authOptions: NextAuthOptions = {
+  providers,
   pages: {
     signIn: "/login",
   },
@@ -36,16 +101,35 @@ export const authOptions: NextAuthOptions = {
     maxAge: 24 * 60 * 60, // 24 hours
   },
   callbacks: {
-    async jwt({ token, user }) {
+    async signIn({ user, account }) {
+      if (account?.provider === SSO_PROVIDER_ID) {
+        return completeSsoSignIn(user);
+      }
+      return true;
+    },
+    async jwt({ token, user, trigger, session }) {
       if (user) {
         token.role = user.role;
+        token.mfa = user.mfa ?? false;
+      }
+      // useSession().update({ code }) from the Account page
+      if (trigger === "update" && !token.mfa && token.email && typeof session?.code === "string") {
+        token.mfa = await verifySessionCode(token.email, session.code);
       }
+      // Resolved on every request so edits to a custom role apply immediately
+      const role = await getRole(token.role);
+      token.permissions = role?.permissions ?? [];
+      // Without Redis nobody can enrol, so the requirement cannot apply
+      token.mfaRequired = Boolean(role?.requireMfa) && mfaAvailable();
       return token;
     },
     async session({ session, token }) {
       if (session.user) {
         session.user.id = token.sub!;
         session.user.role = token.role;
+        session.user.permissions = token.permissions;
+        session.user.mfa = token.mfa;
+        session.user.mfaRequired = token.mfaRequired;
       }
       return session;
     },
@@ -0,0 +1,36 @@
+/**
+ * The browser's address, for sign-in throttling and audit entries.
+ *
+ * Next.js route handlers and NextAuth callbacks see only the request headers,
+ * so the address comes from X-Forwarded-For. Each proxy appends the address it
+ * received the request from; everything to the left of the platform's entry
+ * is whatever the client sent and can be forged. TRUST_PROXY_HOPS is the
+ * number of proxies in front of the dashboard that append an entry (like a
+ * hop count in the gateway's TRUST_PROXY): the client is the entry that many
+ * places from the right. Static Web Apps and App Service add one (default);
+ * 0 ignores the header.
+ */
+
+function hopsEnv(): number {
+  const value = Number(process.env.TRUST_PROXY_HOPS ?? 1);
+  return Number.isInteger(value) && value >= 0 ? value : 1;
+}
+
+const TRUST_PROXY_HOPS = hopsEnv();
+
+/** "203.0.113.7:53211" → "203.0.113.7", "[2001:db8::1]:443" → "2001:db8::1" */
+function stripPort(address: string): string {
+  return address.replace(/^(\d+\.\d+\.\d+\.\d+):\d+$/, "$1").replace(/^\[([^\]]+)\](:\d+)?$/, "$1");
+}
+
+/**
+ * The client address from an X-Forwarded-For value, or undefined when it
+ * cannot be told (no header, or no trusted hops).
+ */
+export function clientIp(forwardedFor: string | null | undefined, hops = TRUST_PROXY_HOPS): string | undefined {
+  if (!forwardedFor || hops === 0) return undefined;
+  const entries = forwardedFor.split(",").map((entry) => entry.trim()).filter(Boolean);
+  // Fewer entries than hops: the leftmost is the furthest address known
+  const entry = entries[Math.max(entries.length - hops, 0)];
+  return entry ? stripPort(entry) : undefined;
+}
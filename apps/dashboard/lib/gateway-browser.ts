@@ -0,0 +1,54 @@
+/**
+ * Browser-side gateway access.
+ *
+ * Browsers never hold a gateway API key. They fetch a short-lived token from
+ * GET /api/gateway-token (minted from the NextAuth session) and send it as
+ * `Authorization: Bearer <token>`. Tokens are cached until shortly before
+ * they expire; concurrent callers share one refresh.
+ */
+
+// ---------------------------------------------------------------------------
+// Token cache
+// ---------------------------------------------------------------------------
+
+/** Refresh this long before expiry to absorb clock skew and request latency */
+const REFRESH_MARGIN_MS = 30000;
+
+let cachedToken: { token: string; expiresAt: number } | null = null;
+let pendingToken: Promise<string | null> | null = null;
+
+async function fetchGatewayToken(): Promise<string | null> {
+  const res = await fetch("/api/gateway-token", { cache: "no-store" });
+  if (!res.ok) {
+    cachedToken = null;
+    return null;
+  }
+
+  const data: { token: string; expiresAt: string } = await res.json();
+  cachedToken = { token: data.token, expiresAt: Date.parse(data.expiresAt) };
+  return data.token;
+}
+
+/**
+ * Returns a valid gateway token, or null when the user is not signed in.
+ */
+async function getGatewayToken(): Promise<string | null> {
+  if (cachedToken && cachedToken.expiresAt - REFRESH_MARGIN_MS > Date.now()) {
+    return cachedToken.token;
+  }
+
+  pendingToken ??= fetchGatewayToken()
+    .catch(() => null)
+    .finally(() => {
+      pendingToken = null;
+    });
+  return pendingToken;
+}
+
+/**
+ * Headers for a direct `fetch` to the gateway from the browser.
+ */
+export async function gatewayAuthHeaders(): Promise<Record<string, string>> {
+  const token = await getGatewayToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
@@ -0,0 +1,92 @@
+import { SignJWT } from "jose";
+import type { Session } from "next-auth";
+import { mfaAvailable } from "./mfa";
+import { gatewayScopes } from "./permissions";
+
+/**
+ * Short-lived gateway tokens.
+ *
+ * The dashboard server exchanges a user's session for an HS256 JWT that the
+ * API Gateway accepts as `Authorization: Bearer <token>`, so no long-lived
+ * gateway key ever reaches the browser. Tokens carry the user's role and the
+ * gateway scopes its permissions grant (see PERMISSION_SCOPES); sessions
+ * signed in without MFA do not get the scopes of MFA_PERMISSIONS.
+ *
+ * Env (server-only — must match the gateway):
+ * - GATEWAY_TOKEN_SECRET: shared HS256 secret (required)
+ * - GATEWAY_TOKEN_ISSUER: default "fw-admin-dashboard"
+ * - GATEWAY_TOKEN_AUDIENCE: default "fw-admin-gateway"
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface GatewayToken {
+  token: string;
+  /** ISO timestamp */
+  expiresAt: string;
+}
+
+// ---------------------------------------------------------------------------
+// Lifetime
+// ---------------------------------------------------------------------------
+
+/** Token lifetime (5 minutes); the gateway rejects anything older than 15 */
+export const GATEWAY_TOKEN_TTL_SECONDS = 300;
+
+// ---------------------------------------------------------------------------
+// Minting
+// ---------------------------------------------------------------------------
+
+function getSecret(): Uint8Array {
+  const secret = process.env.GATEWAY_TOKEN_SECRET;
+  if (!secret) {
+    throw new Error("GATEWAY_TOKEN_SECRET is not configured.");
+  }
+  return new TextEncoder().encode(secret);
+}
+
+async function signToken(subject: string, role: string, scopes: string[]): Promise<GatewayToken> {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const expiresAt = issuedAt + GATEWAY_TOKEN_TTL_SECONDS;
+
+  const token = await new SignJWT({ role, scopes })
+    .setProtectedHeader({ alg: "HS256", typ: "JWT" })
+    .setSubject(subject)
+    .setIssuer(process.env.GATEWAY_TOKEN_ISSUER ?? "fw-admin-dashboard")
+    .setAudience(process.env.GATEWAY_TOKEN_AUDIENCE ?? "fw-admin-gateway")
+    .setIssuedAt(issuedAt)
+    .setExpirationTime(expiresAt)
+    .sign(getSecret());
+
+  return { token, expiresAt: new Date(expiresAt * 1000).toISOString() };
+}
+
+/**
+ * Mint a gateway token for a signed-in user. These tokens are handed to the
+ * browser (GET /api/gateway-token).
+ */
+export async function mintGatewayToken(user: Session["user"]): Promise<GatewayToken> {
+  // Same rule as hasMfa: without Upstash Redis nobody can enrol
+  const mfa = user.mfa || !mfaAvailable();
+  return signToken(user.email, user.role, gatewayScopes(user.permissions, { mfa }));
+}
+
+/**
+ * Authorization header for server-side gateway calls on behalf of a user.
+ */
+export async function gatewayAuthHeader(user: Session["user"]): Promise<{ Authorization: string }> {
+  const { token } = await mintGatewayToken(user);
+  return { Authorization: `Bearer ${token}` };
+}
+
+/**
+ * Authorization header for recording an audit entry attributed to `actor`.
+ * The token carries only audit:write, which no browser token is given, so
+ * the gateway can trust what it records (including the client IP).
+ */
+export async function auditAuthHeader(actor: { email: string; role: string }): Promise<{ Authorization: string }> {
+  const { token } = await signToken(actor.email, actor.role, ["audit:write"]);
+  return { Authorization: `Bearer ${token}` };
+}
@@ -8,8 +8,10 @@ type GatewayHealth = {
   version: string;
 };
 
+// Only public endpoints are called server-side here — no credentials needed
 const client = createGatewayClient({
-  baseUrl: serviceUrls.apiGateway
+  baseUrl: serviceUrls.apiGateway,
+  requireApiKey: false
 });
 
 export const getGatewayHealth = cache(async (): Promise<GatewayHealth | null> => {
@@ -0,0 +1,194 @@
+import { recordSystemAudit } from "./audit";
+import { getRedis } from "./user-store";
+
+/**
+ * Failed sign-in tracking for the credentials provider.
+ *
+ * Failures are counted per account and per client IP. Each failure on an
+ * account delays its next attempt a little longer; AUTH_LOCKOUT_THRESHOLD
+ * failures lock the account for AUTH_LOCKOUT_MINUTES (an admin can unlock it
+ * from the Users page), and AUTH_IP_FAILURE_LIMIT failures from one IP refuse
+ * that IP for the same period. Unknown emails are tracked exactly like real
+ * ones, so nothing here reveals whether an account exists.
+ *
+ * Counters live in Upstash Redis, shared by every instance; without it they
+ * are kept in this process's memory.
+ */
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+function intEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+const LOCKOUT_THRESHOLD = intEnv("AUTH_LOCKOUT_THRESHOLD", 5);
+const LOCKOUT_SECONDS = intEnv("AUTH_LOCKOUT_MINUTES", 15) * 60;
+const IP_FAILURE_LIMIT = intEnv("AUTH_IP_FAILURE_LIMIT", 20);
+
+/** Delay after the first failure, doubling with each further one */
+const BASE_DELAY_MS = 250;
+const MAX_DELAY_MS = 8_000;
+
+const KEY_PREFIX = "dashboard:login";
+
+// ---------------------------------------------------------------------------
+// Counter store (Redis, or memory without it)
+// ---------------------------------------------------------------------------
+
+interface CounterStore {
+  /** Increment a counter, starting its expiry on the first increment */
+  increment(key: string, ttlSeconds: number): Promise<number>;
+  get(key: string): Promise<number>;
+  /** Seconds until the key expires, or 0 when it does not exist */
+  ttl(key: string): Promise<number>;
+  set(key: string, value: number, ttlSeconds: number): Promise<void>;
+  delete(...keys: string[]): Promise<void>;
+}
+
+const memory = new Map<string, { value: number; expiresAt: number }>();
+/** Sweep expired entries once the map grows past this (e.g. many unknown emails) */
+const MEMORY_SWEEP_SIZE = 10_000;
+
+function memoryEntry(key: string) {
+  const entry = memory.get(key);
+  if (entry && entry.expiresAt <= Date.now()) {
+    memory.delete(key);
+    return undefined;
+  }
+  return entry;
+}
+
+const memoryStore: CounterStore = {
+  async increment(key, ttlSeconds) {
+    if (memory.size > MEMORY_SWEEP_SIZE) {
+      for (const [k, e] of memory) if (e.expiresAt <= Date.now()) memory.delete(k);
+    }
+    const entry = memoryEntry(key) ?? { value: 0, expiresAt: Date.now() + ttlSeconds * 1000 };
+    entry.value += 1;
+    memory.set(key, entry);
+    return entry.value;
+  },
+  async get(key) {
+    return memoryEntry(key)?.value ?? 0;
+  },
+  async ttl(key) {
+    const entry = memoryEntry(key);
+    return entry ? Math.ceil((entry.expiresAt - Date.now()) / 1000) : 0;
+  },
+  async set(key, value, ttlSeconds) {
+    memory.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+  },
+  async delete(...keys) {
+    for (const key of keys) memory.delete(key);
+  },
+};
+
+function getStore(): CounterStore {
+  const redis = getRedis();
+  if (!redis) return memoryStore;
+
+  return {
+    async increment(key, ttlSeconds) {
+      const value = await redis.incr(key);
+      if (value === 1) await redis.expire(key, ttlSeconds);
+      return value;
+    },
+    async get(key) {
+      return Number((await redis.get<number>(key)) ?? 0);
+    },
+    async ttl(key) {
+      return Math.max(await redis.ttl(key), 0);
+    },
+    async set(key, value, ttlSeconds) {
+      await redis.set(key, value, { ex: ttlSeconds });
+    },
+    async delete(...keys) {
+      await redis.del(...keys);
+    },
+  };
+}
+
+function keys(email: string, ip?: string) {
+  const account = email.toLowerCase().trim();
+  return {
+    accountFailures: `${KEY_PREFIX}:failures:account:${account}`,
+    /** Null when the client IP is unknown (no X-Forwarded-For): not tracked */
+    ipFailures: ip ? `${KEY_PREFIX}:failures:ip:${ip}` : null,
+    lock: `${KEY_PREFIX}:lock:${account}`,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Whether a sign-in attempt may go ahead and how long to hold it first.
+ */
+export async function checkLogin(email: string, ip?: string): Promise<{ blocked: boolean; delayMs: number }> {
+  const store = getStore();
+  const k = keys(email, ip);
+  const [locked, ipFailures, accountFailures] = await Promise.all([
+    store.get(k.lock),
+    k.ipFailures ? store.get(k.ipFailures) : 0,
+    store.get(k.accountFailures),
+  ]);
+
+  return {
+    blocked: locked > 0 || ipFailures >= IP_FAILURE_LIMIT,
+    delayMs: accountFailures > 0 ? Math.min(BASE_DELAY_MS * 2 ** (accountFailures - 1), MAX_DELAY_MS) : 0,
+  };
+}
+
+/**
+ * Count a failed attempt (wrong password or code, or unknown email). Locks
+ * the account, or starts refusing the IP, when it crosses its limit — and
+ * records that in the audit log.
+ */
+export async function recordLoginFailure(email: string, ip?: string): Promise<void> {
+  const store = getStore();
+  const k = keys(email, ip);
+  const account = email.toLowerCase().trim();
+
+  const [accountFailures, ipFailures] = await Promise.all([
+    store.increment(k.accountFailures, LOCKOUT_SECONDS),
+    k.ipFailures ? store.increment(k.ipFailures, LOCKOUT_SECONDS) : 0,
+  ]);
+
+  if (accountFailures === LOCKOUT_THRESHOLD) {
+    await store.set(k.lock, 1, LOCKOUT_SECONDS);
+    const lockedUntil = new Date(Date.now() + LOCKOUT_SECONDS * 1000).toISOString();
+    console.warn(`[login] ${account} locked until ${lockedUntil} after ${accountFailures} failed attempts`);
+    await recordSystemAudit(
+      { action: "auth.lockout", target: `user:${account}`, after: { failures: accountFailures, lockedUntil } },
+      ip
+    );
+  }
+  if (ipFailures === IP_FAILURE_LIMIT) {
+    console.warn(`[login] refusing sign-ins from ${ip} after ${ipFailures} failed attempts`);
+    await recordSystemAudit(
+      { action: "auth.ip-blocked", target: `ip:${ip}`, after: { failures: ipFailures, seconds: LOCKOUT_SECONDS } },
+      ip
+    );
+  }
+}
+
+/** Reset an account's failure count after a successful sign-in. */
+export async function recordLoginSuccess(email: string): Promise<void> {
+  await getStore().delete(keys(email).accountFailures);
+}
+
+/** When the account's lockout ends, or null when it is not locked. */
+export async function lockedUntil(email: string): Promise<string | null> {
+  const seconds = await getStore().ttl(keys(email).lock);
+  return seconds > 0 ? new Date(Date.now() + seconds * 1000).toISOString() : null;
+}
+
+/** Lift an account's lockout and forget its failures (admin action). */
+export async function unlockAccount(email: string): Promise<void> {
+  const k = keys(email);
+  await getStore().delete(k.lock, k.accountFailures);
+}
@@ -0,0 +1,147 @@
+import { randomBytes } from "node:crypto";
+import bcrypt from "bcryptjs";
+import QRCode from "qrcode";
+import { generateSecret, otpauthUrl, verifyTotp } from "./totp";
+import { getRedis, getUserByEmail, setUserMfa, type StoredUser } from "./user-store";
+
+/**
+ * TOTP multi-factor authentication for password accounts.
+ *
+ * Enrolment stores a pending secret, shows it as a QR code and is confirmed
+ * by the first valid code, which also issues single-use recovery codes
+ * (kept as bcrypt hashes). At sign-in either a current code or an unused
+ * recovery code is accepted as the second factor.
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface MfaEnrolment {
+  /** base32 secret, for typing into an authenticator app by hand */
+  secret: string;
+  otpauthUrl: string;
+  /** The otpauth URL as a PNG data: URL */
+  qrCode: string;
+}
+
+export interface MfaStatus {
+  enabled: boolean;
+  /** Enrolment started but not confirmed */
+  pending: boolean;
+  recoveryCodesRemaining: number;
+}
+
+const ISSUER = "FW Admin";
+const RECOVERY_CODE_COUNT = 10;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** MFA secrets need Upstash Redis; env-configured users cannot enrol. */
+export function mfaAvailable(): boolean {
+  return getRedis() !== null;
+}
+
+/** 10 hex characters shown as "xxxxx-xxxxx" */
+function generateRecoveryCode(): string {
+  const raw = randomBytes(5).toString("hex");
+  return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+}
+
+function normaliseRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[^0-9a-f]/g, "");
+}
+
+async function requireUser(email: string): Promise<StoredUser> {
+  const user = await getUserByEmail(email);
+  if (!user) throw new Error("User not found.");
+  return user;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+export function mfaStatus(user: StoredUser): MfaStatus {
+  return {
+    enabled: Boolean(user.mfa?.enabledAt),
+    pending: Boolean(user.mfa && !user.mfa.enabledAt),
+    recoveryCodesRemaining: user.mfa?.enabledAt ? user.mfa.recoveryCodes.length : 0,
+  };
+}
+
+/** Start (or restart) enrolment with a fresh secret. */
+export async function startEnrolment(email: string): Promise<MfaEnrolment> {
+  const user = await requireUser(email);
+  if (user.mfa?.enabledAt) {
+    throw new Error("MFA is already enabled.");
+  }
+
+  const secret = generateSecret();
+  await setUserMfa(user.email, { secret, recoveryCodes: [] });
+
+  const url = otpauthUrl(secret, user.email, ISSUER);
+  return { secret, otpauthUrl: url, qrCode: await QRCode.toDataURL(url, { margin: 1, width: 220 }) };
+}
+
+/**
+ * Confirm enrolment with a code from the app. Returns the recovery codes —
+ * the only time they are available in plain text.
+ */
+export async function confirmEnrolment(email: string, code: string): Promise<string[]> {
+  const user = await requireUser(email);
+  if (!user.mfa || user.mfa.enabledAt) {
+    throw new Error("No MFA enrolment is pending.");
+  }
+
+  const step = verifyTotp(user.mfa.secret, code.replace(/\s/g, ""));
+  if (step === null) {
+    throw new Error("Invalid authentication code.");
+  }
+
+  const recoveryCodes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+  await setUserMfa(user.email, {
+    secret: user.mfa.secret,
+    enabledAt: new Date().toISOString(),
+    lastStep: step,
+    recoveryCodes: await Promise.all(recoveryCodes.map((c) => bcrypt.hash(normaliseRecoveryCode(c), 10))),
+  });
+  return recoveryCodes;
+}
+
+/**
+ * Check a sign-in's second factor: a current TOTP code or an unused
+ * recovery code, which is used up.
+ */
+export async function verifySecondFactor(user: StoredUser, code: string): Promise<boolean> {
+  const mfa = user.mfa;
+  if (!mfa?.enabledAt) return false;
+
+  const trimmed = code.replace(/\s/g, "");
+  const step = verifyTotp(mfa.secret, trimmed, mfa.lastStep);
+  if (step !== null) {
+    await setUserMfa(user.email, { ...mfa, lastStep: step });
+    return true;
+  }
+
+  const candidate = normaliseRecoveryCode(trimmed);
+  if (candidate.length !== 10) return false;
+  for (const [index, hash] of mfa.recoveryCodes.entries()) {
+    if (await bcrypt.compare(candidate, hash)) {
+      await setUserMfa(user.email, {
+        ...mfa,
+        recoveryCodes: mfa.recoveryCodes.filter((_, i) => i !== index),
+      });
+      return true;
+    }
+  }
+  return false;
+}
+
+/** Turn MFA off (or cancel a pending enrolment). */
+export async function disableMfa(email: string): Promise<void> {
+  const user = await requireUser(email);
+  await setUserMfa(user.email, undefined);
+}
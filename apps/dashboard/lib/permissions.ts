@@ -0,0 +1,129 @@
+/**
+ * Roles and permissions.
+ *
+ * A role is a named set of permissions. The built-in roles below always
+ * exist and cannot be edited; custom roles are stored alongside users (see
+ * role-store.ts) and managed from the Users page. Pages, API routes and
+ * RoleGate check permissions, never role names.
+ *
+ * Safe to import from client components — no server-only dependencies.
+ */
+
+// ---------------------------------------------------------------------------
+// Permissions
+// ---------------------------------------------------------------------------
+
+export const PERMISSIONS = [
+  "container:read",
+  "container:logs",
+  "container:control",
+  "fw-analysis:launch",
+  "backpro:launch",
+  "users:manage",
+  "audit:read",
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  "container:read": "View container status",
+  "container:logs": "View container logs",
+  "container:control": "Start, stop and reconfigure containers",
+  "fw-analysis:launch": "Launch the Document Analysis tool",
+  "backpro:launch": "Launch the BackPro platform",
+  "users:manage": "Manage users and roles",
+  "audit:read": "View and export the audit log",
+};
+
+/** Gateway scopes every signed-in user's token carries */
+export const BASE_GATEWAY_SCOPES = ["fw-analysis:read", "backpro:read"];
+
+/** Gateway scopes each permission adds to the user's token */
+export const PERMISSION_SCOPES: Record<Permission, string[]> = {
+  "container:read": ["container:read"],
+  "container:logs": ["container:logs"],
+  "container:control": ["container:control"],
+  "fw-analysis:launch": ["fw-analysis:*"],
+  "backpro:launch": ["backpro:*"],
+  // User and role changes are recorded by the dashboard server (audit:write
+  // is only ever minted server-side, see auditAuthHeader)
+  "users:manage": [],
+  "audit:read": ["audit:read"],
+};
+
+export function isPermission(value: unknown): value is Permission {
+  return typeof value === "string" && (PERMISSIONS as readonly string[]).includes(value);
+}
+
+/**
+ * Permissions the dashboard only exercises for sessions signed in with MFA;
+ * their gateway scopes are left out of tokens for sessions without it.
+ */
+export const MFA_PERMISSIONS: readonly Permission[] = ["container:control", "users:manage"];
+
+/**
+ * Gateway scopes for a set of permissions. Without `mfa`, the scopes of
+ * MFA_PERMISSIONS are withheld.
+ */
+export function gatewayScopes(permissions: readonly Permission[], { mfa }: { mfa: boolean }): string[] {
+  const granted = mfa ? permissions : permissions.filter((permission) => !MFA_PERMISSIONS.includes(permission));
+  return Array.from(new Set([...BASE_GATEWAY_SCOPES, ...granted.flatMap((permission) => PERMISSION_SCOPES[permission])]));
+}
+
+// ---------------------------------------------------------------------------
+// Roles
+// ---------------------------------------------------------------------------
+
+export interface Role {
+  /** Lowercase slug, e.g. "operator" */
+  name: string;
+  description: string;
+  permissions: Permission[];
+  /** Password users holding the role must enrol in MFA before using the dashboard */
+  requireMfa: boolean;
+  builtIn: boolean;
+}
+
+/** Role names: lowercase letters, digits and dashes */
+export const ROLE_NAME = /^[a-z][a-z0-9-]{1,31}$/;
+
+export const BUILT_IN_ROLES: Role[] = [
+  {
+    name: "admin",
+    description: "Full access, including user management",
+    permissions: [...PERMISSIONS],
+    requireMfa: false,
+    builtIn: true,
+  },
+  {
+    name: "operator",
+    description: "Runs the containers; cannot manage users",
+    permissions: ["container:read", "container:control", "fw-analysis:launch", "backpro:launch"],
+    requireMfa: false,
+    builtIn: true,
+  },
+  {
+    name: "viewer",
+    description: "Read-only access",
+    permissions: ["container:read"],
+    requireMfa: false,
+    builtIn: true,
+  },
+];
+
+/** Display name of a role: "release-manager" → "Release manager" */
+export function roleLabel(name: string): string {
+  const words = name.replace(/-/g, " ");
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+export function builtInRole(name: string): Role | undefined {
+  return BUILT_IN_ROLES.find((role) => role.name === name);
+}
+
+/**
+ * Whether the user (or session user) holds the permission.
+ */
+export function hasPermission(user: { permissions?: readonly string[] } | null | undefined, permission: Permission): boolean {
+  return user?.permissions?.includes(permission) ?? false;
+}
@@ -0,0 +1,145 @@
+import { BUILT_IN_ROLES, builtInRole, isPermission, type Permission, type Role } from "./permissions";
+import { getRedis, listUsers } from "./user-store";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface StoredRole {
+  name: string;
+  description: string;
+  permissions: Permission[];
+  /** Absent on roles stored before MFA existed */
+  requireMfa?: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type RoleWithTimestamps = Role & Partial<Pick<StoredRole, "createdAt" | "updatedAt">>;
+
+// ---------------------------------------------------------------------------
+// Redis (custom roles live next to the users)
+// ---------------------------------------------------------------------------
+
+const REDIS_KEY = "dashboard:roles";
+
+function toRole(stored: StoredRole): RoleWithTimestamps {
+  // Drop permissions this version no longer knows
+  return {
+    ...stored,
+    permissions: stored.permissions.filter(isPermission),
+    requireMfa: stored.requireMfa ?? false,
+    builtIn: false,
+  };
+}
+
+/**
+ * Built-in roles cannot be edited, so whether they require MFA comes from
+ * AUTH_MFA_REQUIRED_ROLES (comma-separated role names).
+ */
+function withMfaPolicy(role: Role): Role {
+  const required = (process.env.AUTH_MFA_REQUIRED_ROLES ?? "").split(",").map((name) => name.trim());
+  return required.includes(role.name) ? { ...role, requireMfa: true } : role;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Built-in roles followed by custom roles (custom roles need Upstash Redis). */
+export async function listRoles(): Promise<RoleWithTimestamps[]> {
+  const builtIn = BUILT_IN_ROLES.map(withMfaPolicy);
+  const redis = getRedis();
+  if (!redis) return builtIn;
+
+  const all = await redis.hgetall<Record<string, StoredRole>>(REDIS_KEY);
+  const custom = Object.values(all ?? {})
+    .map(toRole)
+    .sort((a, b) => a.name.localeCompare(b.name));
+  return [...builtIn, ...custom];
+}
+
+/** A role by name, or null when it does not exist. */
+export async function getRole(name: string): Promise<RoleWithTimestamps | null> {
+  const builtIn = builtInRole(name);
+  if (builtIn) return withMfaPolicy(builtIn);
+
+  const redis = getRedis();
+  if (!redis) return null;
+  const stored = await redis.hget<StoredRole>(REDIS_KEY, name);
+  return stored ? toRole(stored) : null;
+}
+
+/** Create a custom role. */
+export async function createRole(input: {
+  name: string;
+  description: string;
+  permissions: Permission[];
+  requireMfa: boolean;
+}): Promise<RoleWithTimestamps> {
+  const redis = getRedis();
+  if (!redis) {
+    throw new Error(
+      "Cannot create roles without Upstash Redis configured. Set UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN."
+    );
+  }
+
+  if (builtInRole(input.name) || (await redis.hget(REDIS_KEY, input.name))) {
+    throw new Error("A role with this name already exists.");
+  }
+
+  const now = new Date().toISOString();
+  const role: StoredRole = { ...input, createdAt: now, updatedAt: now };
+  await redis.hset(REDIS_KEY, { [role.name]: role });
+  return toRole(role);
+}
+
+/** Update a custom role's description, permissions and/or MFA requirement. */
+export async function updateRole(
+  name: string,
+  updates: { description?: string; permissions?: Permission[]; requireMfa?: boolean }
+): Promise<RoleWithTimestamps> {
+  if (builtInRole(name)) {
+    throw new Error("Built-in roles cannot be changed.");
+  }
+  const redis = getRedis();
+  if (!redis) {
+    throw new Error("Cannot update roles without Upstash Redis configured.");
+  }
+
+  const existing = await redis.hget<StoredRole>(REDIS_KEY, name);
+  if (!existing) {
+    throw new Error("Role not found.");
+  }
+
+  const patched: StoredRole = {
+    ...existing,
+    ...(updates.description !== undefined && { description: updates.description }),
+    ...(updates.permissions !== undefined && { permissions: updates.permissions }),
+    ...(updates.requireMfa !== undefined && { requireMfa: updates.requireMfa }),
+    updatedAt: new Date().toISOString(),
+  };
+  await redis.hset(REDIS_KEY, { [name]: patched });
+  return toRole(patched);
+}
+
+/** Delete a custom role that no user holds. */
+export async function deleteRole(name: string): Promise<void> {
+  if (builtInRole(name)) {
+    throw new Error("Built-in roles cannot be changed.");
+  }
+  const redis = getRedis();
+  if (!redis) {
+    throw new Error("Cannot delete roles without Upstash Redis configured.");
+  }
+
+  const holders = (await listUsers()).filter((user) => user.role === name).length;
+  if (holders > 0) {
+    throw new Error(`Role is still assigned to ${holders} user${holders === 1 ? "" : "s"}.`);
+  }
+
+  const removed = await redis.hdel(REDIS_KEY, name);
+  if (removed === 0) {
+    throw new Error("Role not found.");
+  }
+}
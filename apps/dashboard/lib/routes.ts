@@ -1,6 +1,15 @@
 import { serviceUrls } from "./config";
+import type { Permission } from "./permissions";
 
-export const routes = [
+interface Route {
+  label: string;
+  href: string;
+  external?: boolean;
+  /** Shown only to users holding this permission */
+  permission?: Permission;
+}
+
+export const routes: Route[] = [
   { label: "Dashboard", href: "/" },
   {
     label: "Document Analysis Tool",
@@ -8,5 +17,6 @@ export const routes = [
     external: true
   },
   { label: "Backpro Platform", href: serviceUrls.backpro, external: true },
-  { label: "Users", href: "/users", adminOnly: true }
+  { label: "Users", href: "/users", permission: "users:manage" },
+  { label: "Audit", href: "/audit", permission: "audit:read" }
 ];
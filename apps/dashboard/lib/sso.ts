@@ -0,0 +1,200 @@
+import type { User } from "next-auth";
+import type { OAuthConfig } from "next-auth/providers/oauth";
+import { getRole } from "./role-store";
+import { getUserByEmail, getUserBySsoSubject, provisionSsoUser, ssoCanSignIn, type StoredUser } from "./user-store";
+
+/**
+ * Microsoft Entra ID (Azure AD) single sign-on.
+ *
+ * Enabled when ENTRA_CLIENT_ID is set. Users sign in with their work
+ * account, their Entra group membership picks a dashboard role
+ * (ENTRA_GROUP_ROLES) and they are provisioned into the user store on
+ * first sign-in. Accounts are matched on the Entra object ID, which the user
+ * cannot change — never on the email claims, which they can: an existing
+ * password account opens with Microsoft sign-in only once an admin links it
+ * on the Users page. ENTRA_ISSUER points the provider at another OpenID
+ * Connect issuer — scripts/mock-oidc-issuer.mjs for offline development.
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface SsoConfig {
+  clientId: string;
+  clientSecret: string;
+  issuer: string;
+  /** Lowercase email domains allowed to sign in (empty: any account the issuer accepts) */
+  allowedDomains: string[];
+  /** Group object ID → role name, in precedence order */
+  groupRoles: { group: string; role: string }[];
+  /** Role for members of no mapped group, or null to refuse them */
+  defaultRole: string | null;
+}
+
+/** ID token claims the dashboard reads */
+interface EntraProfile {
+  sub: string;
+  /** Object ID: the user's immutable ID in the tenant */
+  oid?: string;
+  name?: string;
+  email?: string;
+  preferred_username?: string;
+  groups?: string[];
+  /** Authentication methods; Entra includes "mfa" when a second factor was used */
+  amr?: string[];
+  /** Set instead of `groups` when the user is in too many groups for the token */
+  _claim_names?: { groups?: string };
+}
+
+export const SSO_PROVIDER_ID = "azure-ad";
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+function parseList(raw: string | undefined): string[] {
+  return (raw ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+function loadConfig(): SsoConfig | null {
+  const clientId = process.env.ENTRA_CLIENT_ID;
+  if (!clientId) return null;
+
+  const tenantId = process.env.ENTRA_TENANT_ID;
+  const issuer =
+    process.env.ENTRA_ISSUER?.replace(/\/$/, "") ||
+    (tenantId ? `https://login.microsoftonline.com/${tenantId}/v2.0` : null);
+  if (!issuer) {
+    console.error("[sso] ENTRA_CLIENT_ID is set without ENTRA_TENANT_ID or ENTRA_ISSUER; SSO is disabled");
+    return null;
+  }
+
+  const groupRoles = parseList(process.env.ENTRA_GROUP_ROLES).flatMap((entry) => {
+    const [group, role] = entry.split(":").map((part) => part.trim());
+    return group && role ? [{ group, role }] : [];
+  });
+
+  return {
+    clientId,
+    clientSecret: process.env.ENTRA_CLIENT_SECRET ?? "",
+    issuer,
+    allowedDomains: parseList(process.env.ENTRA_ALLOWED_DOMAINS).map((domain) => domain.toLowerCase()),
+    groupRoles,
+    defaultRole: process.env.ENTRA_DEFAULT_ROLE || null,
+  };
+}
+
+export const ssoConfig = loadConfig();
+
+/**
+ * Whether email/password sign-in is offered. AUTH_PASSWORD_LOGIN=false turns
+ * it off, but only when SSO is configured — otherwise nobody could sign in.
+ */
+export const passwordLoginEnabled = process.env.AUTH_PASSWORD_LOGIN !== "false" || !ssoConfig;
+
+if (process.env.AUTH_PASSWORD_LOGIN === "false" && !ssoConfig) {
+  console.error("[sso] AUTH_PASSWORD_LOGIN=false ignored: SSO is not configured");
+}
+
+// ---------------------------------------------------------------------------
+// Role mapping
+// ---------------------------------------------------------------------------
+
+function isAllowedDomain(config: SsoConfig, email: string): boolean {
+  if (config.allowedDomains.length === 0) return true;
+  const domain = email.slice(email.lastIndexOf("@") + 1);
+  return config.allowedDomains.includes(domain);
+}
+
+/**
+ * The role for an SSO user: the first mapped group they belong to, else the
+ * role an admin gave the password account linked to them, else the default.
+ * Null when none applies and the user must be refused.
+ */
+async function resolveRole(config: SsoConfig, groups: string[], existing: StoredUser | null): Promise<string | null> {
+  for (const { group, role } of config.groupRoles) {
+    if (!groups.includes(group)) continue;
+    if (await getRole(role)) return role;
+    console.warn(`[sso] ENTRA_GROUP_ROLES maps group ${group} to unknown role "${role}"`);
+  }
+  if (existing && existing.provider !== "entra") return existing.role;
+  if (config.defaultRole && (await getRole(config.defaultRole))) return config.defaultRole;
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Provider
+// ---------------------------------------------------------------------------
+
+/**
+ * The Entra ID provider for NextAuth. Claims come from the ID token, so the
+ * app registration must emit the `groups` claim (Token configuration →
+ * Add groups claim → Security groups).
+ */
+export function entraProvider(config: SsoConfig): OAuthConfig<EntraProfile> {
+  return {
+    id: SSO_PROVIDER_ID,
+    name: "Microsoft",
+    type: "oauth",
+    wellKnown: `${config.issuer}/.well-known/openid-configuration`,
+    authorization: { params: { scope: "openid profile email" } },
+    idToken: true,
+    checks: ["pkce", "state"],
+    clientId: config.clientId,
+    clientSecret: config.clientSecret,
+    async profile(profile) {
+      // Issuers other than Entra (the mock) may not send an object ID
+      const subject = profile.oid ?? profile.sub;
+      const linked = await getUserBySsoSubject(subject);
+      const email = linked?.email ?? (profile.email ?? profile.preferred_username ?? "").toLowerCase();
+      if (profile._claim_names?.groups) {
+        console.warn(`[sso] ${email} is in too many groups for the token; only ENTRA_DEFAULT_ROLE can apply`);
+      }
+      const groups = Array.isArray(profile.groups) ? profile.groups : [];
+      const existing = linked ?? (email ? await getUserByEmail(email) : null);
+
+      let role: string | null = null;
+      if (existing && !ssoCanSignIn(existing, subject)) {
+        console.warn(`[sso] refused ${email}: the account is not linked to Microsoft account ${subject}`);
+      } else {
+        role = await resolveRole(config, groups, existing);
+        if (!role) console.warn(`[sso] refused ${email}: no role for their groups and no ENTRA_DEFAULT_ROLE`);
+      }
+
+      return {
+        id: email,
+        email,
+        name: profile.name ?? null,
+        // Empty role: refused by completeSsoSignIn
+        role: role ?? "",
+        ssoSubject: subject,
+        // Only when Entra asked for a second factor (Conditional Access);
+        // otherwise the session is stepped up with a code on the Account page
+        mfa: Array.isArray(profile.amr) && profile.amr.includes("mfa"),
+      };
+    },
+  };
+}
+
+/**
+ * signIn callback for SSO users: enforce the domain allowlist and the role
+ * mapping, then provision the user. Returning false sends the browser back
+ * to /login?error=AccessDenied.
+ */
+export async function completeSsoSignIn(user: User): Promise<boolean> {
+  if (!ssoConfig || !user.email || !user.ssoSubject) return false;
+
+  if (!isAllowedDomain(ssoConfig, user.email)) {
+    console.warn(`[sso] refused ${user.email}: domain not in ENTRA_ALLOWED_DOMAINS`);
+    return false;
+  }
+  // profile() logged why
+  if (!user.role) return false;
+
+  await provisionSsoUser(user.ssoSubject, user.email, user.role);
+  return true;
+}
@@ -0,0 +1,96 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+
+/**
+ * Time-based one-time passwords (RFC 6238) as authenticator apps expect
+ * them: SHA-1, 6 digits, 30-second steps, base32 secrets.
+ */
+
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+/** Steps either side of now still accepted, for clock drift */
+const DRIFT_STEPS = 1;
+const BASE32 = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+// ---------------------------------------------------------------------------
+// Base32 (RFC 4648, unpadded)
+// ---------------------------------------------------------------------------
+
+function base32Encode(bytes: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let out = "";
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += BASE32[(value << (5 - bits)) & 31];
+  return out;
+}
+
+function base32Decode(text: string): Buffer {
+  let bits = 0;
+  let value = 0;
+  const out: number[] = [];
+  for (const char of text.replace(/[\s=]/g, "").toUpperCase()) {
+    const index = BASE32.indexOf(char);
+    if (index === -1) throw new Error("Invalid base32 secret");
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      out.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(out);
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** A new random 160-bit secret, base32-encoded. */
+export function generateSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+/** The code for a time step (RFC 4226 HOTP with the step as counter). */
+export function totpCode(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = createHmac("sha1", base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, "0");
+}
+
+/** The time step for a moment. */
+export function currentStep(now = Date.now()): number {
+  return Math.floor(now / 1000 / STEP_SECONDS);
+}
+
+/**
+ * The step a code is valid for, or null. Steps at or before `lastStep` are
+ * rejected so a code cannot be used twice.
+ */
+export function verifyTotp(secret: string, code: string, lastStep?: number, now = Date.now()): number | null {
+  if (!/^\d{6}$/.test(code)) return null;
+
+  const current = currentStep(now);
+  for (let step = current - DRIFT_STEPS; step <= current + DRIFT_STEPS; step++) {
+    if (lastStep !== undefined && step <= lastStep) continue;
+    if (timingSafeEqual(Buffer.from(totpCode(secret, step)), Buffer.from(code))) return step;
+  }
+  return null;
+}
+
+/** otpauth:// URI for authenticator apps (what the QR code encodes). */
+export function otpauthUrl(secret: string, account: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${account}`);
+  // Not URLSearchParams: authenticator apps show "+" literally
+  const params = `secret=${secret}&issuer=${encodeURIComponent(issuer)}&algorithm=SHA1&digits=${DIGITS}&period=${STEP_SECONDS}`;
+  return `otpauth://totp/${label}?${params}`;
+}
@@ -1,5 +1,6 @@
 import { Redis } from "@upstash/redis";
 import bcrypt from "bcryptjs";
+import { builtInRole } from "./permissions";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -7,21 +8,46 @@ import bcrypt from "bcryptjs";
 
 export interface StoredUser {
   email: string;
+  /** bcrypt hash; empty for SSO users without a password */
   hash: string;
-  role: "admin" | "viewer";
+  /** Built-in or custom role name (see permissions.ts) */
+  role: string;
+  /** "entra" when provisioned by single sign-on (see sso.ts); absent for password accounts */
+  provider?: "entra";
+  /**
+   * The Entra object ID this account signs in as. Set when SSO provisions the
+   * account, or by an admin linking a password account; never from an email.
+   */
+  ssoSubject?: string;
+  /** TOTP second factor (see mfa.ts) */
+  mfa?: StoredMfa;
   createdAt: string;
   updatedAt: string;
 }
 
-export type SafeUser = Omit<StoredUser, "hash">;
+export interface StoredMfa {
+  /** base32 TOTP secret */
+  secret: string;
+  /** Set once the user has confirmed a code; until then enrolment is pending */
+  enabledAt?: string;
+  /** bcrypt hashes of the unused recovery codes */
+  recoveryCodes: string[];
+  /** Last accepted time step, so a code cannot be replayed */
+  lastStep?: number;
+}
+
+/** A user without secrets: no password hash or MFA secret, only whether MFA is on */
+export type SafeUser = Omit<StoredUser, "hash" | "mfa"> & { mfaEnabled: boolean };
 
 // ---------------------------------------------------------------------------
 // Redis client (lazy singleton — only created when Upstash env vars exist)
 // ---------------------------------------------------------------------------
 
 const REDIS_KEY = "dashboard:users";
+/** Entra object ID → email of the account it signs in as */
+const SSO_KEY = "dashboard:users:sso";
 
-function getRedis(): Redis | null {
+export function getRedis(): Redis | null {
   const url = process.env.UPSTASH_REDIS_REST_URL;
   const token = process.env.UPSTASH_REDIS_REST_TOKEN;
   if (!url || !token) return null;
@@ -44,9 +70,10 @@ function parseEnvUsers(): StoredUser[] {
       const parts = entry.split(":");
       if (parts.length < 3) return null;
       const email = parts[0];
-      const role = parts[parts.length - 1] as "admin" | "viewer";
+      const role = parts[parts.length - 1];
       const hash = parts.slice(1, parts.length - 1).join(":");
-      if (role !== "admin" && role !== "viewer") return null;
+      // Custom roles need Redis, so env users can only hold built-in roles
+      if (!builtInRole(role)) return null;
       return {
         email,
         hash,
@@ -79,6 +106,19 @@ export async function getUserByEmail(
   );
 }
 
+/** The account an Entra identity is linked to (null without Redis). */
+export async function getUserBySsoSubject(
+  subject: string
+): Promise<StoredUser | null> {
+  const redis = getRedis();
+  if (!redis) return null;
+
+  const email = await redis.hget<string>(SSO_KEY, subject);
+  if (!email) return null;
+  const user = await redis.hget<StoredUser>(REDIS_KEY, email);
+  return user?.ssoSubject === subject ? user : null;
+}
+
 /** List every user (hashes stripped). */
 export async function listUsers(): Promise<SafeUser[]> {
   const redis = getRedis();
@@ -95,7 +135,7 @@ export async function listUsers(): Promise<SafeUser[]> {
 export async function createUser(
   email: string,
   password: string,
-  role: "admin" | "viewer"
+  role: string
 ): Promise<SafeUser> {
   const redis = getRedis();
   if (!redis) {
@@ -129,7 +169,7 @@ export async function createUser(
 /** Update a user's role and/or password. */
 export async function updateUser(
   email: string,
-  updates: { role?: "admin" | "viewer"; password?: string }
+  updates: { role?: string; password?: string }
 ): Promise<SafeUser> {
   const redis = getRedis();
   if (!redis) {
@@ -157,6 +197,110 @@ export async function updateUser(
   return stripHash(patched);
 }
 
+/**
+ * Create or update a user signing in through SSO. New users get no password
+ * and follow their Entra groups; accounts already linked to the identity
+ * keep their password and take the role SSO resolved. sso.ts refuses
+ * sign-ins that would land on someone else's account. No-op (null) without
+ * Redis.
+ */
+export async function provisionSsoUser(
+  subject: string,
+  email: string,
+  role: string
+): Promise<SafeUser | null> {
+  const redis = getRedis();
+  if (!redis) return null;
+
+  const normalised = email.toLowerCase().trim();
+  const existing = await redis.hget<StoredUser>(REDIS_KEY, normalised);
+  if (existing && !ssoCanSignIn(existing, subject)) {
+    throw new Error("This account is not linked to that Microsoft account.");
+  }
+  if (existing?.ssoSubject === subject && existing.role === role) return stripHash(existing);
+
+  const now = new Date().toISOString();
+  const user: StoredUser = existing
+    ? { ...existing, role, ssoSubject: subject, updatedAt: now }
+    : { email: normalised, hash: "", role, provider: "entra", ssoSubject: subject, createdAt: now, updatedAt: now };
+
+  await redis.hset(REDIS_KEY, { [normalised]: user });
+  await redis.hset(SSO_KEY, { [subject]: normalised });
+  return stripHash(user);
+}
+
+/**
+ * Link an account to an Entra identity so that Microsoft sign-in opens it,
+ * or unlink it (null). Admin action: the only way SSO reaches an account it
+ * did not create.
+ */
+export async function linkSsoUser(
+  email: string,
+  subject: string | null
+): Promise<SafeUser> {
+  const redis = getRedis();
+  if (!redis) {
+    throw new Error(
+      "Cannot link users without Upstash Redis configured."
+    );
+  }
+
+  const normalised = email.toLowerCase().trim();
+  const existing = await redis.hget<StoredUser>(REDIS_KEY, normalised);
+  if (!existing) {
+    throw new Error("User not found.");
+  }
+  if (subject) {
+    const linked = await getUserBySsoSubject(subject);
+    if (linked && linked.email !== normalised) {
+      throw new Error(`This Microsoft account is already linked to ${linked.email}.`);
+    }
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { ssoSubject: previous, ...rest } = existing;
+  const patched: StoredUser = {
+    ...rest,
+    ...(subject && { ssoSubject: subject }),
+    updatedAt: new Date().toISOString(),
+  };
+
+  await redis.hset(REDIS_KEY, { [normalised]: patched });
+  if (previous && previous !== subject) await redis.hdel(SSO_KEY, previous);
+  if (subject) await redis.hset(SSO_KEY, { [subject]: normalised });
+  return stripHash(patched);
+}
+
+/** Replace a user's MFA settings; undefined removes them. */
+export async function setUserMfa(
+  email: string,
+  mfa: StoredMfa | undefined
+): Promise<SafeUser> {
+  const redis = getRedis();
+  if (!redis) {
+    throw new Error(
+      "Cannot change MFA settings without Upstash Redis configured."
+    );
+  }
+
+  const normalised = email.toLowerCase().trim();
+  const existing = await redis.hget<StoredUser>(REDIS_KEY, normalised);
+  if (!existing) {
+    throw new Error("User not found.");
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { mfa: _previous, ...rest } = existing;
+  const patched: StoredUser = {
+    ...rest,
+    ...(mfa && { mfa }),
+    updatedAt: new Date().toISOString(),
+  };
+
+  await redis.hset(REDIS_KEY, { [normalised]: patched });
+  return stripHash(patched);
+}
+
 /** Delete a user by email. */
 export async function deleteUser(email: string): Promise<void> {
   const redis = getRedis();
@@ -167,18 +311,29 @@ export async function deleteUser(email: string): Promise<void> {
   }
 
   const normalised = email.toLowerCase().trim();
+  const existing = await redis.hget<StoredUser>(REDIS_KEY, normalised);
   const removed = await redis.hdel(REDIS_KEY, normalised);
   if (removed === 0) {
     throw new Error("User not found.");
   }
+  if (existing?.ssoSubject) await redis.hdel(SSO_KEY, existing.ssoSubject);
 }
 
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
 
-function stripHash(user: StoredUser): SafeUser {
+/**
+ * Whether Microsoft sign-in as `subject` may open the account: it is linked
+ * to that identity, or SSO created it before identities were recorded.
+ */
+export function ssoCanSignIn(user: StoredUser, subject: string): boolean {
+  return user.ssoSubject ? user.ssoSubject === subject : user.provider === "entra";
+}
+
+/** The user without their password hash or MFA secrets. */
+export function stripHash(user: StoredUser): SafeUser {
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  const { hash, ...safe } = user;
-  return safe;
+  const { hash, mfa, ...safe } = user;
+  return { ...safe, mfaEnabled: Boolean(mfa?.enabledAt) };
 }
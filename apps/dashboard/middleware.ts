@@ -1,4 +1,28 @@
-export { default } from "next-auth/middleware";
+import { NextResponse } from "next/server";
+import { withAuth } from "next-auth/middleware";
+
+/** Paths open to a session that still has to enrol in MFA */
+const ENROLMENT_PATHS = ["/account", "/api/account/mfa"];
+
+/**
+ * Requires a session everywhere (see matcher). Users whose role requires MFA
+ * but whose session has no second factor (a password sign-in before
+ * enrolling, or a Microsoft sign-in Entra did not ask one for) can only reach
+ * the account page until they enrol and enter a code there.
+ */
+export default withAuth(function middleware(req) {
+  const token = req.nextauth.token;
+  if (!token?.mfaRequired || token.mfa) return NextResponse.next();
+
+  const { pathname } = req.nextUrl;
+  if (ENROLMENT_PATHS.some((path) => pathname === path || pathname.startsWith(`${path}/`))) {
+    return NextResponse.next();
+  }
+  if (pathname.startsWith("/api/")) {
+    return NextResponse.json({ error: "Set up multi-factor authentication first." }, { status: 403 });
+  }
+  return NextResponse.redirect(new URL("/account", req.url));
+});
 
 export const config = {
   matcher: [
@@ -52,7 +52,7 @@ async function main() {
     const role = parts[parts.length - 1];
     const hash = parts.slice(1, parts.length - 1).join(":");
 
-    if (role !== "admin" && role !== "viewer") {
+    if (role !== "admin" && role !== "operator" && role !== "viewer") {
       console.warn(`Skipping entry with invalid role "${role}": ${email}`);
       continue;
     }
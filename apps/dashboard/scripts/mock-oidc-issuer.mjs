@@ -0,0 +1,258 @@
+#!/usr/bin/env node
+
+/**
+ * Local stand-in for Microsoft Entra ID, for trying single sign-on offline.
+ *
+ * A minimal OpenID Connect issuer: discovery, an authorize page where you
+ * pick who to sign in as, a token endpoint (client secret + PKCE) issuing
+ * RS256 ID tokens with Entra-style `groups` claims, JWKS and userinfo.
+ * Keys and codes live in memory and are lost on restart.
+ *
+ * Usage:
+ *   node scripts/mock-oidc-issuer.mjs
+ *
+ * Then in .env.local:
+ *   ENTRA_ISSUER=http://localhost:8400
+ *   ENTRA_CLIENT_ID=fw-admin-dashboard
+ *   ENTRA_CLIENT_SECRET=mock-secret
+ *   ENTRA_GROUP_ROLES=fw-dashboard-admins:admin,fw-dashboard-operators:operator
+ *   ENTRA_ALLOWED_DOMAINS=frazerwalker.com
+ *
+ * Options (env):
+ *   MOCK_OIDC_PORT           default 8400
+ *   MOCK_OIDC_CLIENT_ID      default fw-admin-dashboard
+ *   MOCK_OIDC_CLIENT_SECRET  default mock-secret
+ *   MOCK_OIDC_USERS          JSON array of { email, name, groups, mfa? } replacing the defaults
+ *
+ * Add ?login_hint=<email> to the authorize URL to skip the picker.
+ */
+
+import { createHash, randomBytes } from "node:crypto";
+import { createServer } from "node:http";
+import { exportJWK, generateKeyPair, SignJWT } from "jose";
+
+const PORT = Number(process.env.MOCK_OIDC_PORT ?? 8400);
+const ISSUER = `http://localhost:${PORT}`;
+const CLIENT_ID = process.env.MOCK_OIDC_CLIENT_ID ?? "fw-admin-dashboard";
+const CLIENT_SECRET = process.env.MOCK_OIDC_CLIENT_SECRET ?? "mock-secret";
+const TOKEN_TTL_SECONDS = 3600;
+const CODE_TTL_MS = 60_000;
+
+const DEFAULT_USERS = [
+  // Signs in "with Entra MFA": the dashboard asks the others for its own code
+  { email: "admin@frazerwalker.com", name: "Ada Admin", groups: ["fw-dashboard-admins"], mfa: true },
+  { email: "operator@frazerwalker.com", name: "Otto Operator", groups: ["fw-dashboard-operators"] },
+  { email: "staff@frazerwalker.com", name: "Sam Staff", groups: [] },
+  // Refused by ENTRA_ALLOWED_DOMAINS=frazerwalker.com
+  { email: "guest@example.com", name: "Gail Guest", groups: ["fw-dashboard-admins"] },
+];
+
+const users = process.env.MOCK_OIDC_USERS ? JSON.parse(process.env.MOCK_OIDC_USERS) : DEFAULT_USERS;
+
+const { publicKey, privateKey } = await generateKeyPair("RS256");
+const jwk = { ...(await exportJWK(publicKey)), kid: "mock-1", alg: "RS256", use: "sig" };
+
+/** Authorization codes → pending sign-in */
+const codes = new Map();
+/** Access tokens → user (for /userinfo) */
+const accessTokens = new Map();
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function base64url(buffer) {
+  return buffer.toString("base64url");
+}
+
+function escapeHtml(value) {
+  return String(value).replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { "Content-Type": "application/json", "Cache-Control": "no-store" });
+  res.end(JSON.stringify(body));
+}
+
+function sendError(res, status, error, description) {
+  sendJson(res, status, { error, error_description: description });
+}
+
+async function readForm(req) {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  return new URLSearchParams(Buffer.concat(chunks).toString("utf8"));
+}
+
+/** Entra's object IDs are opaque and stable per user; a hash of the email will do */
+function subjectFor(user) {
+  return base64url(createHash("sha256").update(user.email).digest()).slice(0, 32);
+}
+
+function findUser(email) {
+  return users.find((user) => user.email.toLowerCase() === String(email).toLowerCase());
+}
+
+// ---------------------------------------------------------------------------
+// Endpoints
+// ---------------------------------------------------------------------------
+
+function discovery(res) {
+  sendJson(res, 200, {
+    issuer: ISSUER,
+    authorization_endpoint: `${ISSUER}/authorize`,
+    token_endpoint: `${ISSUER}/token`,
+    userinfo_endpoint: `${ISSUER}/userinfo`,
+    jwks_uri: `${ISSUER}/jwks`,
+    response_types_supported: ["code"],
+    subject_types_supported: ["pairwise"],
+    id_token_signing_alg_values_supported: ["RS256"],
+    scopes_supported: ["openid", "profile", "email"],
+    token_endpoint_auth_methods_supported: ["client_secret_basic", "client_secret_post"],
+    code_challenge_methods_supported: ["S256"],
+    claims_supported: ["sub", "iss", "aud", "exp", "iat", "nonce", "name", "email", "preferred_username", "oid", "groups", "amr"],
+  });
+}
+
+/** GET shows the picker (or approves login_hint); POST approves the picked user */
+async function authorize(req, res, url) {
+  const params = req.method === "POST" ? await readForm(req) : url.searchParams;
+
+  if (params.get("client_id") !== CLIENT_ID) {
+    return sendError(res, 400, "unauthorized_client", "Unknown client_id");
+  }
+  const redirectUri = params.get("redirect_uri");
+  if (!redirectUri || params.get("response_type") !== "code") {
+    return sendError(res, 400, "invalid_request", "redirect_uri and response_type=code are required");
+  }
+
+  const user = findUser(params.get("user") ?? params.get("login_hint") ?? "");
+  if (!user) {
+    const hidden = [...params]
+      .filter(([name]) => name !== "user")
+      .map(([name, value]) => `<input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(value)}">`)
+      .join("");
+    const buttons = users
+      .map(
+        (u) =>
+          `<button name="user" value="${escapeHtml(u.email)}"><b>${escapeHtml(u.name)}</b><br>${escapeHtml(u.email)}<br><small>${escapeHtml(u.groups.join(", ") || "no groups")}</small></button>`
+      )
+      .join("");
+    res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+    res.end(
+      `<!doctype html><title>Mock Entra ID</title><style>body{font-family:sans-serif;max-width:28rem;margin:3rem auto}button{display:block;width:100%;margin:.5rem 0;padding:.75rem;text-align:left;cursor:pointer}</style><h1>Mock Entra ID</h1><p>Sign in as:</p><form method="post" action="/authorize">${hidden}${buttons}</form>`
+    );
+    return;
+  }
+
+  const code = base64url(randomBytes(24));
+  codes.set(code, {
+    user,
+    redirectUri,
+    codeChallenge: params.get("code_challenge"),
+    nonce: params.get("nonce"),
+    expiresAt: Date.now() + CODE_TTL_MS,
+  });
+
+  const location = new URL(redirectUri);
+  location.searchParams.set("code", code);
+  if (params.get("state")) location.searchParams.set("state", params.get("state"));
+  res.writeHead(302, { Location: location.toString() });
+  res.end();
+}
+
+async function token(req, res) {
+  const form = await readForm(req);
+
+  let clientId = form.get("client_id");
+  let clientSecret = form.get("client_secret");
+  const basic = req.headers.authorization?.match(/^Basic (.+)$/);
+  if (basic) {
+    const [id, secret] = Buffer.from(basic[1], "base64").toString("utf8").split(":");
+    clientId = decodeURIComponent(id);
+    clientSecret = decodeURIComponent(secret ?? "");
+  }
+  if (clientId !== CLIENT_ID || clientSecret !== CLIENT_SECRET) {
+    return sendError(res, 401, "invalid_client", "Client authentication failed");
+  }
+  if (form.get("grant_type") !== "authorization_code") {
+    return sendError(res, 400, "unsupported_grant_type", "Only authorization_code is supported");
+  }
+
+  const pending = codes.get(form.get("code"));
+  codes.delete(form.get("code"));
+  if (!pending || pending.expiresAt < Date.now() || pending.redirectUri !== form.get("redirect_uri")) {
+    return sendError(res, 400, "invalid_grant", "Unknown, expired or mismatched code");
+  }
+  if (pending.codeChallenge) {
+    const verifier = form.get("code_verifier") ?? "";
+    if (base64url(createHash("sha256").update(verifier).digest()) !== pending.codeChallenge) {
+      return sendError(res, 400, "invalid_grant", "PKCE verification failed");
+    }
+  }
+
+  const { user } = pending;
+  const idToken = await new SignJWT({
+    name: user.name,
+    email: user.email,
+    preferred_username: user.email,
+    oid: subjectFor(user),
+    groups: user.groups,
+    amr: user.mfa ? ["pwd", "mfa"] : ["pwd"],
+    ...(pending.nonce && { nonce: pending.nonce }),
+  })
+    .setProtectedHeader({ alg: "RS256", kid: jwk.kid })
+    .setIssuer(ISSUER)
+    .setAudience(CLIENT_ID)
+    .setSubject(subjectFor(user))
+    .setIssuedAt()
+    .setExpirationTime(`${TOKEN_TTL_SECONDS}s`)
+    .sign(privateKey);
+
+  const accessToken = base64url(randomBytes(32));
+  accessTokens.set(accessToken, user);
+
+  console.log(`[mock-oidc] issued tokens for ${user.email}`);
+  sendJson(res, 200, {
+    access_token: accessToken,
+    token_type: "Bearer",
+    expires_in: TOKEN_TTL_SECONDS,
+    scope: "openid profile email",
+    id_token: idToken,
+  });
+}
+
+function userinfo(req, res) {
+  const bearer = req.headers.authorization?.match(/^Bearer (.+)$/);
+  const user = bearer && accessTokens.get(bearer[1]);
+  if (!user) {
+    return sendError(res, 401, "invalid_token", "Unknown access token");
+  }
+  sendJson(res, 200, { sub: subjectFor(user), name: user.name, email: user.email, preferred_username: user.email });
+}
+
+// ---------------------------------------------------------------------------
+// Server
+// ---------------------------------------------------------------------------
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url ?? "/", ISSUER);
+  try {
+    if (url.pathname === "/.well-known/openid-configuration") return discovery(res);
+    if (url.pathname === "/authorize") return await authorize(req, res, url);
+    if (url.pathname === "/token" && req.method === "POST") return await token(req, res);
+    if (url.pathname === "/jwks") return sendJson(res, 200, { keys: [jwk] });
+    if (url.pathname === "/userinfo") return userinfo(req, res);
+    sendError(res, 404, "not_found", `No route for ${req.method} ${url.pathname}`);
+  } catch (err) {
+    console.error("[mock-oidc]", err);
+    sendError(res, 500, "server_error", err instanceof Error ? err.message : "Internal error");
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`[mock-oidc] issuer ${ISSUER} (client_id ${CLIENT_ID})`);
+  for (const user of users) {
+    console.log(`[mock-oidc]   ${user.email}  groups: ${user.groups.join(", ") || "-"}`);
+  }
+});
@@ -0,0 +1,39 @@
+/**
+ * Client IP Tests
+ *
+ * Tests X-Forwarded-For resolution for:
+ * - The entry appended by the platform proxy, with and without a port
+ * - Entries forged by the client to the left of it
+ * - Hop counts and a missing header
+ */
+
+import { describe, it, expect } from "vitest";
+import { clientIp } from "../lib/client-ip";
+
+describe("clientIp", () => {
+  it("should return the address the platform proxy appended", () => {
+    expect(clientIp("203.0.113.7")).toBe("203.0.113.7");
+  });
+
+  it("should ignore addresses the client put in the header", () => {
+    // The browser sent "X-Forwarded-For: 10.0.0.1, 198.51.100.9"; the proxy appended its peer
+    expect(clientIp("10.0.0.1, 198.51.100.9, 203.0.113.7")).toBe("203.0.113.7");
+  });
+
+  it("should strip the port the proxy includes", () => {
+    expect(clientIp("10.0.0.1, 203.0.113.7:53211")).toBe("203.0.113.7");
+    expect(clientIp("[2001:db8::1]:443")).toBe("2001:db8::1");
+    expect(clientIp("2001:db8::1")).toBe("2001:db8::1");
+  });
+
+  it("should count back one entry per trusted proxy", () => {
+    expect(clientIp("10.0.0.1, 203.0.113.7, 172.16.0.4", 2)).toBe("203.0.113.7");
+    expect(clientIp("203.0.113.7", 2)).toBe("203.0.113.7");
+  });
+
+  it("should not trust the header without proxies or entries", () => {
+    expect(clientIp("203.0.113.7", 0)).toBeUndefined();
+    expect(clientIp(null)).toBeUndefined();
+    expect(clientIp(" , ")).toBeUndefined();
+  });
+});
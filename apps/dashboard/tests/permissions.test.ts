@@ -0,0 +1,34 @@
+/**
+ * Permission Tests
+ *
+ * Tests the gateway scopes a user's token carries:
+ * - Scopes granted by each permission
+ * - Scopes withheld from sessions signed in without MFA
+ * - audit:write never being granted (it is minted server-side only)
+ */
+
+import { describe, it, expect } from "vitest";
+import { PERMISSIONS, gatewayScopes } from "../lib/permissions";
+
+describe("gatewayScopes", () => {
+  it("should grant the scopes of each permission on top of the base scopes", () => {
+    expect(gatewayScopes(["container:read", "container:control"], { mfa: true })).toEqual([
+      "fw-analysis:read",
+      "backpro:read",
+      "container:read",
+      "container:control",
+    ]);
+  });
+
+  it("should withhold container control without MFA", () => {
+    expect(gatewayScopes(["container:read", "container:control"], { mfa: false })).toEqual([
+      "fw-analysis:read",
+      "backpro:read",
+      "container:read",
+    ]);
+  });
+
+  it("should never grant audit:write", () => {
+    expect(gatewayScopes([...PERMISSIONS], { mfa: true })).not.toContain("audit:write");
+  });
+});
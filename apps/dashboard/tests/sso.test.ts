@@ -0,0 +1,114 @@
+/**
+ * Entra ID Sign-in Tests
+ *
+ * Tests the user the Entra provider builds from ID token claims:
+ * - Whether the session counts as signed in with MFA (the amr claim)
+ * - Matching accounts on the object ID, never on the email claims
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { User } from "next-auth";
+import { BUILT_IN_ROLES } from "../lib/permissions";
+import { getUserByEmail, getUserBySsoSubject, type StoredUser } from "../lib/user-store";
+
+vi.mock("../lib/role-store", () => ({
+  getRole: async (name: string) => BUILT_IN_ROLES.find((role) => role.name === name) ?? null,
+}));
+
+vi.mock("../lib/user-store", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../lib/user-store")>()),
+  getUserByEmail: vi.fn(async () => null),
+  getUserBySsoSubject: vi.fn(async () => null),
+  provisionSsoUser: vi.fn(async () => null),
+}));
+
+import { entraProvider, type SsoConfig } from "../lib/sso";
+
+const config: SsoConfig = {
+  clientId: "fw-admin-dashboard",
+  clientSecret: "secret",
+  issuer: "http://localhost:8400",
+  allowedDomains: ["frazerwalker.com"],
+  groupRoles: [{ group: "fw-dashboard-admins", role: "admin" }],
+  defaultRole: "viewer",
+};
+
+const ADMIN: StoredUser = {
+  email: "ada@frazerwalker.com",
+  hash: "$2a$10$hash",
+  role: "admin",
+  createdAt: "2026-01-01T00:00:00.000Z",
+  updatedAt: "2026-01-01T00:00:00.000Z",
+};
+
+/** The user NextAuth would sign in for these ID token claims */
+async function signIn(claims: Record<string, unknown>): Promise<User> {
+  const provider = entraProvider(config);
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return (await provider.profile!(claims as any, {})) as User;
+}
+
+describe("entraProvider", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  describe("MFA", () => {
+    it("should count the sign-in as MFA when Entra asked for a second factor", async () => {
+      const user = await signIn({
+        sub: "s-1",
+        email: "ada@frazerwalker.com",
+        groups: ["fw-dashboard-admins"],
+        amr: ["pwd", "mfa"],
+      });
+
+      expect(user.role).toBe("admin");
+      expect(user.mfa).toBe(true);
+    });
+
+    it("should not count the sign-in as MFA without it", async () => {
+      const passwordOnly = await signIn({ sub: "s-1", email: "ada@frazerwalker.com", amr: ["pwd"] });
+      const noClaim = await signIn({ sub: "s-1", email: "ada@frazerwalker.com" });
+
+      expect(passwordOnly.mfa).toBe(false);
+      expect(noClaim.mfa).toBe(false);
+    });
+  });
+
+  describe("account matching", () => {
+    it("should refuse an identity that claims an existing admin's email", async () => {
+      vi.mocked(getUserByEmail).mockResolvedValue(ADMIN);
+
+      const user = await signIn({ sub: "s-2", oid: "attacker-oid", email: "Ada@frazerwalker.com", amr: ["mfa"] });
+
+      expect(user.role).toBe("");
+      expect(getUserBySsoSubject).toHaveBeenCalledWith("attacker-oid");
+    });
+
+    it("should refuse an identity that claims another Microsoft account's email", async () => {
+      vi.mocked(getUserByEmail).mockResolvedValue({ ...ADMIN, hash: "", provider: "entra", ssoSubject: "ada-oid" });
+
+      const user = await signIn({ sub: "s-2", oid: "attacker-oid", preferred_username: "ada@frazerwalker.com" });
+
+      expect(user.role).toBe("");
+    });
+
+    it("should open the account an admin linked to the object ID, whatever the email claims", async () => {
+      vi.mocked(getUserBySsoSubject).mockResolvedValue({ ...ADMIN, ssoSubject: "ada-oid" });
+
+      const user = await signIn({ sub: "s-1", oid: "ada-oid", email: "ada.lovelace@frazerwalker.com" });
+
+      expect(user.email).toBe("ada@frazerwalker.com");
+      expect(user.role).toBe("admin");
+      expect(user.ssoSubject).toBe("ada-oid");
+      expect(getUserByEmail).not.toHaveBeenCalled();
+    });
+
+    it("should provision a new identity with the default role", async () => {
+      const user = await signIn({ sub: "s-3", oid: "sam-oid", email: "sam@frazerwalker.com" });
+
+      expect(user.role).toBe("viewer");
+      expect(user.ssoSubject).toBe("sam-oid");
+    });
+  });
+});
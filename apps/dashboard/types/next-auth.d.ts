@@ -1,22 +1,35 @@
 import "next-auth";
 import "next-auth/jwt";
+import type { Permission } from "@/lib/permissions";
 
 declare module "next-auth" {
   interface User {
-    role: "admin" | "viewer";
+    role: string;
+    /** Signed in with a second factor */
+    mfa?: boolean;
+    /** Entra object ID, for Microsoft sign-ins (see lib/sso.ts) */
+    ssoSubject?: string;
   }
 
   interface Session {
     user: {
       id: string;
       email: string;
-      role: "admin" | "viewer";
+      role: string;
+      permissions: Permission[];
+      /** This session was signed in with a second factor */
+      mfa: boolean;
+      /** The user's role requires MFA (see middleware.ts) */
+      mfaRequired: boolean;
     };
   }
 }
 
 declare module "next-auth/jwt" {
   interface JWT {
-    role: "admin" | "viewer";
+    role: string;
+    permissions: Permission[];
+    mfa: boolean;
+    mfaRequired: boolean;
   }
 }
@@ -54,12 +54,12 @@ export class GatewayError extends Error {
 }
 
 /**
- * Error thrown when API key is not configured.
+ * Error thrown when neither an API key nor a token source is configured.
  */
 export class MissingApiKeyError extends Error {
   constructor() {
     super(
-      "API key is required. Pass apiKey option to createGatewayClient() or set NEXT_PUBLIC_API_KEY environment variable."
+      "Gateway credentials are required. Pass apiKey (server-side only) or getToken to createGatewayClient()."
     );
     this.name = "MissingApiKeyError";
   }
@@ -72,9 +72,15 @@ export class MissingApiKeyError extends Error {
 export interface GatewayClientOptions {
   /** Base URL for the API gateway */
   baseUrl?: string;
-  /** API key for authentication */
+  /** API key for authentication (server-side only — never ship a key to the browser) */
   apiKey?: string;
-  /** Whether to require API key (default: true in production) */
+  /**
+   * Returns a short-lived gateway token, sent as `Authorization: Bearer`.
+   * Used by browser clients instead of an API key. Return null to send the
+   * request unauthenticated.
+   */
+  getToken?: () => Promise<string | null>;
+  /** Whether to require credentials (default: true in production) */
   requireApiKey?: boolean;
 }
 
@@ -87,22 +93,29 @@ export interface GatewayClientOptions {
  *
  * @example
  * ```ts
+ * // Server-side, with an API key
  * const client = createGatewayClient({
  *   baseUrl: "https://api.example.com",
  *   apiKey: process.env.API_KEY
  * });
  *
+ * // Browser, with tokens minted by the dashboard server
+ * const browserClient = createGatewayClient({
+ *   baseUrl: "https://api.example.com",
+ *   getToken: () => fetchGatewayToken()
+ * });
+ *
  * const health = await client.health();
  * ```
  */
 export function createGatewayClient(options: GatewayClientOptions = {}) {
   const isProduction = process.env.NODE_ENV === "production";
   const baseUrl = options.baseUrl ?? process.env.NEXT_PUBLIC_API_BASE_URL ?? "http://localhost:8787";
-  const apiKey = options.apiKey ?? process.env.NEXT_PUBLIC_API_KEY;
+  const { apiKey, getToken } = options;
   const requireApiKey = options.requireApiKey ?? isProduction;
 
-  // Validate API key configuration
-  if (requireApiKey && !apiKey) {
+  // Validate credential configuration
+  if (requireApiKey && !apiKey && !getToken) {
     throw new MissingApiKeyError();
   }
 
@@ -119,9 +132,14 @@ export function createGatewayClient(options: GatewayClientOptions = {}) {
       ...(init?.headers as Record<string, string> ?? {})
     };
 
-    // Only add API key header if configured
+    // Only add credentials if configured
     if (apiKey) {
       headers["x-fw-admin-key"] = apiKey;
+    } else if (getToken) {
+      const token = await getToken();
+      if (token) {
+        headers.Authorization = `Bearer ${token}`;
+      }
     }
 
     const response = await fetch(new URL(path, baseUrl), {
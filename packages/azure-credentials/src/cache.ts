@@ -0,0 +1,81 @@
+import type { AccessToken, TokenCredential } from "./credentials.js";
+
+export interface TokenCacheOptions {
+  /**
+   * Refresh in the background once a token is this close to expiry, while
+   * callers keep getting the cached one (default: 300000)
+   */
+  refreshAheadMs?: number;
+  /** Stop handing out a token this long before it expires (default: 30000) */
+  expiryMarginMs?: number;
+  /** Wait after a failed background refresh before trying again (default: 30000) */
+  retryAfterMs?: number;
+  /** Called for each token fetched from the wrapped credential */
+  onToken?: (token: AccessToken, scope: string) => void;
+  /** Called when a background refresh fails; the cached token stays in use */
+  onRefreshError?: (error: unknown, scope: string) => void;
+  now?: () => number;
+}
+
+/**
+ * Caches tokens per scope in front of a credential. Concurrent callers share
+ * one request, and tokens nearing expiry are refreshed ahead of time so
+ * requests never wait on the token endpoint while a valid token exists.
+ */
+export class CachedTokenCredential implements TokenCredential {
+  readonly name: string;
+  private readonly tokens = new Map<string, AccessToken>();
+  private readonly pending = new Map<string, Promise<AccessToken>>();
+  /** Earliest next background refresh per scope, after a failure */
+  private readonly retryAt = new Map<string, number>();
+  private readonly now: () => number;
+
+  constructor(
+    private readonly credential: TokenCredential,
+    private readonly options: TokenCacheOptions = {}
+  ) {
+    this.name = credential.name;
+    this.now = options.now ?? Date.now;
+  }
+
+  async getToken(scope: string): Promise<AccessToken> {
+    const now = this.now();
+    const cached = this.tokens.get(scope);
+
+    if (cached && cached.expiresOnTimestamp - (this.options.expiryMarginMs ?? 30_000) > now) {
+      const refreshDue = cached.expiresOnTimestamp - (this.options.refreshAheadMs ?? 300_000) <= now;
+      if (refreshDue && (this.retryAt.get(scope) ?? 0) <= now) {
+        this.fetchToken(scope).catch((error) => {
+          this.retryAt.set(scope, this.now() + (this.options.retryAfterMs ?? 30_000));
+          this.options.onRefreshError?.(error, scope);
+        });
+      }
+      return cached;
+    }
+
+    return this.fetchToken(scope);
+  }
+
+  /** Drops cached tokens, e.g. after the credentials changed */
+  clear(): void {
+    this.tokens.clear();
+    this.retryAt.clear();
+  }
+
+  private fetchToken(scope: string): Promise<AccessToken> {
+    let pending = this.pending.get(scope);
+    if (!pending) {
+      pending = this.credential
+        .getToken(scope)
+        .then((token) => {
+          this.tokens.set(scope, token);
+          this.retryAt.delete(scope);
+          this.options.onToken?.(token, scope);
+          return token;
+        })
+        .finally(() => this.pending.delete(scope));
+      this.pending.set(scope, pending);
+    }
+    return pending;
+  }
+}
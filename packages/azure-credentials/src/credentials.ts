@@ -0,0 +1,293 @@
+import { readFile } from "fs/promises";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Scope of the Azure Resource Manager (management.azure.com) API */
+export const ARM_SCOPE = "https://management.azure.com/.default";
+
+export const DEFAULT_AUTHORITY_HOST = "https://login.microsoftonline.com";
+
+export const DEFAULT_IMDS_ENDPOINT = "http://169.254.169.254";
+
+export interface AccessToken {
+  token: string;
+  /** Expiry, ms since the epoch */
+  expiresOnTimestamp: number;
+  /** Name of the credential that issued the token */
+  source: string;
+}
+
+export interface TokenCredential {
+  readonly name: string;
+  getToken(scope: string): Promise<AccessToken>;
+}
+
+export type FetchLike = (url: string, init?: RequestInit) => Promise<Response>;
+
+export interface CredentialOptions {
+  /** Used for every token request (the gateway passes its traced fetch) */
+  fetch?: FetchLike;
+  /** Entra ID authority (default: https://login.microsoftonline.com) */
+  authorityHost?: string;
+  /** Clock, ms since the epoch */
+  now?: () => number;
+}
+
+// =============================================================================
+// ERRORS
+// =============================================================================
+
+/**
+ * The credential is not configured in this environment; a chain moves on to
+ * the next one.
+ */
+export class CredentialUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CredentialUnavailableError";
+  }
+}
+
+/**
+ * The token endpoint rejected a configured credential.
+ */
+export class AuthenticationError extends Error {
+  constructor(
+    public statusCode: number,
+    message: string
+  ) {
+    super(message);
+    this.name = "AuthenticationError";
+  }
+}
+
+// =============================================================================
+// TOKEN RESPONSES
+// =============================================================================
+
+/**
+ * Entra ID returns expires_in (seconds, a number); the managed identity
+ * endpoints return expires_on (epoch seconds) and expires_in as strings.
+ */
+interface TokenResponse {
+  access_token: string;
+  expires_in?: number | string;
+  expires_on?: number | string;
+}
+
+async function requestToken(
+  fetchImpl: FetchLike,
+  source: string,
+  url: string,
+  init: RequestInit,
+  now: () => number
+): Promise<AccessToken> {
+  const res = await fetchImpl(url, init);
+  if (!res.ok) {
+    const text = await res.text();
+    throw new AuthenticationError(res.status, `${source} token request failed (${res.status}): ${text}`);
+  }
+
+  const data = (await res.json()) as TokenResponse;
+  const expiresOnTimestamp =
+    data.expires_on !== undefined && /^\d+$/.test(String(data.expires_on))
+      ? Number(data.expires_on) * 1000
+      : now() + Number(data.expires_in ?? 0) * 1000;
+  return { token: data.access_token, expiresOnTimestamp, source };
+}
+
+/** Managed identity endpoints take a resource rather than a scope */
+function scopeToResource(scope: string): string {
+  return scope.replace(/\/\.default$/, "");
+}
+
+// =============================================================================
+// CREDENTIALS
+// =============================================================================
+
+/**
+ * Managed Identity. Uses the endpoint injected by App Service, Static Web Apps
+ * and Container Apps (IDENTITY_ENDPOINT + IDENTITY_HEADER) when given, and the
+ * VM instance metadata service (IMDS) otherwise.
+ */
+export class ManagedIdentityCredential implements TokenCredential {
+  readonly name = "managed-identity";
+  private readonly fetch: FetchLike;
+  private readonly now: () => number;
+
+  constructor(
+    private readonly options: CredentialOptions & {
+      identityEndpoint?: string;
+      identityHeader?: string;
+      imdsEndpoint?: string;
+      /** How long to wait for IMDS before treating it as absent (default: 1000) */
+      imdsTimeoutMs?: number;
+    } = {}
+  ) {
+    this.fetch = options.fetch ?? fetch;
+    this.now = options.now ?? Date.now;
+  }
+
+  async getToken(scope: string): Promise<AccessToken> {
+    const resource = scopeToResource(scope);
+    const { identityEndpoint, identityHeader } = this.options;
+
+    if (identityEndpoint && identityHeader) {
+      const url = `${identityEndpoint}?${new URLSearchParams({ "api-version": "2019-08-01", resource })}`;
+      return requestToken(this.fetch, this.name, url, { headers: { "X-IDENTITY-HEADER": identityHeader } }, this.now);
+    }
+
+    const imds = this.options.imdsEndpoint ?? DEFAULT_IMDS_ENDPOINT;
+    const url = `${imds}/metadata/identity/oauth2/token?${new URLSearchParams({ "api-version": "2018-02-01", resource })}`;
+    let res: Response;
+    try {
+      res = await this.fetch(url, {
+        headers: { Metadata: "true" },
+        signal: AbortSignal.timeout(this.options.imdsTimeoutMs ?? 1000),
+      });
+    } catch {
+      throw new CredentialUnavailableError("No managed identity endpoint is reachable");
+    }
+    // IMDS answers 400 when the machine has no identity assigned
+    if (res.status === 400) {
+      throw new CredentialUnavailableError("No managed identity is assigned to this machine");
+    }
+    return requestToken(async () => res, this.name, url, {}, this.now);
+  }
+}
+
+/**
+ * Service principal with a client secret.
+ */
+export class ClientSecretCredential implements TokenCredential {
+  readonly name = "client-secret";
+  private readonly fetch: FetchLike;
+
+  constructor(
+    private readonly tenantId: string,
+    private readonly clientId: string,
+    private readonly clientSecret: string,
+    private readonly options: CredentialOptions = {}
+  ) {
+    this.fetch = options.fetch ?? fetch;
+  }
+
+  async getToken(scope: string): Promise<AccessToken> {
+    const body = new URLSearchParams({
+      grant_type: "client_credentials",
+      client_id: this.clientId,
+      client_secret: this.clientSecret,
+      scope,
+    });
+    return requestToken(
+      this.fetch,
+      this.name,
+      `${this.options.authorityHost ?? DEFAULT_AUTHORITY_HOST}/${this.tenantId}/oauth2/v2.0/token`,
+      { method: "POST", headers: { "Content-Type": "application/x-www-form-urlencoded" }, body: body.toString() },
+      this.options.now ?? Date.now
+    );
+  }
+}
+
+/**
+ * Workload identity federation: exchanges a token issued by another identity
+ * provider (the Kubernetes service account token, a GitHub Actions OIDC token)
+ * for an Entra ID token. The file is re-read on every request because the
+ * platform rotates it.
+ */
+export class WorkloadIdentityCredential implements TokenCredential {
+  readonly name = "workload-identity";
+  private readonly fetch: FetchLike;
+
+  constructor(
+    private readonly tenantId: string,
+    private readonly clientId: string,
+    private readonly tokenFilePath: string,
+    private readonly options: CredentialOptions = {}
+  ) {
+    this.fetch = options.fetch ?? fetch;
+  }
+
+  async getToken(scope: string): Promise<AccessToken> {
+    let assertion: string;
+    try {
+      assertion = (await readFile(this.tokenFilePath, "utf8")).trim();
+    } catch (error) {
+      throw new CredentialUnavailableError(`Federated token file unreadable: ${(error as Error).message}`);
+    }
+
+    const body = new URLSearchParams({
+      grant_type: "client_credentials",
+      client_id: this.clientId,
+      client_assertion_type: "urn:ietf:params:oauth:client-assertion-type:jwt-bearer",
+      client_assertion: assertion,
+      scope,
+    });
+    return requestToken(
+      this.fetch,
+      this.name,
+      `${this.options.authorityHost ?? DEFAULT_AUTHORITY_HOST}/${this.tenantId}/oauth2/v2.0/token`,
+      { method: "POST", headers: { "Content-Type": "application/x-www-form-urlencoded" }, body: body.toString() },
+      this.options.now ?? Date.now
+    );
+  }
+}
+
+/**
+ * A fixed token (`az account get-access-token`) — local development only.
+ * Returned for every scope; its expiry is read from the JWT when possible.
+ */
+export class StaticTokenCredential implements TokenCredential {
+  readonly name = "static-token";
+  private readonly expiresOnTimestamp: number;
+
+  constructor(private readonly token: string) {
+    this.expiresOnTimestamp = jwtExpiry(token) ?? Number.MAX_SAFE_INTEGER;
+  }
+
+  async getToken(): Promise<AccessToken> {
+    return { token: this.token, expiresOnTimestamp: this.expiresOnTimestamp, source: this.name };
+  }
+}
+
+function jwtExpiry(token: string): number | null {
+  try {
+    const payload = JSON.parse(Buffer.from(token.split(".")[1] ?? "", "base64url").toString("utf8"));
+    return typeof payload.exp === "number" ? payload.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Tries each credential in order, moving on when one is unavailable. A
+ * configured credential that fails (AuthenticationError, network errors)
+ * ends the chain rather than being masked by a later one.
+ */
+export class ChainedTokenCredential implements TokenCredential {
+  readonly name = "chain";
+  private readonly credentials: TokenCredential[];
+
+  constructor(...credentials: TokenCredential[]) {
+    this.credentials = credentials;
+  }
+
+  async getToken(scope: string): Promise<AccessToken> {
+    const unavailable: string[] = [];
+    for (const credential of this.credentials) {
+      try {
+        return await credential.getToken(scope);
+      } catch (error) {
+        if (!(error instanceof CredentialUnavailableError)) {
+          throw error;
+        }
+        unavailable.push(`${credential.name}: ${error.message}`);
+      }
+    }
+    throw new CredentialUnavailableError(
+      unavailable.length > 0 ? `No Azure credential available (${unavailable.join("; ")})` : "No Azure credential configured"
+    );
+  }
+}
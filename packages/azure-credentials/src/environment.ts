@@ -0,0 +1,89 @@
+import { CachedTokenCredential, type TokenCacheOptions } from "./cache.js";
+import {
+  ChainedTokenCredential,
+  ClientSecretCredential,
+  ManagedIdentityCredential,
+  StaticTokenCredential,
+  WorkloadIdentityCredential,
+  type AccessToken,
+  type CredentialOptions,
+  type TokenCredential,
+} from "./credentials.js";
+
+export interface AzureCredentialOptions extends CredentialOptions, TokenCacheOptions {
+  /** Read on every token request, so changes apply without a restart (default: process.env) */
+  env?: NodeJS.ProcessEnv;
+  /** Try the instance metadata service when nothing else is configured (default: true) */
+  imds?: boolean;
+  imdsEndpoint?: string;
+  imdsTimeoutMs?: number;
+}
+
+/**
+ * The credentials configured in `env`, in priority order:
+ *   1. Managed Identity via IDENTITY_ENDPOINT + IDENTITY_HEADER
+ *      (App Service, Static Web Apps, Container Apps)
+ *   2. Workload identity federation
+ *      (AZURE_TENANT_ID + AZURE_CLIENT_ID + AZURE_FEDERATED_TOKEN_FILE)
+ *   3. Service principal (AZURE_TENANT_ID + AZURE_CLIENT_ID + AZURE_CLIENT_SECRET)
+ *   4. Static token (AZURE_ACCESS_TOKEN) — local development only
+ *   5. Managed Identity via the instance metadata service (VMs)
+ */
+export function environmentCredentials(env: NodeJS.ProcessEnv, options: AzureCredentialOptions = {}): TokenCredential[] {
+  const credentialOptions: CredentialOptions = {
+    fetch: options.fetch,
+    authorityHost: options.authorityHost ?? env.AZURE_AUTHORITY_HOST,
+    now: options.now,
+  };
+  const credentials: TokenCredential[] = [];
+
+  if (env.IDENTITY_ENDPOINT && env.IDENTITY_HEADER) {
+    credentials.push(
+      new ManagedIdentityCredential({
+        ...credentialOptions,
+        identityEndpoint: env.IDENTITY_ENDPOINT,
+        identityHeader: env.IDENTITY_HEADER,
+      })
+    );
+  }
+  if (env.AZURE_TENANT_ID && env.AZURE_CLIENT_ID && env.AZURE_FEDERATED_TOKEN_FILE) {
+    credentials.push(
+      new WorkloadIdentityCredential(env.AZURE_TENANT_ID, env.AZURE_CLIENT_ID, env.AZURE_FEDERATED_TOKEN_FILE, credentialOptions)
+    );
+  }
+  if (env.AZURE_TENANT_ID && env.AZURE_CLIENT_ID && env.AZURE_CLIENT_SECRET) {
+    credentials.push(new ClientSecretCredential(env.AZURE_TENANT_ID, env.AZURE_CLIENT_ID, env.AZURE_CLIENT_SECRET, credentialOptions));
+  }
+  if (env.AZURE_ACCESS_TOKEN) {
+    credentials.push(new StaticTokenCredential(env.AZURE_ACCESS_TOKEN));
+  }
+  if (options.imds ?? true) {
+    credentials.push(
+      new ManagedIdentityCredential({
+        ...credentialOptions,
+        imdsEndpoint: options.imdsEndpoint,
+        imdsTimeoutMs: options.imdsTimeoutMs,
+      })
+    );
+  }
+  return credentials;
+}
+
+/**
+ * The credential chain configured by the environment, behind a token cache.
+ * The gateway creates one at module scope.
+ *
+ * @example
+ * ```ts
+ * const credential = createAzureCredential();
+ * const { token } = await credential.getToken(ARM_SCOPE);
+ * ```
+ */
+export function createAzureCredential(options: AzureCredentialOptions = {}): CachedTokenCredential {
+  const environment: TokenCredential = {
+    name: "environment",
+    getToken: (scope: string): Promise<AccessToken> =>
+      new ChainedTokenCredential(...environmentCredentials(options.env ?? process.env, options)).getToken(scope),
+  };
+  return new CachedTokenCredential(environment, options);
+}
@@ -0,0 +1,135 @@
+import http from "http";
+import type { AddressInfo } from "net";
+
+export interface FakeTokenRequest {
+  kind: "client-secret" | "workload-identity" | "managed-identity" | "imds";
+  /** Scope (Entra ID) or resource (managed identity) requested */
+  scope: string;
+  /** Client id, tenant and assertion of Entra ID requests */
+  clientId?: string;
+  tenantId?: string;
+  assertion?: string;
+}
+
+export interface FakeTokenEndpoint {
+  /** Base URL; pass it as authorityHost and imdsEndpoint */
+  url: string;
+  /** Managed identity endpoint (IDENTITY_ENDPOINT) */
+  identityEndpoint: string;
+  /** Expected IDENTITY_HEADER */
+  identityHeader: string;
+  /** Token requests received, oldest first */
+  requests: FakeTokenRequest[];
+  /** Answer every following request with this status (null: back to normal) */
+  failWith(status: number | null): void;
+  close(): Promise<void>;
+}
+
+export interface FakeTokenEndpointOptions {
+  /** Lifetime of issued tokens (default: 3600) */
+  expiresInSeconds?: number;
+  /** Delay before each answer, e.g. to overlap concurrent requests (default: 0) */
+  delayMs?: number;
+  /** Only this client secret is accepted (default: "fake-secret") */
+  clientSecret?: string;
+  identityHeader?: string;
+  now?: () => number;
+}
+
+/**
+ * A local stand-in for the Entra ID token endpoint, the App Service managed
+ * identity endpoint and IMDS, for tests. Issues "fake-token-1", "fake-token-2", …
+ *
+ * @example
+ * ```ts
+ * const endpoint = await startFakeTokenEndpoint();
+ * const credential = createAzureCredential({
+ *   env: { AZURE_TENANT_ID: "t", AZURE_CLIENT_ID: "c", AZURE_CLIENT_SECRET: "fake-secret" },
+ *   authorityHost: endpoint.url,
+ *   imds: false
+ * });
+ * ```
+ */
+export async function startFakeTokenEndpoint(options: FakeTokenEndpointOptions = {}): Promise<FakeTokenEndpoint> {
+  const expiresIn = options.expiresInSeconds ?? 3600;
+  const identityHeader = options.identityHeader ?? "fake-identity-header";
+  const now = options.now ?? Date.now;
+  const requests: FakeTokenRequest[] = [];
+  let failure: number | null = null;
+  let issued = 0;
+
+  const server = http.createServer(async (req, res) => {
+    let body = "";
+    for await (const chunk of req) {
+      body += chunk;
+    }
+    if (options.delayMs) {
+      await new Promise((resolve) => setTimeout(resolve, options.delayMs));
+    }
+
+    const url = new URL(req.url ?? "/", "http://fake");
+    const send = (status: number, data: object) =>
+      res.writeHead(status, { "Content-Type": "application/json" }).end(JSON.stringify(data));
+    const grant = () => {
+      if (failure !== null) {
+        return send(failure, { error: "temporarily_unavailable" });
+      }
+      issued += 1;
+      return send(200, {
+        access_token: `fake-token-${issued}`,
+        token_type: "Bearer",
+        expires_in: url.pathname.endsWith("/oauth2/v2.0/token") ? expiresIn : String(expiresIn),
+        expires_on: String(Math.floor(now() / 1000) + expiresIn),
+      });
+    };
+
+    const entraId = /^\/([^/]+)\/oauth2\/v2\.0\/token$/.exec(url.pathname);
+    if (req.method === "POST" && entraId) {
+      const form = new URLSearchParams(body);
+      const assertion = form.get("client_assertion") ?? undefined;
+      requests.push({
+        kind: assertion ? "workload-identity" : "client-secret",
+        scope: form.get("scope") ?? "",
+        clientId: form.get("client_id") ?? undefined,
+        tenantId: entraId[1],
+        ...(assertion && { assertion }),
+      });
+      if (!assertion && form.get("client_secret") !== (options.clientSecret ?? "fake-secret")) {
+        return send(401, { error: "invalid_client" });
+      }
+      return grant();
+    }
+
+    if (req.method === "GET" && url.pathname === "/msi/token") {
+      requests.push({ kind: "managed-identity", scope: url.searchParams.get("resource") ?? "" });
+      if (req.headers["x-identity-header"] !== identityHeader) {
+        return send(401, { error: "invalid_identity_header" });
+      }
+      return grant();
+    }
+
+    if (req.method === "GET" && url.pathname === "/metadata/identity/oauth2/token") {
+      requests.push({ kind: "imds", scope: url.searchParams.get("resource") ?? "" });
+      if (req.headers.metadata !== "true") {
+        return send(400, { error: "invalid_request" });
+      }
+      return grant();
+    }
+
+    send(404, { error: "not_found" });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    url,
+    identityEndpoint: `${url}/msi/token`,
+    identityHeader,
+    requests,
+    failWith: (status) => {
+      failure = status;
+    },
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
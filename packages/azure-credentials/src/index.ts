@@ -0,0 +1,30 @@
+/**
+ * Azure credentials for the API gateway: a chain of Managed Identity,
+ * workload identity federation, service principal and static-token
+ * credentials behind one token cache, plus a fake token endpoint for tests.
+ */
+
+export {
+  ARM_SCOPE,
+  DEFAULT_AUTHORITY_HOST,
+  DEFAULT_IMDS_ENDPOINT,
+  AuthenticationError,
+  ChainedTokenCredential,
+  ClientSecretCredential,
+  CredentialUnavailableError,
+  ManagedIdentityCredential,
+  StaticTokenCredential,
+  WorkloadIdentityCredential,
+  type AccessToken,
+  type CredentialOptions,
+  type FetchLike,
+  type TokenCredential,
+} from "./credentials.js";
+export { CachedTokenCredential, type TokenCacheOptions } from "./cache.js";
+export { createAzureCredential, environmentCredentials, type AzureCredentialOptions } from "./environment.js";
+export {
+  startFakeTokenEndpoint,
+  type FakeTokenEndpoint,
+  type FakeTokenEndpointOptions,
+  type FakeTokenRequest,
+} from "./fakeTokenEndpoint.js";
@@ -0,0 +1,250 @@
+/**
+ * Azure Credential Tests
+ *
+ * Tests the credential chain against the fake token endpoint for:
+ * - Each strategy (managed identity, IMDS, workload identity, service principal, static token)
+ * - Chain order and failure handling
+ * - Token caching: reuse, refresh-ahead, deduplication of concurrent requests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import {
+  ARM_SCOPE,
+  AuthenticationError,
+  CachedTokenCredential,
+  CredentialUnavailableError,
+  createAzureCredential,
+  startFakeTokenEndpoint,
+  type AccessToken,
+  type FakeTokenEndpoint,
+  type TokenCredential
+} from "../src/index";
+
+// =============================================================================
+// TEST SETUP
+// =============================================================================
+
+const SERVICE_PRINCIPAL = { AZURE_TENANT_ID: "tenant-1", AZURE_CLIENT_ID: "client-1", AZURE_CLIENT_SECRET: "fake-secret" };
+
+let endpoint: FakeTokenEndpoint;
+let directory: string;
+
+/** Issues "token-1", "token-2", … that expire `lifetimeMs` after `now()` */
+class CountingCredential implements TokenCredential {
+  readonly name = "counting";
+  calls = 0;
+  fail = false;
+
+  constructor(private readonly now: () => number, private readonly lifetimeMs: number) {}
+
+  async getToken(): Promise<AccessToken> {
+    this.calls += 1;
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    if (this.fail) {
+      throw new Error("token endpoint down");
+    }
+    return { token: `token-${this.calls}`, expiresOnTimestamp: this.now() + this.lifetimeMs, source: this.name };
+  }
+}
+
+// =============================================================================
+// TEST SUITE
+// =============================================================================
+
+describe("Azure credentials", () => {
+  beforeEach(async () => {
+    endpoint = await startFakeTokenEndpoint();
+    directory = mkdtempSync(path.join(tmpdir(), "azure-credentials-"));
+  });
+
+  afterEach(async () => {
+    await endpoint.close();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  // ---------------------------------------------------------------------------
+  // STRATEGIES
+  // ---------------------------------------------------------------------------
+
+  describe("strategies", () => {
+    it("should use the injected managed identity endpoint first", async () => {
+      const credential = createAzureCredential({
+        env: { IDENTITY_ENDPOINT: endpoint.identityEndpoint, IDENTITY_HEADER: endpoint.identityHeader, ...SERVICE_PRINCIPAL },
+        authorityHost: endpoint.url,
+        imds: false
+      });
+
+      const token = await credential.getToken(ARM_SCOPE);
+
+      expect(token).toMatchObject({ token: "fake-token-1", source: "managed-identity" });
+      expect(endpoint.requests).toEqual([{ kind: "managed-identity", scope: "https://management.azure.com" }]);
+    });
+
+    it("should exchange the federated token file for workload identity", async () => {
+      const tokenFile = path.join(directory, "token");
+      writeFileSync(tokenFile, "federated-jwt\n");
+      const credential = createAzureCredential({
+        env: { AZURE_TENANT_ID: "tenant-1", AZURE_CLIENT_ID: "client-1", AZURE_FEDERATED_TOKEN_FILE: tokenFile },
+        authorityHost: endpoint.url,
+        imds: false
+      });
+
+      const token = await credential.getToken(ARM_SCOPE);
+
+      expect(token.source).toBe("workload-identity");
+      expect(endpoint.requests).toEqual([
+        { kind: "workload-identity", scope: ARM_SCOPE, clientId: "client-1", tenantId: "tenant-1", assertion: "federated-jwt" }
+      ]);
+    });
+
+    it("should use the service principal", async () => {
+      const credential = createAzureCredential({ env: SERVICE_PRINCIPAL, authorityHost: endpoint.url, imds: false });
+
+      const token = await credential.getToken(ARM_SCOPE);
+
+      expect(token.source).toBe("client-secret");
+      expect(token.expiresOnTimestamp).toBeGreaterThan(Date.now() + 3500_000);
+    });
+
+    it("should fall back to IMDS when nothing is configured", async () => {
+      const credential = createAzureCredential({ env: {}, imdsEndpoint: endpoint.url });
+
+      const token = await credential.getToken(ARM_SCOPE);
+
+      expect(token.source).toBe("managed-identity");
+      expect(endpoint.requests).toEqual([{ kind: "imds", scope: "https://management.azure.com" }]);
+    });
+
+    it("should read the expiry of a static token from the JWT", async () => {
+      const payload = Buffer.from(JSON.stringify({ exp: 1772442000 })).toString("base64url");
+      const credential = createAzureCredential({ env: { AZURE_ACCESS_TOKEN: `header.${payload}.signature` }, imds: false });
+
+      const token = await credential.getToken(ARM_SCOPE);
+
+      expect(token).toMatchObject({ source: "static-token", expiresOnTimestamp: 1772442000_000 });
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // CHAIN
+  // ---------------------------------------------------------------------------
+
+  describe("chain", () => {
+    it("should report unavailable when nothing is configured", async () => {
+      const credential = createAzureCredential({ env: {}, imds: false });
+
+      await expect(credential.getToken(ARM_SCOPE)).rejects.toBeInstanceOf(CredentialUnavailableError);
+    });
+
+    it("should treat an unreachable IMDS as unavailable", async () => {
+      await endpoint.close();
+      const credential = createAzureCredential({ env: {}, imdsEndpoint: endpoint.url, imdsTimeoutMs: 200 });
+      endpoint = await startFakeTokenEndpoint();
+
+      await expect(credential.getToken(ARM_SCOPE)).rejects.toThrow(/managed-identity: No managed identity endpoint is reachable/);
+    });
+
+    it("should not mask a rejected credential with a later one", async () => {
+      const credential = createAzureCredential({
+        env: { ...SERVICE_PRINCIPAL, AZURE_CLIENT_SECRET: "wrong", AZURE_ACCESS_TOKEN: "static" },
+        authorityHost: endpoint.url,
+        imds: false
+      });
+
+      await expect(credential.getToken(ARM_SCOPE)).rejects.toMatchObject({ name: "AuthenticationError", statusCode: 401 });
+      await expect(credential.getToken(ARM_SCOPE)).rejects.toBeInstanceOf(AuthenticationError);
+    });
+
+    it("should read the environment on every token request", async () => {
+      const env: NodeJS.ProcessEnv = {};
+      const credential = createAzureCredential({ env, authorityHost: endpoint.url, imds: false });
+      await expect(credential.getToken(ARM_SCOPE)).rejects.toBeInstanceOf(CredentialUnavailableError);
+
+      Object.assign(env, SERVICE_PRINCIPAL);
+
+      await expect(credential.getToken(ARM_SCOPE)).resolves.toMatchObject({ source: "client-secret" });
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // CACHE
+  // ---------------------------------------------------------------------------
+
+  describe("cache", () => {
+    let now: number;
+    let source: CountingCredential;
+    let cache: CachedTokenCredential;
+
+    beforeEach(() => {
+      now = 1_000_000;
+      source = new CountingCredential(() => now, 3600_000);
+      cache = new CachedTokenCredential(source, { now: () => now });
+    });
+
+    it("should reuse a token until it nears expiry", async () => {
+      await cache.getToken(ARM_SCOPE);
+      now += 3000_000;
+
+      const token = await cache.getToken(ARM_SCOPE);
+
+      expect(token.token).toBe("token-1");
+      expect(source.calls).toBe(1);
+    });
+
+    it("should share one request between concurrent callers", async () => {
+      const tokens = await Promise.all([cache.getToken(ARM_SCOPE), cache.getToken(ARM_SCOPE), cache.getToken(ARM_SCOPE)]);
+
+      expect(tokens.map((token) => token.token)).toEqual(["token-1", "token-1", "token-1"]);
+      expect(source.calls).toBe(1);
+    });
+
+    it("should refresh ahead of expiry while serving the cached token", async () => {
+      await cache.getToken(ARM_SCOPE);
+      now += 3400_000;
+
+      const during = await cache.getToken(ARM_SCOPE);
+      await cache.getToken(ARM_SCOPE);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      const after = await cache.getToken(ARM_SCOPE);
+
+      expect(during.token).toBe("token-1");
+      expect(after.token).toBe("token-2");
+      expect(source.calls).toBe(2);
+    });
+
+    it("should keep the cached token when a background refresh fails", async () => {
+      const errors: unknown[] = [];
+      cache = new CachedTokenCredential(source, { now: () => now, onRefreshError: (error) => errors.push(error) });
+      await cache.getToken(ARM_SCOPE);
+      source.fail = true;
+      now += 3400_000;
+
+      await cache.getToken(ARM_SCOPE);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      const token = await cache.getToken(ARM_SCOPE);
+
+      expect(token.token).toBe("token-1");
+      expect(errors).toHaveLength(1);
+      expect(source.calls).toBe(2);
+    });
+
+    it("should wait for a new token once the cached one expired", async () => {
+      await cache.getToken(ARM_SCOPE);
+      now += 3590_000;
+
+      const token = await cache.getToken(ARM_SCOPE);
+
+      expect(token.token).toBe("token-2");
+    });
+
+    it("should cache per scope", async () => {
+      await cache.getToken(ARM_SCOPE);
+      await cache.getToken("https://vault.azure.net/.default");
+
+      expect(source.calls).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Mints the first managed API key directly in the configured key store,
+ * so the admin API (/api/v1/admin/keys) can be used to mint the rest.
+ *
+ * Reads the same environment as the gateway (API_KEY_STORE, API_KEY_STORE_FILE,
+ * UPSTASH_REDIS_REST_URL / UPSTASH_REDIS_REST_TOKEN):
+ *
+ *   npx dotenv -e .env -- node scripts/bootstrap-api-key.mjs \
+ *     [--name admin] [--scopes "*"] [--expires-at 2027-01-01T00:00:00Z] \
+ *     [--allowed-cidrs 10.0.0.0/8,192.168.0.0/16] [--force]
+ *
+ * Refuses to run when the store already holds an active key unless --force is given.
+ * The key is printed once; only its salted hash is stored.
+ */
+
+import { parseArgs } from "util";
+import { tsImport } from "tsx/esm/api";
+
+const list = (value) =>
+  value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      name: { type: "string", default: "admin" },
+      scopes: { type: "string", default: "*" },
+      "expires-at": { type: "string" },
+      "allowed-cidrs": { type: "string", default: "" },
+      force: { type: "boolean", default: false }
+    }
+  });
+
+  const { config, apiKeyGrantSchema } = await tsImport("../src/config.ts", import.meta.url);
+  const { apiKeyStore } = await tsImport("../src/lib/apiKeyStore.ts", import.meta.url);
+  const { mintApiKey, toApiKeyMetadata } = await tsImport("../src/lib/apiKeys.ts", import.meta.url);
+
+  if (config.keyManagement.store === "memory") {
+    throw new Error("API_KEY_STORE=memory only lives inside the gateway process. Set API_KEY_STORE to file or redis.");
+  }
+
+  const grant = apiKeyGrantSchema.safeParse({
+    name: values.name,
+    scopes: list(values.scopes),
+    expiresAt: values["expires-at"] ?? null,
+    allowedCidrs: list(values["allowed-cidrs"])
+  });
+  if (!grant.success) {
+    throw new Error(grant.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("\n"));
+  }
+
+  const active = (await apiKeyStore.list()).filter((key) => toApiKeyMetadata(key).status === "active");
+  if (active.length > 0 && !values.force) {
+    throw new Error(
+      `The ${config.keyManagement.store} key store already has ${active.length} active key(s). ` +
+        "Use the admin API to mint more, or pass --force."
+    );
+  }
+
+  const { key, record } = await mintApiKey(apiKeyStore, grant.data);
+
+  console.log(`[bootstrap] Minted API key "${record.name}" (id ${record.id}) in the ${config.keyManagement.store} store`);
+  console.log(`[bootstrap] Scopes: ${record.scopes.join(", ")}`);
+  console.log("[bootstrap] Store this key now - it cannot be shown again:");
+  console.log(key);
+}
+
+main()
+  .then(() => {
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error(`[bootstrap] ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  });
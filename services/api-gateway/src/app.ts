@@ -15,12 +15,35 @@ import cors from "cors";
 import { config } from "./config";
 import { httpLogger, requestIdHeader } from "./lib/logger";
 import { securityHeaders, additionalSecurityHeaders } from "./middleware/security";
-import { apiKeyGuard } from "./middleware/apiKey";
+import { apiKeyGuard, methodScope, requireScope } from "./middleware/apiKey";
+import { gatewayTokenGuard } from "./middleware/gatewayToken";
 import { errorHandler, notFoundHandler } from "./middleware/errorHandler";
-import { globalRateLimiter } from "./middleware/rateLimiter";
-import { fwAnalysisRouter } from "./routes/fwAnalysis";
-import { backproRouter } from "./routes/backpro";
-import { containerRouter } from "./routes/container";
+import { authRateLimiter, globalRateLimiter, policyRateLimiter } from "./middleware/rateLimiter";
+import { probeServiceHealth } from "./lib/health";
+import { healthProber } from "./lib/healthProber";
+import { CircuitBreaker } from "./lib/circuitBreaker";
+import { createIdempotencyStore } from "./lib/idempotencyStore";
+import { createResponseCacheStore } from "./lib/responseCacheStore";
+import { createResponseCache } from "./middleware/responseCache";
+import { apiKeyStore } from "./lib/apiKeyStore";
+import { scheduleStore } from "./lib/scheduleStore";
+import { idleStopControllers } from "./lib/idleStop";
+import { operationStore } from "./lib/operationStore";
+import { containerOperations } from "./lib/containerOperations";
+import { registry } from "./lib/metrics";
+import { tracer } from "./lib/tracing";
+import type { RouteGroup } from "./lib/routeGroups";
+import { createRequestMetrics } from "./middleware/metrics";
+import { createTracingMiddleware } from "./middleware/tracing";
+import { createWakeOnRequest } from "./middleware/wakeOnRequest";
+import { createUpstreamRouter } from "./routes/upstream";
+import { createContainerRouter } from "./routes/container";
+import { createContainerSchedulesRouter } from "./routes/containerSchedules";
+import { createContainerOperationsRouter } from "./routes/containerOperations";
+import { createApiKeysRouter } from "./routes/apiKeys";
+import { createAuditRouter } from "./routes/audit";
+import { createServiceHistoryRouter } from "./routes/serviceHistory";
+import { createMetricsRouter } from "./routes/metrics";
 import { openApiRouter } from "./openapi/index";
 
 /**
@@ -32,6 +55,38 @@ import { openApiRouter } from "./openapi/index";
 export function createApp(options?: { skipRateLimiter?: boolean }) {
   const app = express();
 
+  // Only X-Forwarded-For hops added by trusted proxies count towards req.ip
+  app.set("trust proxy", config.trustProxy);
+
+  // One circuit breaker per registered upstream (shared by proxy and status)
+  const breakers = new Map(
+    config.services
+      .filter((service) => service.circuitBreaker.enabled)
+      .map((service) => [service.id, new CircuitBreaker(service.circuitBreaker)])
+  );
+
+  // Idempotency-Key records for proxied POSTs (shared by every upstream)
+  const idempotency = {
+    store: createIdempotencyStore(config.idempotency.store),
+    ttlMs: config.idempotency.ttlMs,
+    maxBodyBytes: config.idempotency.maxBodyBytes
+  };
+
+  // Opt-in GET response cache (status endpoint and upstream `cache` routes)
+  const responseCache = {
+    store: createResponseCacheStore(config.responseCache.store, config.responseCache.maxEntries),
+    maxBodyBytes: config.responseCache.maxBodyBytes
+  };
+
+  // ===========================================================================
+  // METRICS
+  // ===========================================================================
+
+  const groups = routeGroups();
+
+  // Counts every response, including security, rate limit and auth rejections
+  app.use(createRequestMetrics(groups));
+
   // ===========================================================================
   // SECURITY MIDDLEWARE
   // ===========================================================================
@@ -44,7 +99,15 @@ export function createApp(options?: { skipRateLimiter?: boolean }) {
       origin: config.cors.origins.length > 0 ? config.cors.origins : true,
       credentials: true,
       methods: ["GET", "POST", "PUT", "DELETE", "PATCH", "OPTIONS"],
-      allowedHeaders: ["Content-Type", "Authorization", "x-fw-admin-key", "x-request-id"]
+      allowedHeaders: [
+        "Content-Type",
+        "Authorization",
+        "x-fw-admin-key",
+        "x-request-id",
+        "Idempotency-Key",
+        "traceparent",
+        "tracestate"
+      ]
     })
   );
 
@@ -61,9 +124,11 @@ export function createApp(options?: { skipRateLimiter?: boolean }) {
   app.use(express.urlencoded({ extended: true, limit: config.bodyLimit }));
 
   // ===========================================================================
-  // LOGGING
+  // TRACING & LOGGING
   // ===========================================================================
 
+  app.use(createTracingMiddleware(tracer, groups));
+
   app.use(httpLogger);
   app.use(requestIdHeader);
 
@@ -83,16 +148,23 @@ export function createApp(options?: { skipRateLimiter?: boolean }) {
   // SERVICES STATUS ENDPOINT (Public)
   // ===========================================================================
 
-  app.get("/api/v1/services/status", async (_req, res) => {
-    const [fwAnalysis, backpro] = await Promise.all([
-      checkServiceHealth("fw-analysis", config.services.fwAnalysis),
-      checkServiceHealth("backpro", config.services.backpro)
-    ]);
+  /**
+   * Reports every upstream's health and circuit state, from the background
+   * prober's latest sample (or a live probe when there is no recent one).
+   */
+  async function collectServicesStatus() {
+    const results = await Promise.all(
+      config.services.map(async (service) => {
+        const { status, latencyMs } = healthProber.latest(service.id) ?? (await probeServiceHealth(service));
+        const circuit = breakers.get(service.id)?.snapshot();
+        return [service.id, { name: service.name, status, latencyMs, ...(circuit && { circuit }) }] as const;
+      })
+    );
 
-    const services = { fwAnalysis, backpro };
-    const allHealthy = fwAnalysis.status === "healthy" && backpro.status === "healthy";
+    const services = Object.fromEntries(results);
+    const allHealthy = results.every(([, health]) => health.status === "healthy");
 
-    return res.json({
+    return {
       status: allHealthy ? "healthy" : "degraded",
       timestamp: new Date().toISOString(),
       gateway: {
@@ -100,9 +172,35 @@ export function createApp(options?: { skipRateLimiter?: boolean }) {
         version: process.env.npm_package_version ?? "0.1.0"
       },
       services
-    });
+    };
+  }
+
+  // Every dashboard tab polls this endpoint; STATUS_CACHE_TTL_MS shares one probe round between them
+  const statusCache = config.responseCache.status
+    ? [
+        createResponseCache({
+          ...responseCache,
+          policy: config.responseCache.status,
+          scope: "services-status",
+          revalidate: async () => ({
+            statusCode: 200,
+            headers: { "content-type": "application/json; charset=utf-8" },
+            body: Buffer.from(JSON.stringify(await collectServicesStatus()))
+          })
+        })
+      ]
+    : [];
+
+  app.get("/api/v1/services/status", ...statusCache, async (_req, res) => {
+    return res.json(await collectServicesStatus());
   });
 
+  // ===========================================================================
+  // SERVICES HISTORY ENDPOINT (Public)
+  // ===========================================================================
+
+  app.use("/api/v1/services/history", createServiceHistoryRouter(healthProber, config.services));
+
   // ===========================================================================
   // API DOCUMENTATION (Public)
   // ===========================================================================
@@ -113,9 +211,51 @@ export function createApp(options?: { skipRateLimiter?: boolean }) {
   // API ROUTES (Protected)
   // ===========================================================================
 
-  app.use("/api/v1/fw-analysis", apiKeyGuard, fwAnalysisRouter);
-  app.use("/api/v1/backpro", apiKeyGuard, backproRouter);
-  app.use("/api/v1/container", apiKeyGuard, containerRouter);
+  // Failed authentications are throttled per IP before the key is checked;
+  // per-route rate limit policies run once the key identity is known.
+  // Browser clients authenticate with a gateway token instead of a key.
+  const authenticate = options?.skipRateLimiter
+    ? [gatewayTokenGuard, apiKeyGuard]
+    : [authRateLimiter, gatewayTokenGuard, apiKeyGuard];
+
+  // One proxy router per registered upstream service.
+  // Keys need <service-name>:read for GET/HEAD/OPTIONS and <service-name>:write otherwise.
+  // Upstreams with idle auto-stop are woken by the first request that gets through.
+  for (const service of config.services) {
+    const guards = service.auth === "public" ? [] : [...authenticate, requireScope(methodScope(service.name))];
+    const idleStop = idleStopControllers.get(service.id);
+    app.use(
+      service.mountPath,
+      ...guards,
+      policyRateLimiter,
+      ...(idleStop ? [createWakeOnRequest(idleStop)] : []),
+      createUpstreamRouter(service, { breaker: breakers.get(service.id), idempotency, responseCache })
+    );
+  }
+
+  // Schedules and operations are matched before the per-app routes; all three
+  // sit behind one set of guards so a request is only authenticated and
+  // rate-limited once on its way through
+  const containerApi = express.Router();
+  containerApi.use("/schedules", createContainerSchedulesRouter(scheduleStore, config.containerApps));
+  containerApi.use("/operations", createContainerOperationsRouter(operationStore));
+  containerApi.use(createContainerRouter(config.containerApps, containerOperations));
+  app.use("/api/v1/container", ...authenticate, policyRateLimiter, containerApi);
+
+  app.use(
+    "/api/v1/admin/keys",
+    ...authenticate,
+    requireScope("api-keys:admin"),
+    policyRateLimiter,
+    createApiKeysRouter(apiKeyStore, { rotationOverlapMs: config.keyManagement.rotationOverlapMs })
+  );
+
+  app.use("/api/v1/audit", ...authenticate, policyRateLimiter, createAuditRouter());
+
+  // Served here only when there is no separate metrics listener (METRICS_PORT)
+  if (config.metrics.port === null) {
+    app.use("/metrics", ...authenticate, requireScope("metrics:read"), createMetricsRouter(registry));
+  }
 
   // ===========================================================================
   // ERROR HANDLING
@@ -128,33 +268,40 @@ export function createApp(options?: { skipRateLimiter?: boolean }) {
 }
 
 /**
- * Checks health of a single service with timeout.
+ * Creates the metrics-only application served on METRICS_PORT.
+ *
+ * It has no authentication: bind it to an interface that only the scraper
+ * can reach (METRICS_HOST, network policy).
  */
-async function checkServiceHealth(
-  name: string,
-  url: string
-): Promise<{ name: string; status: "healthy" | "unhealthy"; latencyMs: number }> {
-  const startTime = Date.now();
-
-  try {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 5000);
-
-    const response = await fetch(new URL("/health", url), {
-      signal: controller.signal,
-      headers: { Accept: "application/json" }
-    });
+export function createMetricsApp() {
+  const app = express();
 
-    clearTimeout(timeoutId);
-    const latencyMs = Date.now() - startTime;
+  app.use(securityHeaders);
+  app.use("/metrics", createMetricsRouter(registry));
 
-    if (response.ok) {
-      return { name, status: "healthy", latencyMs };
-    }
-    return { name, status: "unhealthy", latencyMs };
-  } catch {
-    return { name, status: "unhealthy", latencyMs: Date.now() - startTime };
-  }
+  app.use(notFoundHandler);
+  app.use(errorHandler);
+
+  return app;
+}
+
+/**
+ * Route groups for metrics and span names: one per endpoint family and per upstream.
+ */
+function routeGroups(): RouteGroup[] {
+  return [
+    { prefix: "/api/v1/health", group: "health" },
+    { prefix: "/api/v1/services/status", group: "services-status" },
+    { prefix: "/api/v1/services/history", group: "services-history" },
+    { prefix: "/api/v1/container/schedules", group: "container-schedules" },
+    { prefix: "/api/v1/container/operations", group: "container-operations" },
+    { prefix: "/api/v1/container", group: "container" },
+    { prefix: "/api/v1/admin/keys", group: "admin-keys" },
+    { prefix: "/api/v1/audit", group: "audit" },
+    { prefix: "/docs", group: "docs" },
+    { prefix: "/metrics", group: "metrics" },
+    ...config.services.map((service) => ({ prefix: service.mountPath, group: service.name }))
+  ];
 }
 
 // Export for convenience
@@ -1,4 +1,7 @@
+import { readFileSync } from "fs";
+import yaml from "js-yaml";
 import { z } from "zod";
+import { hashStaticKeys } from "./lib/apiKeys";
 
 // =============================================================================
 // ENVIRONMENT SCHEMA DEFINITION
@@ -27,6 +30,66 @@ const apiKeysSchema = z.string().transform((val) =>
   { message: "Default 'dev' API key is not allowed in production" }
 );
 
+/**
+ * Permission scope - `resource:action`, `resource:*` or `*`
+ */
+export const scopeSchema = z.string().regex(/^(\*|[a-z0-9-]+:(\*|[a-z0-9-]+))$/, {
+  message: "Scope must look like resource:action, resource:* or *"
+});
+
+/**
+ * Named API key definition (API_KEYS_FILE entries).
+ *
+ * Scopes are `<resource>:<action>` strings, e.g. `fw-analysis:read`,
+ * `container:control`; `backpro:*` grants every action on a resource and
+ * `*` grants everything.
+ */
+const apiKeyDefinitionSchema = z.object({
+  name: z.string().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, { message: "Key name must be kebab-case" }),
+  key: z.string().min(16, { message: "Keys in API_KEYS_FILE must be at least 16 characters" }),
+  scopes: z.array(scopeSchema).min(1),
+  expiresAt: z.coerce.date().nullable().default(null),
+  allowedCidrs: z.array(
+    z.string().regex(/^[0-9a-fA-F:.]+\/\d{1,3}$/, { message: "CIDR must look like 10.0.0.0/8 or fd00::/8" })
+  ).default([])
+});
+
+/**
+ * API key file schema - names and keys must be unique
+ */
+const apiKeyFileSchema = z.object({
+  keys: z.array(apiKeyDefinitionSchema).min(1)
+}).superRefine(({ keys }, ctx) => {
+  for (const field of ["name", "key"] as const) {
+    const seen = new Set<string>();
+    for (const entry of keys) {
+      if (seen.has(entry[field])) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: field === "key" ? `Duplicate key value (${entry.name})` : `Duplicate key name "${entry.name}"`
+        });
+      }
+      seen.add(entry[field]);
+    }
+  }
+});
+
+export type ApiKeyDefinition = z.infer<typeof apiKeyDefinitionSchema>;
+
+/**
+ * Grant for a key minted through the admin API - a key definition without
+ * the secret, which the gateway generates itself.
+ */
+export const apiKeyGrantSchema = apiKeyDefinitionSchema.omit({ key: true }).strict();
+
+export type ApiKeyGrant = z.infer<typeof apiKeyGrantSchema>;
+
+/**
+ * A key from API_KEYS_FILE or FW_ADMIN_API_KEYS as kept after loading: the
+ * secret is replaced by its salted hash.
+ */
+export type StaticApiKey = ApiKeyGrant & { salt: string; hash: string };
+
 /**
  * CORS origins schema
  */
@@ -38,6 +101,217 @@ const corsOriginsSchema = z.string().optional().transform((val) => {
   return val.split(",").map((origin) => origin.trim()).filter((origin) => origin.length > 0);
 });
 
+/**
+ * Upstream service definition - one entry per proxied backend.
+ *
+ * `id` is the key used in `/api/v1/services/status`, `name` is the
+ * kebab-case identifier used in logs and (by default) in the mount path.
+ */
+const serviceDefinitionSchema = z.object({
+  id: z.string().regex(/^[a-z][a-zA-Z0-9]*$/, { message: "Service id must be camelCase" }),
+  name: z.string().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, { message: "Service name must be kebab-case" }),
+  baseUrl: urlSchema,
+  mountPath: z.string().regex(/^(\/[a-z0-9-]+)+$/, { message: "Mount path must look like /api/v1/my-service" }).optional(),
+  healthPath: z.string().startsWith("/").default("/health"),
+  timeouts: z.object({
+    healthMs: z.number().int().min(100).default(5000),
+    proxyMs: z.number().int().min(1000).default(300000)
+  }).default({}),
+  auth: z.enum(["api-key", "public"]).default("api-key"),
+  circuitBreaker: z.object({
+    enabled: z.boolean().default(true),
+    consecutiveFailureThreshold: z.number().int().min(1).default(5),
+    failureRateThreshold: z.number().gt(0).max(1).default(0.5),
+    minimumRequests: z.number().int().min(1).default(10),
+    windowSize: z.number().int().min(1).default(20),
+    coolDownMs: z.number().int().min(1000).default(30000),
+    halfOpenMaxRequests: z.number().int().min(1).default(1)
+  }).default({}),
+  retry: z.object({
+    maxAttempts: z.number().int().min(1).max(10).default(3),
+    baseDelayMs: z.number().int().min(0).default(200),
+    maxDelayMs: z.number().int().min(0).default(5000),
+    retryableStatuses: z.array(z.number().int().min(500).max(599)).default([502, 503, 504]),
+    retryableErrors: z.array(z.string()).default(["ECONNRESET", "ECONNREFUSED", "EPIPE"])
+  }).default({}),
+  /** GET routes (relative to mountPath, prefix match) served from the response cache */
+  cache: z.array(z.object({
+    path: z.string().regex(/^(\/[a-zA-Z0-9._-]+)+$/, { message: "Cache path must look like /catalogue" }),
+    ttlMs: z.number().int().min(1000),
+    staleWhileRevalidateMs: z.number().int().min(0).default(0)
+  })).default([]),
+  /**
+   * Container App running the upstream: stopped after idleMs without proxied
+   * requests and started again by the next one, which waits (up to
+   * wakeTimeoutMs) until the health check passes.
+   */
+  idleStop: z.object({
+    containerAppId: z.string().min(1),
+    idleMs: z.number().int().min(60000).default(1800000),
+    wakeTimeoutMs: z.number().int().min(5000).max(600000).default(120000),
+    /** Requests held while waking; further ones get 503 straight away */
+    maxWaitingRequests: z.number().int().min(0).default(100)
+  }).optional()
+}).transform((service) => ({
+  ...service,
+  mountPath: service.mountPath ?? `/api/v1/${service.name}`
+}));
+
+/**
+ * Service registry schema - ids, names and mount paths must be unique
+ */
+const serviceRegistrySchema = z.array(serviceDefinitionSchema).min(1).superRefine((services, ctx) => {
+  for (const field of ["id", "name", "mountPath"] as const) {
+    const seen = new Set<string>();
+    for (const service of services) {
+      if (seen.has(service[field])) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate service ${field} "${service[field]}"` });
+      }
+      seen.add(service[field]);
+    }
+  }
+});
+
+/**
+ * Inline JSON registry block (SERVICE_REGISTRY env var)
+ */
+const serviceRegistryEnvSchema = z.string().transform((val, ctx) => {
+  try {
+    return JSON.parse(val) as unknown;
+  } catch {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "SERVICE_REGISTRY must be valid JSON" });
+    return z.NEVER;
+  }
+}).pipe(serviceRegistrySchema);
+
+export type ServiceDefinition = z.infer<typeof serviceDefinitionSchema>;
+
+/**
+ * Rate limit policy for a group of routes.
+ *
+ * The first policy whose path prefix (and method, if given) matches a request
+ * applies. Counters are kept per API key name (`keyBy: api-key`, falling back
+ * to the client IP for unauthenticated routes) or per client IP.
+ */
+const rateLimitPolicySchema = z.object({
+  name: z.string().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, { message: "Policy name must be kebab-case" }),
+  paths: z.array(z.string().regex(/^(\/[a-zA-Z0-9._-]+)+$/, { message: "Path must look like /api/v1/backpro/chat" })).min(1),
+  methods: z.array(z.enum(["GET", "HEAD", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"])).optional(),
+  windowMs: z.number().int().min(1000).default(60000),
+  limit: z.number().int().min(1),
+  keyBy: z.enum(["api-key", "ip"]).default("api-key"),
+  /** Per API key name overrides of `limit` */
+  keyLimits: z.record(z.string(), z.number().int().min(1)).default({})
+});
+
+/**
+ * Rate limit policy list - names must be unique
+ */
+const rateLimitPolicyListSchema = z.array(rateLimitPolicySchema).superRefine((policies, ctx) => {
+  const seen = new Set<string>();
+  for (const policy of policies) {
+    if (seen.has(policy.name)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate rate limit policy "${policy.name}"` });
+    }
+    seen.add(policy.name);
+  }
+});
+
+/**
+ * Inline JSON policy block (RATE_LIMIT_POLICIES env var)
+ */
+const rateLimitPoliciesEnvSchema = z.string().transform((val, ctx) => {
+  try {
+    return JSON.parse(val) as unknown;
+  } catch {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "RATE_LIMIT_POLICIES must be valid JSON" });
+    return z.NEVER;
+  }
+}).pipe(rateLimitPolicyListSchema);
+
+export type RateLimitPolicy = z.infer<typeof rateLimitPolicySchema>;
+
+/**
+ * Lifecycle actions a managed Container App may allow. Reads (status,
+ * revisions, replicas, scale) are always allowed; "revisions" covers
+ * activating and deactivating revisions.
+ */
+export const CONTAINER_ACTIONS = ["start", "stop", "restart", "revisions", "traffic", "scale"] as const;
+
+export type ContainerAction = (typeof CONTAINER_ACTIONS)[number];
+
+/** Backends that can run the managed containers (CONTAINER_PROVIDER) */
+const CONTAINER_PROVIDERS = ["azure", "docker", "fake"] as const;
+
+export type ContainerProviderKind = (typeof CONTAINER_PROVIDERS)[number];
+
+/** Route segments under /api/v1/container that cannot be app ids */
+const RESERVED_CONTAINER_APP_IDS = new Set(["status", "start", "stop", "restart", "revisions", "traffic", "scale", "schedules", "operations", "logs"]);
+
+/**
+ * Managed Container App - one control card per entry in the dashboard.
+ *
+ * `subscriptionId` and `resourceGroup` default to AZURE_SUBSCRIPTION_ID and
+ * AZURE_RESOURCE_GROUP, so apps in the gateway's own resource group only need
+ * an id, a display name and the Azure app name.
+ */
+const containerAppDefinitionSchema = z.object({
+  id: z.string()
+    .regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, { message: "Container app id must be kebab-case" })
+    .refine((id) => !RESERVED_CONTAINER_APP_IDS.has(id), { message: "Container app id is a reserved route name" }),
+  name: z.string().min(1),
+  subscriptionId: z.string().min(1).optional(),
+  resourceGroup: z.string().min(1).optional(),
+  containerAppName: z.string().regex(/^[a-z][a-z0-9-]{0,30}[a-z0-9]$/, {
+    message: "containerAppName must be 2-32 lower-case letters, digits and dashes"
+  }),
+  actions: z.array(z.enum(CONTAINER_ACTIONS)).default([...CONTAINER_ACTIONS])
+});
+
+/**
+ * Container app list - ids must be unique
+ */
+const containerAppListSchema = z.array(containerAppDefinitionSchema).superRefine((apps, ctx) => {
+  const seen = new Set<string>();
+  for (const app of apps) {
+    if (seen.has(app.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate container app id "${app.id}"` });
+    }
+    seen.add(app.id);
+  }
+});
+
+/**
+ * Inline JSON container app list (CONTAINER_APPS env var)
+ */
+const containerAppsEnvSchema = z.string().transform((val, ctx) => {
+  try {
+    return JSON.parse(val) as unknown;
+  } catch {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "CONTAINER_APPS must be valid JSON" });
+    return z.NEVER;
+  }
+});
+
+export type ContainerAppDefinition = Omit<z.infer<typeof containerAppDefinitionSchema>, "subscriptionId" | "resourceGroup"> & {
+  subscriptionId: string;
+  resourceGroup: string;
+};
+
+/**
+ * Express "trust proxy" setting: true/false, a hop count, or a comma-separated
+ * list of trusted proxy addresses, CIDRs or presets (loopback, linklocal, uniquelocal).
+ */
+const trustProxySchema = z.string().default("loopback,linklocal,uniquelocal").transform((val): boolean | number | string[] => {
+  if (val === "true" || val === "false") {
+    return val === "true";
+  }
+  if (/^\d+$/.test(val)) {
+    return Number(val);
+  }
+  return val.split(",").map((entry) => entry.trim()).filter((entry) => entry.length > 0);
+});
+
 /**
  * Complete environment configuration schema
  */
@@ -54,29 +328,149 @@ const envSchema = z.object({
     ? urlSchema
     : urlSchema.default("http://localhost:8000"),
 
-  // API key authentication - required in production
+  // Service registry - a YAML/JSON file path or an inline JSON array.
+  // When neither is set, the registry is built from the two URLs above.
+  SERVICE_REGISTRY_FILE: z.string().optional(),
+  SERVICE_REGISTRY: serviceRegistryEnvSchema.optional(),
+
+  // API key authentication - required in production unless API_KEYS_FILE is set.
+  // Keys from FW_ADMIN_API_KEYS are unrestricted (scope "*").
   FW_ADMIN_API_KEYS: isProduction
-    ? apiKeysSchema
+    ? apiKeysSchema.optional()
     : apiKeysSchema.default("dev"),
 
+  // Named, scoped API keys (YAML/JSON file, see api-keys.example.yaml)
+  API_KEYS_FILE: z.string().optional(),
+
+  // Short-lived signed tokens minted by the dashboard for browser clients (HS256)
+  GATEWAY_TOKEN_SECRET: z.string().min(32, { message: "GATEWAY_TOKEN_SECRET must be at least 32 characters" }).optional(),
+  GATEWAY_TOKEN_ISSUER: z.string().default("fw-admin-dashboard"),
+  GATEWAY_TOKEN_AUDIENCE: z.string().default("fw-admin-gateway"),
+  GATEWAY_TOKEN_MAX_TTL_SECONDS: z.string().regex(/^\d+$/).transform(Number).pipe(z.number().min(60).max(3600)).default("900"),
+
+  // Managed API keys (minted through /api/v1/admin/keys, stored as salted hashes)
+  API_KEY_STORE: z.enum(["memory", "file", "redis"]).default("memory"),
+  API_KEY_STORE_FILE: z.string().default("./data/api-keys.json"),
+  API_KEY_ROTATION_OVERLAP_MS: z.string().regex(/^\d+$/).transform(Number).pipe(z.number().min(0)).default("86400000"),
+
   // CORS configuration
   CORS_ALLOWED_ORIGINS: corsOriginsSchema,
 
   // Rate limiting
   RATE_LIMIT_WINDOW_MS: z.string().regex(/^\d+$/).transform(Number).pipe(z.number().min(1000)).default("60000"),
   RATE_LIMIT_MAX_REQUESTS: z.string().regex(/^\d+$/).transform(Number).pipe(z.number().min(1)).default("100"),
+  RATE_LIMIT_STORE: z.enum(["memory", "redis"]).default("memory"),
+  RATE_LIMIT_POLICIES_FILE: z.string().optional(),
+  RATE_LIMIT_POLICIES: rateLimitPoliciesEnvSchema.optional(),
+  AUTH_RATE_LIMIT_WINDOW_MS: z.string().regex(/^\d+$/).transform(Number).pipe(z.number().min(1000)).default("900000"),
+  AUTH_RATE_LIMIT_MAX_FAILURES: z.string().regex(/^\d+$/).transform(Number).pipe(z.number().min(1)).default("10"),
+
+  // Proxies in front of the gateway whose X-Forwarded-For entries are trusted
+  TRUST_PROXY: trustProxySchema,
 
   // Request limits
   BODY_SIZE_LIMIT: z.string().regex(/^\d+(kb|mb|gb)?$/i).default("1mb"),
 
+  // Upstash Redis (optional - shared state across gateway replicas)
+  UPSTASH_REDIS_REST_URL: urlSchema.optional(),
+  UPSTASH_REDIS_REST_TOKEN: z.string().min(1).optional(),
+
+  // Idempotency-Key handling for proxied POST requests
+  IDEMPOTENCY_STORE: z.enum(["memory", "redis"]).default("memory"),
+  IDEMPOTENCY_TTL_MS: z.string().regex(/^\d+$/).transform(Number).pipe(z.number().min(60000)).default("86400000"),
+  IDEMPOTENCY_MAX_BODY_BYTES: z.string().regex(/^\d+$/).transform(Number).pipe(z.number().min(1024)).default("1048576"),
+
+  // Opt-in GET response cache (per-route TTLs for upstreams live in the service registry)
+  RESPONSE_CACHE_STORE: z.enum(["memory", "redis"]).default("memory"),
+  RESPONSE_CACHE_MAX_ENTRIES: z.string().regex(/^\d+$/).transform(Number).pipe(z.number().min(1)).default("1000"),
+  RESPONSE_CACHE_MAX_BODY_BYTES: z.string().regex(/^\d+$/).transform(Number).pipe(z.number().min(1024)).default("1048576"),
+  // Caching of /api/v1/services/status (0 disables)
+  STATUS_CACHE_TTL_MS: z.string().regex(/^\d+$/).transform(Number).pipe(z.number().min(0)).default("0"),
+  STATUS_CACHE_STALE_MS: z.string().regex(/^\d+$/).transform(Number).pipe(z.number().min(0)).default("0"),
+
+  // Background health probing of registered upstreams
+  HEALTH_PROBE_INTERVAL_MS: z.string().regex(/^\d+$/).transform(Number).pipe(z.number().min(1000)).default("30000"),
+  HEALTH_HISTORY_WINDOW_MS: z.string().regex(/^\d+$/).transform(Number).pipe(z.number().min(60000)).default("86400000"),
+
+  // Prometheus metrics (served on a separate listener when METRICS_PORT is set,
+  // otherwise at /metrics behind an API key with the metrics:read scope)
+  METRICS_PORT: z.string().regex(/^\d+$/).transform(Number).pipe(z.number().min(1).max(65535)).optional(),
+  METRICS_HOST: z.string().default("0.0.0.0"),
+
+  // Distributed tracing (W3C traceparent is always propagated; spans are exported
+  // only when an exporter is configured)
+  TRACING_EXPORTER: z.enum(["none", "otlp", "console", "file"]).default("none"),
+  TRACING_SAMPLE_RATIO: z.string().regex(/^(0(\.\d+)?|1(\.0+)?)$/, { message: "Must be between 0 and 1" })
+    .transform(Number)
+    .default("1"),
+  TRACING_FILE_PATH: z.string().min(1).default("traces.jsonl"),
+  OTEL_SERVICE_NAME: z.string().min(1).default("fw-api-gateway"),
+  // OTLP/HTTP collector base URL, e.g. http://localhost:4318 (spans go to /v1/traces)
+  OTEL_EXPORTER_OTLP_ENDPOINT: urlSchema.optional(),
+  // Extra export headers as comma-separated key=value pairs (e.g. an ingest API key)
+  OTEL_EXPORTER_OTLP_HEADERS: z.string().optional(),
+
   // Shutdown configuration
   SHUTDOWN_TIMEOUT_MS: z.string().regex(/^\d+$/).transform(Number).pipe(z.number().min(1000)).default("10000"),
 
-  // Azure Container App Management (optional — for document processor start/stop)
+  // Container backend: Azure Container Apps, the local Docker Engine (containers named
+  // by containerAppName, as in docker-compose.yml) or an in-memory fake for tests
+  CONTAINER_PROVIDER: z.enum(CONTAINER_PROVIDERS).default("azure"),
+  // Docker Engine API: unix:///path/to/docker.sock or tcp://host:port
+  DOCKER_HOST: z.string().regex(/^(unix|tcp):\/\/.+/, { message: "DOCKER_HOST must be a unix:// or tcp:// address" })
+    .default("unix:///var/run/docker.sock"),
+
+  // Azure Container App Management (optional). Managed apps come from a YAML/JSON
+  // file or an inline JSON array; AZURE_CONTAINER_APP_NAME alone configures a single
+  // "document-processor" app. Subscription and resource group are the defaults for every app.
+  CONTAINER_APPS_FILE: z.string().optional(),
+  CONTAINER_APPS: containerAppsEnvSchema.optional(),
   AZURE_SUBSCRIPTION_ID: z.string().optional(),
   AZURE_RESOURCE_GROUP: z.string().optional(),
-  AZURE_CONTAINER_APP_NAME: z.string().optional()
-});
+  AZURE_CONTAINER_APP_NAME: z.string().optional(),
+
+  // Idle auto-stop for the default fw-analysis upstream: container app id that hosts it
+  // and how long it may go without proxied requests (ignored with a service registry)
+  FW_ANALYSIS_CONTAINER_APP: z.string().optional(),
+  FW_ANALYSIS_IDLE_STOP_MS: z.string().regex(/^\d+$/).transform(Number).pipe(z.number().min(60000)).default("1800000"),
+
+  // Scheduled start/stop of container apps (managed through /api/v1/container/schedules)
+  CONTAINER_SCHEDULE_STORE: z.enum(["memory", "file", "redis"]).default("memory"),
+  CONTAINER_SCHEDULE_STORE_FILE: z.string().default("./data/container-schedules.json"),
+  CONTAINER_SCHEDULER_INTERVAL_MS: z.string().regex(/^\d+$/).transform(Number).pipe(z.number().min(1000).max(60000)).default("30000"),
+
+  // Start/stop operations followed until Azure reports the outcome (/api/v1/container/operations)
+  CONTAINER_OPERATION_STORE: z.enum(["memory", "redis"]).default("memory"),
+  CONTAINER_OPERATION_TTL_MS: z.string().regex(/^\d+$/).transform(Number).pipe(z.number().min(60000)).default("86400000"),
+  CONTAINER_OPERATION_POLL_MS: z.string().regex(/^\d+$/).transform(Number).pipe(z.number().min(1000).max(60000)).default("5000"),
+  CONTAINER_OPERATION_TIMEOUT_MS: z.string().regex(/^\d+$/).transform(Number).pipe(z.number().min(60000)).default("900000"),
+
+  // Hash-chained audit log of privileged actions (/api/v1/audit)
+  AUDIT_LOG_STORE: z.enum(["memory", "file", "redis"]).default("memory"),
+  AUDIT_LOG_FILE: z.string().default("./data/audit-log.jsonl")
+}).refine(
+  (env) =>
+    !isProduction ||
+    env.FW_ADMIN_API_KEYS !== undefined ||
+    env.API_KEYS_FILE !== undefined ||
+    env.API_KEY_STORE !== "memory",
+  {
+    message: "FW_ADMIN_API_KEYS, API_KEYS_FILE or a persistent API_KEY_STORE must be set in production",
+    path: ["FW_ADMIN_API_KEYS"]
+  }
+).refine(
+  (env) => env.TRACING_EXPORTER !== "otlp" || env.OTEL_EXPORTER_OTLP_ENDPOINT !== undefined,
+  {
+    message: "OTEL_EXPORTER_OTLP_ENDPOINT must be set when TRACING_EXPORTER is otlp",
+    path: ["OTEL_EXPORTER_OTLP_ENDPOINT"]
+  }
+).refine(
+  (env) => !isProduction || env.CONTAINER_PROVIDER !== "fake",
+  {
+    message: "CONTAINER_PROVIDER=fake is for tests and cannot be used in production",
+    path: ["CONTAINER_PROVIDER"]
+  }
+);
 
 // =============================================================================
 // CONFIGURATION PARSING & VALIDATION
@@ -104,40 +498,424 @@ function loadConfig() {
     // Apply safe defaults for development when validation fails
     FW_ANALYSIS_SERVICE_URL: process.env.FW_ANALYSIS_SERVICE_URL ?? "http://localhost:5050",
     BACKPRO_SERVICE_URL: process.env.BACKPRO_SERVICE_URL ?? "http://localhost:8000",
-    FW_ADMIN_API_KEYS: process.env.FW_ADMIN_API_KEYS ?? "dev"
+    FW_ADMIN_API_KEYS: process.env.FW_ADMIN_API_KEYS ?? "dev",
+    SERVICE_REGISTRY: undefined,
+    CONTAINER_APPS: undefined,
+    RATE_LIMIT_POLICIES: undefined
   });
 
+  const containerApps = loadContainerApps(env);
+  const services = checkIdleStop(loadServiceRegistry(env), containerApps);
+
   return {
     /** Server configuration */
     port: env.PORT,
     isProduction,
 
-    /** Upstream service URLs */
-    services: {
-      fwAnalysis: env.FW_ANALYSIS_SERVICE_URL,
-      backpro: env.BACKPRO_SERVICE_URL
+    /** Upstream service registry */
+    services,
+
+    /** Container Apps managed through /api/v1/container/:appId */
+    containerApps,
+
+    /** Backend the container apps run on (dockerHost is used by the docker provider) */
+    containerProvider: {
+      kind: env.CONTAINER_PROVIDER,
+      dockerHost: env.DOCKER_HOST
+    },
+
+    /** Scheduled container start/stop (intervalMs = how often due schedules are checked) */
+    containerSchedules: {
+      store: env.CONTAINER_SCHEDULE_STORE,
+      file: env.CONTAINER_SCHEDULE_STORE_FILE,
+      intervalMs: env.CONTAINER_SCHEDULER_INTERVAL_MS
+    },
+
+    /** Start/stop operation tracking (records kept for ttlMs, Azure polled every pollIntervalMs) */
+    containerOperations: {
+      store: env.CONTAINER_OPERATION_STORE,
+      ttlMs: env.CONTAINER_OPERATION_TTL_MS,
+      pollIntervalMs: env.CONTAINER_OPERATION_POLL_MS,
+      timeoutMs: env.CONTAINER_OPERATION_TIMEOUT_MS
+    },
+
+    /** Audit log of privileged actions (file is used by the file store) */
+    audit: {
+      store: env.AUDIT_LOG_STORE,
+      file: env.AUDIT_LOG_FILE
     },
 
-    /** API key authentication */
-    apiKeys: env.FW_ADMIN_API_KEYS,
+    /** API key authentication (named keys with scopes) */
+    apiKeys: loadApiKeys(env),
+
+    /** Signed gateway tokens (null when GATEWAY_TOKEN_SECRET is not set) */
+    gatewayTokens: env.GATEWAY_TOKEN_SECRET
+      ? {
+          secret: env.GATEWAY_TOKEN_SECRET,
+          issuer: env.GATEWAY_TOKEN_ISSUER,
+          audience: env.GATEWAY_TOKEN_AUDIENCE,
+          maxTtlSeconds: env.GATEWAY_TOKEN_MAX_TTL_SECONDS
+        }
+      : null,
+
+    /** Managed API keys (admin API, hashed at rest) */
+    keyManagement: {
+      store: env.API_KEY_STORE,
+      file: env.API_KEY_STORE_FILE,
+      rotationOverlapMs: env.API_KEY_ROTATION_OVERLAP_MS
+    },
 
     /** CORS configuration */
     cors: {
       origins: env.CORS_ALLOWED_ORIGINS
     },
 
+    /** Express "trust proxy" setting (which X-Forwarded-For hops are believed) */
+    trustProxy: env.TRUST_PROXY,
+
     /** Rate limiting configuration */
     rateLimit: {
       windowMs: env.RATE_LIMIT_WINDOW_MS,
-      maxRequests: env.RATE_LIMIT_MAX_REQUESTS
+      maxRequests: env.RATE_LIMIT_MAX_REQUESTS,
+      store: env.RATE_LIMIT_STORE,
+      policies: loadRateLimitPolicies(env),
+      auth: {
+        windowMs: env.AUTH_RATE_LIMIT_WINDOW_MS,
+        maxFailures: env.AUTH_RATE_LIMIT_MAX_FAILURES
+      }
     },
 
     /** Request body size limit */
     bodyLimit: env.BODY_SIZE_LIMIT,
 
+    /** Upstash Redis REST credentials (null when not configured) */
+    redis: env.UPSTASH_REDIS_REST_URL && env.UPSTASH_REDIS_REST_TOKEN
+      ? { url: env.UPSTASH_REDIS_REST_URL, token: env.UPSTASH_REDIS_REST_TOKEN }
+      : null,
+
+    /** Idempotency-Key replay for proxied POST requests */
+    idempotency: {
+      store: env.IDEMPOTENCY_STORE,
+      ttlMs: env.IDEMPOTENCY_TTL_MS,
+      maxBodyBytes: env.IDEMPOTENCY_MAX_BODY_BYTES
+    },
+
+    /** GET response cache (status endpoint policy is null when not enabled) */
+    responseCache: {
+      store: env.RESPONSE_CACHE_STORE,
+      maxEntries: env.RESPONSE_CACHE_MAX_ENTRIES,
+      maxBodyBytes: env.RESPONSE_CACHE_MAX_BODY_BYTES,
+      status: env.STATUS_CACHE_TTL_MS > 0
+        ? { ttlMs: env.STATUS_CACHE_TTL_MS, staleWhileRevalidateMs: env.STATUS_CACHE_STALE_MS }
+        : null
+    },
+
+    /** Background health prober (interval and history window, ms) */
+    healthProber: {
+      intervalMs: env.HEALTH_PROBE_INTERVAL_MS,
+      windowMs: env.HEALTH_HISTORY_WINDOW_MS
+    },
+
+    /** Metrics listener (port is null when /metrics is served by the main app) */
+    metrics: {
+      port: env.METRICS_PORT ?? null,
+      host: env.METRICS_HOST
+    },
+
+    /** Span export (exporter "none" keeps propagation only) */
+    tracing: {
+      exporter: env.TRACING_EXPORTER,
+      sampleRatio: env.TRACING_SAMPLE_RATIO,
+      serviceName: env.OTEL_SERVICE_NAME,
+      otlp: env.OTEL_EXPORTER_OTLP_ENDPOINT
+        ? { endpoint: env.OTEL_EXPORTER_OTLP_ENDPOINT, headers: parseHeaderList(env.OTEL_EXPORTER_OTLP_HEADERS) }
+        : null,
+      filePath: env.TRACING_FILE_PATH
+    },
+
     /** Graceful shutdown timeout (ms) */
     shutdownTimeoutMs: env.SHUTDOWN_TIMEOUT_MS
   };
 }
 
+/**
+ * Resolves the upstream service registry.
+ *
+ * Priority: SERVICE_REGISTRY_FILE > SERVICE_REGISTRY > built-in defaults
+ * derived from FW_ANALYSIS_SERVICE_URL and BACKPRO_SERVICE_URL.
+ */
+function loadServiceRegistry(env: z.infer<typeof envSchema>): ServiceDefinition[] {
+  if (env.SERVICE_REGISTRY_FILE) {
+    try {
+      return parseServiceRegistry(yaml.load(readFileSync(env.SERVICE_REGISTRY_FILE, "utf8")));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[FATAL] Invalid service registry file ${env.SERVICE_REGISTRY_FILE}:\n${message}`);
+
+      if (isProduction) {
+        process.exit(1);
+      }
+      console.warn("[WARN] Falling back to the default service registry in development mode");
+    }
+  } else if (env.SERVICE_REGISTRY) {
+    return env.SERVICE_REGISTRY;
+  }
+
+  return parseServiceRegistry([
+    {
+      id: "fwAnalysis",
+      name: "fw-analysis",
+      baseUrl: env.FW_ANALYSIS_SERVICE_URL,
+      ...(env.FW_ANALYSIS_CONTAINER_APP && {
+        idleStop: { containerAppId: env.FW_ANALYSIS_CONTAINER_APP, idleMs: env.FW_ANALYSIS_IDLE_STOP_MS }
+      })
+    },
+    { id: "backpro", name: "backpro", baseUrl: env.BACKPRO_SERVICE_URL }
+  ]);
+}
+
+/**
+ * Resolves the managed Container Apps.
+ *
+ * Priority: CONTAINER_APPS_FILE > CONTAINER_APPS > a single "document-processor"
+ * app from AZURE_CONTAINER_APP_NAME > none.
+ */
+function loadContainerApps(env: z.infer<typeof envSchema>): ContainerAppDefinition[] {
+  const defaults = { subscriptionId: env.AZURE_SUBSCRIPTION_ID, resourceGroup: env.AZURE_RESOURCE_GROUP };
+  let raw: unknown;
+
+  try {
+    if (env.CONTAINER_APPS_FILE) {
+      raw = yaml.load(readFileSync(env.CONTAINER_APPS_FILE, "utf8"));
+    } else if (env.CONTAINER_APPS !== undefined) {
+      raw = env.CONTAINER_APPS;
+    } else if (env.AZURE_CONTAINER_APP_NAME) {
+      raw = [{ id: "document-processor", name: "Document Processor", containerAppName: env.AZURE_CONTAINER_APP_NAME }];
+    } else {
+      return [];
+    }
+    return parseContainerApps(raw, defaults, env.CONTAINER_PROVIDER);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[FATAL] Invalid container app configuration:\n${message}`);
+
+    if (isProduction) {
+      process.exit(1);
+    }
+    console.warn("[WARN] Container control is disabled in development mode");
+    return [];
+  }
+}
+
+/**
+ * Drops idle auto-stop from services whose container app is missing or may
+ * not be started and stopped (fatal in production).
+ */
+function checkIdleStop(services: ServiceDefinition[], apps: ContainerAppDefinition[]): ServiceDefinition[] {
+  const issues = findIdleStopIssues(services, apps);
+  if (issues.length === 0) {
+    return services;
+  }
+
+  console.error(`[FATAL] Invalid idle auto-stop configuration:\n${issues.join("\n")}`);
+  if (isProduction) {
+    process.exit(1);
+  }
+  console.warn("[WARN] Idle auto-stop is disabled in development mode");
+  return services.map((service) => ({ ...service, idleStop: undefined }));
+}
+
+/**
+ * Resolves the per-route rate limit policies.
+ *
+ * Priority: RATE_LIMIT_POLICIES_FILE > RATE_LIMIT_POLICIES > none
+ * (only the global limiter applies).
+ */
+function loadRateLimitPolicies(env: z.infer<typeof envSchema>): RateLimitPolicy[] {
+  if (env.RATE_LIMIT_POLICIES_FILE) {
+    try {
+      return parseRateLimitPolicies(yaml.load(readFileSync(env.RATE_LIMIT_POLICIES_FILE, "utf8")));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[FATAL] Invalid rate limit policy file ${env.RATE_LIMIT_POLICIES_FILE}:\n${message}`);
+
+      if (isProduction) {
+        process.exit(1);
+      }
+      console.warn("[WARN] Ignoring RATE_LIMIT_POLICIES_FILE in development mode");
+      return [];
+    }
+  }
+
+  return env.RATE_LIMIT_POLICIES ?? [];
+}
+
+/**
+ * Resolves the gateway API keys: named keys from API_KEYS_FILE plus the
+ * legacy FW_ADMIN_API_KEYS list (unrestricted, named env-key-1, env-key-2, ...),
+ * hashed so the exported config never holds a plaintext key.
+ */
+function loadApiKeys(env: z.infer<typeof envSchema>): StaticApiKey[] {
+  return hashStaticKeys(readApiKeys(env));
+}
+
+function readApiKeys(env: z.infer<typeof envSchema>): ApiKeyDefinition[] {
+  const legacyKeys: ApiKeyDefinition[] = (env.FW_ADMIN_API_KEYS ?? []).map((key, index) => ({
+    name: `env-key-${index + 1}`,
+    key,
+    scopes: ["*"],
+    expiresAt: null,
+    allowedCidrs: []
+  }));
+
+  if (!env.API_KEYS_FILE) {
+    return legacyKeys;
+  }
+
+  try {
+    return [...parseApiKeyFile(yaml.load(readFileSync(env.API_KEYS_FILE, "utf8"))), ...legacyKeys];
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[FATAL] Invalid API key file ${env.API_KEYS_FILE}:\n${message}`);
+
+    if (isProduction) {
+      process.exit(1);
+    }
+    console.warn("[WARN] Ignoring API_KEYS_FILE in development mode");
+    return legacyKeys;
+  }
+}
+
+/**
+ * Parses an OTEL_EXPORTER_OTLP_HEADERS style list (`key=value,key2=value2`,
+ * values URL-encoded).
+ */
+export function parseHeaderList(raw: string | undefined): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const pair of (raw ?? "").split(",")) {
+    const separator = pair.indexOf("=");
+    if (separator > 0) {
+      headers[pair.slice(0, separator).trim()] = decodeURIComponent(pair.slice(separator + 1).trim());
+    }
+  }
+  return headers;
+}
+
+/**
+ * Validates a raw API key file document (parsed JSON/YAML).
+ *
+ * @throws Error listing every validation issue
+ */
+export function parseApiKeyFile(raw: unknown): ApiKeyDefinition[] {
+  const result = apiKeyFileSchema.safeParse(raw);
+
+  if (!result.success) {
+    throw new Error(
+      result.error.issues.map((issue) => `  - ${issue.path.join(".") || "keys"}: ${issue.message}`).join("\n")
+    );
+  }
+  return result.data.keys;
+}
+
+/**
+ * Validates a raw rate limit policy document (parsed JSON/YAML).
+ * Accepts either a bare array or an object with a `policies` array.
+ *
+ * @throws Error listing every validation issue
+ */
+export function parseRateLimitPolicies(raw: unknown): RateLimitPolicy[] {
+  const candidate = raw && typeof raw === "object" && !Array.isArray(raw) && "policies" in raw
+    ? (raw as { policies: unknown }).policies
+    : raw;
+  const result = rateLimitPolicyListSchema.safeParse(candidate);
+
+  if (!result.success) {
+    throw new Error(
+      result.error.issues.map((issue) => `  - ${issue.path.join(".") || "policies"}: ${issue.message}`).join("\n")
+    );
+  }
+  return result.data;
+}
+
+/**
+ * Validates a raw container app document (parsed JSON/YAML), filling in the
+ * default subscription and resource group (required by the azure provider only).
+ * Accepts either a bare array or an object with an `apps` array.
+ *
+ * @throws Error listing every validation issue
+ */
+export function parseContainerApps(
+  raw: unknown,
+  defaults: { subscriptionId?: string; resourceGroup?: string } = {},
+  provider: ContainerProviderKind = "azure"
+): ContainerAppDefinition[] {
+  const candidate = raw && typeof raw === "object" && !Array.isArray(raw) && "apps" in raw
+    ? (raw as { apps: unknown }).apps
+    : raw;
+  const result = containerAppListSchema.safeParse(candidate);
+
+  if (!result.success) {
+    throw new Error(
+      result.error.issues.map((issue) => `  - ${issue.path.join(".") || "apps"}: ${issue.message}`).join("\n")
+    );
+  }
+
+  const issues: string[] = [];
+  const apps = result.data.map((app, index) => {
+    const subscriptionId = app.subscriptionId ?? defaults.subscriptionId;
+    const resourceGroup = app.resourceGroup ?? defaults.resourceGroup;
+    if (provider === "azure" && (!subscriptionId || !resourceGroup)) {
+      issues.push(`  - ${index}: ${app.id} needs subscriptionId and resourceGroup (or AZURE_SUBSCRIPTION_ID / AZURE_RESOURCE_GROUP)`);
+    }
+    return { ...app, subscriptionId: subscriptionId ?? "", resourceGroup: resourceGroup ?? "" };
+  });
+
+  if (issues.length > 0) {
+    throw new Error(issues.join("\n"));
+  }
+  return apps;
+}
+
+/**
+ * Checks each service's idleStop against the container app registry: the app
+ * must exist and allow both start and stop.
+ *
+ * @returns One message per problem (empty when valid)
+ */
+export function findIdleStopIssues(services: ServiceDefinition[], apps: ContainerAppDefinition[]): string[] {
+  const issues: string[] = [];
+  for (const service of services) {
+    if (!service.idleStop) {
+      continue;
+    }
+    const app = apps.find((candidate) => candidate.id === service.idleStop?.containerAppId);
+    if (!app) {
+      issues.push(`  - ${service.id}: container app "${service.idleStop.containerAppId}" is not configured`);
+    } else if (!app.actions.includes("start") || !app.actions.includes("stop")) {
+      issues.push(`  - ${service.id}: container app "${app.id}" must allow the start and stop actions`);
+    }
+  }
+  return issues;
+}
+
+/**
+ * Validates a raw registry document (parsed JSON/YAML).
+ * Accepts either a bare array or an object with a `services` array.
+ *
+ * @throws Error listing every validation issue
+ */
+export function parseServiceRegistry(raw: unknown): ServiceDefinition[] {
+  const candidate = raw && typeof raw === "object" && !Array.isArray(raw) && "services" in raw
+    ? (raw as { services: unknown }).services
+    : raw;
+  const result = serviceRegistrySchema.safeParse(candidate);
+
+  if (!result.success) {
+    throw new Error(
+      result.error.issues.map((issue) => `  - ${issue.path.join(".") || "services"}: ${issue.message}`).join("\n")
+    );
+  }
+  return result.data;
+}
+
 export const config = loadConfig();
@@ -1,15 +1,29 @@
 import type { Server } from "http";
-import { createApp, config } from "./app";
+import { createApp, createMetricsApp, config } from "./app";
 import { logger } from "./lib/logger";
+import { healthProber } from "./lib/healthProber";
+import { containerScheduler } from "./lib/containerScheduler";
+import { idleStopControllers } from "./lib/idleStop";
+import { containerOperations } from "./lib/containerOperations";
+import { tracer } from "./lib/tracing";
+import { createSpanExporter } from "./lib/traceExporters";
 
 // Create the Express application
 const app = createApp();
 
+// Export spans when an exporter is configured (trace context is propagated either way)
+const spanExporter = createSpanExporter(config.tracing);
+if (spanExporter) {
+  tracer.start(spanExporter, config.tracing.sampleRatio);
+  logger.info({ msg: "Tracing enabled", exporter: config.tracing.exporter, sampleRatio: config.tracing.sampleRatio });
+}
+
 // =============================================================================
 // SERVER STARTUP & GRACEFUL SHUTDOWN
 // =============================================================================
 
 let server: Server;
+let metricsServer: Server | null = null;
 
 function startServer(): void {
   server = app.listen(config.port, () => {
@@ -18,6 +32,9 @@ function startServer(): void {
       port: config.port,
       environment: config.isProduction ? "production" : "development"
     });
+    healthProber.start();
+    containerScheduler.start();
+    idleStopControllers.forEach((controller) => controller.start());
   });
 
   // Handle server errors
@@ -28,16 +45,51 @@ function startServer(): void {
     }
     throw error;
   });
+
+  if (config.metrics.port !== null) {
+    startMetricsServer(config.metrics.port, config.metrics.host);
+  }
+}
+
+/**
+ * Serves /metrics on its own port so it can stay off the public listener.
+ */
+function startMetricsServer(port: number, host: string): void {
+  metricsServer = createMetricsApp().listen(port, host, () => {
+    logger.info({ msg: "Metrics server started", port, host });
+  });
+
+  metricsServer.on("error", (error: NodeJS.ErrnoException) => {
+    if (error.code === "EADDRINUSE") {
+      logger.fatal({ msg: "Metrics port already in use", port });
+      process.exit(1);
+    }
+    throw error;
+  });
 }
 
 function gracefulShutdown(signal: string): void {
   logger.info({ msg: "Graceful shutdown initiated", signal });
+  healthProber.stop();
+  containerScheduler.stop();
+  idleStopControllers.forEach((controller) => controller.stop());
+  containerOperations.stop();
+  metricsServer?.close();
 
-  // Stop accepting new connections
+  // Stop accepting new connections, then flush buffered spans
   server.close(() => {
     logger.info({ msg: "HTTP server closed" });
-    process.exit(0);
+    void tracer.stop().finally(() => process.exit(0));
   });
+  server.closeIdleConnections();
+
+  // Log and operation-event streams never finish on their own; give ordinary
+  // requests half the timeout, then drop whatever is still open so close() can
+  // complete (EventSource clients reconnect to another instance)
+  setTimeout(() => {
+    logger.info({ msg: "Closing remaining connections" });
+    server.closeAllConnections();
+  }, config.shutdownTimeoutMs / 2).unref();
 
   // Force shutdown if graceful shutdown takes too long
   setTimeout(() => {
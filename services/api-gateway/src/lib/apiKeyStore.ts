@@ -0,0 +1,173 @@
+import { mkdir, readFile, rename, stat, writeFile } from "fs/promises";
+import path from "path";
+import type { Redis } from "@upstash/redis";
+import { config } from "../config";
+import { requireRedis } from "./redis";
+
+/**
+ * API key minted through the admin API, as persisted.
+ * Only a salted hash of the secret is stored; the key itself is shown once.
+ */
+export interface StoredApiKey {
+  /** Public key id, also embedded in the key (`fwk_<id>_<secret>`) */
+  id: string;
+  name: string;
+  scopes: string[];
+  /** ISO timestamp, null for keys that never expire */
+  expiresAt: string | null;
+  allowedCidrs: string[];
+  /** Hex-encoded random salt */
+  salt: string;
+  /** Hex-encoded SHA-256 of salt + secret */
+  hash: string;
+  createdAt: string;
+  revokedAt: string | null;
+  /** Id of the key this one replaced through rotation */
+  rotatedFrom: string | null;
+  /** Id of the key that replaced this one through rotation */
+  replacedBy: string | null;
+}
+
+/**
+ * Pluggable persistence for managed API keys.
+ */
+export interface ApiKeyStore {
+  /** Looks a key up by id (O(1) - called on every authenticated request) */
+  get(id: string): Promise<StoredApiKey | null>;
+  list(): Promise<StoredApiKey[]>;
+  /** Inserts or replaces a key */
+  save(record: StoredApiKey): Promise<void>;
+}
+
+// =============================================================================
+// IN-MEMORY STORE (development and tests - keys are lost on restart)
+// =============================================================================
+
+export class MemoryApiKeyStore implements ApiKeyStore {
+  private records = new Map<string, StoredApiKey>();
+
+  async get(id: string): Promise<StoredApiKey | null> {
+    return this.records.get(id) ?? null;
+  }
+
+  async list(): Promise<StoredApiKey[]> {
+    return [...this.records.values()];
+  }
+
+  async save(record: StoredApiKey): Promise<void> {
+    this.records.set(record.id, record);
+  }
+}
+
+// =============================================================================
+// FILE STORE (single replica with a persistent volume)
+// =============================================================================
+
+/**
+ * Keeps keys in a JSON file. Reads are cached until the file's modification
+ * time or size changes, so keys written by another process (another store
+ * instance, scripts/bootstrap-api-key.mjs) are seen without a restart. Writes
+ * are serialised, start from the file rather than the cache and replace it
+ * atomically.
+ */
+export class FileApiKeyStore implements ApiKeyStore {
+  private cache: { version: string; records: Map<string, StoredApiKey> } | null = null;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async get(id: string): Promise<StoredApiKey | null> {
+    return (await this.load()).get(id) ?? null;
+  }
+
+  async list(): Promise<StoredApiKey[]> {
+    return [...(await this.load()).values()];
+  }
+
+  async save(record: StoredApiKey): Promise<void> {
+    const write = this.writes.then(async () => {
+      const records = new Map(await this.load({ fresh: true }));
+      records.set(record.id, record);
+      await this.flush(records);
+    });
+    this.writes = write.catch(() => undefined);
+    await write;
+  }
+
+  /** Identifies the file's contents without reading it; null when it does not exist */
+  private async version(): Promise<string | null> {
+    try {
+      const { mtimeMs, size } = await stat(this.filePath);
+      return `${mtimeMs}:${size}`;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async load(options: { fresh?: boolean } = {}): Promise<Map<string, StoredApiKey>> {
+    const version = await this.version();
+    if (version === null) {
+      return new Map();
+    }
+    if (!options.fresh && this.cache?.version === version) {
+      return this.cache.records;
+    }
+
+    const { keys } = JSON.parse(await readFile(this.filePath, "utf8")) as { keys: StoredApiKey[] };
+    this.cache = { version, records: new Map(keys.map((key) => [key.id, key])) };
+    return this.cache.records;
+  }
+
+  private async flush(records: Map<string, StoredApiKey>): Promise<void> {
+    const tempPath = `${this.filePath}.tmp`;
+    await mkdir(path.dirname(this.filePath), { recursive: true });
+    await writeFile(tempPath, JSON.stringify({ keys: [...records.values()] }, null, 2), { mode: 0o600 });
+    await rename(tempPath, this.filePath);
+    this.cache = { version: (await this.version()) ?? "", records };
+  }
+}
+
+// =============================================================================
+// REDIS STORE (shared across gateway replicas)
+// =============================================================================
+
+const REDIS_KEY = "gateway:api-keys";
+
+export class RedisApiKeyStore implements ApiKeyStore {
+  constructor(private readonly redis: Redis) {}
+
+  async get(id: string): Promise<StoredApiKey | null> {
+    return this.redis.hget<StoredApiKey>(REDIS_KEY, id);
+  }
+
+  async list(): Promise<StoredApiKey[]> {
+    const records = await this.redis.hgetall<Record<string, StoredApiKey>>(REDIS_KEY);
+    return Object.values(records ?? {});
+  }
+
+  async save(record: StoredApiKey): Promise<void> {
+    await this.redis.hset(REDIS_KEY, { [record.id]: record });
+  }
+}
+
+/**
+ * Creates the store selected by API_KEY_STORE.
+ */
+export function createApiKeyStore(kind: "memory" | "file" | "redis", filePath: string): ApiKeyStore {
+  switch (kind) {
+    case "redis":
+      return new RedisApiKeyStore(requireRedis("API_KEY_STORE"));
+    case "file":
+      return new FileApiKeyStore(path.resolve(filePath));
+    default:
+      return new MemoryApiKeyStore();
+  }
+}
+
+/**
+ * The gateway's key store (shared by the API key guard and the admin API).
+ */
+export const apiKeyStore = createApiKeyStore(config.keyManagement.store, config.keyManagement.file);
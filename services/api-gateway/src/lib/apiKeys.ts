@@ -0,0 +1,170 @@
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import type { ApiKeyDefinition, ApiKeyGrant, StaticApiKey } from "../config";
+import type { ApiKeyStore, StoredApiKey } from "./apiKeyStore";
+
+/**
+ * Managed key format: `fwk_<id>_<secret>`.
+ * The id selects the stored record, the secret is verified against its hash.
+ */
+const KEY_PATTERN = /^fwk_([0-9a-f]{12})_([A-Za-z0-9_-]{43})$/;
+
+/**
+ * Key metadata returned by the admin API (never includes the hash).
+ */
+export interface ApiKeyMetadata {
+  id: string;
+  name: string;
+  scopes: string[];
+  expiresAt: string | null;
+  allowedCidrs: string[];
+  createdAt: string;
+  revokedAt: string | null;
+  rotatedFrom: string | null;
+  replacedBy: string | null;
+  status: "active" | "expired" | "revoked";
+}
+
+/**
+ * A freshly minted key. `key` is the only time the secret is available.
+ */
+export interface MintedApiKey {
+  key: string;
+  record: StoredApiKey;
+}
+
+// =============================================================================
+// HASHING
+// =============================================================================
+
+/**
+ * Salted SHA-256 of a key secret.
+ * Secrets are 256 random bits, so a slow password hash would only add
+ * latency to every request without making brute force any less hopeless.
+ */
+export function hashSecret(secret: string, salt: string): string {
+  return createHash("sha256").update(salt).update(secret).digest("hex");
+}
+
+/**
+ * Timing-safe check of a secret against a stored salt and hash.
+ */
+export function verifySecret(secret: string, salt: string, hash: string): boolean {
+  return timingSafeEqual(Buffer.from(hashSecret(secret, salt), "hex"), Buffer.from(hash, "hex"));
+}
+
+export function generateSalt(): string {
+  return randomBytes(16).toString("hex");
+}
+
+/**
+ * Replaces the secrets of configured keys with salted hashes.
+ */
+export function hashStaticKeys(definitions: ApiKeyDefinition[]): StaticApiKey[] {
+  return definitions.map(({ key, ...grant }) => {
+    const salt = generateSalt();
+    return { ...grant, salt, hash: hashSecret(key, salt) };
+  });
+}
+
+/**
+ * Splits a managed key into id and secret.
+ * Returns null for anything else (e.g. static keys from FW_ADMIN_API_KEYS).
+ */
+export function parseManagedKey(key: string): { id: string; secret: string } | null {
+  const match = KEY_PATTERN.exec(key);
+  return match ? { id: match[1], secret: match[2] } : null;
+}
+
+// =============================================================================
+// LIFECYCLE
+// =============================================================================
+
+/**
+ * Mints a new key and stores its hash.
+ */
+export async function mintApiKey(
+  store: ApiKeyStore,
+  grant: ApiKeyGrant,
+  lineage: { rotatedFrom?: string } = {}
+): Promise<MintedApiKey> {
+  const id = randomBytes(6).toString("hex");
+  const secret = randomBytes(32).toString("base64url");
+  const salt = generateSalt();
+
+  const record: StoredApiKey = {
+    id,
+    name: grant.name,
+    scopes: grant.scopes,
+    expiresAt: grant.expiresAt ? grant.expiresAt.toISOString() : null,
+    allowedCidrs: grant.allowedCidrs,
+    salt,
+    hash: hashSecret(secret, salt),
+    createdAt: new Date().toISOString(),
+    revokedAt: null,
+    rotatedFrom: lineage.rotatedFrom ?? null,
+    replacedBy: null
+  };
+
+  await store.save(record);
+  return { key: `fwk_${id}_${secret}`, record };
+}
+
+/**
+ * Replaces a key with a new one carrying the same grant.
+ * The old key keeps working for `overlapMs` so clients can switch over
+ * (or until its own expiry, whichever comes first).
+ */
+export async function rotateApiKey(
+  store: ApiKeyStore,
+  current: StoredApiKey,
+  overlapMs: number
+): Promise<{ minted: MintedApiKey; previous: StoredApiKey }> {
+  const minted = await mintApiKey(
+    store,
+    {
+      name: current.name,
+      scopes: current.scopes,
+      expiresAt: current.expiresAt ? new Date(current.expiresAt) : null,
+      allowedCidrs: current.allowedCidrs
+    },
+    { rotatedFrom: current.id }
+  );
+
+  const overlapEnd = Date.now() + overlapMs;
+  const expiresAt = current.expiresAt && Date.parse(current.expiresAt) < overlapEnd
+    ? current.expiresAt
+    : new Date(overlapEnd).toISOString();
+
+  const previous: StoredApiKey = { ...current, expiresAt, replacedBy: minted.record.id };
+  await store.save(previous);
+
+  return { minted, previous };
+}
+
+/**
+ * Revokes a key immediately. Revoking twice keeps the first timestamp.
+ */
+export async function revokeApiKey(store: ApiKeyStore, current: StoredApiKey): Promise<StoredApiKey> {
+  if (current.revokedAt) {
+    return current;
+  }
+
+  const revoked: StoredApiKey = { ...current, revokedAt: new Date().toISOString() };
+  await store.save(revoked);
+  return revoked;
+}
+
+/**
+ * Strips the salt and hash and derives the key status.
+ */
+export function toApiKeyMetadata(record: StoredApiKey, now: number = Date.now()): ApiKeyMetadata {
+  const { salt: _salt, hash: _hash, ...metadata } = record;
+
+  const status = record.revokedAt
+    ? "revoked"
+    : record.expiresAt && Date.parse(record.expiresAt) <= now
+      ? "expired"
+      : "active";
+
+  return { ...metadata, status };
+}
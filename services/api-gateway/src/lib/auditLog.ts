@@ -0,0 +1,506 @@
+import { createHash, randomBytes } from "crypto";
+import { createReadStream } from "fs";
+import { appendFile, mkdir, open, stat } from "fs/promises";
+import path from "path";
+import type { Request } from "express";
+import type { Redis } from "@upstash/redis";
+import { config } from "../config";
+import { createChildLogger } from "./logger";
+import { requireRedis } from "./redis";
+
+const log = createChildLogger({ service: "audit-log" });
+
+/** prevHash of the first entry */
+export const GENESIS_HASH = "0".repeat(64);
+
+/**
+ * One privileged action, as recorded. Each entry's hash covers its content and
+ * the previous entry's hash, so editing, removing or reordering entries breaks
+ * the chain from that point on (see AuditLog.verify).
+ */
+export interface AuditEntry {
+  /** Position in the chain, from 1 */
+  seq: number;
+  /** Random 16-character hex id */
+  id: string;
+  timestamp: string;
+  /** User email (gateway tokens) or API key name */
+  actor: string;
+  /** Dashboard role, or "api-key" */
+  actorRole: string;
+  /** Dotted action name, e.g. "container.start", "user.update" */
+  action: string;
+  /** What the action applied to, e.g. "container:processor", "user:ops@example.com" */
+  target: string;
+  /** State before and after the action (null when there is none or it is unknown) */
+  before: unknown;
+  after: unknown;
+  requestId: string | null;
+  ip: string | null;
+  prevHash: string;
+  hash: string;
+}
+
+/** What callers record; the log assigns the rest */
+export type AuditEvent = Pick<AuditEntry, "actor" | "actorRole" | "action" | "target" | "before" | "after" | "requestId" | "ip">;
+
+export interface AuditQuery {
+  /** Exact actor, case-insensitive */
+  actor?: string;
+  /** Exact action, or a prefix ending at a dot ("container" matches "container.start") */
+  action?: string;
+  /** ISO timestamps, inclusive */
+  from?: string;
+  to?: string;
+  /** Only entries with a lower seq (paging backwards) */
+  beforeSeq?: number;
+  limit: number;
+}
+
+export interface AuditVerification {
+  valid: boolean;
+  entries: number;
+  /** seq of the first entry whose hash or link does not match */
+  brokenAt: number | null;
+}
+
+/**
+ * Append-only persistence for the audit chain.
+ */
+export interface AuditStore {
+  /** seq and hash of the last entry, null while the log is empty */
+  head(): Promise<{ seq: number; hash: string } | null>;
+  /**
+   * Appends the entry unless another writer appended first (its prevHash is
+   * no longer the head); returns whether it was written.
+   */
+  append(entry: AuditEntry): Promise<boolean>;
+  /** Up to `count` entries from seq `fromSeq` on, oldest first */
+  range(fromSeq: number, count: number): Promise<AuditEntry[]>;
+  /** Up to `count` entries before seq `beforeSeq`, newest first */
+  rangeBefore(beforeSeq: number, count: number): Promise<AuditEntry[]>;
+}
+
+// =============================================================================
+// HASHING
+// =============================================================================
+
+/** JSON with object keys sorted, so a hash survives a storage round trip */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+export function hashAuditEntry(entry: Omit<AuditEntry, "hash">): string {
+  return createHash("sha256").update(canonicalJson(entry)).digest("hex");
+}
+
+function hashMatches(entry: AuditEntry): boolean {
+  const { hash, ...content } = entry;
+  return hashAuditEntry(content) === hash;
+}
+
+// =============================================================================
+// IN-MEMORY STORE (default - entries are lost on restart)
+// =============================================================================
+
+export class MemoryAuditStore implements AuditStore {
+  private entries: AuditEntry[] = [];
+
+  async head(): Promise<{ seq: number; hash: string } | null> {
+    const last = this.entries[this.entries.length - 1];
+    return last ? { seq: last.seq, hash: last.hash } : null;
+  }
+
+  async append(entry: AuditEntry): Promise<boolean> {
+    if (entry.prevHash !== ((await this.head())?.hash ?? GENESIS_HASH)) {
+      return false;
+    }
+    this.entries.push(entry);
+    return true;
+  }
+
+  async range(fromSeq: number, count: number): Promise<AuditEntry[]> {
+    return this.entries.filter((entry) => entry.seq >= fromSeq).slice(0, count);
+  }
+
+  async rangeBefore(beforeSeq: number, count: number): Promise<AuditEntry[]> {
+    return this.entries.filter((entry) => entry.seq < beforeSeq).slice(-count).reverse();
+  }
+}
+
+// =============================================================================
+// FILE STORE (single replica with a persistent volume)
+// =============================================================================
+
+/** Line positions of a file: line n starts at offsets[n - 1] */
+interface LineIndex {
+  offsets: number[];
+  /** File size the offsets were taken at */
+  size: number;
+}
+
+async function fileSize(filePath: string): Promise<number> {
+  try {
+    return (await stat(filePath)).size;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return 0;
+    }
+    throw error;
+  }
+}
+
+/**
+ * One JSON entry per line, only ever appended to, so entry n is line n. The
+ * file is scanned once for the offset of each line; ranges are then read
+ * directly. The index is extended by appends and rebuilt if the file changes
+ * size otherwise, so only one gateway process may write the file.
+ */
+export class FileAuditStore implements AuditStore {
+  private index: LineIndex | undefined;
+
+  constructor(private readonly filePath: string) {}
+
+  async head(): Promise<{ seq: number; hash: string } | null> {
+    const { offsets } = await this.lineIndex();
+    const [last] = await this.readLines(offsets.length - 1, offsets.length);
+    return last ? { seq: last.seq, hash: last.hash } : null;
+  }
+
+  async append(entry: AuditEntry): Promise<boolean> {
+    if (entry.prevHash !== ((await this.head())?.hash ?? GENESIS_HASH)) {
+      return false;
+    }
+    const line = `${JSON.stringify(entry)}\n`;
+    const index = await this.lineIndex();
+    await mkdir(path.dirname(this.filePath), { recursive: true });
+    await appendFile(this.filePath, line, { mode: 0o600 });
+    index.offsets.push(index.size);
+    index.size += Buffer.byteLength(line);
+    return true;
+  }
+
+  async range(fromSeq: number, count: number): Promise<AuditEntry[]> {
+    return this.readLines(fromSeq - 1, fromSeq - 1 + count);
+  }
+
+  async rangeBefore(beforeSeq: number, count: number): Promise<AuditEntry[]> {
+    const end = Math.min(beforeSeq - 1, (await this.lineIndex()).offsets.length);
+    return (await this.readLines(end - count, end)).reverse();
+  }
+
+  /** Entries on lines start + 1 to end (zero-based, end exclusive) */
+  private async readLines(start: number, end: number): Promise<AuditEntry[]> {
+    const { offsets, size } = await this.lineIndex();
+    const first = Math.max(start, 0);
+    const last = Math.min(end, offsets.length);
+    if (first >= last) {
+      return [];
+    }
+
+    const from = offsets[first];
+    const buffer = Buffer.alloc((last < offsets.length ? offsets[last] : size) - from);
+    const file = await open(this.filePath, "r");
+    try {
+      await file.read(buffer, 0, buffer.length, from);
+    } finally {
+      await file.close();
+    }
+    return buffer
+      .toString("utf8")
+      .split("\n")
+      .filter((line) => line.trim() !== "")
+      .map((line) => JSON.parse(line) as AuditEntry);
+  }
+
+  private async lineIndex(): Promise<LineIndex> {
+    const size = await fileSize(this.filePath);
+    if (this.index?.size !== size) {
+      this.index = await this.scan(size);
+    }
+    return this.index;
+  }
+
+  /** Offsets of the non-empty lines in the first `size` bytes */
+  private async scan(size: number): Promise<LineIndex> {
+    const offsets: number[] = [];
+    let position = 0;
+    let lineStart = 0;
+    if (size > 0) {
+      for await (const chunk of createReadStream(this.filePath, { end: size - 1 }) as AsyncIterable<Buffer>) {
+        for (let newline = chunk.indexOf(0x0a); newline !== -1; newline = chunk.indexOf(0x0a, newline + 1)) {
+          if (position + newline > lineStart) {
+            offsets.push(lineStart);
+          }
+          lineStart = position + newline + 1;
+        }
+        position += chunk.length;
+      }
+      if (size > lineStart) {
+        offsets.push(lineStart);
+      }
+    }
+    return { offsets, size };
+  }
+}
+
+// =============================================================================
+// REDIS STORE (shared across gateway replicas)
+// =============================================================================
+
+const REDIS_STREAM = "gateway:audit-log";
+const REDIS_HEAD = "gateway:audit-log:head";
+
+/** Appends only while the head is the one the entry was chained to */
+const APPEND_SCRIPT = `
+if (redis.call("GET", KEYS[2]) or "") ~= ARGV[1] then
+  return 0
+end
+redis.call("XADD", KEYS[1], ARGV[4], "entry", ARGV[3])
+redis.call("SET", KEYS[2], ARGV[2])
+return 1
+`;
+
+/** Stream id of an entry: its seq, so ranges of seqs are ranges of ids */
+function streamId(seq: number): string {
+  return `${seq}-0`;
+}
+
+function parseRecords(records: Record<string, Record<string, unknown>>): AuditEntry[] {
+  // The client may already have parsed the JSON field
+  return Object.values(records).map(({ entry }) =>
+    (typeof entry === "string" ? JSON.parse(entry) : entry) as AuditEntry
+  );
+}
+
+/**
+ * Entries in a Redis stream under ids derived from their seq; the head
+ * ("<seq>:<hash>") is kept next to it and compared-and-set by the same
+ * script that appends.
+ */
+export class RedisAuditStore implements AuditStore {
+  constructor(private readonly redis: Redis) {}
+
+  async head(): Promise<{ seq: number; hash: string } | null> {
+    const head = await this.redis.get<string>(REDIS_HEAD);
+    if (!head) {
+      return null;
+    }
+    const [seq, hash] = String(head).split(":");
+    return { seq: Number(seq), hash };
+  }
+
+  async append(entry: AuditEntry): Promise<boolean> {
+    const expected = entry.seq === 1 ? "" : `${entry.seq - 1}:${entry.prevHash}`;
+    const written = await this.redis.eval<string[], number>(APPEND_SCRIPT, [REDIS_STREAM, REDIS_HEAD], [
+      expected,
+      `${entry.seq}:${entry.hash}`,
+      JSON.stringify(entry),
+      streamId(entry.seq)
+    ]);
+    return written === 1;
+  }
+
+  async range(fromSeq: number, count: number): Promise<AuditEntry[]> {
+    return parseRecords(await this.redis.xrange(REDIS_STREAM, streamId(Math.max(fromSeq, 1)), "+", count));
+  }
+
+  async rangeBefore(beforeSeq: number, count: number): Promise<AuditEntry[]> {
+    if (beforeSeq <= 1) {
+      return [];
+    }
+    return parseRecords(await this.redis.xrevrange(REDIS_STREAM, streamId(beforeSeq - 1), "-", count));
+  }
+}
+
+// =============================================================================
+// AUDIT LOG
+// =============================================================================
+
+/** Appends retried when another replica wins the race for the head */
+const MAX_APPEND_ATTEMPTS = 5;
+
+/** Entries read from the store at a time by queries and verification */
+const PAGE_SIZE = 500;
+
+/**
+ * Records privileged actions in a hash chain and answers queries over it.
+ */
+export class AuditLog {
+  /** Appends from this process, one at a time */
+  private appending: Promise<unknown> = Promise.resolve();
+  /** Last entry a verification found intact; the next one continues from it */
+  private checkpoint: { seq: number; hash: string } | null = null;
+
+  constructor(
+    private readonly store: AuditStore,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Appends an entry chained to the current head.
+   */
+  record(event: AuditEvent): Promise<AuditEntry> {
+    const append = this.appending.then(() => this.append(event));
+    this.appending = append.catch(() => undefined);
+    return append;
+  }
+
+  /**
+   * Matching entries, newest first. Reads the store a page at a time, back
+   * from `beforeSeq`, until `limit` entries match.
+   */
+  async query(query: AuditQuery): Promise<AuditEntry[]> {
+    const actor = query.actor?.toLowerCase();
+    const matches: AuditEntry[] = [];
+    let beforeSeq = query.beforeSeq ?? ((await this.store.head())?.seq ?? 0) + 1;
+
+    while (matches.length < query.limit && beforeSeq > 1) {
+      const page = await this.store.rangeBefore(beforeSeq, PAGE_SIZE);
+      for (const entry of page) {
+        if (matches.length === query.limit) {
+          break;
+        }
+        if (
+          (actor === undefined || entry.actor.toLowerCase() === actor) &&
+          (query.action === undefined || entry.action === query.action || entry.action.startsWith(`${query.action}.`)) &&
+          (query.from === undefined || entry.timestamp >= query.from) &&
+          (query.to === undefined || entry.timestamp <= query.to)
+        ) {
+          matches.push(entry);
+        }
+      }
+      // A short page is the start of the log; a seq that does not decrease, a broken chain
+      const oldest = page[page.length - 1]?.seq;
+      if (page.length < PAGE_SIZE || oldest === undefined || oldest >= beforeSeq) {
+        break;
+      }
+      beforeSeq = oldest;
+    }
+    return matches;
+  }
+
+  /**
+   * Recomputes each hash and link, a page at a time. Continues from the last
+   * entry an earlier verification found intact (after checking that entry is
+   * unchanged), or from the first entry when `full` is set or there is no
+   * earlier verification in this process.
+   */
+  async verify({ full = false }: { full?: boolean } = {}): Promise<AuditVerification> {
+    const start = full ? null : this.checkpoint;
+    let seq = start?.seq ?? 0;
+    let prevHash = start?.hash ?? GENESIS_HASH;
+    const broken = async (brokenAt: number): Promise<AuditVerification> => ({
+      valid: false,
+      entries: (await this.store.head())?.seq ?? 0,
+      brokenAt
+    });
+
+    if (start) {
+      const [entry] = await this.store.range(start.seq, 1);
+      if (entry?.seq !== start.seq || entry.hash !== start.hash || !hashMatches(entry)) {
+        return broken(start.seq);
+      }
+    }
+
+    for (;;) {
+      const page = await this.store.range(seq + 1, PAGE_SIZE);
+      for (const entry of page) {
+        if (entry.seq !== seq + 1 || entry.prevHash !== prevHash || !hashMatches(entry)) {
+          return broken(entry.seq);
+        }
+        seq = entry.seq;
+        prevHash = entry.hash;
+      }
+      if (page.length < PAGE_SIZE) {
+        break;
+      }
+    }
+
+    this.checkpoint = seq > 0 ? { seq, hash: prevHash } : null;
+    return { valid: true, entries: seq, brokenAt: null };
+  }
+
+  private async append(event: AuditEvent): Promise<AuditEntry> {
+    for (let attempt = 1; attempt <= MAX_APPEND_ATTEMPTS; attempt++) {
+      const head = await this.store.head();
+      const content: Omit<AuditEntry, "hash"> = {
+        seq: (head?.seq ?? 0) + 1,
+        id: randomBytes(8).toString("hex"),
+        timestamp: new Date(this.now()).toISOString(),
+        ...event,
+        before: event.before ?? null,
+        after: event.after ?? null,
+        prevHash: head?.hash ?? GENESIS_HASH
+      };
+      const entry: AuditEntry = { ...content, hash: hashAuditEntry(content) };
+      if (await this.store.append(entry)) {
+        return entry;
+      }
+    }
+    throw new Error(`Audit log append lost the race for the chain head ${MAX_APPEND_ATTEMPTS} times`);
+  }
+}
+
+/**
+ * Creates the store selected by AUDIT_LOG_STORE.
+ */
+export function createAuditStore(kind: "memory" | "file" | "redis", filePath: string): AuditStore {
+  switch (kind) {
+    case "redis":
+      return new RedisAuditStore(requireRedis("AUDIT_LOG_STORE"));
+    case "file":
+      return new FileAuditStore(path.resolve(filePath));
+    default:
+      return new MemoryAuditStore();
+  }
+}
+
+/**
+ * The gateway's audit log (written by privileged routes, read by /api/v1/audit).
+ */
+export const auditLog = new AuditLog(createAuditStore(config.audit.store, config.audit.file));
+
+/**
+ * Who made the request: the user behind a gateway token, or the API key.
+ */
+export function auditActor(req: Request): Pick<AuditEvent, "actor" | "actorRole"> {
+  const identity = req.apiKey;
+  if (identity?.token) {
+    return { actor: identity.token.subject, actorRole: identity.token.role };
+  }
+  return { actor: identity?.name ?? "anonymous", actorRole: "api-key" };
+}
+
+/**
+ * Records a privileged action performed by this request. The action already
+ * happened, so a failed write is logged rather than failing the response.
+ */
+export async function recordAudit(
+  req: Request,
+  event: Pick<AuditEvent, "action" | "target"> & Partial<Pick<AuditEvent, "before" | "after">>,
+  audit: AuditLog = auditLog
+): Promise<void> {
+  try {
+    await audit.record({
+      ...auditActor(req),
+      action: event.action,
+      target: event.target,
+      before: event.before ?? null,
+      after: event.after ?? null,
+      requestId: req.id === undefined ? null : String(req.id),
+      ip: req.ip ?? null
+    });
+  } catch (error) {
+    (req.log ?? log).error({ msg: "Audit log write failed", action: event.action, target: event.target, err: error });
+  }
+}
@@ -0,0 +1,375 @@
+import { ARM_SCOPE, createAzureCredential } from "@fw-admin/azure-credentials";
+import type { Logger } from "pino";
+import type { ContainerAppDefinition } from "../config";
+import { ApiError } from "../middleware/errorHandler";
+import type {
+  ContainerActionResult,
+  ContainerAppStatus,
+  ContainerLogEntry,
+  ContainerLogStreamOptions,
+  ContainerLogType,
+  ContainerProvider,
+  OperationHandle,
+  OperationStatus,
+} from "./containerProvider";
+import { createChildLogger } from "./logger";
+import { parseRetryAfter } from "./retry";
+import { tracedFetch } from "./tracing";
+
+const log = createChildLogger({ service: "container-control" });
+
+export const AZURE_CONTAINER_APPS_API_VERSION = "2024-03-01";
+
+// ---------------------------------------------------------------------------
+// Azure token acquisition
+// ---------------------------------------------------------------------------
+
+/**
+ * Managed Identity when running on Container Apps; the other credentials of
+ * @fw-admin/azure-credentials (workload identity, service principal, static
+ * token) for hosting elsewhere and local development.
+ */
+const azureCredential = createAzureCredential({
+  fetch: (url, init) => tracedFetch("azure token", url, init),
+  onToken: (token) => log.info({ msg: "Acquired Azure token", credential: token.source }),
+  onRefreshError: (error) => log.warn({ msg: "Azure token refresh failed, using the cached token", err: error }),
+});
+
+export async function getAzureToken(): Promise<string> {
+  return (await azureCredential.getToken(ARM_SCOPE)).token;
+}
+
+// ---------------------------------------------------------------------------
+// Container App calls
+// ---------------------------------------------------------------------------
+
+export function getContainerAppUrl(app: ContainerAppDefinition): string {
+  return `https://management.azure.com/subscriptions/${app.subscriptionId}/resourceGroups/${app.resourceGroup}/providers/Microsoft.App/containerApps/${app.containerAppName}`;
+}
+
+/** Attributes identifying the app on Azure client spans */
+export function appAttributes(app: ContainerAppDefinition) {
+  return { "gateway.container_app": app.id, "azure.container_app": app.containerAppName };
+}
+
+/**
+ * Calls the Azure Management API for a Container App (`suffix` is appended to
+ * the app's resource path). Shared by the provider and the Azure-only
+ * revision, traffic and scale routes.
+ *
+ * @throws ApiError 404 REVISION_NOT_FOUND for unknown revisions, 502
+ *   AZURE_API_ERROR for other non-2xx responses; other errors (token
+ *   acquisition, network) are rethrown as-is
+ */
+export async function azureAppRequest<T = unknown>(
+  app: ContainerAppDefinition,
+  name: string,
+  suffix: string,
+  init: { method?: string; body?: unknown } = {},
+  requestLog: Logger = log
+): Promise<{ status: number; headers: Headers; data: T | null }> {
+  const token = await getAzureToken();
+  const separator = suffix.includes("?") ? "&" : "?";
+  const url = `${getContainerAppUrl(app)}${suffix}${separator}api-version=${AZURE_CONTAINER_APPS_API_VERSION}`;
+
+  const azureRes = await tracedFetch(`azure container-app ${name}`, url, {
+    method: init.method ?? "GET",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      ...(init.body !== undefined && { "Content-Type": "application/json" }),
+    },
+    ...(init.body !== undefined && { body: JSON.stringify(init.body) }),
+  }, appAttributes(app));
+
+  if (!azureRes.ok) {
+    const text = await azureRes.text();
+    requestLog.error({ msg: `Azure ${name} failed`, app: app.id, status: azureRes.status, body: text });
+    if (azureRes.status === 404 && suffix.startsWith("/revisions/")) {
+      throw new ApiError(404, "REVISION_NOT_FOUND", `Revision ${suffix.split("/")[2]} not found`);
+    }
+    throw new ApiError(502, "AZURE_API_ERROR", `Azure API error (${azureRes.status})`);
+  }
+
+  const text = await azureRes.text();
+  return { status: azureRes.status, headers: azureRes.headers, data: text ? (JSON.parse(text) as T) : null };
+}
+
+// Subsets of the Azure Management API payloads used by the provider
+
+interface AzureContainerAppResource {
+  name: string;
+  location: string;
+  properties?: {
+    runningStatus?: string;
+    provisioningState?: string;
+    latestReadyRevisionName?: string;
+    eventStreamEndpoint?: string;
+    template?: { containers?: Array<{ name: string }> };
+  };
+}
+
+/** Azure caps log stream tails at 300 lines */
+const MAX_LOG_TAIL = 300;
+
+// ---------------------------------------------------------------------------
+// Provider
+// ---------------------------------------------------------------------------
+
+/**
+ * Container control through the Azure Container Apps Management API,
+ * authenticated with the gateway's Managed Identity.
+ */
+export class AzureContainerProvider implements ContainerProvider {
+  readonly kind = "azure" as const;
+
+  async status(app: ContainerAppDefinition, requestLog: Logger = log): Promise<ContainerAppStatus> {
+    const { data } = await azureAppRequest<AzureContainerAppResource>(app, "status", "", {}, requestLog);
+    return {
+      name: data?.name ?? app.containerAppName,
+      runningStatus: data?.properties?.runningStatus ?? "Unknown",
+      provisioningState: data?.properties?.provisioningState ?? "Unknown",
+      location: data?.location ?? "Unknown",
+    };
+  }
+
+  async start(app: ContainerAppDefinition, requestLog: Logger = log): Promise<ContainerActionResult> {
+    return this.setRunning(app, "start", requestLog);
+  }
+
+  async stop(app: ContainerAppDefinition, requestLog: Logger = log): Promise<ContainerActionResult> {
+    return this.setRunning(app, "stop", requestLog);
+  }
+
+  /**
+   * @throws ApiError 409 NO_READY_REVISION when no revision is named and none is ready
+   */
+  async restart(app: ContainerAppDefinition, revision?: string, requestLog: Logger = log) {
+    const target = revision ??
+      (await azureAppRequest<AzureContainerAppResource>(app, "status", "", {}, requestLog)).data?.properties?.latestReadyRevisionName;
+    if (!target) {
+      throw new ApiError(409, "NO_READY_REVISION", "The container app has no ready revision to restart");
+    }
+
+    const azureRes = await azureAppRequest(app, "restart", `/revisions/${target}/restart`, { method: "POST" }, requestLog);
+    return { status: azureRes.status === 202 ? "accepted" as const : "completed" as const, revision: target };
+  }
+
+  /**
+   * Reads the first container of the latest ready revision's first replica
+   * through the app's log stream endpoint.
+   */
+  async logs(app: ContainerAppDefinition, options: { tail: number }, requestLog: Logger = log): Promise<ContainerLogEntry[]> {
+    const azureRes = await this.logStream(app, "console", options.tail, false, undefined, requestLog);
+    if (!azureRes) {
+      return [];
+    }
+    return (await azureRes.text())
+      .split("\n")
+      .filter((line) => line.trim() !== "")
+      .map(parseLogStreamLine);
+  }
+
+  /**
+   * Follows console output (as `logs` reads it) or the app's system events.
+   */
+  async openLogStream(
+    app: ContainerAppDefinition,
+    options: ContainerLogStreamOptions,
+    requestLog: Logger = log
+  ): Promise<AsyncIterable<ContainerLogEntry>> {
+    const azureRes = await this.logStream(app, options.type, options.tail, true, options.signal, requestLog);
+    const parse = options.type === "system" ? parseSystemEventLine : parseLogStreamLine;
+
+    return (async function* () {
+      if (!azureRes?.body) {
+        return;
+      }
+      for await (const line of readLines(azureRes.body)) {
+        if (line.trim() !== "") {
+          yield parse(line);
+        }
+      }
+    })();
+  }
+
+  /**
+   * Polls a long-running operation once.  /**
+   * Polls a long-running operation once.
+   * Location polling has no body: 202 means in progress, 200/204 success.
+   *
+   * @throws ApiError 502 AZURE_API_ERROR for unexpected responses
+   */
+  async pollOperation(app: ContainerAppDefinition, handle: OperationHandle): Promise<OperationStatus> {
+    const token = await getAzureToken();
+    const azureRes = await tracedFetch("azure operation poll", handle.url, {
+      headers: { Authorization: `Bearer ${token}` },
+    }, appAttributes(app));
+    const retryAfterMs = parseRetryAfter(azureRes.headers.get("retry-after") ?? undefined);
+
+    if (handle.kind === "location") {
+      if (azureRes.status === 202) {
+        return { status: "InProgress", error: null, retryAfterMs };
+      }
+      if (azureRes.status === 200 || azureRes.status === 204) {
+        return { status: "Succeeded", error: null, retryAfterMs };
+      }
+    } else if (azureRes.ok) {
+      const data = await azureRes.json();
+      return {
+        status: data.status ?? "InProgress",
+        error: data.error ? { code: data.error.code ?? "Unknown", message: data.error.message ?? "" } : null,
+        retryAfterMs,
+      };
+    }
+
+    const text = await azureRes.text();
+    log.error({ msg: "Azure operation poll failed", app: app.id, status: azureRes.status, body: text });
+    throw new ApiError(502, "AZURE_API_ERROR", `Azure API error (${azureRes.status})`);
+  }
+
+  /**
+   * Opens the console log stream of the latest ready revision's first replica
+   * and container, or the app's system event stream. Null when there is no
+   * replica to read from.
+   */
+  private async logStream(
+    app: ContainerAppDefinition,
+    type: ContainerLogType,
+    tail: number,
+    follow: boolean,
+    signal: AbortSignal | undefined,
+    requestLog: Logger
+  ): Promise<Response | null> {
+    const { data } = await azureAppRequest<AzureContainerAppResource>(app, "status", "", {}, requestLog);
+    const endpoint = data?.properties?.eventStreamEndpoint;
+    if (!endpoint) {
+      return null;
+    }
+    const query = `tailLines=${Math.min(tail, MAX_LOG_TAIL)}&follow=${follow}`;
+
+    let url: string;
+    if (type === "system") {
+      url = `${endpoint}?${query}`;
+    } else {
+      const revision = data?.properties?.latestReadyRevisionName;
+      const container = data?.properties?.template?.containers?.[0]?.name;
+      if (!revision || !container) {
+        return null;
+      }
+      const replicas = await azureAppRequest<{ value?: Array<{ name: string }> }>(
+        app, "replicas", `/revisions/${revision}/replicas`, {}, requestLog
+      );
+      const replica = replicas.data?.value?.[0]?.name;
+      if (!replica) {
+        return null;
+      }
+      const base = endpoint.slice(0, endpoint.indexOf("/subscriptions/"));
+      const path = new URL(getContainerAppUrl(app)).pathname;
+      url = `${base}${path}/revisions/${revision}/replicas/${replica}/containers/${container}/logstream?${query}&output=text`;
+    }
+
+    const auth = await azureAppRequest<{ properties?: { token?: string } }>(
+      app, "log token", "/getAuthToken", { method: "POST" }, requestLog
+    );
+    const azureRes = await tracedFetch(`azure container-app ${type} logs`, url, {
+      headers: { Authorization: `Bearer ${auth.data?.properties?.token ?? ""}` },
+      signal,
+    }, appAttributes(app));
+    if (!azureRes.ok) {
+      const text = await azureRes.text();
+      requestLog.error({ msg: "Azure logs failed", app: app.id, type, status: azureRes.status, body: text });
+      throw new ApiError(502, "AZURE_API_ERROR", `Azure API error (${azureRes.status})`);
+    }
+    return azureRes;
+  }
+
+  /**
+   * Accepted (202) requests come with the handle to follow the operation by.
+   */
+  private async setRunning(
+    app: ContainerAppDefinition,
+    action: "start" | "stop",
+    requestLog: Logger
+  ): Promise<ContainerActionResult> {
+    const azureRes = await azureAppRequest(app, action, `/${action}`, { method: "POST" }, requestLog);
+    const status = azureRes.status === 202 ? "accepted" : "completed";
+    requestLog.info({ msg: `Container ${action} requested`, app: app.id });
+    return { status, operation: status === "accepted" ? operationHandle(azureRes.headers) : null };
+  }
+}
+
+function operationHandle(headers: Headers): OperationHandle | null {
+  const asyncOperation = headers.get("azure-asyncoperation");
+  const location = headers.get("location");
+  const retryAfterMs = parseRetryAfter(headers.get("retry-after") ?? undefined);
+
+  if (asyncOperation) {
+    return { url: asyncOperation, kind: "async-operation", retryAfterMs };
+  }
+  return location ? { url: location, kind: "location", retryAfterMs } : null;
+}
+
+/**
+ * Splits a streamed body into lines as they arrive.
+ */
+async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = "";
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      buffered += decoder.decode(value, { stream: true });
+      const lines = buffered.split("\n");
+      buffered = lines.pop() ?? "";
+      yield* lines;
+    }
+    buffered += decoder.decode();
+    if (buffered !== "") {
+      yield buffered;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Log stream lines look like `2026-03-02T09:00:00.1234567Z stdout F message`
+ * (CRI format); anything else is kept whole as stdout.
+ */
+function parseLogStreamLine(line: string): ContainerLogEntry {
+  const match = /^(\S+Z) (stdout|stderr) [FP] (.*)$/.exec(line);
+  if (!match) {
+    return { timestamp: null, stream: "stdout", message: line };
+  }
+  const timestamp = new Date(match[1]);
+  return {
+    timestamp: Number.isNaN(timestamp.getTime()) ? null : timestamp.toISOString(),
+    stream: match[2] as ContainerLogEntry["stream"],
+    message: match[3],
+  };
+}
+
+/**
+ * System log lines are JSON events such as
+ * `{"TimeStamp":"...","Type":"Normal","Reason":"ContainerStarted","Msg":"..."}`;
+ * warnings are reported as `Warning: <reason>: <message>`.
+ */
+function parseSystemEventLine(line: string): ContainerLogEntry {
+  let event: { TimeStamp?: string; Type?: string; Reason?: string; Msg?: string };
+  try {
+    event = JSON.parse(line);
+  } catch {
+    return { timestamp: null, stream: "system", message: line };
+  }
+  const timestamp = event.TimeStamp ? new Date(event.TimeStamp) : null;
+  const message = [event.Type === "Warning" ? "Warning" : null, event.Reason, event.Msg].filter(Boolean).join(": ");
+  return {
+    timestamp: timestamp && !Number.isNaN(timestamp.getTime()) ? timestamp.toISOString() : null,
+    stream: "system",
+    message,
+  };
+}
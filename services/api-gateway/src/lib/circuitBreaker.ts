@@ -0,0 +1,177 @@
+/**
+ * Per-upstream circuit breaker.
+ *
+ * States:
+ * - closed:    requests flow; outcomes are recorded in a rolling window
+ * - open:      requests are rejected until the cool-down elapses
+ * - half-open: a limited number of trial requests are let through; one
+ *              success closes the circuit, one failure re-opens it
+ *
+ * The circuit opens when either the consecutive-failure threshold is hit,
+ * or the failure rate over the rolling window exceeds the rate threshold
+ * (once the window holds at least `minimumRequests` outcomes).
+ */
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit */
+  consecutiveFailureThreshold: number;
+  /** Failure rate (0-1) over the rolling window that opens the circuit */
+  failureRateThreshold: number;
+  /** Minimum outcomes in the window before the failure rate is evaluated */
+  minimumRequests: number;
+  /** Number of most recent outcomes kept in the rolling window */
+  windowSize: number;
+  /** Time the circuit stays open before allowing trial requests (ms) */
+  coolDownMs: number;
+  /** Concurrent trial requests allowed while half-open */
+  halfOpenMaxRequests: number;
+}
+
+export interface CircuitBreakerSnapshot {
+  state: CircuitState;
+  consecutiveFailures: number;
+  failureRate: number;
+  windowRequests: number;
+  openedAt: string | null;
+  retryAt: string | null;
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private outcomes: boolean[] = [];
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private halfOpenInFlight = 0;
+
+  constructor(
+    private readonly options: CircuitBreakerOptions,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Asks permission to send a request upstream.
+   * Returns false when the request should be short-circuited.
+   * Every granted request must be followed by `recordSuccess`, `recordFailure`
+   * or `release`.
+   */
+  tryAcquire(): boolean {
+    if (this.state === "open") {
+      if (this.now() - (this.openedAt ?? 0) < this.options.coolDownMs) {
+        return false;
+      }
+      this.state = "half-open";
+      this.halfOpenInFlight = 0;
+    }
+
+    if (this.state === "half-open") {
+      if (this.halfOpenInFlight >= this.options.halfOpenMaxRequests) {
+        return false;
+      }
+      this.halfOpenInFlight++;
+    }
+
+    return true;
+  }
+
+  recordSuccess(): void {
+    // Late outcomes from requests granted before the circuit opened are ignored
+    if (this.state === "open") {
+      return;
+    }
+    if (this.state === "half-open") {
+      this.reset();
+      return;
+    }
+
+    this.consecutiveFailures = 0;
+    this.pushOutcome(true);
+  }
+
+  recordFailure(): void {
+    if (this.state === "open") {
+      return;
+    }
+    if (this.state === "half-open") {
+      this.trip();
+      return;
+    }
+
+    this.consecutiveFailures++;
+    this.pushOutcome(false);
+
+    if (
+      this.consecutiveFailures >= this.options.consecutiveFailureThreshold ||
+      (this.outcomes.length >= this.options.minimumRequests &&
+        this.failureRate() >= this.options.failureRateThreshold)
+    ) {
+      this.trip();
+    }
+  }
+
+  /**
+   * Returns a granted permit without an outcome (e.g. the client went away
+   * before the upstream answered) so half-open trial slots are not leaked.
+   */
+  release(): void {
+    if (this.state === "half-open" && this.halfOpenInFlight > 0) {
+      this.halfOpenInFlight--;
+    }
+  }
+
+  /**
+   * Milliseconds until the circuit allows a trial request (0 when not open).
+   */
+  retryAfterMs(): number {
+    if (this.state !== "open" || this.openedAt === null) {
+      return 0;
+    }
+    return Math.max(0, this.openedAt + this.options.coolDownMs - this.now());
+  }
+
+  snapshot(): CircuitBreakerSnapshot {
+    // Surface an elapsed cool-down as half-open without consuming a trial slot
+    const coolDownElapsed = this.state === "open" && this.retryAfterMs() === 0;
+    const retryAt = this.state === "open" && !coolDownElapsed && this.openedAt !== null
+      ? new Date(this.openedAt + this.options.coolDownMs).toISOString()
+      : null;
+
+    return {
+      state: coolDownElapsed ? "half-open" : this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      failureRate: Number(this.failureRate().toFixed(3)),
+      windowRequests: this.outcomes.length,
+      openedAt: this.openedAt !== null ? new Date(this.openedAt).toISOString() : null,
+      retryAt
+    };
+  }
+
+  private failureRate(): number {
+    if (this.outcomes.length === 0) {
+      return 0;
+    }
+    return this.outcomes.filter((ok) => !ok).length / this.outcomes.length;
+  }
+
+  private pushOutcome(ok: boolean): void {
+    this.outcomes.push(ok);
+    if (this.outcomes.length > this.options.windowSize) {
+      this.outcomes.shift();
+    }
+  }
+
+  private trip(): void {
+    this.state = "open";
+    this.openedAt = this.now();
+    this.halfOpenInFlight = 0;
+  }
+
+  private reset(): void {
+    this.state = "closed";
+    this.outcomes = [];
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.halfOpenInFlight = 0;
+  }
+}
@@ -0,0 +1,238 @@
+import { randomBytes } from "crypto";
+import type { Logger } from "pino";
+import { config, type ContainerAppDefinition } from "../config";
+import {
+  containerProvider,
+  recordContainerAction,
+  type ContainerProvider,
+  type OperationHandle,
+  type OperationStatus,
+} from "./containerProvider";
+import { createChildLogger } from "./logger";
+import { metrics } from "./metrics";
+import { operationStore, type ContainerOperation, type OperationStore } from "./operationStore";
+import { tracer } from "./tracing";
+
+const log = createChildLogger({ service: "container-operations" });
+
+/** Consecutive failed polls after which an operation is given up as failed */
+const MAX_POLL_FAILURES = 3;
+
+export interface ContainerOperationOptions {
+  /** Time between Azure polls unless Azure asks for another delay (ms) */
+  pollIntervalMs: number;
+  /** Operations without an outcome after this long end as "timed-out" (ms) */
+  timeoutMs: number;
+}
+
+export interface ContainerOperationDependencies {
+  provider: ContainerProvider;
+  now: () => number;
+  sleep: (ms: number) => Promise<void>;
+}
+
+const DEFAULT_DEPENDENCIES: ContainerOperationDependencies = {
+  provider: containerProvider,
+  now: Date.now,
+  sleep: (ms) => new Promise((resolve) => setTimeout(resolve, ms))
+};
+
+/** Final state for each terminal Azure status */
+const FINAL_STATES: Record<string, ContainerOperation["state"]> = {
+  Succeeded: "succeeded",
+  Failed: "failed",
+  Canceled: "canceled"
+};
+
+/**
+ * Starts and stops container apps and follows each accepted (202) request
+ * through the provider's operation handle (Azure-AsyncOperation or Location
+ * URL) until it succeeds, fails or times out, recording progress in the
+ * operation store. Providers that complete actions synchronously (docker)
+ * record them as succeeded straight away.
+ *
+ * Operations are followed by the replica that started them; with a shared
+ * (redis) store any replica can report on them. Following ends on shutdown,
+ * leaving unfinished operations "running" until they expire.
+ */
+export class ContainerOperationTracker {
+  private readonly deps: ContainerOperationDependencies;
+  private following = new Set<Promise<void>>();
+  private stopped = false;
+
+  constructor(
+    private readonly store: OperationStore,
+    readonly options: ContainerOperationOptions,
+    dependencies: Partial<ContainerOperationDependencies> = {}
+  ) {
+    this.deps = { ...DEFAULT_DEPENDENCIES, ...dependencies };
+  }
+
+  /**
+   * Requests the action and records it as an operation, followed in the
+   * background when the provider accepted it without completing it.
+   *
+   * @throws ApiError 502 (AZURE_API_ERROR, DOCKER_API_ERROR) when the provider rejects the call
+   */
+  async begin(
+    app: ContainerAppDefinition,
+    action: ContainerOperation["action"],
+    requestedBy: string,
+    requestLog: Logger = log
+  ): Promise<ContainerOperation> {
+    const { status, operation: handle } = await recordContainerAction(app, action, () =>
+      this.deps.provider[action](app, requestLog)
+    );
+    const timestamp = new Date(this.deps.now()).toISOString();
+    const completed = status === "completed";
+
+    const operation: ContainerOperation = {
+      id: randomBytes(8).toString("hex"),
+      appId: app.id,
+      action,
+      state: completed ? "succeeded" : "running",
+      azureStatus: completed ? "Succeeded" : "InProgress",
+      requestedBy,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+      completedAt: completed ? timestamp : null,
+      error: null
+    };
+    await this.store.save(operation);
+
+    if (!completed) {
+      const following = this.follow(operation, app, handle)
+        .catch((error) => log.error({ msg: "Following container operation failed", operationId: operation.id, err: error }))
+        .finally(() => this.following.delete(following));
+      this.following.add(following);
+    }
+    return operation;
+  }
+
+  /**
+   * Stops following operations (at their next poll).
+   */
+  stop(): void {
+    this.stopped = true;
+  }
+
+  /**
+   * Resolves once every operation being followed has ended.
+   */
+  async settled(): Promise<void> {
+    while (this.following.size > 0) {
+      await Promise.all(this.following);
+    }
+  }
+
+  // ===========================================================================
+  // INTERNALS
+  // ===========================================================================
+
+  private async follow(
+    operation: ContainerOperation,
+    app: ContainerAppDefinition,
+    handle: OperationHandle | null
+  ): Promise<void> {
+    await tracer.trace(
+      `container operation ${operation.action}`,
+      { parent: null, attributes: { "gateway.container_app": app.id, "gateway.operation_id": operation.id } },
+      async (span) => {
+        const deadline = Date.parse(operation.createdAt) + this.options.timeoutMs;
+        let current = operation;
+        let delayMs = handle?.retryAfterMs ?? this.options.pollIntervalMs;
+        let failures = 0;
+
+        while (!this.stopped) {
+          await this.deps.sleep(delayMs);
+          if (this.stopped) {
+            return;
+          }
+
+          let result: OperationStatus;
+          try {
+            result = await this.pollOnce(app, current.action, handle);
+            failures = 0;
+          } catch (error) {
+            failures++;
+            log.warn({ msg: "Container operation poll failed", operationId: current.id, failures, err: error });
+            if (failures < MAX_POLL_FAILURES) {
+              delayMs = this.options.pollIntervalMs;
+              continue;
+            }
+            const message = error instanceof Error ? error.message : String(error);
+            current = await this.finish(current, "failed", current.azureStatus, { code: "POLL_FAILED", message });
+            span.setStatus("error", message);
+            return;
+          }
+
+          const finalState = FINAL_STATES[result.status];
+          if (finalState) {
+            const error = finalState === "succeeded"
+              ? null
+              : result.error ?? { code: result.status, message: `Azure reported the operation ${result.status.toLowerCase()}` };
+            current = await this.finish(current, finalState, result.status, error);
+            if (error) {
+              span.setStatus("error", error.message);
+            }
+            return;
+          }
+
+          if (this.deps.now() >= deadline) {
+            const message = `Azure reported no outcome within ${Math.round(this.options.timeoutMs / 1000)}s`;
+            current = await this.finish(current, "timed-out", result.status, { code: "TIMEOUT", message });
+            span.setStatus("error", message);
+            return;
+          }
+
+          if (result.status !== current.azureStatus) {
+            current = { ...current, azureStatus: result.status, updatedAt: new Date(this.deps.now()).toISOString() };
+            await this.store.save(current);
+          }
+          delayMs = result.retryAfterMs ?? this.options.pollIntervalMs;
+        }
+      }
+    );
+  }
+
+  /**
+   * Polls the operation handle, or the app's running status when the provider gave none.
+   */
+  private async pollOnce(
+    app: ContainerAppDefinition,
+    action: ContainerOperation["action"],
+    handle: OperationHandle | null
+  ): Promise<OperationStatus> {
+    if (handle) {
+      return this.deps.provider.pollOperation(app, handle);
+    }
+    const { runningStatus } = await this.deps.provider.status(app);
+    const target = action === "start" ? "Running" : "Stopped";
+    return { status: runningStatus === target ? "Succeeded" : "InProgress", error: null, retryAfterMs: null };
+  }
+
+  private async finish(
+    operation: ContainerOperation,
+    state: ContainerOperation["state"],
+    azureStatus: string,
+    error: ContainerOperation["error"]
+  ): Promise<ContainerOperation> {
+    const timestamp = new Date(this.deps.now()).toISOString();
+    const finished: ContainerOperation = { ...operation, state, azureStatus, error, updatedAt: timestamp, completedAt: timestamp };
+    await this.store.save(finished);
+
+    metrics.containerOperations.inc({ app: operation.appId, action: operation.action, state });
+    const entry = { msg: "Container operation finished", operationId: operation.id, app: operation.appId, action: operation.action, state };
+    if (error) {
+      log.warn({ ...entry, error });
+    } else {
+      log.info(entry);
+    }
+    return finished;
+  }
+}
+
+/**
+ * Tracker for start/stop requests made through the container API, stopped by index.ts.
+ */
+export const containerOperations = new ContainerOperationTracker(operationStore, config.containerOperations);
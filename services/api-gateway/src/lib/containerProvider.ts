@@ -0,0 +1,261 @@
+import { EventEmitter } from "events";
+import type { Logger } from "pino";
+import { config, type ContainerAppDefinition, type ContainerProviderKind } from "../config";
+import { ApiError } from "../middleware/errorHandler";
+import { AzureContainerProvider } from "./azureContainerApps";
+import { DockerContainerProvider } from "./dockerContainers";
+import { metrics } from "./metrics";
+
+/**
+ * Current state of a managed container.
+ */
+export interface ContainerAppStatus {
+  name: string;
+  /** Running, Stopped, Progressing or Unknown */
+  runningStatus: string;
+  provisioningState: string;
+  /** Azure region, or the Docker host */
+  location: string;
+}
+
+/**
+ * Where a provider reports the progress of an accepted action
+ * (Azure long-running operations).
+ */
+export interface OperationHandle {
+  /** Azure-AsyncOperation URL when given, otherwise the Location URL */
+  url: string;
+  kind: "async-operation" | "location";
+  /** Delay the provider asked for before polling (Retry-After), ms */
+  retryAfterMs: number | null;
+}
+
+/**
+ * Progress of an accepted action.
+ */
+export interface OperationStatus {
+  /** InProgress, Succeeded, Failed or Canceled */
+  status: string;
+  error: { code: string; message: string } | null;
+  retryAfterMs: number | null;
+}
+
+export interface ContainerActionResult {
+  status: "accepted" | "completed";
+  /** Set for accepted actions the provider can report progress on */
+  operation: OperationHandle | null;
+}
+
+/**
+ * One line of container output, or one system event (Azure system logs,
+ * Docker container events).
+ */
+export interface ContainerLogEntry {
+  /** ISO timestamp, when the provider reports one */
+  timestamp: string | null;
+  stream: "stdout" | "stderr" | "system";
+  message: string;
+}
+
+/** Console output of the app's container, or the platform's events about it */
+export type ContainerLogType = "console" | "system";
+
+export interface ContainerLogStreamOptions {
+  type: ContainerLogType;
+  /** Earlier lines to start with (system events: ignored by docker, which replays the last hour) */
+  tail: number;
+  /** Ends the stream */
+  signal: AbortSignal;
+}
+
+/**
+ * Backend that runs the managed containers. Failures reaching the backend
+ * surface as ApiError 502 (AZURE_API_ERROR, DOCKER_API_ERROR); callers count
+ * actions with recordContainerAction.
+ */
+export interface ContainerProvider {
+  readonly kind: ContainerProviderKind;
+  status(app: ContainerAppDefinition, requestLog?: Logger): Promise<ContainerAppStatus>;
+  start(app: ContainerAppDefinition, requestLog?: Logger): Promise<ContainerActionResult>;
+  stop(app: ContainerAppDefinition, requestLog?: Logger): Promise<ContainerActionResult>;
+  /**
+   * Restarts the app; Azure restarts a revision (by default the latest ready one).
+   *
+   * @throws ApiError 501 NOT_SUPPORTED when a revision is named on a backend without revisions
+   */
+  restart(
+    app: ContainerAppDefinition,
+    revision?: string,
+    requestLog?: Logger
+  ): Promise<{ status: "accepted" | "completed"; revision: string | null }>;
+  /** The last `tail` lines of output, oldest first */
+  logs(app: ContainerAppDefinition, options: { tail: number }, requestLog?: Logger): Promise<ContainerLogEntry[]>;
+  /**
+   * Connects to the backend's log stream; the returned iterable yields
+   * entries as they are written until `signal` aborts or the backend ends it.
+   * Connection failures reject here, before any entry is read.
+   */
+  openLogStream(
+    app: ContainerAppDefinition,
+    options: ContainerLogStreamOptions,
+    requestLog?: Logger
+  ): Promise<AsyncIterable<ContainerLogEntry>>;
+  /** Polls an operation returned by start/stop */
+  pollOperation(app: ContainerAppDefinition, handle: OperationHandle): Promise<OperationStatus>;
+}
+
+/**
+ * Runs a start/stop/restart through a provider, counting its outcome for /metrics.
+ */
+export async function recordContainerAction<T extends { status: "accepted" | "completed" }>(
+  app: ContainerAppDefinition,
+  action: string,
+  run: () => Promise<T>
+): Promise<T> {
+  try {
+    const result = await run();
+    metrics.containerActions.inc({ app: app.id, action, outcome: result.status });
+    return result;
+  } catch (error) {
+    metrics.containerActions.inc({ app: app.id, action, outcome: "failed" });
+    throw error;
+  }
+}
+
+// =============================================================================
+// IN-MEMORY PROVIDER (tests and local development without Docker)
+// =============================================================================
+
+/**
+ * Containers that exist only in memory: every app starts out running and
+ * actions complete immediately. Logs (of either type) hold one line per action.
+ */
+export class FakeContainerProvider implements ContainerProvider {
+  readonly kind = "fake" as const;
+  /** Actions performed, as "<app id>:<action>" */
+  readonly calls: string[] = [];
+  private states = new Map<string, { running: boolean; logs: ContainerLogEntry[] }>();
+  private readonly written = new EventEmitter();
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  async status(app: ContainerAppDefinition): Promise<ContainerAppStatus> {
+    return {
+      name: app.containerAppName,
+      runningStatus: this.state(app).running ? "Running" : "Stopped",
+      provisioningState: "Succeeded",
+      location: "memory",
+    };
+  }
+
+  async start(app: ContainerAppDefinition): Promise<ContainerActionResult> {
+    return this.setRunning(app, "start", true);
+  }
+
+  async stop(app: ContainerAppDefinition): Promise<ContainerActionResult> {
+    return this.setRunning(app, "stop", false);
+  }
+
+  async restart(app: ContainerAppDefinition, revision?: string) {
+    if (revision !== undefined) {
+      throw new ApiError(501, "NOT_SUPPORTED", "Revisions are not supported by the fake container provider");
+    }
+    this.record(app, "restart");
+    this.state(app).running = true;
+    return { status: "completed" as const, revision: null };
+  }
+
+  async logs(app: ContainerAppDefinition, options: { tail: number }): Promise<ContainerLogEntry[]> {
+    const logs = this.state(app).logs;
+    return options.tail > 0 ? logs.slice(-options.tail) : [];
+  }
+
+  async openLogStream(app: ContainerAppDefinition, options: ContainerLogStreamOptions): Promise<AsyncIterable<ContainerLogEntry>> {
+    const backlog = await this.logs(app, options);
+    const pending: ContainerLogEntry[] = [];
+    let wake: (() => void) | null = null;
+    const onWritten = (appId: string, entry: ContainerLogEntry) => {
+      if (appId === app.id) {
+        pending.push(entry);
+        wake?.();
+      }
+    };
+    const onAbort = () => wake?.();
+    this.written.on("log", onWritten);
+    options.signal.addEventListener("abort", onAbort);
+    const written = this.written;
+
+    return (async function* () {
+      try {
+        yield* backlog;
+        while (!options.signal.aborted) {
+          if (pending.length === 0) {
+            await new Promise<void>((resolve) => (wake = resolve));
+            wake = null;
+          }
+          yield* pending.splice(0);
+        }
+      } finally {
+        written.off("log", onWritten);
+        options.signal.removeEventListener("abort", onAbort);
+      }
+    })();
+  }
+
+  async pollOperation(): Promise<OperationStatus> {
+    // Actions complete immediately, so there is never an operation to poll
+    return { status: "Succeeded", error: null, retryAfterMs: null };
+  }
+
+  private setRunning(app: ContainerAppDefinition, action: "start" | "stop", running: boolean): ContainerActionResult {
+    this.record(app, action);
+    this.state(app).running = running;
+    return { status: "completed", operation: null };
+  }
+
+  private record(app: ContainerAppDefinition, action: string): void {
+    this.calls.push(`${app.id}:${action}`);
+    const entry: ContainerLogEntry = { timestamp: new Date(this.now()).toISOString(), stream: "stdout", message: `${action} ${app.containerAppName}` };
+    this.state(app).logs.push(entry);
+    this.written.emit("log", app.id, entry);
+  }
+
+  private state(app: ContainerAppDefinition) {
+    let state = this.states.get(app.id);
+    if (!state) {
+      state = { running: true, logs: [] };
+      this.states.set(app.id, state);
+    }
+    return state;
+  }
+}
+
+/**
+ * Creates the provider selected by CONTAINER_PROVIDER.
+ */
+export function createContainerProvider(options: typeof config.containerProvider): ContainerProvider {
+  switch (options.kind) {
+    case "docker":
+      return new DockerContainerProvider(options.dockerHost);
+    case "fake":
+      return new FakeContainerProvider();
+    default:
+      return new AzureContainerProvider();
+  }
+}
+
+/**
+ * The gateway's container backend (container routes, operations, schedules and idle auto-stop).
+ */
+export const containerProvider = createContainerProvider(config.containerProvider);
+
+/**
+ * Starts or stops an app without following the operation.
+ * Shared by the scheduler and idle auto-stop.
+ */
+export async function setContainerRunning(
+  app: ContainerAppDefinition,
+  action: "start" | "stop"
+): Promise<"accepted" | "completed"> {
+  return (await recordContainerAction(app, action, () => containerProvider[action](app))).status;
+}
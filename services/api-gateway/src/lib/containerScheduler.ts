@@ -0,0 +1,156 @@
+import { config, type ContainerAppDefinition } from "../config";
+import { setContainerRunning } from "./containerProvider";
+import { nextCronRun, parseCron } from "./cron";
+import { createChildLogger } from "./logger";
+import { scheduleStore, type ContainerSchedule, type ScheduleRun, type ScheduleStore } from "./scheduleStore";
+import { tracer } from "./tracing";
+
+const log = createChildLogger({ service: "container-scheduler" });
+
+export interface ContainerSchedulerOptions {
+  /** Time between checks for due schedules (ms) */
+  intervalMs: number;
+}
+
+/** Starts or stops an app; defaults to the provider behind the start/stop endpoints */
+export type ContainerActionExecutor = (
+  app: ContainerAppDefinition,
+  action: ContainerSchedule["action"]
+) => Promise<"accepted" | "completed">;
+
+/**
+ * Next time a schedule fires after `after`, or null when it is disabled or
+ * never fires again.
+ */
+export function nextScheduledRun(schedule: ContainerSchedule, after: Date): Date | null {
+  if (!schedule.enabled) {
+    return null;
+  }
+  return nextCronRun(parseCron(schedule.cron), after, schedule.timezone, { skipDates: schedule.holidays });
+}
+
+/**
+ * Applies container schedules: on every check, each enabled schedule that fell
+ * due since the previous check is run once and its outcome recorded as
+ * `lastRun`. Runs missed while the gateway was down are not caught up.
+ *
+ * With a shared (redis) store every replica checks, and the store's claim
+ * makes sure each run happens once.
+ */
+export class ContainerScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private lastCheck: number | null = null;
+  private round: Promise<void> | null = null;
+
+  constructor(
+    private readonly store: ScheduleStore,
+    private readonly apps: ContainerAppDefinition[],
+    readonly options: ContainerSchedulerOptions,
+    private readonly execute: ContainerActionExecutor = setContainerRunning,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Checks every `intervalMs` until stop(); the first check covers runs due from now on.
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.lastCheck = this.now();
+    this.timer = setInterval(() => void this.check(), this.options.intervalMs);
+    // Never keep the process alive just for scheduling
+    this.timer.unref();
+    log.info({ msg: "Container scheduler started", intervalMs: this.options.intervalMs });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Runs the schedules due since the previous check.
+   * A check still in flight (slow provider calls) is joined rather than overlapped.
+   */
+  check(): Promise<void> {
+    if (!this.round) {
+      this.round = this.runDue()
+        .catch((error) => log.error({ msg: "Schedule check failed", err: error }))
+        .finally(() => {
+          this.round = null;
+        });
+    }
+    return this.round;
+  }
+
+  // ===========================================================================
+  // INTERNALS
+  // ===========================================================================
+
+  private async runDue(): Promise<void> {
+    const to = this.now();
+    const from = new Date(this.lastCheck ?? to);
+    this.lastCheck = to;
+
+    const schedules = await this.store.list();
+    await Promise.all(
+      schedules.map(async (schedule) => {
+        let due: Date | null;
+        try {
+          due = nextScheduledRun(schedule, from);
+        } catch (error) {
+          log.warn({ msg: "Skipping schedule with an invalid cron expression", scheduleId: schedule.id, err: error });
+          return;
+        }
+        if (due && due.getTime() <= to && (await this.store.claim(schedule.id, due.toISOString()))) {
+          await this.run(schedule, due);
+        }
+      })
+    );
+  }
+
+  private async run(schedule: ContainerSchedule, due: Date): Promise<void> {
+    const lastRun = await tracer.trace(
+      `container schedule ${schedule.action}`,
+      { parent: null, attributes: { "gateway.schedule_id": schedule.id, "gateway.container_app": schedule.appId } },
+      async (span): Promise<ScheduleRun> => {
+        const ranAt = new Date(this.now()).toISOString();
+        const app = this.apps.find((candidate) => candidate.id === schedule.appId);
+
+        if (!app || !app.actions.includes(schedule.action)) {
+          const error = app
+            ? `Action "${schedule.action}" is not allowed for container app ${app.id}`
+            : `Container app ${schedule.appId} is not configured`;
+          span.setStatus("error", error);
+          log.warn({ msg: "Scheduled container action skipped", scheduleId: schedule.id, error });
+          return { scheduledFor: due.toISOString(), ranAt, outcome: "failed", error };
+        }
+
+        try {
+          const outcome = await this.execute(app, schedule.action);
+          log.info({ msg: "Scheduled container action ran", scheduleId: schedule.id, app: app.id, action: schedule.action, outcome });
+          return { scheduledFor: due.toISOString(), ranAt, outcome };
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          span.recordException(error);
+          log.error({ msg: "Scheduled container action failed", scheduleId: schedule.id, app: app.id, action: schedule.action, error: message });
+          return { scheduledFor: due.toISOString(), ranAt, outcome: "failed", error: message };
+        }
+      }
+    );
+
+    // Re-read so edits made while the action ran are kept (and deletions respected)
+    const current = await this.store.get(schedule.id);
+    if (current) {
+      await this.store.save({ ...current, lastRun });
+    }
+  }
+}
+
+/**
+ * Scheduler for the configured apps, started by index.ts.
+ */
+export const containerScheduler = new ContainerScheduler(scheduleStore, config.containerApps, config.containerSchedules);
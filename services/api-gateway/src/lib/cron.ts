@@ -0,0 +1,283 @@
+/**
+ * Standard 5-field cron expressions evaluated in an IANA time zone.
+ *
+ *   minute (0-59)  hour (0-23)  day-of-month (1-31)  month (1-12 or JAN-DEC)  day-of-week (0-7 or SUN-SAT)
+ *
+ * Fields accept `*`, lists (`1,15`), ranges (`MON-FRI`) and steps (`*\/15`,
+ * `8-18/2`). As in Vixie cron, when both day fields are restricted a day
+ * matching either one fires.
+ *
+ * Daylight saving: wall-clock times skipped by a forward change do not fire;
+ * times repeated by a backward change fire once, on the first occurrence.
+ */
+export interface CronExpression {
+  source: string;
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  /** 0 = Sunday */
+  daysOfWeek: Set<number>;
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+const MONTH_NAMES = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+const DAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+/** How far ahead nextCronRun() looks before giving up (e.g. "0 0 30 2 *") */
+const MAX_LOOKAHEAD_DAYS = 366 * 5;
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  /** Names accepted in place of numbers, index + offset = value */
+  names?: { list: string[]; offset: number };
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day-of-month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12, names: { list: MONTH_NAMES, offset: 1 } },
+  { name: "day-of-week", min: 0, max: 7, names: { list: DAY_NAMES, offset: 0 } }
+];
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+/**
+ * Parses a cron expression.
+ *
+ * @throws Error naming the offending field
+ */
+export function parseCron(source: string): CronExpression {
+  const parts = source.trim().split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error(`Cron expression must have 5 fields, got ${parts.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) => parseField(part, FIELDS[index]));
+  // 7 is an alias for Sunday
+  const weekdays = new Set([...daysOfWeek].map((day) => day % 7));
+
+  return {
+    source: parts.join(" "),
+    minutes: [...minutes].sort((a, b) => a - b),
+    hours: [...hours].sort((a, b) => a - b),
+    daysOfMonth,
+    months,
+    daysOfWeek: weekdays,
+    domRestricted: parts[2] !== "*",
+    dowRestricted: parts[4] !== "*"
+  };
+}
+
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const item of field.split(",")) {
+    const [range, stepText, extra] = item.split("/");
+    if (extra !== undefined || range === "") {
+      throw new Error(`Invalid ${spec.name} field "${field}"`);
+    }
+
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step in ${spec.name} field "${field}"`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = spec.min;
+      end = spec.max;
+    } else {
+      const [low, high, rest] = range.split("-");
+      if (rest !== undefined) {
+        throw new Error(`Invalid range in ${spec.name} field "${field}"`);
+      }
+      start = parseValue(low, spec);
+      // "5/15" means 5 through the end of the field
+      end = high !== undefined ? parseValue(high, spec) : stepText !== undefined ? spec.max : start;
+    }
+    if (start > end) {
+      throw new Error(`Range ${start}-${end} in ${spec.name} field is reversed`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+function parseValue(text: string, spec: FieldSpec): number {
+  const named = spec.names?.list.indexOf(text.toUpperCase()) ?? -1;
+  const value = named >= 0 ? named + (spec.names?.offset ?? 0) : /^\d+$/.test(text) ? Number(text) : NaN;
+  if (!Number.isInteger(value) || value < spec.min || value > spec.max) {
+    throw new Error(`Invalid ${spec.name} value "${text}" (expected ${spec.min}-${spec.max})`);
+  }
+  return value;
+}
+
+// =============================================================================
+// EVALUATION
+// =============================================================================
+
+/**
+ * A calendar date in a time zone.
+ */
+export interface LocalDate {
+  year: number;
+  /** 1-12 */
+  month: number;
+  day: number;
+}
+
+export interface NextRunOptions {
+  /** Local dates (YYYY-MM-DD) on which the expression does not fire */
+  skipDates?: Iterable<string>;
+}
+
+/**
+ * First instant strictly after `after` matching the expression in `timeZone`,
+ * or null when there is none within five years.
+ */
+export function nextCronRun(
+  cron: CronExpression,
+  after: Date,
+  timeZone: string,
+  options: NextRunOptions = {}
+): Date | null {
+  const skip = new Set(options.skipDates ?? []);
+  const start = localDateOf(after, timeZone);
+
+  for (let offset = 0; offset < MAX_LOOKAHEAD_DAYS; offset++) {
+    const date = addDays(start, offset);
+    if (!matchesDay(cron, date) || skip.has(formatLocalDate(date))) {
+      continue;
+    }
+
+    for (const hour of cron.hours) {
+      for (const minute of cron.minutes) {
+        const instant = zonedTimeToUtc(date, hour, minute, timeZone);
+        if (instant !== null && instant.getTime() > after.getTime()) {
+          return instant;
+        }
+      }
+    }
+  }
+  return null;
+}
+
+function matchesDay(cron: CronExpression, date: LocalDate): boolean {
+  if (!cron.months.has(date.month)) {
+    return false;
+  }
+  const weekday = new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+  const domMatch = cron.daysOfMonth.has(date.day);
+  const dowMatch = cron.daysOfWeek.has(weekday);
+
+  if (cron.domRestricted && cron.dowRestricted) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+}
+
+// =============================================================================
+// TIME ZONES
+// =============================================================================
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Whether `timeZone` is an IANA zone known to the runtime.
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Calendar date of an instant in a time zone.
+ */
+export function localDateOf(instant: Date, timeZone: string): LocalDate {
+  const { year, month, day } = wallClock(instant, timeZone);
+  return { year, month, day };
+}
+
+export function formatLocalDate(date: LocalDate): string {
+  return `${date.year}-${String(date.month).padStart(2, "0")}-${String(date.day).padStart(2, "0")}`;
+}
+
+function addDays(date: LocalDate, days: number): LocalDate {
+  const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth() + 1, day: shifted.getUTCDate() };
+}
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric"
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function wallClock(instant: Date, timeZone: string) {
+  const parts: Record<string, number> = {};
+  for (const part of formatterFor(timeZone).formatToParts(instant)) {
+    if (part.type !== "literal") {
+      parts[part.type] = Number(part.value);
+    }
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second
+  };
+}
+
+/** Offset of the zone from UTC at an instant (ms, positive east of Greenwich) */
+function zoneOffset(instant: number, timeZone: string): number {
+  const clock = wallClock(new Date(instant), timeZone);
+  const asUtc = Date.UTC(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute, clock.second);
+  return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * UTC instant of a local wall-clock time, or null when the time does not
+ * exist (skipped by a daylight saving change). Ambiguous times resolve to
+ * the earlier instant.
+ */
+function zonedTimeToUtc(date: LocalDate, hour: number, minute: number, timeZone: string): Date | null {
+  const wall = Date.UTC(date.year, date.month - 1, date.day, hour, minute);
+  const candidates = [wall - zoneOffset(wall - 12 * 3600_000, timeZone), wall - zoneOffset(wall + 12 * 3600_000, timeZone)]
+    .filter((instant) => {
+      const clock = wallClock(new Date(instant), timeZone);
+      return Date.UTC(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute) === wall;
+    })
+    .sort((a, b) => a - b);
+
+  return candidates.length > 0 ? new Date(candidates[0]) : null;
+}
@@ -0,0 +1,363 @@
+import http from "http";
+import type { Logger } from "pino";
+import type { ContainerAppDefinition } from "../config";
+import { ApiError } from "../middleware/errorHandler";
+import type {
+  ContainerActionResult,
+  ContainerAppStatus,
+  ContainerLogEntry,
+  ContainerLogStreamOptions,
+  ContainerProvider,
+  OperationStatus,
+} from "./containerProvider";
+import { createChildLogger } from "./logger";
+import { tracer } from "./tracing";
+
+const log = createChildLogger({ service: "container-control" });
+
+/** Docker Engine API version the requests are written against */
+export const DOCKER_API_VERSION = "v1.43";
+
+/** Seconds Docker waits for a container to exit before killing it */
+const STOP_TIMEOUT_SECONDS = 10;
+
+/** Docker responses are small except logs; refuse anything larger */
+const MAX_RESPONSE_BYTES = 16 * 1024 * 1024;
+
+const REQUEST_TIMEOUT_MS = 30000;
+
+/** How far back the "system" log type replays container events */
+const SYSTEM_EVENTS_SINCE_SECONDS = 3600;
+
+/** runningStatus for each Docker State.Status */
+const RUNNING_STATUSES: Record<string, string> = {
+  running: "Running",
+  restarting: "Progressing",
+  removing: "Progressing",
+  created: "Stopped",
+  exited: "Stopped",
+  paused: "Stopped",
+  dead: "Stopped",
+};
+
+// Subset of GET /containers/{id}/json
+interface DockerContainer {
+  Name?: string;
+  State?: { Status?: string; Health?: { Status?: string } };
+  Config?: { Tty?: boolean };
+}
+
+interface DockerResponse {
+  status: number;
+  body: Buffer;
+}
+
+/** Output of one stream, as framed by Docker or split into lines */
+interface Frame {
+  stream: "stdout" | "stderr";
+  text: string;
+}
+
+// ---------------------------------------------------------------------------
+// Provider
+// ---------------------------------------------------------------------------
+
+/**
+ * Container control through the Docker Engine API, for local development
+ * against docker-compose.yml. Each app's containerAppName is the container
+ * name (compose `container_name`); start/stop/restart complete synchronously.
+ */
+export class DockerContainerProvider implements ContainerProvider {
+  readonly kind = "docker" as const;
+  private readonly target: { socketPath: string } | { host: string; port: number };
+
+  /**
+   * @param host unix:///path/to/docker.sock or tcp://host:port (DOCKER_HOST)
+   */
+  constructor(private readonly host: string) {
+    if (host.startsWith("unix://")) {
+      this.target = { socketPath: host.slice("unix://".length) };
+    } else {
+      const url = new URL(host.replace(/^tcp:/, "http:"));
+      this.target = { host: url.hostname, port: Number(url.port || 2375) };
+    }
+  }
+
+  async status(app: ContainerAppDefinition, requestLog: Logger = log): Promise<ContainerAppStatus> {
+    const container = await this.inspect(app, requestLog);
+    return {
+      name: container.Name?.replace(/^\//, "") ?? app.containerAppName,
+      runningStatus: RUNNING_STATUSES[container.State?.Status ?? ""] ?? "Unknown",
+      provisioningState: container.State?.Health?.Status ?? container.State?.Status ?? "Unknown",
+      location: this.host,
+    };
+  }
+
+  async start(app: ContainerAppDefinition, requestLog: Logger = log): Promise<ContainerActionResult> {
+    await this.action(app, "start", "/start", requestLog);
+    return { status: "completed", operation: null };
+  }
+
+  async stop(app: ContainerAppDefinition, requestLog: Logger = log): Promise<ContainerActionResult> {
+    await this.action(app, "stop", `/stop?t=${STOP_TIMEOUT_SECONDS}`, requestLog);
+    return { status: "completed", operation: null };
+  }
+
+  async restart(app: ContainerAppDefinition, revision?: string, requestLog: Logger = log) {
+    if (revision !== undefined) {
+      throw new ApiError(501, "NOT_SUPPORTED", "Revisions are not supported by the docker container provider");
+    }
+    await this.action(app, "restart", `/restart?t=${STOP_TIMEOUT_SECONDS}`, requestLog);
+    return { status: "completed" as const, revision: null };
+  }
+
+  /**
+   * Reads the container's stdout and stderr. Without a TTY Docker frames
+   * each chunk with an 8-byte header naming its stream.
+   */
+  async logs(app: ContainerAppDefinition, options: { tail: number }, requestLog: Logger = log): Promise<ContainerLogEntry[]> {
+    const container = await this.inspect(app, requestLog);
+    const res = await this.request(app, "logs", "GET", containerPath(app, `/logs?${logQuery(options.tail)}`), requestLog);
+
+    const chunks = container.Config?.Tty
+      ? [{ stream: "stdout" as const, text: res.body.toString("utf8") }]
+      : demultiplex(res.body).frames;
+    return chunks.flatMap(({ stream, text }) =>
+      text.split("\n").filter((line) => line !== "").map((line) => parseLogLine(stream, line))
+    );
+  }
+
+  /**
+   * Follows console output, or the container's events (start, die, oom, ...)
+   * of the last hour onwards for the "system" type.
+   */
+  async openLogStream(
+    app: ContainerAppDefinition,
+    options: ContainerLogStreamOptions,
+    requestLog: Logger = log
+  ): Promise<AsyncIterable<ContainerLogEntry>> {
+    if (options.type === "system") {
+      const since = Math.floor(Date.now() / 1000) - SYSTEM_EVENTS_SINCE_SECONDS;
+      const filters = JSON.stringify({ type: ["container"], container: [app.containerAppName] });
+      const res = await this.open(
+        app, "events", "GET", `/${DOCKER_API_VERSION}/events?since=${since}&filters=${encodeURIComponent(filters)}`, requestLog, options.signal
+      );
+      return (async function* () {
+        for await (const { text } of readFrames(res, true)) {
+          yield parseEventLine(text);
+        }
+      })();
+    }
+
+    const container = await this.inspect(app, requestLog);
+    const res = await this.open(
+      app, "logs", "GET", containerPath(app, `/logs?follow=1&${logQuery(options.tail)}`), requestLog, options.signal
+    );
+    return (async function* () {
+      for await (const { stream, text } of readFrames(res, container.Config?.Tty ?? false)) {
+        yield parseLogLine(stream, text);
+      }
+    })();
+  }
+
+  async pollOperation(): Promise<OperationStatus> {
+    // Docker actions complete before the request returns
+    return { status: "Succeeded", error: null, retryAfterMs: null };
+  }
+
+  // ===========================================================================
+  // INTERNALS
+  // ===========================================================================
+
+  private async inspect(app: ContainerAppDefinition, requestLog: Logger): Promise<DockerContainer> {
+    const res = await this.request(app, "status", "GET", containerPath(app, "/json"), requestLog);
+    return JSON.parse(res.body.toString("utf8")) as DockerContainer;
+  }
+
+  /** 304 means the container already was in the requested state */
+  private async action(app: ContainerAppDefinition, name: string, suffix: string, requestLog: Logger): Promise<void> {
+    await this.request(app, name, "POST", containerPath(app, suffix), requestLog);
+    requestLog.info({ msg: `Container ${name} requested`, app: app.id });
+  }
+
+  /**
+   * Calls the Docker Engine API and reads the whole response.
+   *
+   * @throws ApiError as open() does
+   */
+  private async request(
+    app: ContainerAppDefinition,
+    name: string,
+    method: string,
+    path: string,
+    requestLog: Logger
+  ): Promise<DockerResponse> {
+    const res = await this.open(app, name, method, path, requestLog);
+    return { status: res.statusCode ?? 0, body: await readBody(res) };
+  }
+
+  /**
+   * Calls the Docker Engine API about the app's container. With a `signal`
+   * the response is a stream: it has no idle timeout and ends on abort.
+   *
+   * @throws ApiError 404 CONTAINER_NOT_FOUND when Docker has no such
+   *   container, 502 DOCKER_API_ERROR for other failures
+   */
+  private open(
+    app: ContainerAppDefinition,
+    name: string,
+    method: string,
+    path: string,
+    requestLog: Logger,
+    signal?: AbortSignal
+  ): Promise<http.IncomingMessage> {
+    return tracer.trace(
+      `docker container ${name}`,
+      {
+        kind: "client",
+        attributes: { "http.request.method": method, "gateway.container_app": app.id, "docker.container": app.containerAppName }
+      },
+      async (span) => {
+        let res: http.IncomingMessage;
+        try {
+          res = await this.send(method, path, signal);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          requestLog.error({ msg: `Docker ${name} failed`, app: app.id, error: message });
+          throw new ApiError(502, "DOCKER_API_ERROR", `Docker Engine unreachable: ${message}`);
+        }
+        span.setAttribute("http.response.status_code", res.statusCode ?? 0);
+
+        if (res.statusCode === 404) {
+          res.resume();
+          throw new ApiError(404, "CONTAINER_NOT_FOUND", `Container ${app.containerAppName} not found`);
+        }
+        if ((res.statusCode ?? 0) >= 400) {
+          const body = (await readBody(res).catch(() => Buffer.alloc(0))).toString("utf8");
+          requestLog.error({ msg: `Docker ${name} failed`, app: app.id, status: res.statusCode, body });
+          throw new ApiError(502, "DOCKER_API_ERROR", `Docker API error (${res.statusCode})`);
+        }
+        return res;
+      }
+    );
+  }
+
+  private send(method: string, path: string, signal?: AbortSignal): Promise<http.IncomingMessage> {
+    return new Promise((resolve, reject) => {
+      const req = http.request({ ...this.target, method, path, timeout: REQUEST_TIMEOUT_MS, signal }, (res) => {
+        if (signal) {
+          // Followed streams may stay quiet for longer than any timeout
+          req.setTimeout(0);
+        }
+        resolve(res);
+      });
+      req.on("timeout", () => req.destroy(new Error(`Docker request timed out after ${REQUEST_TIMEOUT_MS}ms`)));
+      req.on("error", reject);
+      req.end();
+    });
+  }
+}
+
+function containerPath(app: ContainerAppDefinition, suffix: string): string {
+  return `/${DOCKER_API_VERSION}/containers/${encodeURIComponent(app.containerAppName)}${suffix}`;
+}
+
+function logQuery(tail: number): string {
+  return `stdout=1&stderr=1&timestamps=1&tail=${tail}`;
+}
+
+async function readBody(res: http.IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of res as AsyncIterable<Buffer>) {
+    size += chunk.length;
+    if (size > MAX_RESPONSE_BYTES) {
+      res.destroy();
+      throw new Error("Docker response too large");
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Splits a multiplexed log body into its frames: byte 0 is the stream
+ * (1 stdout, 2 stderr), bytes 4-7 the big-endian payload length. `rest`
+ * is an incomplete trailing frame.
+ */
+function demultiplex(body: Buffer): { frames: Frame[]; rest: Buffer } {
+  const frames: Frame[] = [];
+  let offset = 0;
+  while (offset + 8 <= body.length) {
+    const length = body.readUInt32BE(offset + 4);
+    if (offset + 8 + length > body.length) {
+      break;
+    }
+    frames.push({
+      stream: body[offset] === 2 ? "stderr" : "stdout",
+      text: body.subarray(offset + 8, offset + 8 + length).toString("utf8"),
+    });
+    offset += 8 + length;
+  }
+  return { frames, rest: body.subarray(offset) };
+}
+
+/**
+ * Lines of a followed response as they arrive; `plain` bodies (TTY output,
+ * events) are not multiplexed and count as stdout.
+ */
+async function* readFrames(res: http.IncomingMessage, plain: boolean): AsyncGenerator<Frame> {
+  let pending: Buffer = Buffer.alloc(0);
+  const partial: Record<Frame["stream"], string> = { stdout: "", stderr: "" };
+
+  function* lines(frame: Frame): Generator<Frame> {
+    const parts = (partial[frame.stream] + frame.text).split("\n");
+    partial[frame.stream] = parts.pop() ?? "";
+    for (const text of parts) {
+      if (text !== "") {
+        yield { stream: frame.stream, text };
+      }
+    }
+  }
+
+  for await (const chunk of res as AsyncIterable<Buffer>) {
+    if (plain) {
+      yield* lines({ stream: "stdout", text: chunk.toString("utf8") });
+      continue;
+    }
+    const { frames, rest } = demultiplex(Buffer.concat([pending, chunk]));
+    pending = rest;
+    for (const frame of frames) {
+      yield* lines(frame);
+    }
+  }
+}
+
+/** Lines start with an RFC 3339 timestamp (timestamps=1) */
+function parseLogLine(stream: ContainerLogEntry["stream"], line: string): ContainerLogEntry {
+  const space = line.indexOf(" ");
+  const timestamp = space > 0 ? new Date(line.slice(0, space)) : null;
+  if (!timestamp || Number.isNaN(timestamp.getTime())) {
+    return { timestamp: null, stream, message: line };
+  }
+  return { timestamp: timestamp.toISOString(), stream, message: line.slice(space + 1) };
+}
+
+/**
+ * Events are JSON lines such as `{"Action":"die","Actor":{"Attributes":{"exitCode":"137"}},"timeNano":...}`.
+ */
+function parseEventLine(line: string): ContainerLogEntry {
+  let event: { Action?: string; status?: string; time?: number; timeNano?: number; Actor?: { Attributes?: Record<string, string> } };
+  try {
+    event = JSON.parse(line);
+  } catch {
+    return { timestamp: null, stream: "system", message: line };
+  }
+  const exitCode = event.Actor?.Attributes?.exitCode;
+  const timestamp = event.timeNano ? event.timeNano / 1e6 : event.time ? event.time * 1000 : null;
+  return {
+    timestamp: timestamp ? new Date(timestamp).toISOString() : null,
+    stream: "system",
+    message: `${event.Action ?? event.status ?? "event"}${exitCode !== undefined ? ` (exit code ${exitCode})` : ""}`,
+  };
+}
@@ -0,0 +1,84 @@
+import { errors, jwtVerify } from "jose";
+import { z } from "zod";
+import { scopeSchema } from "../config";
+
+export interface GatewayTokenOptions {
+  /** Shared HS256 secret (GATEWAY_TOKEN_SECRET) */
+  secret: string;
+  issuer: string;
+  audience: string;
+  /** Tokens issued longer ago than this are rejected, whatever their `exp` */
+  maxTtlSeconds: number;
+}
+
+/**
+ * Verified claims of a gateway token.
+ */
+export interface GatewayTokenClaims {
+  /** Dashboard user id (email) */
+  subject: string;
+  /** Dashboard role name (built-in or custom); scopes carry the permissions */
+  role: string;
+  scopes: string[];
+  expiresAt: Date;
+}
+
+/**
+ * Raised for tokens that fail verification.
+ */
+export class GatewayTokenError extends Error {
+  constructor(
+    public code: "INVALID_TOKEN" | "EXPIRED_TOKEN",
+    message: string
+  ) {
+    super(message);
+    this.name = "GatewayTokenError";
+  }
+}
+
+const claimsSchema = z.object({
+  sub: z.string().min(1),
+  role: z.string().regex(/^[a-z][a-z0-9-]{1,31}$/),
+  scopes: z.array(scopeSchema),
+  exp: z.number()
+});
+
+/** Allowed clock drift between dashboard and gateway */
+const CLOCK_TOLERANCE_SECONDS = 30;
+
+/**
+ * Verifies a gateway token: HS256 signature, issuer, audience, expiry and
+ * maximum age, then the role and scope claims.
+ *
+ * @throws GatewayTokenError
+ */
+export async function verifyGatewayToken(token: string, options: GatewayTokenOptions): Promise<GatewayTokenClaims> {
+  let payload: unknown;
+  try {
+    ({ payload } = await jwtVerify(token, new TextEncoder().encode(options.secret), {
+      algorithms: ["HS256"],
+      issuer: options.issuer,
+      audience: options.audience,
+      requiredClaims: ["exp", "iat", "sub"],
+      maxTokenAge: options.maxTtlSeconds,
+      clockTolerance: CLOCK_TOLERANCE_SECONDS
+    }));
+  } catch (error) {
+    if (error instanceof errors.JWTExpired) {
+      throw new GatewayTokenError("EXPIRED_TOKEN", "Gateway token has expired");
+    }
+    throw new GatewayTokenError("INVALID_TOKEN", "Invalid gateway token");
+  }
+
+  const claims = claimsSchema.safeParse(payload);
+  if (!claims.success) {
+    throw new GatewayTokenError("INVALID_TOKEN", "Gateway token is missing role or scope claims");
+  }
+
+  return {
+    subject: claims.data.sub,
+    role: claims.data.role,
+    scopes: claims.data.scopes,
+    expiresAt: new Date(claims.data.exp * 1000)
+  };
+}
@@ -0,0 +1,73 @@
+import type { ServiceDefinition } from "../config";
+import { tracedFetch } from "./tracing";
+
+/**
+ * Result of a single upstream health probe.
+ */
+export interface HealthProbeResult {
+  status: "healthy" | "unhealthy";
+  latencyMs: number;
+  /** Error code when unhealthy: UPSTREAM_ERROR | INVALID_RESPONSE | TIMEOUT | CONNECTION_FAILED */
+  code?: "UPSTREAM_ERROR" | "INVALID_RESPONSE" | "TIMEOUT" | "CONNECTION_FAILED";
+  /** Upstream HTTP status, when a response was received */
+  statusCode?: number;
+  /** Parsed upstream health payload (healthy responses only) */
+  upstream?: unknown;
+  /** Underlying error message for connection failures and timeouts */
+  error?: string;
+}
+
+/**
+ * Probes an upstream service's health endpoint with the timeout declared
+ * in its registry entry. Never throws - failures are reported in the result.
+ */
+export async function probeServiceHealth(service: ServiceDefinition): Promise<HealthProbeResult> {
+  const startTime = Date.now();
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), service.timeouts.healthMs);
+
+  try {
+    const response = await tracedFetch(
+      `health-check ${service.name}`,
+      new URL(service.healthPath, service.baseUrl),
+      { signal: controller.signal, headers: { Accept: "application/json" } },
+      { "gateway.upstream": service.name }
+    );
+
+    // Verify the upstream service actually returned a success status
+    if (!response.ok) {
+      return {
+        status: "unhealthy",
+        latencyMs: Date.now() - startTime,
+        code: "UPSTREAM_ERROR",
+        statusCode: response.status
+      };
+    }
+
+    // Parse and validate response
+    let upstream: unknown;
+    try {
+      upstream = await response.json();
+    } catch {
+      return {
+        status: "unhealthy",
+        latencyMs: Date.now() - startTime,
+        code: "INVALID_RESPONSE",
+        statusCode: response.status
+      };
+    }
+
+    return { status: "healthy", latencyMs: Date.now() - startTime, statusCode: response.status, upstream };
+  } catch (error) {
+    const isTimeout = error instanceof Error && error.name === "AbortError";
+
+    return {
+      status: "unhealthy",
+      latencyMs: Date.now() - startTime,
+      code: isTimeout ? "TIMEOUT" : "CONNECTION_FAILED",
+      error: error instanceof Error ? error.message : "Unknown error"
+    };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
@@ -0,0 +1,239 @@
+import { config, type ServiceDefinition } from "../config";
+import { probeServiceHealth, type HealthProbeResult } from "./health";
+import { createChildLogger } from "./logger";
+
+const log = createChildLogger({ service: "health-prober" });
+
+/**
+ * One background health probe of an upstream.
+ */
+export interface HealthSample {
+  timestamp: string;
+  status: "healthy" | "unhealthy";
+  latencyMs: number;
+  /** Failure code for unhealthy samples */
+  code?: HealthProbeResult["code"];
+}
+
+/**
+ * A run of consecutive unhealthy samples.
+ */
+export interface Outage {
+  startedAt: string;
+  /** First healthy sample after the outage (null while it is ongoing) */
+  endedAt: string | null;
+  durationMs: number;
+  /** Failure code of the first unhealthy sample */
+  code?: HealthProbeResult["code"];
+}
+
+/**
+ * Rolling health history of one upstream.
+ */
+export interface ServiceHistory {
+  name: string;
+  /** Status of the latest sample ("unknown" before the first probe) */
+  current: "healthy" | "unhealthy" | "unknown";
+  /** Share of healthy samples in the window (null without samples) */
+  uptimePercent: number | null;
+  latency: { p50: number | null; p95: number | null };
+  /** Oldest first */
+  samples: HealthSample[];
+  /** Oldest first */
+  outages: Outage[];
+}
+
+export interface HealthProberOptions {
+  /** Time between probe rounds (ms) */
+  intervalMs: number;
+  /** How far back samples are kept (ms) */
+  windowMs: number;
+}
+
+interface StoredSample {
+  at: number;
+  status: HealthSample["status"];
+  latencyMs: number;
+  code?: HealthProbeResult["code"];
+}
+
+/**
+ * Probes every registered upstream on an interval and keeps a rolling window
+ * of results, so outages are visible after the fact and status requests no
+ * longer need live probes.
+ *
+ * History is per replica and lost on restart.
+ */
+export class HealthProber {
+  private samples = new Map<string, StoredSample[]>();
+  private timer: NodeJS.Timeout | null = null;
+  private round: Promise<void> | null = null;
+
+  constructor(
+    private readonly services: ServiceDefinition[],
+    readonly options: HealthProberOptions,
+    private readonly probe: (service: ServiceDefinition) => Promise<HealthProbeResult> = probeServiceHealth,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Probes immediately, then every `intervalMs` until stop().
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    void this.probeAll();
+    this.timer = setInterval(() => void this.probeAll(), this.options.intervalMs);
+    // Never keep the process alive just for probing
+    this.timer.unref();
+    log.info({ msg: "Health prober started", intervalMs: this.options.intervalMs, services: this.services.length });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Runs one probe round over every upstream.
+   * A round still in flight (slow upstreams) is joined rather than overlapped.
+   */
+  probeAll(): Promise<void> {
+    if (!this.round) {
+      this.round = Promise.all(
+        this.services.map(async (service) => this.record(service, await this.probe(service)))
+      )
+        .then(() => undefined)
+        .finally(() => {
+          this.round = null;
+        });
+    }
+    return this.round;
+  }
+
+  /**
+   * Latest sample for an upstream, or null when there is none from the last
+   * two intervals (prober not running or stalled).
+   */
+  latest(serviceId: string): HealthSample | null {
+    const samples = this.samples.get(serviceId) ?? [];
+    const sample = samples[samples.length - 1];
+    if (!sample || this.now() - sample.at > this.options.intervalMs * 2) {
+      return null;
+    }
+    return toHealthSample(sample);
+  }
+
+  /**
+   * Window statistics for an upstream; `limit` caps the number of samples returned
+   * (statistics always cover the whole window).
+   */
+  history(service: ServiceDefinition, limit?: number): ServiceHistory {
+    const samples = this.prune(service.id);
+    const latest = samples[samples.length - 1];
+    const latencies = samples.map((sample) => sample.latencyMs).sort((a, b) => a - b);
+    const healthy = samples.filter((sample) => sample.status === "healthy").length;
+
+    return {
+      name: service.name,
+      current: latest?.status ?? "unknown",
+      uptimePercent: samples.length > 0 ? Math.round((healthy / samples.length) * 10000) / 100 : null,
+      latency: { p50: percentile(latencies, 50), p95: percentile(latencies, 95) },
+      samples: (limit === undefined ? samples : samples.slice(-limit)).map(toHealthSample),
+      outages: this.outages(samples)
+    };
+  }
+
+  // ===========================================================================
+  // INTERNALS
+  // ===========================================================================
+
+  private record(service: ServiceDefinition, result: HealthProbeResult): void {
+    const samples = this.prune(service.id);
+    const previous = samples[samples.length - 1];
+    const sample: StoredSample = {
+      at: this.now(),
+      status: result.status,
+      latencyMs: result.latencyMs,
+      ...(result.code && { code: result.code })
+    };
+    samples.push(sample);
+    this.samples.set(service.id, samples);
+
+    if (previous?.status === sample.status) {
+      return;
+    }
+    if (sample.status === "unhealthy") {
+      log.warn({ msg: "Upstream became unhealthy", service: service.name, code: sample.code });
+    } else if (previous) {
+      const outages = this.outages(samples);
+      log.info({ msg: "Upstream recovered", service: service.name, outageMs: outages[outages.length - 1]?.durationMs });
+    }
+  }
+
+  /** Drops samples older than the window and returns the rest */
+  private prune(serviceId: string): StoredSample[] {
+    const cutoff = this.now() - this.options.windowMs;
+    const samples = (this.samples.get(serviceId) ?? []).filter((sample) => sample.at >= cutoff);
+    this.samples.set(serviceId, samples);
+    return samples;
+  }
+
+  private outages(samples: StoredSample[]): Outage[] {
+    const outages: Outage[] = [];
+    let start: StoredSample | null = null;
+
+    for (const sample of samples) {
+      if (sample.status === "unhealthy" && !start) {
+        start = sample;
+      } else if (sample.status === "healthy" && start) {
+        outages.push(toOutage(start, sample.at));
+        start = null;
+      }
+    }
+    if (start) {
+      outages.push({ ...toOutage(start, this.now()), endedAt: null });
+    }
+    return outages;
+  }
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function toHealthSample(sample: StoredSample): HealthSample {
+  return {
+    timestamp: new Date(sample.at).toISOString(),
+    status: sample.status,
+    latencyMs: sample.latencyMs,
+    ...(sample.code && { code: sample.code })
+  };
+}
+
+function toOutage(start: StoredSample, endedAt: number): Outage {
+  return {
+    startedAt: new Date(start.at).toISOString(),
+    endedAt: new Date(endedAt).toISOString(),
+    durationMs: endedAt - start.at,
+    ...(start.code && { code: start.code })
+  };
+}
+
+/**
+ * Nearest-rank percentile of an ascending list (null when empty).
+ */
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) {
+    return null;
+  }
+  return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+/**
+ * Prober for the configured registry, started by index.ts.
+ */
+export const healthProber = new HealthProber(config.services, config.healthProber);
@@ -0,0 +1,112 @@
+import type { Redis } from "@upstash/redis";
+import { requireRedis } from "./redis";
+
+/**
+ * Response captured for an Idempotency-Key, replayed for repeat requests.
+ */
+export interface StoredResponse {
+  statusCode: number;
+  headers: Record<string, string | string[]>;
+  /** Base64-encoded response body */
+  body: string;
+}
+
+export interface IdempotencyRecord {
+  /** Hash of method, path and body of the first request */
+  fingerprint: string;
+  state: "in-flight" | "completed";
+  createdAt: string;
+  response?: StoredResponse;
+}
+
+/**
+ * Pluggable persistence for Idempotency-Key records.
+ */
+export interface IdempotencyStore {
+  /**
+   * Atomically claims a key for a new request.
+   * Returns null when the claim succeeded, or the existing record otherwise.
+   */
+  claim(key: string, record: IdempotencyRecord, ttlMs: number): Promise<IdempotencyRecord | null>;
+  /** Stores the completed record, replacing the in-flight claim */
+  complete(key: string, record: IdempotencyRecord, ttlMs: number): Promise<void>;
+  /** Drops a claim so the key can be used again (e.g. upstream failure) */
+  release(key: string): Promise<void>;
+}
+
+// =============================================================================
+// IN-MEMORY STORE (default, single replica)
+// =============================================================================
+
+export class MemoryIdempotencyStore implements IdempotencyStore {
+  private records = new Map<string, { record: IdempotencyRecord; expiresAt: number }>();
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  async claim(key: string, record: IdempotencyRecord, ttlMs: number): Promise<IdempotencyRecord | null> {
+    const existing = this.records.get(key);
+    if (existing && existing.expiresAt > this.now()) {
+      return existing.record;
+    }
+
+    this.prune();
+    this.records.set(key, { record, expiresAt: this.now() + ttlMs });
+    return null;
+  }
+
+  async complete(key: string, record: IdempotencyRecord, ttlMs: number): Promise<void> {
+    this.records.set(key, { record, expiresAt: this.now() + ttlMs });
+  }
+
+  async release(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+
+  /** Removes expired records so the map does not grow without bound */
+  private prune(): void {
+    const now = this.now();
+    for (const [key, entry] of this.records) {
+      if (entry.expiresAt <= now) {
+        this.records.delete(key);
+      }
+    }
+  }
+}
+
+// =============================================================================
+// REDIS STORE (shared across gateway replicas)
+// =============================================================================
+
+const REDIS_PREFIX = "gateway:idempotency:";
+
+export class RedisIdempotencyStore implements IdempotencyStore {
+  constructor(private readonly redis: Redis) {}
+
+  async claim(key: string, record: IdempotencyRecord, ttlMs: number): Promise<IdempotencyRecord | null> {
+    const claimed = await this.redis.set(REDIS_PREFIX + key, record, { nx: true, px: ttlMs });
+    if (claimed === "OK") {
+      return null;
+    }
+
+    const existing = await this.redis.get<IdempotencyRecord>(REDIS_PREFIX + key);
+    // The key expired between SET NX and GET - claim it again
+    return existing ?? this.claim(key, record, ttlMs);
+  }
+
+  async complete(key: string, record: IdempotencyRecord, ttlMs: number): Promise<void> {
+    await this.redis.set(REDIS_PREFIX + key, record, { px: ttlMs });
+  }
+
+  async release(key: string): Promise<void> {
+    await this.redis.del(REDIS_PREFIX + key);
+  }
+}
+
+/**
+ * Creates the store selected by IDEMPOTENCY_STORE.
+ */
+export function createIdempotencyStore(kind: "memory" | "redis"): IdempotencyStore {
+  return kind === "redis"
+    ? new RedisIdempotencyStore(requireRedis("IDEMPOTENCY_STORE"))
+    : new MemoryIdempotencyStore();
+}
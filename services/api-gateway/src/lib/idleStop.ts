@@ -0,0 +1,285 @@
+import { config, type ContainerAppDefinition, type ServiceDefinition } from "../config";
+import { containerProvider, setContainerRunning } from "./containerProvider";
+import type { ContainerActionExecutor } from "./containerScheduler";
+import { probeServiceHealth, type HealthProbeResult } from "./health";
+import { healthProber } from "./healthProber";
+import { createChildLogger } from "./logger";
+import { metrics } from "./metrics";
+import { tracer } from "./tracing";
+
+const log = createChildLogger({ service: "idle-stop" });
+
+/** Time between health checks while waiting for a started app */
+const WAKE_POLL_MS = 2000;
+/** Minimum time between provider status lookups prompted by a failing health check */
+const STATUS_RECHECK_MS = 15000;
+
+/**
+ * What the controller believes about the app. "unknown" until it has stopped
+ * or woken the app itself; requests go straight through in that state.
+ */
+export type IdleStopState = "unknown" | "running" | "stopping" | "stopped" | "waking";
+
+export interface IdleStopDependencies {
+  /** Starts or stops the app */
+  execute: ContainerActionExecutor;
+  /** Provider runningStatus of the app (Running, Stopped, ...) */
+  runningStatus: (app: ContainerAppDefinition) => Promise<string>;
+  /** Live health check, used while waking */
+  probe: (service: ServiceDefinition) => Promise<HealthProbeResult>;
+  /** Latest background health check, null when there is none */
+  lastHealth: (service: ServiceDefinition) => HealthProbeResult["status"] | null;
+  now: () => number;
+  sleep: (ms: number) => Promise<void>;
+}
+
+const DEFAULT_DEPENDENCIES: IdleStopDependencies = {
+  execute: setContainerRunning,
+  runningStatus: async (app) => (await containerProvider.status(app)).runningStatus,
+  probe: probeServiceHealth,
+  lastHealth: (service) => healthProber.latest(service.id)?.status ?? null,
+  now: Date.now,
+  sleep: (ms) => new Promise((resolve) => setTimeout(resolve, ms))
+};
+
+/**
+ * Stops the Container App behind an upstream once no request has been proxied
+ * to it for `idleStop.idleMs`, and starts it again when the next request
+ * arrives. Requests arriving while the app is stopped (or starting) wait for
+ * one shared start and health check.
+ *
+ * An app stopped by someone else (a schedule, the dashboard) is noticed when
+ * the background health check fails and the provider reports it Stopped.
+ *
+ * Activity is tracked per replica: with several gateway replicas, one may
+ * stop the app while another still has traffic (which then wakes it again).
+ */
+export class IdleStopController {
+  readonly settings: NonNullable<ServiceDefinition["idleStop"]>;
+  private readonly deps: IdleStopDependencies;
+  private state: IdleStopState = "unknown";
+  private inFlight = 0;
+  private waiting = 0;
+  private lastActivity: number;
+  private statusCheckedAt = Number.NEGATIVE_INFINITY;
+  private stopping: Promise<void> | null = null;
+  private waking: Promise<boolean> | null = null;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    readonly service: ServiceDefinition,
+    readonly app: ContainerAppDefinition,
+    dependencies: Partial<IdleStopDependencies> = {}
+  ) {
+    if (!service.idleStop) {
+      throw new Error(`Service ${service.id} has no idleStop configuration`);
+    }
+    this.settings = service.idleStop;
+    this.deps = { ...DEFAULT_DEPENDENCIES, ...dependencies };
+    this.lastActivity = this.deps.now();
+  }
+
+  /**
+   * Checks for idleness until stop(), often enough to stop within a tenth of idleMs.
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    const intervalMs = Math.min(Math.max(this.settings.idleMs / 10, 10000), 60000);
+    this.timer = setInterval(() => void this.checkIdle(), intervalMs);
+    // Never keep the process alive just for idle checks
+    this.timer.unref();
+    log.info({ msg: "Idle auto-stop enabled", service: this.service.name, app: this.app.id, idleMs: this.settings.idleMs });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  get currentState(): IdleStopState {
+    return this.state;
+  }
+
+  /**
+   * Records a proxied request; call the returned function once it has ended.
+   * The app is never stopped while requests are in flight.
+   */
+  track(): () => void {
+    this.inFlight++;
+    this.lastActivity = this.deps.now();
+
+    let ended = false;
+    return () => {
+      if (!ended) {
+        ended = true;
+        this.inFlight--;
+        this.lastActivity = this.deps.now();
+      }
+    };
+  }
+
+  /**
+   * Resolves true once the app can take a request: immediately when it is
+   * (believed to be) running, otherwise after starting it and waiting for the
+   * health check. Resolves false when it did not become healthy within
+   * wakeTimeoutMs, or too many requests are already waiting.
+   */
+  async ensureAwake(): Promise<boolean> {
+    if ((this.state === "running" || this.state === "unknown") && !(await this.stoppedElsewhere())) {
+      return true;
+    }
+
+    if (this.waiting >= this.settings.maxWaitingRequests) {
+      log.warn({ msg: "Too many requests waiting for the upstream to start", service: this.service.name });
+      return false;
+    }
+
+    this.waiting++;
+    try {
+      this.waking ??= this.wake().finally(() => {
+        this.waking = null;
+      });
+      return await this.waking;
+    } finally {
+      this.waiting--;
+    }
+  }
+
+  /**
+   * Stops the app when it has been idle for idleMs.
+   * A stop or wake in flight is joined rather than overlapped.
+   */
+  checkIdle(): Promise<void> {
+    if (this.stopping) {
+      return this.stopping;
+    }
+    if (
+      this.waking ||
+      this.state === "stopped" ||
+      this.inFlight > 0 ||
+      this.deps.now() - this.lastActivity < this.settings.idleMs
+    ) {
+      return Promise.resolve();
+    }
+
+    this.stopping = this.stopIdle().finally(() => {
+      this.stopping = null;
+    });
+    return this.stopping;
+  }
+
+  // ===========================================================================
+  // INTERNALS
+  // ===========================================================================
+
+  private async stopIdle(): Promise<void> {
+    const previous = this.state;
+    this.state = "stopping";
+
+    try {
+      if ((await this.deps.runningStatus(this.app)) !== "Stopped") {
+        await this.deps.execute(this.app, "stop");
+        log.info({ msg: "Stopped idle upstream", service: this.service.name, app: this.app.id, idleMs: this.deps.now() - this.lastActivity });
+      }
+      this.state = "stopped";
+    } catch (error) {
+      this.state = previous;
+      log.error({ msg: "Idle stop failed", service: this.service.name, app: this.app.id, err: error });
+    }
+  }
+
+  private async wake(): Promise<boolean> {
+    // Let a stop that is already under way finish before starting again
+    await this.stopping;
+    this.state = "waking";
+
+    return tracer.trace(
+      `upstream wake ${this.service.name}`,
+      { attributes: { "gateway.upstream": this.service.name, "gateway.container_app": this.app.id } },
+      async (span) => {
+        const startedAt = this.deps.now();
+        const deadline = startedAt + this.settings.wakeTimeoutMs;
+
+        try {
+          await this.deps.execute(this.app, "start");
+        } catch (error) {
+          this.state = "stopped";
+          span.recordException(error);
+          metrics.upstreamWakes.inc({ service: this.service.name, outcome: "failed" });
+          log.error({ msg: "Failed to start idle upstream", service: this.service.name, app: this.app.id, err: error });
+          return false;
+        }
+
+        for (;;) {
+          if ((await this.deps.probe(this.service)).status === "healthy") {
+            this.state = "running";
+            this.lastActivity = this.deps.now();
+            metrics.upstreamWakes.inc({ service: this.service.name, outcome: "woken" });
+            log.info({ msg: "Woke idle upstream", service: this.service.name, app: this.app.id, durationMs: this.deps.now() - startedAt });
+            return true;
+          }
+          if (this.deps.now() + WAKE_POLL_MS >= deadline) {
+            break;
+          }
+          await this.deps.sleep(WAKE_POLL_MS);
+        }
+
+        // Still "waking": the next request waits for the health check again
+        span.setStatus("error", "Upstream did not become healthy in time");
+        metrics.upstreamWakes.inc({ service: this.service.name, outcome: "timeout" });
+        log.warn({ msg: "Idle upstream did not become healthy in time", service: this.service.name, app: this.app.id, wakeTimeoutMs: this.settings.wakeTimeoutMs });
+        return false;
+      }
+    );
+  }
+
+  /**
+   * Whether an app believed to be running has been stopped by someone else.
+   * Only asks the provider when the background health check is failing.
+   */
+  private async stoppedElsewhere(): Promise<boolean> {
+    const now = this.deps.now();
+    if (this.deps.lastHealth(this.service) !== "unhealthy" || now - this.statusCheckedAt < STATUS_RECHECK_MS) {
+      return false;
+    }
+    this.statusCheckedAt = now;
+
+    try {
+      if ((await this.deps.runningStatus(this.app)) === "Stopped") {
+        this.state = "stopped";
+        return true;
+      }
+    } catch (error) {
+      log.warn({ msg: "Container status lookup failed", service: this.service.name, app: this.app.id, err: error });
+    }
+    return false;
+  }
+}
+
+/**
+ * One controller per service with idleStop configured, keyed by service id.
+ * Services without a usable container app are left out (config.ts has
+ * already reported them).
+ */
+export function createIdleStopControllers(
+  services: ServiceDefinition[],
+  apps: ContainerAppDefinition[]
+): Map<string, IdleStopController> {
+  const controllers = new Map<string, IdleStopController>();
+  for (const service of services) {
+    const app = apps.find((candidate) => candidate.id === service.idleStop?.containerAppId);
+    if (app) {
+      controllers.set(service.id, new IdleStopController(service, app));
+    }
+  }
+  return controllers;
+}
+
+/**
+ * Controllers for the configured services, started by index.ts.
+ */
+export const idleStopControllers = createIdleStopControllers(config.services, config.containerApps);
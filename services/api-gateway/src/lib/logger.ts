@@ -4,6 +4,7 @@ import { randomUUID } from "crypto";
 import type { IncomingMessage, ServerResponse } from "http";
 import type { Request, Response, NextFunction, RequestHandler } from "express";
 import { config } from "../config";
+import { activeTraceFields } from "./tracing";
 
 /**
  * Application logger instance.
@@ -27,6 +28,9 @@ export const logger = pino({
   // Timestamp format
   timestamp: pino.stdTimeFunctions.isoTime,
 
+  // Trace and span IDs of the active span, to correlate log lines with traces
+  mixin: activeTraceFields,
+
   // Redact sensitive fields from logs
   redact: {
     paths: [
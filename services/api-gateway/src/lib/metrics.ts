@@ -0,0 +1,274 @@
+import { memoryUsage, cpuUsage, uptime, version as nodeVersion } from "process";
+import { monitorEventLoopDelay } from "perf_hooks";
+
+type Labels = Record<string, string>;
+
+/** Content type served by the /metrics endpoint */
+export const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+interface Metric {
+  /** Exposition lines, HELP and TYPE included */
+  render(): string[];
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return "";
+  }
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(",")}}`;
+}
+
+function header(name: string, help: string, type: string): string[] {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+}
+
+// =============================================================================
+// INSTRUMENTS
+// =============================================================================
+
+/**
+ * Base for metrics with a fixed label set; series are keyed by label values.
+ */
+abstract class LabelledMetric<T> implements Metric {
+  protected series = new Map<string, { labels: Labels; value: T }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private readonly labelNames: readonly string[]
+  ) {}
+
+  abstract render(): string[];
+
+  protected entry(labels: Labels, create: () => T): { labels: Labels; value: T } {
+    const ordered = this.ordered(labels);
+    const key = JSON.stringify(Object.values(ordered));
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels: ordered, value: create() };
+      this.series.set(key, entry);
+    }
+    return entry;
+  }
+
+  protected find(labels: Labels): T | undefined {
+    return this.series.get(JSON.stringify(Object.values(this.ordered(labels))))?.value;
+  }
+
+  private ordered(labels: Labels): Labels {
+    return Object.fromEntries(this.labelNames.map((name) => [name, labels[name] ?? ""]));
+  }
+}
+
+export class Counter extends LabelledMetric<number> {
+  inc(labels: Labels = {}, value = 1): void {
+    this.entry(labels, () => 0).value += value;
+  }
+
+  /** Current value of one series (0 when never incremented) */
+  get(labels: Labels = {}): number {
+    return this.find(labels) ?? 0;
+  }
+
+  render(): string[] {
+    return [
+      ...header(this.name, this.help, "counter"),
+      ...[...this.series.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`)
+    ];
+  }
+}
+
+interface HistogramValue {
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends LabelledMetric<HistogramValue> {
+  constructor(
+    name: string,
+    help: string,
+    labelNames: readonly string[],
+    private readonly buckets: readonly number[]
+  ) {
+    super(name, help, labelNames);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const entry = this.entry(labels, () => ({ counts: this.buckets.map(() => 0), sum: 0, count: 0 })).value;
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        entry.counts[index]++;
+      }
+    });
+    entry.sum += value;
+    entry.count++;
+  }
+
+  render(): string[] {
+    const lines = header(this.name, this.help, "histogram");
+    for (const { labels, value } of this.series.values()) {
+      this.buckets.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${value.counts[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${value.count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${value.sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${value.count}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * Metric whose samples are read when scraped (process and runtime state).
+ */
+class CallbackMetric implements Metric {
+  constructor(
+    private readonly name: string,
+    private readonly help: string,
+    private readonly type: "gauge" | "counter",
+    private readonly collect: () => number | Array<{ labels: Labels; value: number }>
+  ) {}
+
+  render(): string[] {
+    const samples = this.collect();
+    const series = typeof samples === "number" ? [{ labels: {}, value: samples }] : samples;
+    return [
+      ...header(this.name, this.help, this.type),
+      ...series.map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`)
+    ];
+  }
+}
+
+// =============================================================================
+// REGISTRY
+// =============================================================================
+
+/**
+ * Minimal Prometheus registry (text exposition format 0.0.4): labelled
+ * counters and histograms, plus callback metrics sampled at scrape time.
+ */
+export class MetricsRegistry {
+  private metrics: Metric[] = [];
+
+  counter(name: string, help: string, labelNames: readonly string[] = []): Counter {
+    return this.register(new Counter(name, help, labelNames));
+  }
+
+  histogram(name: string, help: string, labelNames: readonly string[], buckets: readonly number[]): Histogram {
+    return this.register(new Histogram(name, help, labelNames, buckets));
+  }
+
+  /**
+   * Registers a metric sampled at scrape time. Use type "counter" for
+   * monotonically increasing values such as CPU seconds.
+   */
+  callback(
+    name: string,
+    help: string,
+    collect: () => number | Array<{ labels: Labels; value: number }>,
+    type: "gauge" | "counter" = "gauge"
+  ): void {
+    this.register(new CallbackMetric(name, help, type, collect));
+  }
+
+  /** Every metric in the text exposition format */
+  render(): string {
+    return `${this.metrics.flatMap((metric) => metric.render()).join("\n")}\n`;
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+/**
+ * Node.js process metrics with the names used by prom-client's defaults,
+ * so existing dashboards and alerts work unchanged.
+ */
+export function registerProcessMetrics(registry: MetricsRegistry): void {
+  const startTimeSeconds = Math.round(Date.now() / 1000 - uptime());
+  const eventLoopDelay = monitorEventLoopDelay({ resolution: 20 });
+  eventLoopDelay.enable();
+
+  registry.callback("process_cpu_user_seconds_total", "Total user CPU time spent in seconds.", () => cpuUsage().user / 1e6, "counter");
+  registry.callback("process_cpu_system_seconds_total", "Total system CPU time spent in seconds.", () => cpuUsage().system / 1e6, "counter");
+  registry.callback("process_resident_memory_bytes", "Resident memory size in bytes.", () => memoryUsage().rss);
+  registry.callback("process_start_time_seconds", "Start time of the process since unix epoch in seconds.", () => startTimeSeconds);
+  registry.callback("nodejs_heap_size_total_bytes", "Process heap size from Node.js in bytes.", () => memoryUsage().heapTotal);
+  registry.callback("nodejs_heap_size_used_bytes", "Process heap size used from Node.js in bytes.", () => memoryUsage().heapUsed);
+  registry.callback("nodejs_external_memory_bytes", "Node.js external memory size in bytes.", () => memoryUsage().external);
+  registry.callback("nodejs_eventloop_lag_seconds", "Event loop delay since the previous scrape in seconds.", () => {
+    const samples = [
+      { labels: { quantile: "0.5" }, value: eventLoopDelay.percentile(50) / 1e9 },
+      { labels: { quantile: "0.99" }, value: eventLoopDelay.percentile(99) / 1e9 },
+      { labels: { quantile: "1" }, value: eventLoopDelay.max / 1e9 }
+    ];
+    eventLoopDelay.reset();
+    return samples;
+  });
+  registry.callback("nodejs_version_info", "Node.js version info.", () => [{ labels: { version: nodeVersion }, value: 1 }]);
+}
+
+// =============================================================================
+// GATEWAY METRICS
+// =============================================================================
+
+/** Request duration buckets (seconds) - proxied requests may run for minutes */
+const DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+
+export const registry = new MetricsRegistry();
+registerProcessMetrics(registry);
+
+/**
+ * Gateway instruments, exported at /metrics.
+ */
+export const metrics = {
+  httpRequests: registry.counter(
+    "gateway_http_requests_total",
+    "HTTP requests handled, by route group, method and status.",
+    ["route", "method", "status"]
+  ),
+  httpRequestDuration: registry.histogram(
+    "gateway_http_request_duration_seconds",
+    "HTTP request duration in seconds, by route group, method and status.",
+    ["route", "method", "status"],
+    DURATION_BUCKETS
+  ),
+  proxyErrors: registry.counter(
+    "gateway_upstream_proxy_errors_total",
+    "Proxied requests that failed without an upstream response, by service and error code.",
+    ["service", "code"]
+  ),
+  rateLimitRejections: registry.counter(
+    "gateway_rate_limit_rejections_total",
+    "Requests rejected by a rate limiter (global, auth or policy:<name>).",
+    ["limiter"]
+  ),
+  authFailures: registry.counter(
+    "gateway_auth_failures_total",
+    "Rejected authentications and authorizations, by error code.",
+    ["code"]
+  ),
+  containerActions: registry.counter(
+    "gateway_container_actions_total",
+    "Container control actions, by container app, action and outcome.",
+    ["app", "action", "outcome"]
+  ),
+  containerOperations: registry.counter(
+    "gateway_container_operations_total",
+    "Followed container start/stop operations, by container app, action and final state.",
+    ["app", "action", "state"]
+  ),
+  upstreamWakes: registry.counter(
+    "gateway_upstream_wakes_total",
+    "Starts of idle-stopped upstreams triggered by a request, by service and outcome (woken, timeout, failed).",
+    ["service", "outcome"]
+  )
+};
@@ -0,0 +1,103 @@
+import type { Redis } from "@upstash/redis";
+import { config } from "../config";
+import { requireRedis } from "./redis";
+
+/**
+ * A container start/stop followed until Azure reports its outcome.
+ */
+export interface ContainerOperation {
+  /** Random 16-character hex id */
+  id: string;
+  /** Container app id from the app registry */
+  appId: string;
+  action: "start" | "stop";
+  /** "running" until Azure reports an outcome; every other state is final */
+  state: "running" | "succeeded" | "failed" | "canceled" | "timed-out";
+  /** Last status reported by Azure: InProgress, Succeeded, Failed or Canceled */
+  azureStatus: string;
+  /** Key (or user, for gateway tokens) that requested the operation */
+  requestedBy: string;
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+  /** Why the operation did not succeed */
+  error: { code: string; message: string } | null;
+}
+
+/**
+ * Pluggable persistence for container operations. Records expire after
+ * the store's TTL.
+ */
+export interface OperationStore {
+  get(id: string): Promise<ContainerOperation | null>;
+  /** Inserts or replaces an operation */
+  save(operation: ContainerOperation): Promise<void>;
+}
+
+// =============================================================================
+// IN-MEMORY STORE (default, single replica)
+// =============================================================================
+
+export class MemoryOperationStore implements OperationStore {
+  private records = new Map<string, { operation: ContainerOperation; expiresAt: number }>();
+
+  constructor(
+    private readonly ttlMs: number,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  async get(id: string): Promise<ContainerOperation | null> {
+    const entry = this.records.get(id);
+    return entry && entry.expiresAt > this.now() ? entry.operation : null;
+  }
+
+  async save(operation: ContainerOperation): Promise<void> {
+    this.prune();
+    this.records.set(operation.id, { operation, expiresAt: this.now() + this.ttlMs });
+  }
+
+  /** Removes expired records so the map does not grow without bound */
+  private prune(): void {
+    const now = this.now();
+    for (const [id, entry] of this.records) {
+      if (entry.expiresAt <= now) {
+        this.records.delete(id);
+      }
+    }
+  }
+}
+
+// =============================================================================
+// REDIS STORE (shared across gateway replicas)
+// =============================================================================
+
+const REDIS_PREFIX = "gateway:container-operations:";
+
+export class RedisOperationStore implements OperationStore {
+  constructor(
+    private readonly redis: Redis,
+    private readonly ttlMs: number
+  ) {}
+
+  async get(id: string): Promise<ContainerOperation | null> {
+    return this.redis.get<ContainerOperation>(REDIS_PREFIX + id);
+  }
+
+  async save(operation: ContainerOperation): Promise<void> {
+    await this.redis.set(REDIS_PREFIX + operation.id, operation, { px: this.ttlMs });
+  }
+}
+
+/**
+ * Creates the store selected by CONTAINER_OPERATION_STORE.
+ */
+export function createOperationStore(kind: "memory" | "redis", ttlMs: number): OperationStore {
+  return kind === "redis"
+    ? new RedisOperationStore(requireRedis("CONTAINER_OPERATION_STORE"), ttlMs)
+    : new MemoryOperationStore(ttlMs);
+}
+
+/**
+ * The gateway's operation store (written by the tracker, read by the operations API).
+ */
+export const operationStore = createOperationStore(config.containerOperations.store, config.containerOperations.ttlMs);
@@ -0,0 +1,86 @@
+import type { Redis } from "@upstash/redis";
+import { MemoryStore, type ClientRateLimitInfo, type Options, type Store } from "express-rate-limit";
+import { requireRedis } from "./redis";
+
+const REDIS_PREFIX = "gateway:rate-limit:";
+
+/**
+ * Increments a counter and starts its window on the first hit.
+ * Returns [hits, milliseconds until the window resets].
+ */
+const INCREMENT_SCRIPT = `
+local hits = redis.call("INCR", KEYS[1])
+local ttl = redis.call("PTTL", KEYS[1])
+if ttl < 0 then
+  redis.call("PEXPIRE", KEYS[1], ARGV[1])
+  ttl = tonumber(ARGV[1])
+end
+return { hits, ttl }
+`;
+
+/** Decrements only while the window is still open, so no key is left without a TTL */
+const DECREMENT_SCRIPT = `
+if redis.call("EXISTS", KEYS[1]) == 1 then
+  redis.call("DECR", KEYS[1])
+end
+return 0
+`;
+
+// =============================================================================
+// REDIS STORE (counters shared across gateway replicas)
+// =============================================================================
+
+/**
+ * Fixed-window counters in Upstash Redis for express-rate-limit.
+ */
+export class RedisRateLimitStore implements Store {
+  private windowMs = 60000;
+  readonly localKeys = false;
+
+  constructor(
+    private readonly redis: Redis,
+    readonly prefix: string
+  ) {}
+
+  init(options: Options): void {
+    this.windowMs = options.windowMs;
+  }
+
+  async get(key: string): Promise<ClientRateLimitInfo | undefined> {
+    const redisKey = this.redisKey(key);
+    const [hits, ttl] = await Promise.all([this.redis.get<number>(redisKey), this.redis.pttl(redisKey)]);
+    if (hits === null) {
+      return undefined;
+    }
+    return { totalHits: Number(hits), resetTime: new Date(Date.now() + Math.max(ttl, 0)) };
+  }
+
+  async increment(key: string): Promise<ClientRateLimitInfo> {
+    const [hits, ttl] = await this.redis.eval<[string], [number, number]>(
+      INCREMENT_SCRIPT,
+      [this.redisKey(key)],
+      [String(this.windowMs)]
+    );
+    return { totalHits: hits, resetTime: new Date(Date.now() + ttl) };
+  }
+
+  async decrement(key: string): Promise<void> {
+    await this.redis.eval(DECREMENT_SCRIPT, [this.redisKey(key)], []);
+  }
+
+  async resetKey(key: string): Promise<void> {
+    await this.redis.del(this.redisKey(key));
+  }
+
+  private redisKey(key: string): string {
+    return `${REDIS_PREFIX}${this.prefix}:${key}`;
+  }
+}
+
+/**
+ * Creates a counter store for one limiter (selected by RATE_LIMIT_STORE).
+ * Every limiter needs its own store; `prefix` keeps their Redis keys apart.
+ */
+export function createRateLimitStore(kind: "memory" | "redis", prefix: string): Store {
+  return kind === "redis" ? new RedisRateLimitStore(requireRedis("RATE_LIMIT_STORE"), prefix) : new MemoryStore();
+}
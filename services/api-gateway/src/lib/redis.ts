@@ -0,0 +1,31 @@
+import { Redis } from "@upstash/redis";
+import { config } from "../config";
+
+let client: Redis | null = null;
+
+/**
+ * Upstash Redis client (lazy singleton).
+ * Returns null when UPSTASH_REDIS_REST_URL / UPSTASH_REDIS_REST_TOKEN are not set.
+ */
+export function getRedis(): Redis | null {
+  if (!config.redis) {
+    return null;
+  }
+  if (!client) {
+    client = new Redis({ url: config.redis.url, token: config.redis.token });
+  }
+  return client;
+}
+
+/**
+ * Like getRedis(), but fails loudly for features explicitly configured to use Redis.
+ */
+export function requireRedis(feature: string): Redis {
+  const redis = getRedis();
+  if (!redis) {
+    throw new Error(
+      `${feature} is configured to use Redis, but UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN are not set.`
+    );
+  }
+  return redis;
+}
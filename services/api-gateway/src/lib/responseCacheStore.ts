@@ -0,0 +1,92 @@
+import type { Redis } from "@upstash/redis";
+import { requireRedis } from "./redis";
+
+/**
+ * GET response held by the response cache.
+ */
+export interface CachedResponse {
+  statusCode: number;
+  headers: Record<string, string | string[]>;
+  /** Base64-encoded response body */
+  body: string;
+  /** Validator sent as ETag and compared against If-None-Match */
+  etag: string;
+  /** When the response was produced (epoch ms) - its age is measured from here */
+  storedAt: number;
+}
+
+/**
+ * Pluggable persistence for cached responses.
+ */
+export interface ResponseCacheStore {
+  get(key: string): Promise<CachedResponse | null>;
+  /** Stores an entry, dropping it after `ttlMs` (freshness plus stale window) */
+  set(key: string, entry: CachedResponse, ttlMs: number): Promise<void>;
+}
+
+// =============================================================================
+// IN-MEMORY STORE (default, single replica)
+// =============================================================================
+
+/**
+ * Least-recently-used map of entries, bounded to `maxEntries`.
+ */
+export class MemoryResponseCacheStore implements ResponseCacheStore {
+  private entries = new Map<string, { entry: CachedResponse; expiresAt: number }>();
+
+  constructor(
+    private readonly maxEntries: number,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  async get(key: string): Promise<CachedResponse | null> {
+    const existing = this.entries.get(key);
+    if (!existing) {
+      return null;
+    }
+    this.entries.delete(key);
+    if (existing.expiresAt <= this.now()) {
+      return null;
+    }
+    // Re-insert so the map stays in least-recently-used order
+    this.entries.set(key, existing);
+    return existing.entry;
+  }
+
+  async set(key: string, entry: CachedResponse, ttlMs: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { entry, expiresAt: this.now() + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+}
+
+// =============================================================================
+// REDIS STORE (shared across gateway replicas)
+// =============================================================================
+
+const REDIS_PREFIX = "gateway:response-cache:";
+
+export class RedisResponseCacheStore implements ResponseCacheStore {
+  constructor(private readonly redis: Redis) {}
+
+  async get(key: string): Promise<CachedResponse | null> {
+    return this.redis.get<CachedResponse>(REDIS_PREFIX + key);
+  }
+
+  async set(key: string, entry: CachedResponse, ttlMs: number): Promise<void> {
+    await this.redis.set(REDIS_PREFIX + key, entry, { px: ttlMs });
+  }
+}
+
+/**
+ * Creates the store selected by RESPONSE_CACHE_STORE.
+ */
+export function createResponseCacheStore(kind: "memory" | "redis", maxEntries: number): ResponseCacheStore {
+  return kind === "redis"
+    ? new RedisResponseCacheStore(requireRedis("RESPONSE_CACHE_STORE"))
+    : new MemoryResponseCacheStore(maxEntries);
+}
@@ -0,0 +1,59 @@
+import type { Response } from "express";
+
+/**
+ * Tees everything written to the response into a buffer (up to `limit` bytes).
+ * `body()` returns null when the limit was exceeded.
+ */
+export function captureResponseBody(res: Response, limit: number): { body: () => Buffer | null } {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  let overflow = false;
+
+  const capture = (chunk: unknown, encoding?: unknown) => {
+    if (overflow || chunk === undefined || chunk === null || typeof chunk === "function") {
+      return;
+    }
+    const buffer = Buffer.isBuffer(chunk)
+      ? chunk
+      : typeof chunk === "string"
+        ? Buffer.from(chunk, typeof encoding === "string" ? (encoding as BufferEncoding) : "utf8")
+        : Buffer.from(chunk as Uint8Array);
+
+    size += buffer.length;
+    if (size > limit) {
+      overflow = true;
+      chunks.length = 0;
+      return;
+    }
+    chunks.push(buffer);
+  };
+
+  const originalWrite = res.write.bind(res) as (...args: unknown[]) => boolean;
+  const originalEnd = res.end.bind(res) as (...args: unknown[]) => Response;
+
+  res.write = ((...args: unknown[]) => {
+    capture(args[0], args[1]);
+    return originalWrite(...args);
+  }) as Response["write"];
+
+  res.end = ((...args: unknown[]) => {
+    capture(args[0], args[1]);
+    return originalEnd(...args);
+  }) as Response["end"];
+
+  return { body: () => (overflow ? null : Buffer.concat(chunks)) };
+}
+
+/**
+ * Copies the response headers that may be sent again with a stored body,
+ * skipping the names in `excluded` (lower-case).
+ */
+export function storableHeaders(res: Response, excluded: ReadonlySet<string>): Record<string, string | string[]> {
+  const headers: Record<string, string | string[]> = {};
+  for (const [name, value] of Object.entries(res.getHeaders())) {
+    if (value !== undefined && !excluded.has(name)) {
+      headers[name] = Array.isArray(value) ? value : String(value);
+    }
+  }
+  return headers;
+}
@@ -0,0 +1,82 @@
+import type { IncomingMessage } from "http";
+
+/**
+ * Retry policy for proxied upstream requests.
+ */
+export interface RetryPolicy {
+  /** Total attempts including the first one (1 disables retries) */
+  maxAttempts: number;
+  /** Backoff before the first retry (ms); doubles on every further retry */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff delay, including Retry-After (ms) */
+  maxDelayMs: number;
+  /** Upstream statuses that trigger a retry */
+  retryableStatuses: number[];
+  /** Socket error codes that trigger a retry */
+  retryableErrors: string[];
+}
+
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]);
+
+/**
+ * Only idempotent methods, or requests carrying an Idempotency-Key,
+ * may be sent to the upstream more than once.
+ */
+export function isIdempotentRequest(req: IncomingMessage): boolean {
+  if (IDEMPOTENT_METHODS.has(req.method ?? "")) {
+    return true;
+  }
+  const key = req.headers["idempotency-key"];
+  return typeof key === "string" && key.length > 0;
+}
+
+/**
+ * A request can be replayed when it has no body, or when its body was
+ * fully buffered by the body parsers (streamed uploads cannot be re-sent).
+ */
+export function hasReplayableBody(req: IncomingMessage): boolean {
+  const contentLength = req.headers["content-length"];
+  const hasBody =
+    req.headers["transfer-encoding"] !== undefined ||
+    (contentLength !== undefined && contentLength !== "0");
+
+  return !hasBody || req.readableEnded;
+}
+
+/**
+ * Exponential backoff with "equal jitter": half of the delay is fixed,
+ * the other half is randomised to spread out retries from many clients.
+ *
+ * @param retryNumber - 1 for the first retry, 2 for the second, ...
+ */
+export function computeBackoffDelay(
+  policy: RetryPolicy,
+  retryNumber: number,
+  random: () => number = Math.random
+): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retryNumber - 1));
+  return Math.round(exponential / 2 + random() * (exponential / 2));
+}
+
+/**
+ * Parses a Retry-After header (delta-seconds or HTTP-date) into milliseconds.
+ * Returns null when the header is missing or malformed.
+ */
+export function parseRetryAfter(
+  header: string | string[] | undefined,
+  now: number = Date.now()
+): number | null {
+  if (typeof header !== "string" || header.trim().length === 0) {
+    return null;
+  }
+
+  if (/^\d+$/.test(header.trim())) {
+    return Number(header.trim()) * 1000;
+  }
+
+  const date = Date.parse(header);
+  if (Number.isNaN(date)) {
+    return null;
+  }
+  return Math.max(0, date - now);
+}
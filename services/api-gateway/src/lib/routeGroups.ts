@@ -0,0 +1,16 @@
+/**
+ * Path prefix mapped to a bounded route name, used as the `route` label of
+ * request metrics and in server span names instead of raw paths.
+ */
+export interface RouteGroup {
+  prefix: string;
+  group: string;
+}
+
+/**
+ * Group of the first prefix matching `path` ("unmatched" when none does).
+ */
+export function resolveRouteGroup(groups: RouteGroup[], path: string): string {
+  const pathname = path.split("?")[0];
+  return groups.find(({ prefix }) => pathname === prefix || pathname.startsWith(`${prefix}/`))?.group ?? "unmatched";
+}
@@ -0,0 +1,225 @@
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+import type { Redis } from "@upstash/redis";
+import { config } from "../config";
+import { requireRedis } from "./redis";
+
+/**
+ * Outcome of one scheduled start/stop.
+ */
+export interface ScheduleRun {
+  /** ISO timestamp the run was due */
+  scheduledFor: string;
+  /** ISO timestamp the Azure call was made */
+  ranAt: string;
+  outcome: "accepted" | "completed" | "failed";
+  /** Failure message for failed runs */
+  error?: string;
+}
+
+/**
+ * A cron-style start or stop of a managed Container App, as persisted.
+ */
+export interface ContainerSchedule {
+  /** Random 12-character hex id */
+  id: string;
+  /** Container app id from the app registry */
+  appId: string;
+  action: "start" | "stop";
+  /** 5-field cron expression, evaluated in `timezone` */
+  cron: string;
+  /** IANA time zone, e.g. Australia/Sydney */
+  timezone: string;
+  /** Local dates (YYYY-MM-DD) on which the schedule does not fire, e.g. public holidays */
+  holidays: string[];
+  enabled: boolean;
+  description: string | null;
+  createdAt: string;
+  updatedAt: string;
+  lastRun: ScheduleRun | null;
+}
+
+/**
+ * Pluggable persistence for container schedules.
+ */
+export interface ScheduleStore {
+  get(id: string): Promise<ContainerSchedule | null>;
+  list(): Promise<ContainerSchedule[]>;
+  /** Inserts or replaces a schedule */
+  save(schedule: ContainerSchedule): Promise<void>;
+  /** Returns false when the schedule did not exist */
+  delete(id: string): Promise<boolean>;
+  /**
+   * Claims the run of a schedule due at `scheduledFor` (ISO timestamp).
+   * Returns false when it was already claimed, e.g. by another replica.
+   */
+  claim(id: string, scheduledFor: string): Promise<boolean>;
+}
+
+// =============================================================================
+// IN-MEMORY STORE (development and tests - schedules are lost on restart)
+// =============================================================================
+
+export class MemoryScheduleStore implements ScheduleStore {
+  private records = new Map<string, ContainerSchedule>();
+  private claims = new Map<string, string>();
+
+  async get(id: string): Promise<ContainerSchedule | null> {
+    return this.records.get(id) ?? null;
+  }
+
+  async list(): Promise<ContainerSchedule[]> {
+    return [...this.records.values()];
+  }
+
+  async save(schedule: ContainerSchedule): Promise<void> {
+    this.records.set(schedule.id, schedule);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    this.claims.delete(id);
+    return this.records.delete(id);
+  }
+
+  async claim(id: string, scheduledFor: string): Promise<boolean> {
+    return claimLocally(this.claims, id, scheduledFor);
+  }
+}
+
+// =============================================================================
+// FILE STORE (single replica with a persistent volume)
+// =============================================================================
+
+/**
+ * Keeps schedules in a JSON file. The file is read once and cached; writes
+ * are serialised and replace the file atomically. Claims are held in memory.
+ */
+export class FileScheduleStore implements ScheduleStore {
+  private records: Map<string, ContainerSchedule> | null = null;
+  private claims = new Map<string, string>();
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async get(id: string): Promise<ContainerSchedule | null> {
+    return (await this.load()).get(id) ?? null;
+  }
+
+  async list(): Promise<ContainerSchedule[]> {
+    return [...(await this.load()).values()];
+  }
+
+  async save(schedule: ContainerSchedule): Promise<void> {
+    const records = await this.load();
+    records.set(schedule.id, schedule);
+    await this.persist(records);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const records = await this.load();
+    this.claims.delete(id);
+    if (!records.delete(id)) {
+      return false;
+    }
+    await this.persist(records);
+    return true;
+  }
+
+  async claim(id: string, scheduledFor: string): Promise<boolean> {
+    return claimLocally(this.claims, id, scheduledFor);
+  }
+
+  private async persist(records: Map<string, ContainerSchedule>): Promise<void> {
+    const write = this.writes.then(() => this.flush(records));
+    this.writes = write.catch(() => undefined);
+    await write;
+  }
+
+  private async load(): Promise<Map<string, ContainerSchedule>> {
+    if (this.records) {
+      return this.records;
+    }
+
+    let schedules: ContainerSchedule[] = [];
+    try {
+      schedules = (JSON.parse(await readFile(this.filePath, "utf8")) as { schedules: ContainerSchedule[] }).schedules;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error;
+      }
+    }
+
+    this.records ??= new Map(schedules.map((schedule) => [schedule.id, schedule]));
+    return this.records;
+  }
+
+  private async flush(records: Map<string, ContainerSchedule>): Promise<void> {
+    const tempPath = `${this.filePath}.tmp`;
+    await mkdir(path.dirname(this.filePath), { recursive: true });
+    await writeFile(tempPath, JSON.stringify({ schedules: [...records.values()] }, null, 2));
+    await rename(tempPath, this.filePath);
+  }
+}
+
+// =============================================================================
+// REDIS STORE (shared across gateway replicas)
+// =============================================================================
+
+const REDIS_KEY = "gateway:container-schedules";
+const REDIS_CLAIM_PREFIX = "gateway:container-schedules:claim:";
+/** Claims only need to outlive the scheduler's catch-up window */
+const CLAIM_TTL_MS = 24 * 60 * 60 * 1000;
+
+export class RedisScheduleStore implements ScheduleStore {
+  constructor(private readonly redis: Redis) {}
+
+  async get(id: string): Promise<ContainerSchedule | null> {
+    return this.redis.hget<ContainerSchedule>(REDIS_KEY, id);
+  }
+
+  async list(): Promise<ContainerSchedule[]> {
+    const records = await this.redis.hgetall<Record<string, ContainerSchedule>>(REDIS_KEY);
+    return Object.values(records ?? {});
+  }
+
+  async save(schedule: ContainerSchedule): Promise<void> {
+    await this.redis.hset(REDIS_KEY, { [schedule.id]: schedule });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return (await this.redis.hdel(REDIS_KEY, id)) > 0;
+  }
+
+  async claim(id: string, scheduledFor: string): Promise<boolean> {
+    const claimed = await this.redis.set(`${REDIS_CLAIM_PREFIX}${id}:${scheduledFor}`, 1, { nx: true, px: CLAIM_TTL_MS });
+    return claimed === "OK";
+  }
+}
+
+/** Single-replica claim: the latest claimed run per schedule */
+function claimLocally(claims: Map<string, string>, id: string, scheduledFor: string): boolean {
+  if (claims.get(id) === scheduledFor) {
+    return false;
+  }
+  claims.set(id, scheduledFor);
+  return true;
+}
+
+/**
+ * Creates the store selected by CONTAINER_SCHEDULE_STORE.
+ */
+export function createScheduleStore(kind: "memory" | "file" | "redis", filePath: string): ScheduleStore {
+  switch (kind) {
+    case "redis":
+      return new RedisScheduleStore(requireRedis("CONTAINER_SCHEDULE_STORE"));
+    case "file":
+      return new FileScheduleStore(path.resolve(filePath));
+    default:
+      return new MemoryScheduleStore();
+  }
+}
+
+/**
+ * The gateway's schedule store (shared by the scheduler and the schedules API).
+ */
+export const scheduleStore = createScheduleStore(config.containerSchedules.store, config.containerSchedules.file);
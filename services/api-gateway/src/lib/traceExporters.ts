@@ -0,0 +1,211 @@
+import { createWriteStream, type WriteStream } from "fs";
+import type { Attributes, FinishedSpan, SpanExporter } from "./tracing";
+import { createChildLogger } from "./logger";
+
+const log = createChildLogger({ service: "tracing" });
+
+export interface TracingExporterConfig {
+  exporter: "none" | "otlp" | "console" | "file";
+  serviceName: string;
+  otlp: { endpoint: string; headers: Record<string, string> } | null;
+  filePath: string;
+}
+
+// =============================================================================
+// OTLP/HTTP (JSON)
+// =============================================================================
+
+/** Spans sent per export request */
+const OTLP_MAX_BATCH = 512;
+/** Spans buffered while the collector is slow or down; newer spans are dropped beyond this */
+const OTLP_MAX_QUEUE = 2048;
+const OTLP_FLUSH_INTERVAL_MS = 5000;
+const OTLP_TIMEOUT_MS = 10000;
+
+const OTLP_SPAN_KIND = { internal: 1, server: 2, client: 3 } as const;
+const OTLP_STATUS_CODE = { unset: 0, ok: 1, error: 2 } as const;
+
+/**
+ * Batches spans and posts them to an OpenTelemetry collector at
+ * `<endpoint>/v1/traces` using the OTLP/HTTP JSON encoding.
+ * Export failures are logged and the batch is dropped.
+ */
+export class OtlpHttpExporter implements SpanExporter {
+  private queue: FinishedSpan[] = [];
+  private dropped = 0;
+  private readonly timer: NodeJS.Timeout;
+
+  constructor(
+    private readonly endpoint: string,
+    private readonly headers: Record<string, string>,
+    private readonly serviceName: string
+  ) {
+    this.timer = setInterval(() => void this.flush(), OTLP_FLUSH_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  export(span: FinishedSpan): void {
+    if (this.queue.length >= OTLP_MAX_QUEUE) {
+      this.dropped++;
+      return;
+    }
+    this.queue.push(span);
+    if (this.queue.length >= OTLP_MAX_BATCH) {
+      void this.flush();
+    }
+  }
+
+  async shutdown(): Promise<void> {
+    clearInterval(this.timer);
+    await this.flush();
+  }
+
+  private async flush(): Promise<void> {
+    if (this.dropped > 0) {
+      log.warn({ msg: "Trace export queue full, spans dropped", dropped: this.dropped });
+      this.dropped = 0;
+    }
+
+    while (this.queue.length > 0) {
+      const batch = this.queue.splice(0, OTLP_MAX_BATCH);
+      try {
+        const response = await fetch(new URL("v1/traces", this.endpoint.endsWith("/") ? this.endpoint : `${this.endpoint}/`), {
+          method: "POST",
+          headers: { ...this.headers, "Content-Type": "application/json" },
+          body: JSON.stringify(toOtlpRequest(batch, this.serviceName)),
+          signal: AbortSignal.timeout(OTLP_TIMEOUT_MS)
+        });
+        if (!response.ok) {
+          log.warn({ msg: "Trace export rejected", status: response.status, spans: batch.length });
+        }
+      } catch (error) {
+        log.warn({ msg: "Trace export failed", err: error, spans: batch.length });
+        return;
+      }
+    }
+  }
+}
+
+/**
+ * ExportTraceServiceRequest in the OTLP JSON encoding.
+ */
+export function toOtlpRequest(spans: FinishedSpan[], serviceName: string) {
+  return {
+    resourceSpans: [
+      {
+        resource: {
+          attributes: toOtlpAttributes({
+            "service.name": serviceName,
+            "service.version": process.env.npm_package_version ?? "0.1.0"
+          })
+        },
+        scopeSpans: [
+          {
+            scope: { name: "fw-api-gateway" },
+            spans: spans.map((span) => ({
+              traceId: span.traceId,
+              spanId: span.spanId,
+              ...(span.parentSpanId && { parentSpanId: span.parentSpanId }),
+              name: span.name,
+              kind: OTLP_SPAN_KIND[span.kind],
+              startTimeUnixNano: toUnixNano(span.startTimeMs),
+              endTimeUnixNano: toUnixNano(span.endTimeMs),
+              attributes: toOtlpAttributes(span.attributes),
+              events: span.events.map((event) => ({
+                name: event.name,
+                timeUnixNano: toUnixNano(event.timeMs),
+                attributes: toOtlpAttributes(event.attributes)
+              })),
+              status: {
+                code: OTLP_STATUS_CODE[span.status.code],
+                ...(span.status.message && { message: span.status.message })
+              }
+            }))
+          }
+        ]
+      }
+    ]
+  };
+}
+
+function toOtlpAttributes(attributes: Attributes) {
+  return Object.entries(attributes).map(([key, value]) => ({
+    key,
+    value:
+      typeof value === "string"
+        ? { stringValue: value }
+        : typeof value === "boolean"
+          ? { boolValue: value }
+          : Number.isInteger(value)
+            ? { intValue: String(value) }
+            : { doubleValue: value }
+  }));
+}
+
+/** Epoch milliseconds to a nanosecond string (64-bit values do not fit a JSON number) */
+function toUnixNano(ms: number): string {
+  return (BigInt(Math.round(ms * 1000)) * 1000n).toString();
+}
+
+// =============================================================================
+// LOCAL EXPORTERS
+// =============================================================================
+
+/**
+ * Logs each span through the gateway logger (pretty-printed in development).
+ */
+export class ConsoleSpanExporter implements SpanExporter {
+  export(span: FinishedSpan): void {
+    log.info({
+      msg: `Span ${span.name}`,
+      traceId: span.traceId,
+      spanId: span.spanId,
+      parentSpanId: span.parentSpanId,
+      kind: span.kind,
+      durationMs: Math.round((span.endTimeMs - span.startTimeMs) * 1000) / 1000,
+      status: span.status.code,
+      attributes: span.attributes
+    });
+  }
+
+  async shutdown(): Promise<void> {}
+}
+
+/**
+ * Appends spans to a file as JSON lines.
+ */
+export class FileSpanExporter implements SpanExporter {
+  private readonly stream: WriteStream;
+
+  constructor(path: string) {
+    this.stream = createWriteStream(path, { flags: "a" });
+    this.stream.on("error", (error) => log.warn({ msg: "Trace file write failed", err: error, path }));
+  }
+
+  export(span: FinishedSpan): void {
+    this.stream.write(`${JSON.stringify(span)}\n`);
+  }
+
+  shutdown(): Promise<void> {
+    return new Promise((resolve) => this.stream.end(resolve));
+  }
+}
+
+/**
+ * Exporter for TRACING_EXPORTER (null for "none").
+ */
+export function createSpanExporter(tracing: TracingExporterConfig): SpanExporter | null {
+  switch (tracing.exporter) {
+    case "otlp":
+      if (!tracing.otlp) {
+        throw new Error("TRACING_EXPORTER=otlp requires OTEL_EXPORTER_OTLP_ENDPOINT.");
+      }
+      return new OtlpHttpExporter(tracing.otlp.endpoint, tracing.otlp.headers, tracing.serviceName);
+    case "console":
+      return new ConsoleSpanExporter();
+    case "file":
+      return new FileSpanExporter(tracing.filePath);
+    case "none":
+      return null;
+  }
+}
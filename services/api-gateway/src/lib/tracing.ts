@@ -0,0 +1,309 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { randomBytes } from "crypto";
+import { performance } from "perf_hooks";
+
+/**
+ * Identity of a span as carried by W3C Trace Context headers.
+ */
+export interface SpanContext {
+  /** 32 lower-case hex characters */
+  traceId: string;
+  /** 16 lower-case hex characters */
+  spanId: string;
+  sampled: boolean;
+  /** Vendor-specific `tracestate`, passed through unchanged */
+  traceState?: string;
+}
+
+export type SpanKind = "server" | "client" | "internal";
+
+export type AttributeValue = string | number | boolean;
+
+export type Attributes = Record<string, AttributeValue>;
+
+/**
+ * A completed span handed to the exporter.
+ */
+export interface FinishedSpan {
+  name: string;
+  kind: SpanKind;
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  /** Epoch milliseconds (sub-millisecond precision) */
+  startTimeMs: number;
+  endTimeMs: number;
+  attributes: Attributes;
+  status: { code: "unset" | "ok" | "error"; message?: string };
+  events: Array<{ name: string; timeMs: number; attributes: Attributes }>;
+}
+
+/**
+ * Destination for finished spans. `export` must not block the request path.
+ */
+export interface SpanExporter {
+  export(span: FinishedSpan): void;
+  /** Flushes buffered spans */
+  shutdown(): Promise<void>;
+}
+
+export interface StartSpanOptions {
+  kind?: SpanKind;
+  attributes?: Attributes;
+  /**
+   * Parent span; defaults to the active span. Pass null to start a new trace.
+   */
+  parent?: SpanContext | null;
+}
+
+// =============================================================================
+// W3C TRACE CONTEXT
+// =============================================================================
+
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+const INVALID_TRACE_ID = "0".repeat(32);
+const INVALID_SPAN_ID = "0".repeat(16);
+
+/**
+ * Parses a `traceparent` header (and its `tracestate`); returns null when it is
+ * missing or malformed, in which case a new trace is started.
+ */
+export function parseTraceparent(
+  traceparent: string | string[] | undefined,
+  tracestate?: string | string[]
+): SpanContext | null {
+  if (typeof traceparent !== "string") {
+    return null;
+  }
+  const match = TRACEPARENT_PATTERN.exec(traceparent.trim().toLowerCase());
+  if (!match) {
+    return null;
+  }
+  const [, version, traceId, spanId, flags, suffix] = match;
+  // Version ff is forbidden; version 00 has no further fields
+  if (version === "ff" || (version === "00" && suffix !== undefined)) {
+    return null;
+  }
+  if (traceId === INVALID_TRACE_ID || spanId === INVALID_SPAN_ID) {
+    return null;
+  }
+
+  const traceState = Array.isArray(tracestate) ? tracestate.join(",") : tracestate;
+  return {
+    traceId,
+    spanId,
+    sampled: (parseInt(flags, 16) & 1) === 1,
+    ...(traceState && { traceState })
+  };
+}
+
+export function formatTraceparent(context: SpanContext): string {
+  return `00-${context.traceId}-${context.spanId}-${context.sampled ? "01" : "00"}`;
+}
+
+/**
+ * Headers that continue the trace in a downstream call made within `context`.
+ */
+export function traceHeaders(context: SpanContext): Record<string, string> {
+  return {
+    traceparent: formatTraceparent(context),
+    ...(context.traceState && { tracestate: context.traceState })
+  };
+}
+
+// =============================================================================
+// SPANS
+// =============================================================================
+
+/**
+ * A unit of work within a trace. Unsampled spans still carry IDs so the trace
+ * context is propagated, but are never exported.
+ */
+export class Span {
+  private attributes: Attributes;
+  private status: FinishedSpan["status"] = { code: "unset" };
+  private events: FinishedSpan["events"] = [];
+  private readonly startTimeMs = preciseNow();
+  private ended = false;
+
+  constructor(
+    private readonly tracer: Tracer,
+    readonly name: string,
+    readonly kind: SpanKind,
+    readonly context: SpanContext,
+    readonly parentSpanId: string | undefined,
+    attributes: Attributes
+  ) {
+    this.attributes = { ...attributes };
+  }
+
+  setAttribute(key: string, value: AttributeValue): this {
+    this.attributes[key] = value;
+    return this;
+  }
+
+  setStatus(code: "ok" | "error", message?: string): this {
+    this.status = { code, ...(message && { message }) };
+    return this;
+  }
+
+  /**
+   * Records an exception event and marks the span as failed.
+   */
+  recordException(error: unknown): this {
+    const err = error instanceof Error ? error : new Error(String(error));
+    this.events.push({
+      name: "exception",
+      timeMs: preciseNow(),
+      attributes: { "exception.type": err.name, "exception.message": err.message }
+    });
+    return this.setStatus("error", err.message);
+  }
+
+  /** Ends the span; later calls are ignored */
+  end(): void {
+    if (this.ended) {
+      return;
+    }
+    this.ended = true;
+    this.tracer.finish({
+      name: this.name,
+      kind: this.kind,
+      traceId: this.context.traceId,
+      spanId: this.context.spanId,
+      ...(this.parentSpanId && { parentSpanId: this.parentSpanId }),
+      startTimeMs: this.startTimeMs,
+      endTimeMs: preciseNow(),
+      attributes: this.attributes,
+      status: this.status,
+      events: this.events
+    }, this.context.sampled);
+  }
+}
+
+// =============================================================================
+// TRACER
+// =============================================================================
+
+/**
+ * Creates spans, tracks the active span per async context and hands sampled
+ * spans to the exporter.
+ *
+ * Until start() is called (and in tests) spans are created and propagated
+ * but not exported. Sampling is parent-based: a trace started elsewhere keeps
+ * the caller's decision, new traces are sampled at `sampleRatio`.
+ */
+export class Tracer {
+  private exporter: SpanExporter | null = null;
+  private sampleRatio = 1;
+  private readonly storage = new AsyncLocalStorage<Span>();
+
+  start(exporter: SpanExporter, sampleRatio: number): void {
+    this.exporter = exporter;
+    this.sampleRatio = sampleRatio;
+  }
+
+  /**
+   * Flushes and detaches the exporter.
+   */
+  async stop(): Promise<void> {
+    const exporter = this.exporter;
+    this.exporter = null;
+    await exporter?.shutdown();
+  }
+
+  startSpan(name: string, options: StartSpanOptions = {}): Span {
+    const parent = options.parent === undefined ? this.active()?.context : options.parent;
+    const context: SpanContext = {
+      traceId: parent?.traceId ?? randomBytes(16).toString("hex"),
+      spanId: randomBytes(8).toString("hex"),
+      sampled: parent ? parent.sampled : Math.random() < this.sampleRatio,
+      ...(parent?.traceState && { traceState: parent.traceState })
+    };
+    return new Span(this, name, options.kind ?? "internal", context, parent?.spanId, options.attributes ?? {});
+  }
+
+  /** Span of the current async context, if any */
+  active(): Span | undefined {
+    return this.storage.getStore();
+  }
+
+  /**
+   * Runs `fn` with `span` as the active span (inherited by async work it starts).
+   */
+  withSpan<T>(span: Span, fn: () => T): T {
+    return this.storage.run(span, fn);
+  }
+
+  /**
+   * Runs `fn` in a new active span that is ended when it settles; a thrown
+   * error is recorded on the span and rethrown.
+   */
+  async trace<T>(name: string, options: StartSpanOptions, fn: (span: Span) => Promise<T>): Promise<T> {
+    const span = this.startSpan(name, options);
+    try {
+      return await this.withSpan(span, () => fn(span));
+    } catch (error) {
+      span.recordException(error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /** @internal Called by Span.end() */
+  finish(span: FinishedSpan, sampled: boolean): void {
+    if (sampled) {
+      this.exporter?.export(span);
+    }
+  }
+}
+
+/**
+ * `fetch` in a client span, with the trace context injected into the request.
+ * Responses with status >= 400 mark the span as failed.
+ */
+export async function tracedFetch(
+  name: string,
+  url: string | URL,
+  init: RequestInit = {},
+  attributes: Attributes = {}
+): Promise<globalThis.Response> {
+  return tracer.trace(
+    name,
+    {
+      kind: "client",
+      attributes: { "http.request.method": init.method ?? "GET", "url.full": String(url), ...attributes }
+    },
+    async (span) => {
+      const headers = new Headers(init.headers);
+      for (const [header, value] of Object.entries(traceHeaders(span.context))) {
+        headers.set(header, value);
+      }
+
+      const response = await fetch(url, { ...init, headers });
+      span.setAttribute("http.response.status_code", response.status);
+      if (response.status >= 400) {
+        span.setStatus("error", `HTTP ${response.status}`);
+      }
+      return response;
+    }
+  );
+}
+
+/**
+ * Trace and span IDs of the active span, for log correlation.
+ */
+export function activeTraceFields(): { traceId: string; spanId: string } | Record<string, never> {
+  const span = tracer.active();
+  return span ? { traceId: span.context.traceId, spanId: span.context.spanId } : {};
+}
+
+function preciseNow(): number {
+  return performance.timeOrigin + performance.now();
+}
+
+/**
+ * Gateway tracer; index.ts attaches the configured exporter.
+ */
+export const tracer = new Tracer();
@@ -0,0 +1,26 @@
+import type { z } from "zod";
+import { ApiError } from "../middleware/errorHandler";
+
+/**
+ * Validates a request body, failing with 400 VALIDATION_ERROR.
+ */
+export function parseBody<T extends z.ZodTypeAny>(schema: T, body: unknown): z.infer<T> {
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    const message = result.error.issues.map((issue) => `${issue.path.join(".") || "body"}: ${issue.message}`).join("; ");
+    throw new ApiError(400, "VALIDATION_ERROR", message);
+  }
+  return result.data;
+}
+
+/**
+ * Validates query parameters, failing with 400 VALIDATION_ERROR.
+ */
+export function parseQuery<T extends z.ZodTypeAny>(schema: T, query: unknown): z.infer<T> {
+  const result = schema.safeParse(query);
+  if (!result.success) {
+    const message = result.error.issues.map((issue) => `${issue.path.join(".") || "query"}: ${issue.message}`).join("; ");
+    throw new ApiError(400, "VALIDATION_ERROR", message);
+  }
+  return result.data;
+}
@@ -1,51 +1,206 @@
-import { timingSafeEqual } from "crypto";
-import type { Request, Response, NextFunction } from "express";
-import { config } from "../config";
+import { BlockList, isIPv4, isIPv6 } from "net";
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import { config, type StaticApiKey } from "../config";
+import { apiKeyStore, type ApiKeyStore } from "../lib/apiKeyStore";
+import { parseManagedKey, verifySecret } from "../lib/apiKeys";
+import { metrics } from "../lib/metrics";
 
 /**
- * Performs a timing-safe comparison of two strings.
- * Prevents timing attacks by ensuring comparison takes constant time.
+ * Identity of the API key that authenticated a request.
+ * Attached to `req.apiKey` by the guard. `id` is only set for managed keys,
+ * `token` only for requests authenticated with a gateway token.
  */
-function timingSafeCompare(a: string, b: string): boolean {
-  if (a.length !== b.length) {
-    // Compare against itself to maintain constant time even when lengths differ
-    const dummy = Buffer.from(a);
-    timingSafeEqual(dummy, dummy);
+export interface ApiKeyIdentity {
+  id?: string;
+  name: string;
+  scopes: string[];
+  token?: { subject: string; role: string };
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      apiKey?: ApiKeyIdentity;
+    }
+  }
+}
+
+/**
+ * Key resolved from the header, before expiry / revocation / IP checks.
+ */
+interface ResolvedKey {
+  identity: ApiKeyIdentity;
+  expiresAt: Date | null;
+  revoked: boolean;
+  allowList: BlockList | null;
+}
+
+/**
+ * Builds an IP allow-list from CIDR strings (IPv4 and IPv6).
+ */
+function buildBlockList(cidrs: string[]): BlockList | null {
+  if (cidrs.length === 0) {
+    return null;
+  }
+
+  const list = new BlockList();
+  for (const cidr of cidrs) {
+    const [network, prefix] = cidr.split("/");
+    list.addSubnet(network, Number(prefix), isIPv6(network) ? "ipv6" : "ipv4");
+  }
+  return list;
+}
+
+/**
+ * Checks the client IP against an allow-list, unwrapping IPv4-mapped IPv6 addresses.
+ */
+function isIpAllowed(list: BlockList, ip: string | undefined): boolean {
+  if (!ip) {
     return false;
   }
-  return timingSafeEqual(Buffer.from(a), Buffer.from(b));
+  const mapped = ip.startsWith("::ffff:") ? ip.slice(7) : ip;
+  if (isIPv4(mapped)) {
+    return list.check(mapped, "ipv4");
+  }
+  return isIPv6(ip) && list.check(ip, "ipv6");
+}
+
+/**
+ * Sends an authentication / authorization error and counts it by code.
+ */
+function reject(res: Response, statusCode: 401 | 403, code: string, message: string): Response {
+  metrics.authFailures.inc({ code });
+  return res.status(statusCode).json({ status: "error", code, message });
 }
 
 /**
- * Validates the API key from the request header against configured keys.
- * Uses timing-safe comparison to prevent timing attacks.
+ * Returns true when any granted scope covers the required one.
+ * `*` grants everything, `resource:*` grants every action on a resource.
  */
-function isValidApiKey(providedKey: string): boolean {
-  return config.apiKeys.some((validKey) => timingSafeCompare(providedKey, validKey));
+export function hasScope(granted: string[], required: string): boolean {
+  const [resource] = required.split(":");
+  return granted.some((scope) => scope === "*" || scope === required || scope === `${resource}:*`);
 }
 
 /**
- * Express middleware that guards routes with API key authentication.
+ * Creates a guard that authenticates requests against static keys
+ * (API_KEYS_FILE / FW_ADMIN_API_KEYS) and managed keys from the store.
  * Expects the API key in the 'x-fw-admin-key' header.
+ *
+ * Managed keys (`fwk_<id>_<secret>`) are looked up by id and verified
+ * against their salted hash. Static keys arrive already hashed (see
+ * hashStaticKeys), so their plaintext is not kept around either.
+ *
+ * Rejects missing, unknown, expired and revoked keys (401) and requests
+ * from IPs outside a key's allowed CIDRs (403). On success the key identity
+ * is attached to `req.apiKey` and bound to the request logger.
  */
-export function apiKeyGuard(req: Request, res: Response, next: NextFunction) {
-  const key = req.headers["x-fw-admin-key"];
+export function createApiKeyGuard(keys: StaticApiKey[], store?: ApiKeyStore): RequestHandler {
+  const staticKeys = keys.map((key) => ({
+    salt: key.salt,
+    hash: key.hash,
+    resolved: {
+      identity: { name: key.name, scopes: key.scopes },
+      expiresAt: key.expiresAt,
+      revoked: false,
+      allowList: buildBlockList(key.allowedCidrs)
+    } satisfies ResolvedKey
+  }));
 
-  if (!key || Array.isArray(key)) {
-    return res.status(401).json({
-      status: "error",
-      code: "MISSING_API_KEY",
-      message: "API key is required in x-fw-admin-key header"
-    });
-  }
+  async function resolve(key: string): Promise<ResolvedKey | null> {
+    const managed = store ? parseManagedKey(key) : null;
+    if (managed && store) {
+      const record = await store.get(managed.id);
+      if (!record || !verifySecret(managed.secret, record.salt, record.hash)) {
+        return null;
+      }
+      return {
+        identity: { id: record.id, name: record.name, scopes: record.scopes },
+        expiresAt: record.expiresAt ? new Date(record.expiresAt) : null,
+        revoked: record.revokedAt !== null,
+        allowList: buildBlockList(record.allowedCidrs)
+      };
+    }
 
-  if (!isValidApiKey(key)) {
-    return res.status(401).json({
-      status: "error",
-      code: "INVALID_API_KEY",
-      message: "Invalid API key"
-    });
+    // Check every static key so lookup time does not reveal which key matched
+    let match: ResolvedKey | null = null;
+    for (const entry of staticKeys) {
+      if (verifySecret(key, entry.salt, entry.hash) && !match) {
+        match = entry.resolved;
+      }
+    }
+    return match;
   }
 
-  return next();
+  return (req: Request, res: Response, next: NextFunction) => {
+    // Already authenticated by gatewayTokenGuard
+    if (req.apiKey?.token) {
+      return next();
+    }
+
+    const key = req.headers["x-fw-admin-key"];
+
+    if (!key || Array.isArray(key)) {
+      return reject(res, 401, "MISSING_API_KEY", "API key is required in x-fw-admin-key header");
+    }
+
+    resolve(key)
+      .then((match) => {
+        if (!match) {
+          return reject(res, 401, "INVALID_API_KEY", "Invalid API key");
+        }
+
+        if (match.revoked) {
+          return reject(res, 401, "REVOKED_API_KEY", "API key has been revoked");
+        }
+
+        if (match.expiresAt && match.expiresAt.getTime() <= Date.now()) {
+          return reject(res, 401, "EXPIRED_API_KEY", "API key has expired");
+        }
+
+        if (match.allowList && !isIpAllowed(match.allowList, req.ip ?? req.socket.remoteAddress)) {
+          return reject(res, 403, "IP_NOT_ALLOWED", "API key is not allowed from this IP address");
+        }
+
+        req.apiKey = match.identity;
+        req.log?.setBindings({ apiKey: match.identity.name });
+
+        return next();
+      })
+      .catch(next);
+  };
+}
+
+/**
+ * Express middleware that guards routes with API key authentication,
+ * using the keys from API_KEYS_FILE and FW_ADMIN_API_KEYS plus managed
+ * keys from API_KEY_STORE.
+ */
+export const apiKeyGuard = createApiKeyGuard(config.apiKeys, apiKeyStore);
+
+/**
+ * Requires the authenticated key to hold a scope.
+ * Must run after apiKeyGuard. The scope may be derived from the request,
+ * e.g. a read scope for GET and a write scope for everything else.
+ */
+export function requireScope(scope: string | ((req: Request) => string)): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const required = typeof scope === "function" ? scope(req) : scope;
+
+    if (!req.apiKey || !hasScope(req.apiKey.scopes, required)) {
+      return reject(res, 403, "INSUFFICIENT_SCOPE", `API key is missing the required scope: ${required}`);
+    }
+
+    return next();
+  };
+}
+
+const READ_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
+
+/**
+ * Scope resolver for resources split by method: `<resource>:read` for
+ * GET/HEAD/OPTIONS and `<resource>:write` for everything else.
+ */
+export function methodScope(resource: string): (req: Request) => string {
+  return (req) => `${resource}:${READ_METHODS.has(req.method) ? "read" : "write"}`;
 }
@@ -0,0 +1,61 @@
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import { config } from "../config";
+import { GatewayTokenError, verifyGatewayToken, type GatewayTokenOptions } from "../lib/gatewayToken";
+import { metrics } from "../lib/metrics";
+
+/**
+ * Creates a guard for short-lived gateway tokens (`Authorization: Bearer <jwt>`),
+ * minted by the dashboard server so browsers never hold an API key.
+ * Must run before apiKeyGuard.
+ *
+ * - No bearer token: passes through to apiKeyGuard.
+ * - Valid token: attaches the identity to `req.apiKey` (named `user:<subject>`,
+ *   with the token's scopes) so apiKeyGuard and requireScope treat it like a key.
+ * - Invalid or expired token: 401 INVALID_TOKEN / EXPIRED_TOKEN.
+ *
+ * Pass null to disable tokens (GATEWAY_TOKEN_SECRET not set).
+ */
+export function createGatewayTokenGuard(options: GatewayTokenOptions | null): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const authorization = req.headers.authorization;
+    if (!authorization?.startsWith("Bearer ") || req.headers["x-fw-admin-key"] !== undefined) {
+      return next();
+    }
+
+    if (!options) {
+      metrics.authFailures.inc({ code: "INVALID_TOKEN" });
+      return res.status(401).json({
+        status: "error",
+        code: "INVALID_TOKEN",
+        message: "Gateway tokens are not enabled, use the x-fw-admin-key header"
+      });
+    }
+
+    verifyGatewayToken(authorization.slice("Bearer ".length).trim(), options)
+      .then((claims) => {
+        req.apiKey = {
+          name: `user:${claims.subject}`,
+          scopes: claims.scopes,
+          token: { subject: claims.subject, role: claims.role }
+        };
+        req.log?.setBindings({ apiKey: req.apiKey.name });
+        return next();
+      })
+      .catch((error) => {
+        if (!(error instanceof GatewayTokenError)) {
+          return next(error);
+        }
+        metrics.authFailures.inc({ code: error.code });
+        return res.status(401).json({
+          status: "error",
+          code: error.code,
+          message: error.message
+        });
+      });
+  };
+}
+
+/**
+ * Express middleware that accepts gateway tokens signed with GATEWAY_TOKEN_SECRET.
+ */
+export const gatewayTokenGuard = createGatewayTokenGuard(config.gatewayTokens);
@@ -0,0 +1,224 @@
+import { createHash } from "crypto";
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import type { IdempotencyStore, StoredResponse } from "../lib/idempotencyStore";
+import { logger } from "../lib/logger";
+import { captureResponseBody, storableHeaders } from "../lib/responseCapture";
+import { ApiError } from "./errorHandler";
+
+export interface IdempotencyOptions {
+  store: IdempotencyStore;
+  /** How long completed responses are replayable (ms) */
+  ttlMs: number;
+  /**
+   * How long an in-flight claim holds the key (ms): the longest the request
+   * can take. A claim left by a crashed replica then lapses soon; the key is
+   * kept for `ttlMs` once the response is stored.
+   */
+  inFlightTtlMs: number;
+  /** Responses with larger bodies are not stored */
+  maxBodyBytes: number;
+  /** Namespace for keys, e.g. the upstream service id */
+  scope: string;
+}
+
+const MAX_KEY_LENGTH = 255;
+
+/** Response header set on replayed responses */
+const REPLAYED_HEADER = "idempotent-replayed";
+
+/** Headers that are specific to one HTTP exchange and must not be replayed */
+const UNREPLAYABLE_HEADERS = new Set([
+  "connection",
+  "keep-alive",
+  "transfer-encoding",
+  "date",
+  "set-cookie",
+  "x-request-id",
+  "ratelimit",
+  "ratelimit-policy"
+]);
+
+/**
+ * Honours the `Idempotency-Key` header on POST requests.
+ *
+ * - First request: the key is claimed for `inFlightTtlMs`, the request is
+ *   forwarded, and the response (status, headers, body up to `maxBodyBytes`)
+ *   is stored for `ttlMs`.
+ *   5xx responses are not stored so the client can try again.
+ * - Repeat with the same body: the stored response is replayed.
+ * - Repeat with a different body: 422 IDEMPOTENCY_KEY_MISMATCH.
+ * - Repeat while the first is still in flight: 409 IDEMPOTENCY_KEY_IN_PROGRESS.
+ *
+ * Keys are scoped per upstream and per gateway API key. Store failures are
+ * logged and the request is forwarded without idempotency protection.
+ */
+export function createIdempotencyMiddleware(options: IdempotencyOptions): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (req.method !== "POST") {
+      return next();
+    }
+
+    const idempotencyKey = req.headers["idempotency-key"];
+    if (idempotencyKey === undefined) {
+      return next();
+    }
+
+    if (Array.isArray(idempotencyKey) || idempotencyKey.length === 0 || idempotencyKey.length > MAX_KEY_LENGTH) {
+      return next(
+        new ApiError(400, "INVALID_IDEMPOTENCY_KEY", `Idempotency-Key must be a single value of 1-${MAX_KEY_LENGTH} characters`)
+      );
+    }
+
+    handleIdempotentRequest(options, idempotencyKey, req, res, next).catch(next);
+  };
+}
+
+async function handleIdempotentRequest(
+  options: IdempotencyOptions,
+  idempotencyKey: string,
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  const log = req.log ?? logger;
+  const storeKey = `${options.scope}:${clientScope(req)}:${idempotencyKey}`;
+
+  // Bodies parsed by express.json/urlencoded can be fingerprinted up front
+  const bodyParsed = req.readableEnded;
+  const knownFingerprint = bodyParsed ? fingerprint(req, JSON.stringify(req.body ?? null)) : null;
+
+  let existing;
+  try {
+    existing = await options.store.claim(
+      storeKey,
+      { fingerprint: knownFingerprint ?? "", state: "in-flight", createdAt: new Date().toISOString() },
+      options.inFlightTtlMs
+    );
+  } catch (error) {
+    log.warn({ msg: "Idempotency store unavailable, forwarding request", err: error });
+    return next();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Repeat request
+  // ---------------------------------------------------------------------------
+
+  if (existing) {
+    if (existing.state === "in-flight") {
+      return next(
+        new ApiError(409, "IDEMPOTENCY_KEY_IN_PROGRESS", "A request with this Idempotency-Key is still being processed")
+      );
+    }
+
+    const repeatFingerprint = knownFingerprint ?? fingerprint(req, await hashStream(req));
+    if (repeatFingerprint !== existing.fingerprint) {
+      return next(
+        new ApiError(422, "IDEMPOTENCY_KEY_MISMATCH", "Idempotency-Key was already used with a different request body")
+      );
+    }
+
+    log.info({ msg: "Replaying idempotent response", statusCode: existing.response?.statusCode });
+    return replay(res, existing.response);
+  }
+
+  // ---------------------------------------------------------------------------
+  // First request - stream the body through while hashing it, capture the response
+  // ---------------------------------------------------------------------------
+
+  let streamedFingerprint: string | null = null;
+  if (!bodyParsed) {
+    const hash = createHash("sha256");
+    // Pausing first keeps our data listener from starting the flow before the
+    // proxy pipes the body; the flow resumes once a real consumer attaches.
+    req.pause();
+    req.on("data", (chunk: Buffer) => hash.update(chunk));
+    const resumeOnConsumer = (event: string | symbol) => {
+      if (event === "data") {
+        req.off("newListener", resumeOnConsumer);
+        process.nextTick(() => req.resume());
+      }
+    };
+    req.on("newListener", resumeOnConsumer);
+    req.on("end", () => {
+      streamedFingerprint = fingerprint(req, hash.digest("hex"));
+    });
+  }
+
+  const captured = captureResponseBody(res, options.maxBodyBytes);
+  let settled = false;
+
+  res.on("finish", () => {
+    settled = true;
+    const requestFingerprint = knownFingerprint ?? streamedFingerprint;
+    const body = captured.body();
+
+    if (res.statusCode >= 500 || body === null || requestFingerprint === null) {
+      if (body === null) {
+        log.warn({ msg: "Response too large to store for Idempotency-Key", maxBodyBytes: options.maxBodyBytes });
+      }
+      void options.store.release(storeKey).catch((error) => log.warn({ msg: "Idempotency release failed", err: error }));
+      return;
+    }
+
+    const response: StoredResponse = {
+      statusCode: res.statusCode,
+      headers: storableHeaders(res, UNREPLAYABLE_HEADERS),
+      body: body.toString("base64")
+    };
+
+    void options.store
+      .complete(storeKey, { fingerprint: requestFingerprint, state: "completed", createdAt: new Date().toISOString(), response }, options.ttlMs)
+      .catch((error) => log.warn({ msg: "Idempotency store write failed", err: error }));
+  });
+
+  res.on("close", () => {
+    if (!settled) {
+      void options.store.release(storeKey).catch((error) => log.warn({ msg: "Idempotency release failed", err: error }));
+    }
+  });
+
+  return next();
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Scopes keys to the calling client so one API key cannot replay another's responses.
+ */
+function clientScope(req: Request): string {
+  if (req.apiKey) {
+    return `key:${req.apiKey.name}`;
+  }
+  const apiKey = req.headers["x-fw-admin-key"];
+  if (typeof apiKey !== "string") {
+    return "anonymous";
+  }
+  return createHash("sha256").update(apiKey).digest("hex").slice(0, 16);
+}
+
+function fingerprint(req: Request, bodyDigest: string): string {
+  return createHash("sha256").update(`${req.method} ${req.originalUrl}\n${bodyDigest}`).digest("hex");
+}
+
+async function hashStream(req: Request): Promise<string> {
+  const hash = createHash("sha256");
+  for await (const chunk of req) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest("hex");
+}
+
+function replay(res: Response, stored: StoredResponse | undefined): void {
+  if (!stored) {
+    res.status(500).json({ status: "error", code: "INTERNAL_ERROR", message: "Stored idempotent response is missing" });
+    return;
+  }
+
+  for (const [name, value] of Object.entries(stored.headers)) {
+    res.setHeader(name, value);
+  }
+  res.setHeader(REPLAYED_HEADER, "true");
+  res.status(stored.statusCode).end(Buffer.from(stored.body, "base64"));
+}
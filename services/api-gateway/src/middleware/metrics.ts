@@ -0,0 +1,30 @@
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import { metrics } from "../lib/metrics";
+import { resolveRouteGroup, type RouteGroup } from "../lib/routeGroups";
+
+/**
+ * Records request counts and durations labelled by route group, method and
+ * status. Route groups keep label cardinality bounded: paths are never used
+ * as labels, and unknown paths are counted as "unmatched". Requests the
+ * client abandoned before the response finished get status "aborted".
+ *
+ * Mount first so every response, including rejections, is counted.
+ */
+export function createRequestMetrics(groups: RouteGroup[]): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const startTime = process.hrtime.bigint();
+    const route = resolveRouteGroup(groups, req.originalUrl);
+
+    res.once("close", () => {
+      const labels = {
+        route,
+        method: req.method,
+        status: res.writableFinished ? String(res.statusCode) : "aborted"
+      };
+      metrics.httpRequests.inc(labels);
+      metrics.httpRequestDuration.observe(labels, Number(process.hrtime.bigint() - startTime) / 1e9);
+    });
+
+    return next();
+  };
+}
@@ -1,11 +1,34 @@
-import rateLimit from "express-rate-limit";
-import { config } from "../config";
+import rateLimit, { type RateLimitExceededEventHandler } from "express-rate-limit";
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import { config, type RateLimitPolicy } from "../config";
+import { createRateLimitStore } from "../lib/rateLimitStore";
+import { metrics } from "../lib/metrics";
+
+/**
+ * Client IP used as the rate limit key.
+ * `req.ip` only honours X-Forwarded-For entries added by proxies trusted via
+ * TRUST_PROXY, so clients cannot pick their own bucket with a spoofed header.
+ */
+function clientIp(req: Request): string {
+  return req.ip ?? req.socket.remoteAddress ?? "unknown";
+}
+
+/**
+ * Sends the limiter's error envelope and counts the rejection under `limiter`.
+ */
+function rejectAndCount(limiter: string): RateLimitExceededEventHandler {
+  return (_req, res, _next, options) => {
+    metrics.rateLimitRejections.inc({ limiter });
+    res.status(options.statusCode).send(options.message);
+  };
+}
 
 /**
  * Global rate limiter for all API requests.
  * Configured via environment variables:
  * - RATE_LIMIT_WINDOW_MS: Time window in milliseconds (default: 60000 = 1 minute)
  * - RATE_LIMIT_MAX_REQUESTS: Max requests per window (default: 100)
+ * - RATE_LIMIT_STORE: memory (per replica) or redis (shared across replicas)
  */
 export const globalRateLimiter = rateLimit({
   windowMs: config.rateLimit.windowMs,
@@ -17,26 +40,24 @@ export const globalRateLimiter = rateLimit({
     code: "RATE_LIMITED",
     message: "Too many requests, please try again later"
   },
+  handler: rejectAndCount("global"),
   // Skip rate limiting for health checks
   skip: (req) => req.path === "/api/v1/health",
-  // Use request IP as the key
-  keyGenerator: (req) => {
-    // Trust X-Forwarded-For header when behind a proxy
-    const forwarded = req.headers["x-forwarded-for"];
-    if (typeof forwarded === "string") {
-      return forwarded.split(",")[0].trim();
-    }
-    return req.ip ?? "unknown";
-  }
+  keyGenerator: clientIp,
+  store: createRateLimitStore(config.rateLimit.store, "global"),
+  // Fail open if the shared store is unreachable
+  passOnStoreError: true
 });
 
 /**
  * Stricter rate limiter for authentication-related endpoints.
- * More restrictive to prevent brute-force attacks.
+ * More restrictive to prevent brute-force attacks: only failed
+ * authentications (401) count against the budget.
+ * Must be mounted before apiKeyGuard.
  */
 export const authRateLimiter = rateLimit({
-  windowMs: 15 * 60 * 1000, // 15 minutes
-  limit: 10, // 10 attempts per window
+  windowMs: config.rateLimit.auth.windowMs, // default 15 minutes
+  limit: config.rateLimit.auth.maxFailures, // default 10 failed attempts per window
   standardHeaders: "draft-7",
   legacyHeaders: false,
   message: {
@@ -44,11 +65,64 @@ export const authRateLimiter = rateLimit({
     code: "AUTH_RATE_LIMITED",
     message: "Too many authentication attempts, please try again later"
   },
-  keyGenerator: (req) => {
-    const forwarded = req.headers["x-forwarded-for"];
-    if (typeof forwarded === "string") {
-      return forwarded.split(",")[0].trim();
-    }
-    return req.ip ?? "unknown";
-  }
+  handler: rejectAndCount("auth"),
+  skipSuccessfulRequests: true,
+  requestWasSuccessful: (_req, res) => res.statusCode !== 401,
+  keyGenerator: clientIp,
+  store: createRateLimitStore(config.rateLimit.store, "auth"),
+  passOnStoreError: true
 });
+
+/**
+ * Returns true when the policy covers the request path (prefix match) and method.
+ */
+function matchesPolicy(policy: RateLimitPolicy, method: string, path: string): boolean {
+  if (policy.methods && !policy.methods.includes(method as (typeof policy.methods)[number])) {
+    return false;
+  }
+  return policy.paths.some((prefix) => path === prefix || path.startsWith(`${prefix}/`));
+}
+
+/**
+ * Creates a limiter that applies the first matching policy to each request.
+ * Requests no policy matches are only subject to the global limiter.
+ *
+ * Must run after apiKeyGuard so `keyBy: api-key` policies can count (and
+ * override limits) per key name; unauthenticated requests are counted per IP.
+ */
+export function createPolicyRateLimiter(policies: RateLimitPolicy[], store: "memory" | "redis"): RequestHandler {
+  const limiters = policies.map((policy) => ({
+    policy,
+    limiter: rateLimit({
+      windowMs: policy.windowMs,
+      limit: (req) => (req.apiKey && policy.keyLimits[req.apiKey.name]) || policy.limit,
+      identifier: policy.name,
+      standardHeaders: "draft-7",
+      legacyHeaders: false,
+      message: {
+        status: "error",
+        code: "RATE_LIMITED",
+        message: `Rate limit exceeded for ${policy.name}, please try again later`
+      },
+      handler: rejectAndCount(`policy:${policy.name}`),
+      keyGenerator: (req) =>
+        policy.keyBy === "api-key" && req.apiKey ? `key:${req.apiKey.name}` : `ip:${clientIp(req)}`,
+      store: createRateLimitStore(store, `policy:${policy.name}`),
+      passOnStoreError: true
+    })
+  }));
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const path = req.originalUrl.split("?")[0];
+    const match = limiters.find(({ policy }) => matchesPolicy(policy, req.method, path));
+    if (!match) {
+      return next();
+    }
+    return match.limiter(req, res, next);
+  };
+}
+
+/**
+ * Per-route-group limiter built from RATE_LIMIT_POLICIES(_FILE).
+ */
+export const policyRateLimiter = createPolicyRateLimiter(config.rateLimit.policies, config.rateLimit.store);
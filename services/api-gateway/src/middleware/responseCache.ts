@@ -0,0 +1,296 @@
+import { createHash } from "crypto";
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import type { CachedResponse, ResponseCacheStore } from "../lib/responseCacheStore";
+import { captureResponseBody, storableHeaders } from "../lib/responseCapture";
+import { logger } from "../lib/logger";
+import { setNoStoreHeaders } from "./security";
+
+/**
+ * Freshness rules for one cached route.
+ */
+export interface ResponseCachePolicy {
+  /** How long a stored response is served without contacting the origin (ms) */
+  ttlMs: number;
+  /** How long after `ttlMs` a stale response is still served while it is refreshed (ms) */
+  staleWhileRevalidateMs: number;
+}
+
+/**
+ * Response produced by a background revalidation.
+ */
+export interface RevalidatedResponse {
+  statusCode: number;
+  /** Lower-case header names */
+  headers: Record<string, string | string[]>;
+  body: Buffer;
+}
+
+export interface ResponseCacheOptions {
+  store: ResponseCacheStore;
+  policy: ResponseCachePolicy;
+  /** Responses with larger bodies are not stored */
+  maxBodyBytes: number;
+  /** Namespace for keys, e.g. the upstream service id */
+  scope: string;
+  /** Fetches a fresh copy of the response while a stale one is being served */
+  revalidate: (req: Request) => Promise<RevalidatedResponse>;
+  /** Requests that bypass the cache entirely */
+  skip?: (req: Request) => boolean;
+}
+
+/** Response header reporting how the cache answered: HIT, STALE or MISS */
+const CACHE_STATUS_HEADER = "x-cache";
+
+/** Headers that are specific to one HTTP exchange or rewritten when serving from the cache */
+const UNSTORED_HEADERS = new Set([
+  "connection",
+  "keep-alive",
+  "transfer-encoding",
+  "content-length",
+  "content-encoding",
+  "date",
+  "set-cookie",
+  "x-request-id",
+  "ratelimit",
+  "ratelimit-policy",
+  "cache-control",
+  "pragma",
+  "expires",
+  "age",
+  "etag",
+  "x-upstream-retries",
+  CACHE_STATUS_HEADER
+]);
+
+/**
+ * Opt-in cache for GET responses.
+ *
+ * - Fresh entry (younger than `ttlMs`): served with `x-cache: HIT`.
+ * - Stale entry (within `staleWhileRevalidateMs` after that): served with
+ *   `x-cache: STALE` while `revalidate` refreshes it in the background
+ *   (at most one refresh per key and replica at a time).
+ * - No usable entry: the request goes to the origin (`x-cache: MISS`) and a
+ *   200 response is stored, unless it sets cookies, is marked `no-store` or
+ *   `private`, or exceeds `maxBodyBytes`.
+ *
+ * Cached responses carry an ETag (`If-None-Match` gets a 304) and a
+ * `Cache-Control: private, max-age` matching the remaining freshness; the
+ * gateway's `no-store` default is kept for responses that are not stored.
+ * Must run after authentication: entries are shared by every caller allowed
+ * to reach the route. Store failures are logged and the request is forwarded.
+ */
+export function createResponseCache(options: ResponseCacheOptions): RequestHandler {
+  // Keys with a background revalidation in flight on this replica
+  const revalidating = new Set<string>();
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (req.method !== "GET" || options.skip?.(req)) {
+      return next();
+    }
+
+    handleCacheableRequest(options, revalidating, req, res, next).catch(next);
+  };
+}
+
+async function handleCacheableRequest(
+  options: ResponseCacheOptions,
+  revalidating: Set<string>,
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  const log = req.log ?? logger;
+  const { policy, store } = options;
+  const key = `${options.scope}:${createHash("sha256").update(req.originalUrl).digest("hex")}`;
+
+  let entry: CachedResponse | null;
+  try {
+    entry = await store.get(key);
+  } catch (error) {
+    log.warn({ msg: "Response cache unavailable, forwarding request", err: error });
+    return next();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Cached entry
+  // ---------------------------------------------------------------------------
+
+  if (entry) {
+    const ageMs = Math.max(0, Date.now() - entry.storedAt);
+    if (ageMs < policy.ttlMs) {
+      return serve(req, res, entry, "HIT", policy);
+    }
+    if (ageMs < policy.ttlMs + policy.staleWhileRevalidateMs) {
+      revalidateInBackground(options, revalidating, key, req);
+      return serve(req, res, entry, "STALE", policy);
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Miss - forward the request and store the response
+  // ---------------------------------------------------------------------------
+
+  res.setHeader(CACHE_STATUS_HEADER, "MISS");
+  // Cached bodies are stored uncompressed so they can be served to any client
+  delete req.headers["accept-encoding"];
+  // The origin's own Cache-Control (if any) decides whether the response may be stored
+  res.removeHeader("cache-control");
+  res.removeHeader("pragma");
+  res.removeHeader("expires");
+
+  let storable = false;
+  const originalWriteHead = res.writeHead.bind(res) as (...args: unknown[]) => Response;
+  res.writeHead = ((...args: unknown[]) => {
+    const statusCode = typeof args[0] === "number" ? args[0] : res.statusCode;
+    storable = isStorable(statusCode, res.getHeader("cache-control"), res.getHeader("set-cookie"));
+    if (storable) {
+      setFreshnessHeaders(res, policy, 0);
+    } else if (!res.hasHeader("cache-control")) {
+      setNoStoreHeaders(res);
+    }
+    return originalWriteHead(...args);
+  }) as Response["writeHead"];
+
+  const captured = captureResponseBody(res, options.maxBodyBytes);
+
+  res.on("finish", () => {
+    if (!storable) {
+      return;
+    }
+    const body = captured.body();
+    if (body === null) {
+      log.warn({ msg: "Response too large to cache", maxBodyBytes: options.maxBodyBytes });
+      return;
+    }
+
+    const etag = res.getHeader("etag");
+    const stored: CachedResponse = {
+      statusCode: res.statusCode,
+      headers: storableHeaders(res, UNSTORED_HEADERS),
+      body: body.toString("base64"),
+      etag: typeof etag === "string" ? etag : computeEtag(body),
+      storedAt: Date.now()
+    };
+
+    void store
+      .set(key, stored, policy.ttlMs + policy.staleWhileRevalidateMs)
+      .catch((error) => log.warn({ msg: "Response cache write failed", err: error }));
+  });
+
+  return next();
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Refreshes a stale entry without holding up the request that found it.
+ */
+function revalidateInBackground(
+  options: ResponseCacheOptions,
+  revalidating: Set<string>,
+  key: string,
+  req: Request
+): void {
+  if (revalidating.has(key)) {
+    return;
+  }
+  revalidating.add(key);
+
+  const log = req.log ?? logger;
+  const { policy, store } = options;
+
+  options
+    .revalidate(req)
+    .then(async (fresh) => {
+      if (
+        !isStorable(fresh.statusCode, fresh.headers["cache-control"], fresh.headers["set-cookie"]) ||
+        fresh.body.length > options.maxBodyBytes
+      ) {
+        log.warn({ msg: "Revalidated response is not cacheable", statusCode: fresh.statusCode });
+        return;
+      }
+
+      const headers = Object.fromEntries(
+        Object.entries(fresh.headers).filter(([name]) => !UNSTORED_HEADERS.has(name))
+      );
+      const etag = fresh.headers.etag;
+      await store.set(
+        key,
+        {
+          statusCode: fresh.statusCode,
+          headers,
+          body: fresh.body.toString("base64"),
+          etag: typeof etag === "string" ? etag : computeEtag(fresh.body),
+          storedAt: Date.now()
+        },
+        policy.ttlMs + policy.staleWhileRevalidateMs
+      );
+    })
+    .catch((error) => log.warn({ msg: "Response cache revalidation failed", err: error }))
+    .finally(() => revalidating.delete(key));
+}
+
+/**
+ * Only complete 200 responses meant for any caller are stored.
+ */
+function isStorable(statusCode: number, cacheControl: unknown, setCookie: unknown): boolean {
+  return (
+    statusCode === 200 &&
+    setCookie === undefined &&
+    !(typeof cacheControl === "string" && /\b(no-store|private)\b/i.test(cacheControl))
+  );
+}
+
+function setFreshnessHeaders(res: Response, policy: ResponseCachePolicy, ageMs: number): void {
+  const maxAgeSeconds = Math.max(0, Math.ceil((policy.ttlMs - ageMs) / 1000));
+  const staleSeconds = Math.ceil(policy.staleWhileRevalidateMs / 1000);
+  res.setHeader(
+    "Cache-Control",
+    staleSeconds > 0
+      ? `private, max-age=${maxAgeSeconds}, stale-while-revalidate=${staleSeconds}`
+      : `private, max-age=${maxAgeSeconds}`
+  );
+  res.removeHeader("pragma");
+  res.removeHeader("expires");
+}
+
+function computeEtag(body: Buffer): string {
+  return `"${createHash("sha256").update(body).digest("base64url").slice(0, 27)}"`;
+}
+
+/**
+ * Weak comparison of an If-None-Match header against the entry's ETag.
+ */
+function matchesEtag(ifNoneMatch: string | undefined, etag: string): boolean {
+  if (!ifNoneMatch) {
+    return false;
+  }
+  const opaque = (tag: string) => tag.trim().replace(/^W\//, "");
+  return ifNoneMatch.split(",").some((tag) => tag.trim() === "*" || opaque(tag) === opaque(etag));
+}
+
+function serve(
+  req: Request,
+  res: Response,
+  entry: CachedResponse,
+  state: "HIT" | "STALE",
+  policy: ResponseCachePolicy
+): void {
+  const ageMs = Math.max(0, Date.now() - entry.storedAt);
+
+  for (const [name, value] of Object.entries(entry.headers)) {
+    res.setHeader(name, value);
+  }
+  setFreshnessHeaders(res, policy, ageMs);
+  res.setHeader("ETag", entry.etag);
+  res.setHeader("Age", String(Math.floor(ageMs / 1000)));
+  res.setHeader(CACHE_STATUS_HEADER, state);
+
+  if (matchesEtag(req.headers["if-none-match"], entry.etag)) {
+    res.status(304).end();
+    return;
+  }
+  res.status(entry.statusCode).end(Buffer.from(entry.body, "base64"));
+}
@@ -1,5 +1,5 @@
 import helmet from "helmet";
-import type { RequestHandler } from "express";
+import type { RequestHandler, Response } from "express";
 import { config } from "../config";
 
 /**
@@ -116,6 +116,16 @@ export const securityHeaders: RequestHandler = helmet({
   originAgentCluster: true
 });
 
+/**
+ * Marks a response as not cacheable by browsers or intermediaries.
+ * Routes opted into the response cache replace these with their own freshness headers.
+ */
+export function setNoStoreHeaders(res: Response): void {
+  res.setHeader("Cache-Control", "no-store, no-cache, must-revalidate, proxy-revalidate");
+  res.setHeader("Pragma", "no-cache");
+  res.setHeader("Expires", "0");
+}
+
 /**
  * Additional security headers not covered by Helmet.
  * Applied after Helmet middleware.
@@ -123,9 +133,7 @@ export const securityHeaders: RequestHandler = helmet({
 export const additionalSecurityHeaders: RequestHandler = (_req, res, next) => {
   // Cache-Control for API responses
   // Prevents caching of sensitive API responses by default
-  res.setHeader("Cache-Control", "no-store, no-cache, must-revalidate, proxy-revalidate");
-  res.setHeader("Pragma", "no-cache");
-  res.setHeader("Expires", "0");
+  setNoStoreHeaders(res);
 
   // Permissions-Policy (formerly Feature-Policy)
   // Disables unnecessary browser features for API responses
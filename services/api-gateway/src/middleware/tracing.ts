@@ -0,0 +1,54 @@
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import { parseTraceparent, type Span, type Tracer } from "../lib/tracing";
+import { resolveRouteGroup, type RouteGroup } from "../lib/routeGroups";
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** Server span of this request (set by the tracing middleware) */
+      span?: Span;
+    }
+  }
+}
+
+/**
+ * Starts a server span per request, continuing the caller's trace when a
+ * valid `traceparent` is sent, and makes it the active span for the rest of
+ * the chain (log lines carry its trace and span IDs).
+ *
+ * Mount after the body parsers: they resume the chain from stream callbacks,
+ * outside the span's async context.
+ */
+export function createTracingMiddleware(tracer: Tracer, groups: RouteGroup[]): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const route = resolveRouteGroup(groups, req.originalUrl);
+    const span = tracer.startSpan(`${req.method} ${route}`, {
+      kind: "server",
+      parent: parseTraceparent(req.headers.traceparent, req.headers.tracestate),
+      attributes: {
+        "http.request.method": req.method,
+        "url.path": req.path,
+        "gateway.route_group": route,
+        "client.address": req.ip ?? ""
+      }
+    });
+    req.span = span;
+
+    res.once("close", () => {
+      if (!res.writableFinished) {
+        span.setStatus("error", "Client closed the connection");
+      } else {
+        span.setAttribute("http.response.status_code", res.statusCode);
+        if (res.statusCode >= 500) {
+          span.setStatus("error", `HTTP ${res.statusCode}`);
+        }
+      }
+      if (req.apiKey) {
+        span.setAttribute("gateway.api_key", req.apiKey.name);
+      }
+      span.end();
+    });
+
+    return tracer.withSpan(span, () => next());
+  };
+}
@@ -0,0 +1,41 @@
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import type { IdleStopController } from "../lib/idleStop";
+import { ApiError } from "./errorHandler";
+
+/** Retry-After sent when an upstream is still starting */
+const RETRY_AFTER_SECONDS = 30;
+
+/**
+ * Records activity for idle auto-stop and holds requests to a stopped
+ * upstream until it has been started and passes its health check.
+ *
+ * When it does not come up within the wake timeout the request fails with
+ * 503 UPSTREAM_STARTING and a Retry-After header.
+ */
+export function createWakeOnRequest(controller: IdleStopController): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const done = controller.track();
+    let closed = false;
+    res.once("close", () => {
+      closed = true;
+      done();
+    });
+
+    try {
+      const awake = await controller.ensureAwake();
+      if (closed) {
+        // The client gave up while waiting
+        return;
+      }
+      if (!awake) {
+        res.setHeader("Retry-After", String(RETRY_AFTER_SECONDS));
+        return next(
+          new ApiError(503, "UPSTREAM_STARTING", `Upstream service ${controller.service.name} is starting, retry later`)
+        );
+      }
+      return next();
+    } catch (error) {
+      return next(error);
+    }
+  };
+}
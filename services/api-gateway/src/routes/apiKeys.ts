@@ -0,0 +1,150 @@
+import { Router, type NextFunction, type Request, type Response } from "express";
+import { z } from "zod";
+import { apiKeyGrantSchema } from "../config";
+import type { ApiKeyStore, StoredApiKey } from "../lib/apiKeyStore";
+import { auditLog, recordAudit, type AuditLog } from "../lib/auditLog";
+import { mintApiKey, revokeApiKey, rotateApiKey, toApiKeyMetadata } from "../lib/apiKeys";
+import { createChildLogger } from "../lib/logger";
+import { parseBody } from "../lib/validation";
+import { ApiError } from "../middleware/errorHandler";
+
+const log = createChildLogger({ service: "api-keys" });
+
+/** Longest overlap a single rotation may request (7 days) */
+const MAX_OVERLAP_MS = 7 * 24 * 60 * 60 * 1000;
+
+const rotateBodySchema = z.object({
+  overlapMs: z.number().int().min(0).max(MAX_OVERLAP_MS).optional()
+}).strict();
+
+export interface ApiKeysRouterOptions {
+  /** How long a rotated key keeps working when the request does not say (ms) */
+  rotationOverlapMs: number;
+  /** Where mint, rotate and revoke are recorded (default: the gateway's audit log) */
+  audit?: AuditLog;
+}
+
+/**
+ * Admin API for managed keys, mounted at /api/v1/admin/keys (scope: api-keys:admin).
+ *
+ * Secrets are returned once, by mint and rotate; everything else returns
+ * metadata only.
+ */
+export function createApiKeysRouter(store: ApiKeyStore, options: ApiKeysRouterOptions): Router {
+  const router = Router();
+  const audit = options.audit ?? auditLog;
+
+  /**
+   * Loads the key named in the path or fails with 404 API_KEY_NOT_FOUND.
+   */
+  async function findKey(req: Request): Promise<StoredApiKey> {
+    const record = await store.get(req.params.id);
+    if (!record) {
+      throw new ApiError(404, "API_KEY_NOT_FOUND", `API key ${req.params.id} not found`);
+    }
+    return record;
+  }
+
+  /**
+   * GET /api/v1/admin/keys — list key metadata
+   */
+  router.get("/", async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      const keys = await store.list();
+      keys.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+      return res.json({ keys: keys.map((key) => toApiKeyMetadata(key)) });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  /**
+   * POST /api/v1/admin/keys — mint a key
+   */
+  router.post("/", async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const grant = parseBody(apiKeyGrantSchema, req.body);
+      const { key, record } = await mintApiKey(store, grant);
+
+      (req.log ?? log).info({ msg: "API key minted", keyId: record.id, keyName: record.name, scopes: record.scopes });
+      await recordAudit(req, { action: "api-key.mint", target: `api-key:${record.id}`, after: toApiKeyMetadata(record) }, audit);
+      return res.status(201).json({ key, apiKey: toApiKeyMetadata(record) });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  /**
+   * GET /api/v1/admin/keys/:id — key metadata
+   */
+  router.get("/:id", async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      return res.json({ apiKey: toApiKeyMetadata(await findKey(req)) });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  /**
+   * POST /api/v1/admin/keys/:id/rotate — mint a replacement, keep the old key for an overlap window
+   */
+  router.post("/:id/rotate", async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { overlapMs = options.rotationOverlapMs } = parseBody(rotateBodySchema, req.body ?? {});
+      const current = await findKey(req);
+
+      if (current.revokedAt) {
+        throw new ApiError(409, "API_KEY_REVOKED", `API key ${current.id} is revoked and cannot be rotated`);
+      }
+      if (current.replacedBy) {
+        throw new ApiError(409, "API_KEY_ROTATED", `API key ${current.id} was already rotated to ${current.replacedBy}`);
+      }
+
+      const { minted, previous } = await rotateApiKey(store, current, overlapMs);
+
+      (req.log ?? log).info({
+        msg: "API key rotated",
+        keyId: previous.id,
+        replacementId: minted.record.id,
+        keyName: previous.name,
+        previousExpiresAt: previous.expiresAt
+      });
+      await recordAudit(req, {
+        action: "api-key.rotate",
+        target: `api-key:${previous.id}`,
+        before: toApiKeyMetadata(current),
+        after: { previous: toApiKeyMetadata(previous), replacement: toApiKeyMetadata(minted.record) }
+      }, audit);
+      return res.status(201).json({
+        key: minted.key,
+        apiKey: toApiKeyMetadata(minted.record),
+        previous: toApiKeyMetadata(previous)
+      });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  /**
+   * DELETE /api/v1/admin/keys/:id — revoke a key immediately
+   */
+  router.delete("/:id", async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const current = await findKey(req);
+      const revoked = await revokeApiKey(store, current);
+
+      (req.log ?? log).info({ msg: "API key revoked", keyId: revoked.id, keyName: revoked.name });
+      await recordAudit(req, {
+        action: "api-key.revoke",
+        target: `api-key:${revoked.id}`,
+        before: toApiKeyMetadata(current),
+        after: toApiKeyMetadata(revoked)
+      }, audit);
+      return res.json({ apiKey: toApiKeyMetadata(revoked) });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,177 @@
+import { Router, type NextFunction, type Request, type Response } from "express";
+import { z } from "zod";
+import { auditActor, auditLog, type AuditEntry, type AuditLog } from "../lib/auditLog";
+import { createChildLogger } from "../lib/logger";
+import { parseBody, parseQuery } from "../lib/validation";
+import { requireScope } from "../middleware/apiKey";
+import { ApiError } from "../middleware/errorHandler";
+
+const log = createChildLogger({ service: "audit-log" });
+
+/** Entries in one export */
+const MAX_EXPORT_ENTRIES = 10000;
+
+const CSV_COLUMNS = [
+  "seq",
+  "timestamp",
+  "actor",
+  "actorRole",
+  "action",
+  "target",
+  "before",
+  "after",
+  "requestId",
+  "ip",
+  "prevHash",
+  "hash"
+] as const;
+
+const filterSchema = z.object({
+  actor: z.string().min(1).max(320).optional(),
+  action: z.string().regex(/^[a-z][a-z0-9-]*(\.[a-z0-9-]+)*$/).optional(),
+  from: z.string().datetime({ offset: true }).optional(),
+  to: z.string().datetime({ offset: true }).optional()
+});
+
+const listQuerySchema = filterSchema.extend({
+  limit: z.coerce.number().int().min(1).max(1000).default(100),
+  before: z.coerce.number().int().min(1).optional()
+});
+
+const exportQuerySchema = filterSchema.extend({
+  format: z.enum(["csv", "json"]).default("json")
+});
+
+const verifyQuerySchema = z.object({
+  full: z.enum(["true", "false"]).default("false")
+});
+
+const recordBodySchema = z.object({
+  action: z.string().regex(/^[a-z][a-z0-9-]*(\.[a-z0-9-]+)+$/, { message: "Use a dotted action name, e.g. user.create" }),
+  target: z.string().min(1).max(500),
+  before: z.unknown().optional(),
+  after: z.unknown().optional(),
+  /** Address of the end user, accepted only from the dashboard server */
+  ip: z.string().ip().optional()
+}).strict();
+
+/** ISO timestamps compare as strings once normalised to UTC */
+function toUtc(timestamp: string | undefined): string | undefined {
+  return timestamp === undefined ? undefined : new Date(timestamp).toISOString();
+}
+
+function csvCell(value: unknown): string {
+  let text = value === null || value === undefined ? "" : typeof value === "string" ? value : JSON.stringify(value);
+  // Keep spreadsheet applications from evaluating cells as formulas
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(entries: AuditEntry[]): string {
+  const rows = entries.map((entry) => CSV_COLUMNS.map((column) => csvCell(entry[column])).join(","));
+  return `${[CSV_COLUMNS.join(","), ...rows].join("\r\n")}\r\n`;
+}
+
+/**
+ * Audit log API, mounted at /api/v1/audit. Reads require audit:read; POST
+ * (audit:write) lets the dashboard record its own privileged actions, always
+ * attributed to the caller. The dashboard mints audit:write tokens only on
+ * its server, never for the browser, so only its tokens may pass the end
+ * user's `ip`; API key callers are recorded with their own address.
+ *
+ *   GET  /          entries, newest first (?actor&action&from&to&limit&before)
+ *   GET  /export    the same filters as a CSV or JSON download
+ *   GET  /verify    checks the hash chain (?full=true from the first entry)
+ *   POST /          records an action
+ */
+export function createAuditRouter(audit: AuditLog = auditLog): Router {
+  const router = Router();
+
+  /**
+   * GET /api/v1/audit — matching entries; `nextBefore` pages further back
+   */
+  router.get("/", requireScope("audit:read"), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const query = parseQuery(listQuerySchema, req.query);
+      const entries = await audit.query({
+        ...query,
+        from: toUtc(query.from),
+        to: toUtc(query.to),
+        beforeSeq: query.before,
+        // One extra entry tells whether there is another page
+        limit: query.limit + 1
+      });
+      const page = entries.slice(0, query.limit);
+      return res.json({
+        entries: page,
+        nextBefore: entries.length > query.limit ? page[page.length - 1].seq : null
+      });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  /**
+   * GET /api/v1/audit/export?format=csv|json — matching entries as a download, oldest first
+   */
+  router.get("/export", requireScope("audit:read"), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const query = parseQuery(exportQuerySchema, req.query);
+      const entries = (
+        await audit.query({ ...query, from: toUtc(query.from), to: toUtc(query.to), limit: MAX_EXPORT_ENTRIES })
+      ).reverse();
+      const filename = `audit-log-${new Date().toISOString().slice(0, 10)}.${query.format}`;
+
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      if (query.format === "csv") {
+        return res.type("text/csv").send(toCsv(entries));
+      }
+      return res.json({ entries });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  /**
+   * GET /api/v1/audit/verify?full=true|false — whether every hash and link
+   * still matches, continuing from the last verification unless `full`
+   */
+  router.get("/verify", requireScope("audit:read"), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const query = parseQuery(verifyQuerySchema, req.query);
+      return res.json(await audit.verify({ full: query.full === "true" }));
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  /**
+   * POST /api/v1/audit — record an action performed by the caller
+   */
+  router.post("/", requireScope("audit:write"), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const body = parseBody(recordBodySchema, req.body);
+      if (body.ip !== undefined && !req.apiKey?.token) {
+        throw new ApiError(400, "VALIDATION_ERROR", "ip: Only the dashboard may record an entry on behalf of another address");
+      }
+      const entry = await audit.record({
+        ...auditActor(req),
+        action: body.action,
+        target: body.target,
+        before: body.before ?? null,
+        after: body.after ?? null,
+        requestId: req.id === undefined ? null : String(req.id),
+        ip: body.ip ?? req.ip ?? null
+      });
+
+      (req.log ?? log).info({ msg: "Audit entry recorded", seq: entry.seq, action: entry.action, target: entry.target });
+      return res.status(201).json({ entry });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  return router;
+}
@@ -1,203 +1,579 @@
-import { Router } from "express";
+import { Router, type NextFunction, type Request, type Response } from "express";
+import { z } from "zod";
+import type { ContainerAction, ContainerAppDefinition } from "../config";
+import { azureAppRequest } from "../lib/azureContainerApps";
+import type { ContainerOperationTracker } from "../lib/containerOperations";
+import {
+  containerProvider,
+  recordContainerAction,
+  type ContainerLogEntry,
+  type ContainerProvider,
+} from "../lib/containerProvider";
+import { auditLog, recordAudit, type AuditLog } from "../lib/auditLog";
 import { createChildLogger } from "../lib/logger";
+import { parseBody, parseQuery } from "../lib/validation";
+import { requireScope } from "../middleware/apiKey";
+import { ApiError } from "../middleware/errorHandler";
 
-const router = Router();
 const log = createChildLogger({ service: "container-control" });
 
-const API_VERSION = "2024-03-01";
-
 // ---------------------------------------------------------------------------
-// Azure Managed Identity token acquisition
+// Helpers
 // ---------------------------------------------------------------------------
 
-interface TokenResponse {
-  access_token: string;
-  expires_in: number;
-}
+/** Container app selected by the `:appId` segment (or the legacy alias) */
+const selectedApps = new WeakMap<Request, ContainerAppDefinition>();
 
-let cachedToken: { token: string; expiresAt: number } | null = null;
+function selectedApp(req: Request): ContainerAppDefinition {
+  const app = selectedApps.get(req);
+  if (!app) {
+    throw new Error("Container app not resolved for this request");
+  }
+  return app;
+}
 
-async function getAzureToken(): Promise<string> {
-  const now = Date.now();
+/**
+ * Rejects actions the selected app does not allow with 403 ACTION_NOT_ALLOWED.
+ */
+function allowAction(action: ContainerAction) {
+  return (req: Request, _res: Response, next: NextFunction) => {
+    const app = selectedApp(req);
+    if (!app.actions.includes(action)) {
+      return next(new ApiError(403, "ACTION_NOT_ALLOWED", `Action "${action}" is not allowed for container app ${app.id}`));
+    }
+    return next();
+  };
+}
 
-  if (cachedToken && cachedToken.expiresAt > now) {
-    return cachedToken.token;
-  }
+/** Azure revision names: lower-case alphanumerics and dashes */
+const revisionNameSchema = z.string().regex(/^[a-z0-9][a-z0-9-]{0,62}$/, { message: "Invalid revision name" });
 
-  // Managed Identity (injected by Azure Container Apps runtime)
-  const identityEndpoint = process.env.IDENTITY_ENDPOINT;
-  const identityHeader = process.env.IDENTITY_HEADER;
+/** Azure allows at most 300 replicas per revision */
+const MAX_REPLICAS = 300;
 
-  if (identityEndpoint && identityHeader) {
-    const resource = "https://management.azure.com";
-    const url = `${identityEndpoint}?api-version=2019-08-01&resource=${resource}`;
+/** Log lines returned when `tail` is not given, and the most that may be asked for */
+const DEFAULT_LOG_TAIL = 100;
+const MAX_LOG_TAIL = 1000;
 
-    const res = await fetch(url, {
-      headers: { "X-IDENTITY-HEADER": identityHeader },
-    });
+const logsQuerySchema = z.object({
+  tail: z.coerce.number().int().min(1).max(MAX_LOG_TAIL).default(DEFAULT_LOG_TAIL)
+});
 
-    if (!res.ok) {
-      const text = await res.text();
-      throw new Error(`Managed Identity token request failed (${res.status}): ${text}`);
-    }
+const logStreamQuerySchema = logsQuerySchema.extend({
+  app: z.string().min(1),
+  type: z.enum(["console", "system"]).default("console")
+});
 
-    const data: TokenResponse = await res.json();
+/** Interval of keep-alive comments on log streams (ms) */
+const LOG_HEARTBEAT_MS = 15000;
+
+const restartBodySchema = z.object({
+  revision: revisionNameSchema.optional()
+}).strict();
+
+const trafficBodySchema = z.object({
+  traffic: z.array(
+    z.object({
+      revisionName: revisionNameSchema.optional(),
+      latestRevision: z.boolean().optional(),
+      weight: z.number().int().min(0).max(100),
+      label: z.string().regex(/^[a-z0-9][a-z0-9-]{0,62}$/).optional()
+    }).strict().refine(
+      (entry) => (entry.revisionName !== undefined) !== (entry.latestRevision === true),
+      { message: "Each entry needs either revisionName or latestRevision: true" }
+    )
+  ).min(1)
+}).strict().refine(
+  ({ traffic }) => traffic.reduce((sum, entry) => sum + entry.weight, 0) === 100,
+  { message: "Traffic weights must add up to 100", path: ["traffic"] }
+);
+
+const scaleBodySchema = z.object({
+  minReplicas: z.number().int().min(0).max(MAX_REPLICAS),
+  maxReplicas: z.number().int().min(1).max(MAX_REPLICAS)
+}).strict().refine(
+  ({ minReplicas, maxReplicas }) => minReplicas <= maxReplicas,
+  { message: "minReplicas must not exceed maxReplicas", path: ["minReplicas"] }
+);
+
+// Subsets of the Azure Management API payloads used here
+
+interface AzureTrafficWeight {
+  revisionName?: string;
+  latestRevision?: boolean;
+  weight?: number;
+  label?: string;
+}
 
-    cachedToken = {
-      token: data.access_token,
-      expiresAt: now + (data.expires_in - 300) * 1000,
+interface AzureContainerApp {
+  properties?: {
+    latestRevisionName?: string;
+    latestReadyRevisionName?: string;
+    configuration?: {
+      activeRevisionsMode?: string;
+      ingress?: { traffic?: AzureTrafficWeight[] };
     };
+    template?: {
+      scale?: {
+        minReplicas?: number;
+        maxReplicas?: number;
+        rules?: Array<{ name: string } & Record<string, unknown>>;
+      };
+    };
+  };
+}
 
-    log.info("Acquired Azure token via Managed Identity");
-    return cachedToken.token;
-  }
-
-  throw new Error(
-    "Azure Managed Identity not available. Ensure the API Gateway Container App has system-assigned Managed Identity enabled."
-  );
+interface AzureRevision {
+  name: string;
+  properties?: {
+    active?: boolean;
+    createdTime?: string;
+    replicas?: number;
+    runningState?: string;
+    healthState?: string;
+    provisioningState?: string;
+  };
 }
 
-// ---------------------------------------------------------------------------
-// Helpers
-// ---------------------------------------------------------------------------
+interface AzureReplica {
+  name: string;
+  properties?: {
+    createdTime?: string;
+    runningState?: string;
+    containers?: Array<{ name: string; ready?: boolean; restartCount?: number; runningState?: string }>;
+  };
+}
 
-function getContainerAppUrl(): string {
-  const subscriptionId = process.env.AZURE_SUBSCRIPTION_ID;
-  const resourceGroup = process.env.AZURE_RESOURCE_GROUP;
-  const containerAppName = process.env.AZURE_CONTAINER_APP_NAME;
+/**
+ * Calls the Azure Management API for the selected Container App. Non-2xx
+ * responses fail with 502 AZURE_API_ERROR, or 404 REVISION_NOT_FOUND for
+ * unknown revisions.
+ */
+function azureRequest<T = unknown>(
+  req: Request,
+  name: string,
+  suffix: string,
+  init: { method?: string; body?: unknown } = {}
+) {
+  return azureAppRequest<T>(selectedApp(req), name, suffix, init, req.log ?? log);
+}
 
-  if (!subscriptionId || !resourceGroup || !containerAppName) {
-    throw new Error(
-      "Azure Container App not configured. Set AZURE_SUBSCRIPTION_ID, AZURE_RESOURCE_GROUP, and AZURE_CONTAINER_APP_NAME."
-    );
+/**
+ * The `:name` path parameter, validated as a revision name.
+ */
+function revisionParam(req: Request): string {
+  const result = revisionNameSchema.safeParse(req.params.name);
+  if (!result.success) {
+    throw new ApiError(400, "VALIDATION_ERROR", `Invalid revision name: ${req.params.name}`);
   }
+  return result.data;
+}
+
+/**
+ * Runs a mutating Azure call, counting its outcome for /metrics.
+ */
+function controlAction(
+  req: Request,
+  action: string,
+  suffix: string,
+  init: { method?: string; body?: unknown } = {}
+): Promise<{ status: "accepted" | "completed" }> {
+  return recordContainerAction(selectedApp(req), action, async () => {
+    const azureRes = await azureRequest(req, action, suffix, { method: "POST", ...init });
+    return { status: azureRes.status === 202 ? "accepted" as const : "completed" as const };
+  });
+}
 
-  return `https://management.azure.com/subscriptions/${subscriptionId}/resourceGroups/${resourceGroup}/providers/Microsoft.App/containerApps/${containerAppName}`;
+function toRevision(revision: AzureRevision, traffic: AzureTrafficWeight[], latestRevisionName: string | undefined) {
+  const weight = traffic
+    .filter((entry) =>
+      entry.revisionName === revision.name || (entry.latestRevision && revision.name === latestRevisionName)
+    )
+    .reduce((sum, entry) => sum + (entry.weight ?? 0), 0);
+
+  return {
+    name: revision.name,
+    active: revision.properties?.active ?? false,
+    createdTime: revision.properties?.createdTime ?? null,
+    trafficWeight: weight,
+    replicas: revision.properties?.replicas ?? 0,
+    runningState: revision.properties?.runningState ?? "Unknown",
+    healthState: revision.properties?.healthState ?? "Unknown",
+    provisioningState: revision.properties?.provisioningState ?? "Unknown",
+  };
+}
+
+function toReplica(replica: AzureReplica) {
+  return {
+    name: replica.name,
+    createdTime: replica.properties?.createdTime ?? null,
+    runningState: replica.properties?.runningState ?? "Unknown",
+    containers: (replica.properties?.containers ?? []).map((container) => ({
+      name: container.name,
+      ready: container.ready ?? false,
+      restartCount: container.restartCount ?? 0,
+      runningState: container.runningState ?? "Unknown",
+    })),
+  };
 }
 
 // ---------------------------------------------------------------------------
 // Routes
 // ---------------------------------------------------------------------------
 
+/** Paths that predate the app registry; they act on the first configured app */
+const LEGACY_SEGMENTS = new Set(["status", "start", "stop", "restart", "revisions", "traffic", "scale"]);
+
 /**
- * GET /api/v1/container/status — fetch container app status
+ * Container control for the configured apps, mounted at /api/v1/container:
+ *
+ *   GET /                    configured apps, their allowed actions and the provider
+ *   GET /logs?app=           live log stream of one app (Server-Sent Events)
+ *   /:appId/status|start|…   lifecycle routes of one app
+ *   /status|start|…          deprecated aliases for the first app
+ *
+ * Start and stop are recorded as operations followed by `operations`.
+ * Revisions, traffic and scale exist on Azure only; other providers answer
+ * them with 501 NOT_SUPPORTED.
  */
-router.get("/status", async (req, res) => {
-  const requestLog = req.log ?? log;
+export function createContainerRouter(
+  apps: ContainerAppDefinition[],
+  operations: ContainerOperationTracker,
+  provider: ContainerProvider = containerProvider,
+  audit: AuditLog = auditLog
+): Router {
+  const router = Router();
+  const appRouter = Router();
+
+  /**
+   * Rejects Azure-only routes on other providers with 501 NOT_SUPPORTED.
+   */
+  const azureOnly = (req: Request, _res: Response, next: NextFunction) => {
+    if (provider.kind !== "azure") {
+      return next(new ApiError(501, "NOT_SUPPORTED", `${req.path} is not supported by the ${provider.kind} container provider`));
+    }
+    return next();
+  };
 
-  try {
-    const token = await getAzureToken();
-    const url = `${getContainerAppUrl()}?api-version=${API_VERSION}`;
+  /**
+   * GET /api/v1/container — configured apps (scope: container:read)
+   */
+  router.get("/", requireScope("container:read"), (_req, res) => {
+    return res.json({
+      provider: provider.kind,
+      apps: apps.map((app) => ({ id: app.id, name: app.name, actions: app.actions })),
+    });
+  });
+
+  /**
+   * GET /api/v1/container/logs?app=&type=console|system&tail=100 — Server-Sent
+   * Events (scope: container:logs): a `log` event per entry, starting with the
+   * last `tail` lines, then `end` (with the error, if the stream failed) when
+   * the provider closes the stream.
+   */
+  router.get("/logs", requireScope("container:logs"), async (req: Request, res: Response, next: NextFunction) => {
+    const requestLog = req.log ?? log;
+    const abort = new AbortController();
+    let entries: AsyncIterable<ContainerLogEntry>;
+    let app: ContainerAppDefinition | undefined;
+
+    try {
+      const query = parseQuery(logStreamQuerySchema, req.query);
+      app = apps.find((candidate) => candidate.id === query.app);
+      if (!app) {
+        throw new ApiError(404, "CONTAINER_APP_NOT_FOUND", `Container app ${query.app} not found`);
+      }
+      entries = await provider.openLogStream(app, { type: query.type, tail: query.tail, signal: abort.signal }, requestLog);
+    } catch (err) {
+      abort.abort();
+      return next(err);
+    }
 
-    const azureRes = await fetch(url, {
-      headers: { Authorization: `Bearer ${token}` },
+    res.status(200).set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      // Disable response buffering in nginx-style proxies
+      "X-Accel-Buffering": "no"
     });
+    res.flushHeaders();
 
-    if (!azureRes.ok) {
-      const text = await azureRes.text();
-      requestLog.error({ msg: "Azure API error", status: azureRes.status, body: text });
-      return res.status(502).json({
-        status: "error",
-        code: "AZURE_API_ERROR",
-        message: `Azure API error (${azureRes.status})`,
-      });
+    const heartbeat = setInterval(() => res.write(": keep-alive\n\n"), LOG_HEARTBEAT_MS);
+    res.on("close", () => {
+      clearInterval(heartbeat);
+      abort.abort();
+    });
+
+    let error: { code: string; message: string } | null = null;
+    try {
+      for await (const entry of entries) {
+        res.write(`event: log\ndata: ${JSON.stringify(entry)}\n\n`);
+      }
+    } catch (err) {
+      if (!abort.signal.aborted) {
+        requestLog.warn({ msg: "Container log stream failed", app: app.id, err });
+        error = err instanceof ApiError
+          ? { code: err.code, message: err.message }
+          : { code: "LOG_STREAM_FAILED", message: err instanceof Error ? err.message : String(err) };
+      }
     }
 
-    const data = await azureRes.json();
+    clearInterval(heartbeat);
+    if (!abort.signal.aborted) {
+      res.write(`event: end\ndata: ${JSON.stringify({ error })}\n\n`);
+      res.end();
+    }
+  });
 
-    return res.json({
-      name: data.name,
-      runningStatus: data.properties?.runningStatus ?? "Unknown",
-      provisioningState: data.properties?.provisioningState ?? "Unknown",
-      location: data.location,
+  // Deprecated single-app paths keep working against the first app
+  router.use((req: Request, res: Response, next: NextFunction) => {
+    if (!LEGACY_SEGMENTS.has(req.path.split("/")[1])) {
+      return next();
+    }
+    if (apps.length === 0) {
+      return next(new ApiError(404, "CONTAINER_APP_NOT_FOUND", "No container apps are configured"));
+    }
+    selectedApps.set(req, apps[0]);
+    res.setHeader("Deprecation", "true");
+    res.setHeader("Link", `</api/v1/container/${apps[0].id}${req.path}>; rel="successor-version"`);
+    return appRouter(req, res, next);
+  });
+
+  router.use("/:appId", (req: Request, _res: Response, next: NextFunction) => {
+    const app = apps.find((candidate) => candidate.id === req.params.appId);
+    if (!app) {
+      return next(new ApiError(404, "CONTAINER_APP_NOT_FOUND", `Container app ${req.params.appId} not found`));
+    }
+    selectedApps.set(req, app);
+    return next();
+  }, appRouter);
+
+  /**
+   * GET /api/v1/container/:appId/status — fetch container app status (scope: container:read)
+   */
+  appRouter.get("/status", requireScope("container:read"), async (req, res, next) => {
+    const requestLog = req.log ?? log;
+    const app = selectedApp(req);
+
+    try {
+      return res.json({ id: app.id, ...(await provider.status(app, requestLog)) });
+    } catch (err) {
+      if (err instanceof ApiError) {
+        return next(err);
+      }
+      const message = err instanceof Error ? err.message : "Internal error";
+      requestLog.error({ msg: "Container status check failed", app: app.id, error: message });
+      return res.status(500).json({ status: "error", message });
+    }
+  });
+
+  /**
+   * POST /api/v1/container/:appId/start|stop — start or stop the container app (scope: container:control).
+   * Accepted requests are followed at /api/v1/container/operations/:id.
+   */
+  for (const action of ["start", "stop"] as const) {
+    appRouter.post(`/${action}`, requireScope("container:control"), allowAction(action), async (req, res, next) => {
+      const requestLog = req.log ?? log;
+      const app = selectedApp(req);
+
+      try {
+        const operation = await operations.begin(app, action, req.apiKey?.name ?? "anonymous", requestLog);
+        await recordAudit(req, { action: `container.${action}`, target: `container:${app.id}`, after: { operationId: operation.id } }, audit);
+        return res.json({
+          ok: true,
+          action,
+          status: operation.state === "running" ? "accepted" : "completed",
+          operation,
+        });
+      } catch (err) {
+        if (err instanceof ApiError) {
+          return next(err);
+        }
+        const message = err instanceof Error ? err.message : "Internal error";
+        requestLog.error({ msg: `Container ${action} failed`, app: app.id, error: message });
+        return res.status(500).json({ status: "error", message });
+      }
     });
-  } catch (err) {
-    const message = err instanceof Error ? err.message : "Internal error";
-    requestLog.error({ msg: "Container status check failed", error: message });
-    return res.status(500).json({ status: "error", message });
   }
-});
 
-/**
- * POST /api/v1/container/start — start the container app
- */
-router.post("/start", async (req, res) => {
-  const requestLog = req.log ?? log;
-
-  try {
-    const token = await getAzureToken();
-    const url = `${getContainerAppUrl()}/start?api-version=${API_VERSION}`;
-
-    const azureRes = await fetch(url, {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${token}`,
-        "Content-Type": "application/json",
-      },
-    });
+  /**
+   * POST /api/v1/container/:appId/restart — restart the app; on Azure a revision, by default
+   * the latest ready one (scope: container:control)
+   */
+  appRouter.post(
+    "/restart",
+    requireScope("container:control"),
+    allowAction("restart"),
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const requestLog = req.log ?? log;
+        const app = selectedApp(req);
+        const body = parseBody(restartBodySchema, req.body ?? {});
+        const { status, revision } = await recordContainerAction(app, "restart", () =>
+          provider.restart(app, body.revision, requestLog)
+        );
+        requestLog.info({ msg: "Container restart requested", app: app.id, revision });
+        await recordAudit(req, { action: "container.restart", target: `container:${app.id}`, after: { revision } }, audit);
+        return res.json({ ok: true, action: "restart", revision, status });
+      } catch (err) {
+        return next(err);
+      }
+    }
+  );
 
-    if (azureRes.status !== 200 && azureRes.status !== 202) {
-      const text = await azureRes.text();
-      requestLog.error({ msg: "Azure start failed", status: azureRes.status, body: text });
-      return res.status(502).json({
-        status: "error",
-        code: "AZURE_API_ERROR",
-        message: `Azure API error (${azureRes.status})`,
+  /**
+   * GET /api/v1/container/:appId/logs?tail=100 — the latest container output, oldest first (scope: container:logs)
+   */
+  appRouter.get("/logs", requireScope("container:logs"), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const app = selectedApp(req);
+      const { tail } = parseQuery(logsQuerySchema, req.query);
+      const lines = await provider.logs(app, { tail }, req.log ?? log);
+      return res.json({ id: app.id, lines });
+    } catch (err) {
+      return next(err);
+    }
+  });
+
+  /**
+   * GET /api/v1/container/:appId/revisions — revisions with their traffic weights (scope: container:read)
+   */
+  appRouter.get("/revisions", requireScope("container:read"), azureOnly, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const [app, revisions] = await Promise.all([
+        azureRequest<AzureContainerApp>(req, "status", ""),
+        azureRequest<{ value?: AzureRevision[] }>(req, "revisions", "/revisions"),
+      ]);
+      const traffic = app.data?.properties?.configuration?.ingress?.traffic ?? [];
+      const latestRevisionName = app.data?.properties?.latestRevisionName;
+
+      return res.json({
+        latestRevisionName: latestRevisionName ?? null,
+        latestReadyRevisionName: app.data?.properties?.latestReadyRevisionName ?? null,
+        activeRevisionsMode: app.data?.properties?.configuration?.activeRevisionsMode ?? "Single",
+        traffic: traffic.map((entry) => ({
+          ...(entry.revisionName && { revisionName: entry.revisionName }),
+          ...(entry.latestRevision && { latestRevision: true }),
+          weight: entry.weight ?? 0,
+          ...(entry.label && { label: entry.label }),
+        })),
+        revisions: (revisions.data?.value ?? [])
+          .map((revision) => toRevision(revision, traffic, latestRevisionName))
+          .sort((a, b) => (b.createdTime ?? "").localeCompare(a.createdTime ?? "")),
       });
+    } catch (err) {
+      return next(err);
     }
-
-    requestLog.info("Container start requested");
-    return res.json({
-      ok: true,
-      action: "start",
-      status: azureRes.status === 202 ? "accepted" : "completed",
-    });
-  } catch (err) {
-    const message = err instanceof Error ? err.message : "Internal error";
-    requestLog.error({ msg: "Container start failed", error: message });
-    return res.status(500).json({ status: "error", message });
+  });
+
+  /**
+   * POST /api/v1/container/:appId/revisions/:name/activate|deactivate — toggle a revision (scope: container:control)
+   */
+  for (const action of ["activate", "deactivate"] as const) {
+    appRouter.post(
+      `/revisions/:name/${action}`,
+      requireScope("container:control"),
+      allowAction("revisions"),
+      azureOnly,
+      async (req: Request, res: Response, next: NextFunction) => {
+        try {
+          const revision = revisionParam(req);
+          const { status } = await controlAction(req, action, `/revisions/${revision}/${action}`);
+          (req.log ?? log).info({ msg: `Revision ${action} requested`, app: selectedApp(req).id, revision });
+          await recordAudit(req, { action: `container.revision.${action}`, target: `container:${selectedApp(req).id}/${revision}` }, audit);
+          return res.json({ ok: true, action, revision, status });
+        } catch (err) {
+          return next(err);
+        }
+      }
+    );
   }
-});
 
-/**
- * POST /api/v1/container/stop — stop the container app
- */
-router.post("/stop", async (req, res) => {
-  const requestLog = req.log ?? log;
-
-  try {
-    const token = await getAzureToken();
-    const url = `${getContainerAppUrl()}/stop?api-version=${API_VERSION}`;
-
-    const azureRes = await fetch(url, {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${token}`,
-        "Content-Type": "application/json",
-      },
-    });
+  /**
+   * GET /api/v1/container/:appId/revisions/:name/replicas — live replicas of a revision (scope: container:read)
+   */
+  appRouter.get(
+    "/revisions/:name/replicas",
+    requireScope("container:read"),
+    azureOnly,
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const revision = revisionParam(req);
+        const replicas = await azureRequest<{ value?: AzureReplica[] }>(req, "replicas", `/revisions/${revision}/replicas`);
+        return res.json({ revision, replicas: (replicas.data?.value ?? []).map(toReplica) });
+      } catch (err) {
+        return next(err);
+      }
+    }
+  );
 
-    if (azureRes.status !== 200 && azureRes.status !== 202) {
-      const text = await azureRes.text();
-      requestLog.error({ msg: "Azure stop failed", status: azureRes.status, body: text });
-      return res.status(502).json({
-        status: "error",
-        code: "AZURE_API_ERROR",
-        message: `Azure API error (${azureRes.status})`,
-      });
+  /**
+   * PUT /api/v1/container/:appId/traffic — replace the ingress traffic split (scope: container:control)
+   */
+  appRouter.put(
+    "/traffic",
+    requireScope("container:control"),
+    allowAction("traffic"),
+    azureOnly,
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const { traffic } = parseBody(trafficBodySchema, req.body);
+        const { status } = await controlAction(req, "traffic", "", {
+          method: "PATCH",
+          body: { properties: { configuration: { ingress: { traffic } } } },
+        });
+        (req.log ?? log).info({ msg: "Traffic split updated", app: selectedApp(req).id, traffic });
+        await recordAudit(req, { action: "container.traffic", target: `container:${selectedApp(req).id}`, after: { traffic } }, audit);
+        return res.json({ ok: true, action: "traffic", status, traffic });
+      } catch (err) {
+        return next(err);
+      }
     }
+  );
 
-    requestLog.info("Container stop requested");
-    return res.json({
-      ok: true,
-      action: "stop",
-      status: azureRes.status === 202 ? "accepted" : "completed",
-    });
-  } catch (err) {
-    const message = err instanceof Error ? err.message : "Internal error";
-    requestLog.error({ msg: "Container stop failed", error: message });
-    return res.status(500).json({ status: "error", message });
-  }
-});
+  /**
+   * GET /api/v1/container/:appId/scale — replica bounds and scale rules (scope: container:read)
+   */
+  appRouter.get("/scale", requireScope("container:read"), azureOnly, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const app = await azureRequest<AzureContainerApp>(req, "status", "");
+      const scale = app.data?.properties?.template?.scale ?? {};
+      return res.json({
+        minReplicas: scale.minReplicas ?? 0,
+        maxReplicas: scale.maxReplicas ?? 10,
+        rules: (scale.rules ?? []).map((rule) => ({
+          name: rule.name,
+          type: Object.keys(rule).find((key) => key !== "name") ?? "unknown",
+        })),
+      });
+    } catch (err) {
+      return next(err);
+    }
+  });
+
+  /**
+   * PUT /api/v1/container/:appId/scale — update min/max replicas, keeping the scale rules (scope: container:control)
+   */
+  appRouter.put(
+    "/scale",
+    requireScope("container:control"),
+    allowAction("scale"),
+    azureOnly,
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const scale = parseBody(scaleBodySchema, req.body);
+        const { status } = await controlAction(req, "scale", "", {
+          method: "PATCH",
+          body: { properties: { template: { scale } } },
+        });
+        (req.log ?? log).info({ msg: "Scale updated", app: selectedApp(req).id, ...scale });
+        await recordAudit(req, { action: "container.scale", target: `container:${selectedApp(req).id}`, after: scale }, audit);
+        return res.json({ ok: true, action: "scale", status, scale });
+      } catch (err) {
+        return next(err);
+      }
+    }
+  );
 
-export { router as containerRouter };
+  return router;
+}
@@ -0,0 +1,123 @@
+import { Router, type NextFunction, type Request, type Response } from "express";
+import { createChildLogger } from "../lib/logger";
+import type { ContainerOperation, OperationStore } from "../lib/operationStore";
+import { requireScope } from "../middleware/apiKey";
+import { ApiError } from "../middleware/errorHandler";
+
+const log = createChildLogger({ service: "container-operations" });
+
+export interface ContainerOperationsRouterOptions {
+  /** How often an event stream re-reads its operation (ms) */
+  eventsPollMs?: number;
+  /** Interval of keep-alive comments on event streams (ms) */
+  heartbeatMs?: number;
+}
+
+/**
+ * Start/stop operation progress, mounted at /api/v1/container/operations
+ * (scope container:read). Operations are created by the start/stop endpoints
+ * and updated by lib/containerOperations.
+ */
+export function createContainerOperationsRouter(
+  store: OperationStore,
+  options: ContainerOperationsRouterOptions = {}
+): Router {
+  const router = Router();
+  const eventsPollMs = options.eventsPollMs ?? 1000;
+  const heartbeatMs = options.heartbeatMs ?? 15000;
+
+  /**
+   * Loads the operation named in the path or fails with 404 OPERATION_NOT_FOUND.
+   */
+  async function findOperation(req: Request): Promise<ContainerOperation> {
+    const operation = await store.get(req.params.id);
+    if (!operation) {
+      throw new ApiError(404, "OPERATION_NOT_FOUND", `Operation ${req.params.id} not found`);
+    }
+    return operation;
+  }
+
+  /**
+   * GET /api/v1/container/operations/:id — one operation
+   */
+  router.get("/:id", requireScope("container:read"), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      return res.json({ operation: await findOperation(req) });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  /**
+   * GET /api/v1/container/operations/:id/events — Server-Sent Events: an
+   * `operation` event with the current record, then one per change; the
+   * stream ends after the final state.
+   */
+  router.get("/:id/events", requireScope("container:read"), async (req: Request, res: Response, next: NextFunction) => {
+    let operation: ContainerOperation;
+    try {
+      operation = await findOperation(req);
+    } catch (error) {
+      return next(error);
+    }
+
+    res.status(200).set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      // Disable response buffering in nginx-style proxies
+      "X-Accel-Buffering": "no"
+    });
+    res.flushHeaders();
+
+    let lastUpdate = "";
+    let closed = false;
+    let polling = false;
+
+    const send = (current: ContainerOperation) => {
+      lastUpdate = current.updatedAt;
+      res.write(`event: operation\ndata: ${JSON.stringify(current)}\n\n`);
+      if (current.state !== "running") {
+        close();
+        res.end();
+      }
+    };
+
+    const poll = setInterval(async () => {
+      if (polling) {
+        return;
+      }
+      polling = true;
+      try {
+        const current = await store.get(operation.id);
+        if (closed) {
+          return;
+        }
+        if (!current) {
+          // Expired while being watched
+          close();
+          res.end();
+        } else if (current.updatedAt !== lastUpdate) {
+          send(current);
+        }
+      } catch (error) {
+        (req.log ?? log).warn({ msg: "Operation event poll failed", operationId: operation.id, err: error });
+      } finally {
+        polling = false;
+      }
+    }, eventsPollMs);
+
+    const heartbeat = setInterval(() => res.write(": keep-alive\n\n"), heartbeatMs);
+
+    function close() {
+      closed = true;
+      clearInterval(poll);
+      clearInterval(heartbeat);
+    }
+
+    res.on("close", close);
+    send(operation);
+  });
+
+  return router;
+}
@@ -0,0 +1,186 @@
+import { randomBytes } from "crypto";
+import { Router, type NextFunction, type Request, type Response } from "express";
+import { z } from "zod";
+import type { ContainerAppDefinition } from "../config";
+import { auditLog, recordAudit, type AuditLog } from "../lib/auditLog";
+import { nextScheduledRun } from "../lib/containerScheduler";
+import { isValidTimeZone, parseCron } from "../lib/cron";
+import { createChildLogger } from "../lib/logger";
+import type { ContainerSchedule, ScheduleStore } from "../lib/scheduleStore";
+import { parseBody } from "../lib/validation";
+import { requireScope } from "../middleware/apiKey";
+import { ApiError } from "../middleware/errorHandler";
+
+const log = createChildLogger({ service: "container-schedules" });
+
+/** Public holidays and other skip dates kept per schedule */
+const MAX_HOLIDAYS = 366;
+
+const scheduleBodySchema = z.object({
+  appId: z.string().min(1),
+  action: z.enum(["start", "stop"]),
+  cron: z.string().transform((value, ctx) => {
+    try {
+      return parseCron(value).source;
+    } catch (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: (error as Error).message });
+      return z.NEVER;
+    }
+  }),
+  timezone: z.string().refine(isValidTimeZone, { message: "Unknown IANA time zone" }).default("UTC"),
+  holidays: z.array(
+    z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: "Holidays must be YYYY-MM-DD dates" })
+  ).max(MAX_HOLIDAYS).default([]),
+  enabled: z.boolean().default(true),
+  description: z.string().max(200).nullable().default(null)
+}).strict();
+
+/**
+ * A schedule as returned by the API, with its next run.
+ */
+function toScheduleResponse(schedule: ContainerSchedule, now: Date) {
+  const nextRun = nextScheduledRun(schedule, now);
+  return { ...schedule, nextRunAt: nextRun?.toISOString() ?? null };
+}
+
+/**
+ * CRUD for scheduled container start/stop, mounted at /api/v1/container/schedules.
+ * Reads require container:read, changes container:control; the scheduler
+ * (lib/containerScheduler) runs what is stored here.
+ */
+export function createContainerSchedulesRouter(
+  store: ScheduleStore,
+  apps: ContainerAppDefinition[],
+  now: () => number = Date.now,
+  audit: AuditLog = auditLog
+): Router {
+  const router = Router();
+
+  /**
+   * Loads the schedule named in the path or fails with 404 SCHEDULE_NOT_FOUND.
+   */
+  async function findSchedule(req: Request): Promise<ContainerSchedule> {
+    const schedule = await store.get(req.params.id);
+    if (!schedule) {
+      throw new ApiError(404, "SCHEDULE_NOT_FOUND", `Schedule ${req.params.id} not found`);
+    }
+    return schedule;
+  }
+
+  /**
+   * Validates a request body against the app registry.
+   */
+  function parseSchedule(body: unknown) {
+    const input = parseBody(scheduleBodySchema, body);
+    const app = apps.find((candidate) => candidate.id === input.appId);
+    if (!app) {
+      throw new ApiError(404, "CONTAINER_APP_NOT_FOUND", `Container app ${input.appId} not found`);
+    }
+    if (!app.actions.includes(input.action)) {
+      throw new ApiError(403, "ACTION_NOT_ALLOWED", `Action "${input.action}" is not allowed for container app ${app.id}`);
+    }
+    return input;
+  }
+
+  /**
+   * GET /api/v1/container/schedules — schedules, optionally for one app (?app=), and the next run among them
+   */
+  router.get("/", requireScope("container:read"), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const appId = typeof req.query.app === "string" ? req.query.app : undefined;
+      const current = new Date(now());
+      const schedules = (await store.list())
+        .filter((schedule) => appId === undefined || schedule.appId === appId)
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+        .map((schedule) => toScheduleResponse(schedule, current));
+
+      const upcoming = schedules
+        .filter((schedule) => schedule.nextRunAt !== null)
+        .sort((a, b) => (a.nextRunAt ?? "").localeCompare(b.nextRunAt ?? ""))[0];
+
+      return res.json({
+        schedules,
+        next: upcoming
+          ? { scheduleId: upcoming.id, appId: upcoming.appId, action: upcoming.action, at: upcoming.nextRunAt }
+          : null
+      });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  /**
+   * POST /api/v1/container/schedules — create a schedule
+   */
+  router.post("/", requireScope("container:control"), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const input = parseSchedule(req.body);
+      const timestamp = new Date(now()).toISOString();
+      const schedule: ContainerSchedule = {
+        id: randomBytes(6).toString("hex"),
+        ...input,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+        lastRun: null
+      };
+      await store.save(schedule);
+
+      (req.log ?? log).info({ msg: "Container schedule created", scheduleId: schedule.id, app: schedule.appId, action: schedule.action, cron: schedule.cron });
+      await recordAudit(req, { action: "schedule.create", target: `schedule:${schedule.id}`, after: schedule }, audit);
+      return res.status(201).json({ schedule: toScheduleResponse(schedule, new Date(now())) });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  /**
+   * GET /api/v1/container/schedules/:id — one schedule
+   */
+  router.get("/:id", requireScope("container:read"), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      return res.json({ schedule: toScheduleResponse(await findSchedule(req), new Date(now())) });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  /**
+   * PUT /api/v1/container/schedules/:id — replace a schedule (run history is kept)
+   */
+  router.put("/:id", requireScope("container:control"), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const existing = await findSchedule(req);
+      const input = parseSchedule(req.body);
+      const schedule: ContainerSchedule = {
+        ...existing,
+        ...input,
+        updatedAt: new Date(now()).toISOString()
+      };
+      await store.save(schedule);
+
+      (req.log ?? log).info({ msg: "Container schedule updated", scheduleId: schedule.id, app: schedule.appId, action: schedule.action, cron: schedule.cron });
+      await recordAudit(req, { action: "schedule.update", target: `schedule:${schedule.id}`, before: existing, after: schedule }, audit);
+      return res.json({ schedule: toScheduleResponse(schedule, new Date(now())) });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  /**
+   * DELETE /api/v1/container/schedules/:id — delete a schedule
+   */
+  router.delete("/:id", requireScope("container:control"), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const schedule = await findSchedule(req);
+      await store.delete(schedule.id);
+
+      (req.log ?? log).info({ msg: "Container schedule deleted", scheduleId: schedule.id, app: schedule.appId });
+      await recordAudit(req, { action: "schedule.delete", target: `schedule:${schedule.id}`, before: schedule }, audit);
+      return res.json({ schedule: { ...schedule, nextRunAt: null } });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,16 @@
+import { Router } from "express";
+import { METRICS_CONTENT_TYPE, type MetricsRegistry } from "../lib/metrics";
+
+/**
+ * Prometheus scrape endpoint, mounted at /metrics.
+ */
+export function createMetricsRouter(registry: MetricsRegistry): Router {
+  const router = Router();
+
+  router.get("/", (_req, res) => {
+    res.setHeader("Content-Type", METRICS_CONTENT_TYPE);
+    return res.send(registry.render());
+  });
+
+  return router;
+}
@@ -0,0 +1,44 @@
+import { Router, type Request, type Response, type NextFunction } from "express";
+import { z } from "zod";
+import type { ServiceDefinition } from "../config";
+import type { HealthProber } from "../lib/healthProber";
+import { ApiError } from "../middleware/errorHandler";
+
+/** Most samples a single request may ask for per service */
+const MAX_SAMPLES = 5000;
+
+const historyQuerySchema = z.object({
+  limit: z.string().regex(/^\d+$/, { message: "limit must be a positive integer" })
+    .transform(Number)
+    .pipe(z.number().int().min(1).max(MAX_SAMPLES))
+    .optional()
+});
+
+/**
+ * Health history from the background prober, mounted at /api/v1/services/history (public).
+ *
+ * Statistics cover the whole history window; `?limit=N` returns only the
+ * N most recent samples per service (for charting).
+ */
+export function createServiceHistoryRouter(prober: HealthProber, services: ServiceDefinition[]): Router {
+  const router = Router();
+
+  router.get("/", (req: Request, res: Response, next: NextFunction) => {
+    const query = historyQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      const message = query.error.issues.map((issue) => `${issue.path.join(".") || "query"}: ${issue.message}`).join("; ");
+      return next(new ApiError(400, "VALIDATION_ERROR", message));
+    }
+
+    return res.json({
+      timestamp: new Date().toISOString(),
+      intervalMs: prober.options.intervalMs,
+      windowMs: prober.options.windowMs,
+      services: Object.fromEntries(
+        services.map((service) => [service.id, prober.history(service, query.data.limit)])
+      )
+    });
+  });
+
+  return router;
+}
@@ -0,0 +1,405 @@
+import type { ClientRequest, IncomingMessage } from "http";
+import { Router, type NextFunction, type Request, type Response } from "express";
+import { createProxyMiddleware, fixRequestBody } from "http-proxy-middleware";
+import type { ServiceDefinition } from "../config";
+import { createChildLogger } from "../lib/logger";
+import { metrics } from "../lib/metrics";
+import { traceHeaders, tracedFetch, tracer, type Span } from "../lib/tracing";
+import { probeServiceHealth } from "../lib/health";
+import type { CircuitBreaker } from "../lib/circuitBreaker";
+import { computeBackoffDelay, hasReplayableBody, isIdempotentRequest, parseRetryAfter } from "../lib/retry";
+import { ApiError } from "../middleware/errorHandler";
+import { createIdempotencyMiddleware, type IdempotencyOptions } from "../middleware/idempotency";
+import { createResponseCache, type RevalidatedResponse } from "../middleware/responseCache";
+import type { ResponseCacheStore } from "../lib/responseCacheStore";
+
+const HEALTH_ERROR_MESSAGES = {
+  UPSTREAM_ERROR: "Upstream service returned an error status",
+  INVALID_RESPONSE: "Upstream service returned invalid response",
+  TIMEOUT: "Health check timed out",
+  CONNECTION_FAILED: "Unable to connect to upstream service"
+} as const;
+
+/** Upstream statuses that count as failures for the circuit breaker */
+const BREAKER_FAILURE_STATUSES = new Set([502, 503, 504]);
+
+/** Response header reporting how many times the upstream call was retried */
+const RETRY_COUNT_HEADER = "x-upstream-retries";
+
+/** Connection-level headers that must not be copied from the upstream response */
+const HOP_BY_HOP_HEADERS = new Set(["connection", "keep-alive"]);
+
+/** Added to the longest an upstream call can take when holding an Idempotency-Key */
+const IN_FLIGHT_MARGIN_MS = 30_000;
+
+export interface UpstreamRouterOptions {
+  breaker?: CircuitBreaker;
+  idempotency?: Omit<IdempotencyOptions, "scope" | "inFlightTtlMs">;
+  /** Store for the routes listed in the service's `cache` entries */
+  responseCache?: { store: ResponseCacheStore; maxBodyBytes: number };
+}
+
+/**
+ * Creates the router for a single registered upstream service:
+ * a `/health` endpoint that verifies upstream health, and a proxy
+ * for every other request under the service's mount path.
+ *
+ * When a circuit breaker is supplied, proxied requests are short-circuited
+ * with `UPSTREAM_CIRCUIT_OPEN` while the upstream is considered down.
+ * Idempotent requests are retried per the service's retry policy, and POSTs
+ * carrying an Idempotency-Key are de-duplicated when a store is supplied.
+ * GETs on the service's `cache` routes are served from the response cache
+ * when one is supplied.
+ */
+export function createUpstreamRouter(service: ServiceDefinition, options: UpstreamRouterOptions = {}): Router {
+  const { breaker, idempotency, responseCache } = options;
+  const router = Router();
+  const log = createChildLogger({ service: service.name });
+
+  // Requests holding a breaker permit that have not reported an outcome yet
+  const pending = new WeakSet<IncomingMessage>();
+
+  // Retry bookkeeping for in-flight proxied requests
+  const retry = service.retry;
+  const attempts = new WeakMap<IncomingMessage, { retries: number; eligible: boolean; next: NextFunction }>();
+
+  // Client span of the upstream attempt in flight
+  const upstreamSpans = new WeakMap<IncomingMessage, Span>();
+  const upstreamHost = new URL(service.baseUrl).host;
+
+  /**
+   * Health check endpoint for the upstream service.
+   * Properly verifies upstream health status before returning success.
+   */
+  router.get("/health", async (req, res) => {
+    const requestLog = req.log ?? log;
+    const result = await probeServiceHealth(service);
+
+    if (result.status === "healthy") {
+      return res.json({
+        status: "healthy",
+        service: service.name,
+        upstream: result.upstream
+      });
+    }
+
+    const code = result.code ?? "CONNECTION_FAILED";
+
+    if (code === "TIMEOUT" || code === "CONNECTION_FAILED") {
+      requestLog.error({
+        msg: "Health check failed",
+        service: service.name,
+        error: result.error,
+        isTimeout: code === "TIMEOUT"
+      });
+    } else {
+      requestLog.warn({
+        msg: code === "INVALID_RESPONSE" ? "Upstream returned invalid JSON" : "Upstream health check failed",
+        service: service.name,
+        statusCode: result.statusCode
+      });
+    }
+
+    return res.status(503).json({
+      status: "unhealthy",
+      service: service.name,
+      code,
+      message: HEALTH_ERROR_MESSAGES[code]
+    });
+  });
+
+  /**
+   * Response cache - runs before the breaker so cached (and stale) responses
+   * are still served while the upstream is down. The first matching route applies.
+   */
+  if (responseCache && service.cache.length > 0) {
+    const caches = service.cache.map((route) => ({
+      path: route.path,
+      middleware: createResponseCache({
+        ...responseCache,
+        policy: route,
+        scope: service.id,
+        revalidate: revalidateFromUpstream,
+        // Credentials meant for the upstream itself may change the response
+        skip: (req) => req.headers.authorization !== undefined && !req.apiKey?.token
+      })
+    }));
+
+    router.use((req, res, next) => {
+      const match = caches.find(({ path }) => req.path === path || req.path.startsWith(`${path}/`));
+      return match ? match.middleware(req, res, next) : next();
+    });
+  }
+
+  /**
+   * Idempotency-Key replay - runs before the breaker so replays never need the upstream.
+   */
+  if (idempotency) {
+    // Every attempt may run to the proxy timeout, with backoff in between
+    const { maxAttempts, maxDelayMs } = service.retry;
+    const inFlightTtlMs = maxAttempts * service.timeouts.proxyMs + (maxAttempts - 1) * maxDelayMs + IN_FLIGHT_MARGIN_MS;
+    router.use(createIdempotencyMiddleware({ ...idempotency, inFlightTtlMs, scope: service.id }));
+  }
+
+  /**
+   * Circuit breaker guard - rejects requests while the circuit is open.
+   */
+  if (breaker) {
+    router.use((req, res, next) => {
+      if (!breaker.tryAcquire()) {
+        metrics.proxyErrors.inc({ service: service.name, code: "CIRCUIT_OPEN" });
+        const retryAfterSeconds = Math.max(1, Math.ceil(breaker.retryAfterMs() / 1000));
+        res.setHeader("Retry-After", String(retryAfterSeconds));
+        return next(
+          new ApiError(503, "UPSTREAM_CIRCUIT_OPEN", `Upstream service ${service.name} is unavailable, retry later`)
+        );
+      }
+
+      pending.add(req);
+      res.on("close", () => {
+        if (pending.delete(req)) {
+          breaker.release();
+        }
+      });
+      return next();
+    });
+  }
+
+  /**
+   * Proxy middleware for all other requests to the upstream.
+   *
+   * Responses are handled here (selfHandleResponse) so that retryable
+   * upstream statuses can be discarded and the request re-sent.
+   */
+  const proxy = createProxyMiddleware<Request, Response>({
+    target: service.baseUrl,
+    changeOrigin: true,
+    proxyTimeout: service.timeouts.proxyMs,
+    timeout: service.timeouts.proxyMs,
+    selfHandleResponse: true,
+    on: {
+      proxyReq: (proxyReq: ClientRequest, req) => {
+        // Remove gateway authentication headers before forwarding
+        proxyReq.removeHeader("x-fw-admin-key");
+        if (req.apiKey?.token) {
+          proxyReq.removeHeader("authorization");
+        }
+
+        // One client span per attempt; the upstream continues the trace from it
+        const span = tracer.startSpan(`${req.method} ${service.name}`, {
+          kind: "client",
+          parent: req.span?.context,
+          attributes: {
+            "http.request.method": req.method,
+            "server.address": upstreamHost,
+            "url.path": proxyReq.path.split("?")[0],
+            "gateway.upstream": service.name,
+            "http.request.resend_count": attempts.get(req)?.retries ?? 0
+          }
+        });
+        upstreamSpans.set(req, span);
+        proxyReq.removeHeader("tracestate");
+        for (const [name, value] of Object.entries(traceHeaders(span.context))) {
+          proxyReq.setHeader(name, value);
+        }
+
+        // Re-send bodies already consumed by express.json/urlencoded
+        if (req.readableEnded) {
+          fixRequestBody(proxyReq, req);
+        }
+      },
+      proxyRes: (proxyRes, req, res) => {
+        const statusCode = proxyRes.statusCode ?? 502;
+
+        if (retry.retryableStatuses.includes(statusCode)) {
+          const retryAfterMs = parseRetryAfter(proxyRes.headers["retry-after"]);
+          if (scheduleRetry(req, res, `HTTP ${statusCode}`, retryAfterMs)) {
+            // Discard the failed response body and try again
+            endUpstreamSpan(req, statusCode);
+            proxyRes.resume();
+            return;
+          }
+        }
+
+        settleBreaker(req, !BREAKER_FAILURE_STATUSES.has(statusCode));
+        reportRetries(req, res, statusCode);
+
+        res.status(statusCode);
+        for (const [name, value] of Object.entries(proxyRes.headers)) {
+          if (value !== undefined && !HOP_BY_HOP_HEADERS.has(name)) {
+            res.setHeader(name, value);
+          }
+        }
+        res.once("close", () => endUpstreamSpan(req, statusCode));
+        proxyRes.pipe(res);
+      },
+      error: (err: NodeJS.ErrnoException, req, res) => {
+        endUpstreamSpan(req, err);
+
+        if (
+          err.code &&
+          retry.retryableErrors.includes(err.code) &&
+          "status" in res &&
+          scheduleRetry(req, res, err.code, null)
+        ) {
+          return;
+        }
+
+        log.error({
+          msg: "Proxy error",
+          error: err.message
+        });
+        metrics.proxyErrors.inc({ service: service.name, code: err.code ?? "UNKNOWN" });
+
+        settleBreaker(req, false);
+
+        if (res && "status" in res && typeof res.status === "function" && !res.headersSent) {
+          reportRetries(req, res, 502);
+          res.status(502).json({
+            status: "error",
+            code: "PROXY_ERROR",
+            message: "Unable to reach upstream service"
+          });
+        }
+      }
+    }
+  });
+
+  /**
+   * Reports the final outcome of a request to the circuit breaker.
+   * Intermediate retry attempts are not counted.
+   */
+  function settleBreaker(req: Request, ok: boolean): void {
+    if (breaker && pending.delete(req)) {
+      if (ok) {
+        breaker.recordSuccess();
+      } else {
+        breaker.recordFailure();
+      }
+    }
+  }
+
+  /**
+   * Ends the client span of the current attempt with its status code or error.
+   */
+  function endUpstreamSpan(req: Request, outcome: number | Error): void {
+    const span = upstreamSpans.get(req);
+    if (!span) {
+      return;
+    }
+    upstreamSpans.delete(req);
+    if (outcome instanceof Error) {
+      span.recordException(outcome);
+    } else {
+      span.setAttribute("http.response.status_code", outcome);
+      if (outcome >= 400) {
+        span.setStatus("error", `HTTP ${outcome}`);
+      }
+    }
+    span.end();
+  }
+
+  /**
+   * Surfaces the retry count on the response and the request log.
+   */
+  function reportRetries(req: Request, res: Response, statusCode: number): void {
+    const state = attempts.get(req);
+    if (state && state.retries > 0) {
+      res.setHeader(RETRY_COUNT_HEADER, String(state.retries));
+      (req.log ?? log).info({
+        msg: "Upstream request finished after retries",
+        service: service.name,
+        retries: state.retries,
+        statusCode
+      });
+    }
+  }
+
+  /**
+   * Schedules another attempt if the request is eligible and the policy
+   * allows it. Returns false when the caller should fail the request.
+   */
+  function scheduleRetry(req: Request, res: Response, reason: string, retryAfterMs: number | null): boolean {
+    const state = attempts.get(req);
+    if (!state?.eligible || state.retries + 1 >= retry.maxAttempts || res.headersSent) {
+      return false;
+    }
+
+    const backoffMs = computeBackoffDelay(retry, state.retries + 1);
+    const delayMs = retryAfterMs === null ? backoffMs : Math.max(backoffMs, retryAfterMs);
+
+    // The upstream asked us to wait longer than we are willing to hold the client
+    if (delayMs > retry.maxDelayMs) {
+      return false;
+    }
+
+    state.retries++;
+    (req.log ?? log).warn({
+      msg: "Retrying upstream request",
+      service: service.name,
+      reason,
+      retry: state.retries,
+      maxAttempts: retry.maxAttempts,
+      delayMs
+    });
+
+    const timer = setTimeout(() => {
+      if (!res.destroyed) {
+        void proxy(req, res, state.next);
+      }
+    }, delayMs);
+    res.once("close", () => clearTimeout(timer));
+    return true;
+  }
+
+  /**
+   * Fetches a fresh copy of a cached GET straight from the upstream (no retries).
+   * Honours the circuit breaker and reports the outcome to it.
+   */
+  async function revalidateFromUpstream(req: Request): Promise<RevalidatedResponse> {
+    const url = `${service.baseUrl.replace(/\/$/, "")}${req.originalUrl.slice(service.mountPath.length)}`;
+    const accept = req.headers.accept;
+
+    if (breaker && !breaker.tryAcquire()) {
+      throw new Error(`Circuit for ${service.name} is open`);
+    }
+
+    let response;
+    try {
+      response = await tracedFetch(
+        `GET ${service.name}`,
+        url,
+        { headers: accept ? { Accept: accept } : {}, signal: AbortSignal.timeout(service.timeouts.proxyMs) },
+        { "gateway.upstream": service.name }
+      );
+    } catch (error) {
+      breaker?.recordFailure();
+      throw error;
+    }
+
+    if (breaker) {
+      if (BREAKER_FAILURE_STATUSES.has(response.status)) {
+        breaker.recordFailure();
+      } else {
+        breaker.recordSuccess();
+      }
+    }
+
+    return {
+      statusCode: response.status,
+      headers: Object.fromEntries(response.headers),
+      body: Buffer.from(await response.arrayBuffer())
+    };
+  }
+
+  router.use((req, res, next) => {
+    attempts.set(req, {
+      retries: 0,
+      eligible: retry.maxAttempts > 1 && isIdempotentRequest(req) && hasReplayableBody(req),
+      next
+    });
+    return proxy(req, res, next);
+  });
+
+  return router;
+}
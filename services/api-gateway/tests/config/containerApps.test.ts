@@ -0,0 +1,127 @@
+/**
+ * Container App Registry Configuration Tests
+ *
+ * Tests parseContainerApps for:
+ * - Defaults (all actions, subscription and resource group from the environment)
+ * - Accepted document shapes (bare array, { apps: [...] })
+ * - Validation failures (reserved or duplicate ids, bad names, missing Azure scope)
+ * - Azure scope being optional for the docker provider
+ */
+
+import { describe, it, expect } from "vitest";
+import { CONTAINER_ACTIONS, parseContainerApps } from "../../src/config";
+
+const DEFAULTS = { subscriptionId: "sub-1", resourceGroup: "rg-docs" };
+
+// =============================================================================
+// TEST SUITE
+// =============================================================================
+
+describe("container app registry", () => {
+  // ---------------------------------------------------------------------------
+  // DEFAULTS
+  // ---------------------------------------------------------------------------
+
+  describe("defaults", () => {
+    it("should allow every action and use the default subscription and resource group", () => {
+      const [app] = parseContainerApps(
+        [{ id: "processor", name: "Document Processor", containerAppName: "doc-processor" }],
+        DEFAULTS
+      );
+
+      expect(app).toEqual({
+        id: "processor",
+        name: "Document Processor",
+        containerAppName: "doc-processor",
+        subscriptionId: "sub-1",
+        resourceGroup: "rg-docs",
+        actions: [...CONTAINER_ACTIONS]
+      });
+    });
+
+    it("should keep per-app subscription, resource group and actions", () => {
+      const [app] = parseContainerApps(
+        [
+          {
+            id: "ocr",
+            name: "OCR Worker",
+            containerAppName: "ocr-worker",
+            subscriptionId: "sub-2",
+            resourceGroup: "rg-ocr",
+            actions: ["start", "stop"]
+          }
+        ],
+        DEFAULTS
+      );
+
+      expect(app).toMatchObject({ subscriptionId: "sub-2", resourceGroup: "rg-ocr", actions: ["start", "stop"] });
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // DOCUMENT SHAPES
+  // ---------------------------------------------------------------------------
+
+  describe("document shapes", () => {
+    it("should accept an object with an apps array", () => {
+      const apps = parseContainerApps(
+        { apps: [{ id: "embedder", name: "Embedding Worker", containerAppName: "embedding-worker" }] },
+        DEFAULTS
+      );
+
+      expect(apps.map((app) => app.id)).toEqual(["embedder"]);
+    });
+
+    it("should accept an empty list", () => {
+      expect(parseContainerApps([], DEFAULTS)).toEqual([]);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // VALIDATION
+  // ---------------------------------------------------------------------------
+
+  describe("validation", () => {
+    it("should reject ids that collide with the legacy routes", () => {
+      expect(() =>
+        parseContainerApps([{ id: "status", name: "Status", containerAppName: "status-app" }], DEFAULTS)
+      ).toThrow(/reserved/);
+    });
+
+    it("should reject duplicate ids", () => {
+      expect(() =>
+        parseContainerApps(
+          [
+            { id: "ocr", name: "OCR", containerAppName: "ocr-worker" },
+            { id: "ocr", name: "OCR (EU)", containerAppName: "ocr-worker-eu" }
+          ],
+          DEFAULTS
+        )
+      ).toThrow(/Duplicate container app id/);
+    });
+
+    it("should reject invalid Azure app names", () => {
+      expect(() =>
+        parseContainerApps([{ id: "ocr", name: "OCR", containerAppName: "OCR_Worker" }], DEFAULTS)
+      ).toThrow(/containerAppName/);
+    });
+
+    it("should reject unknown actions", () => {
+      expect(() =>
+        parseContainerApps([{ id: "ocr", name: "OCR", containerAppName: "ocr-worker", actions: ["delete"] }], DEFAULTS)
+      ).toThrow();
+    });
+
+    it("should require a subscription and resource group", () => {
+      expect(() =>
+        parseContainerApps([{ id: "ocr", name: "OCR", containerAppName: "ocr-worker" }])
+      ).toThrow(/subscriptionId and resourceGroup/);
+    });
+
+    it("should not require a subscription and resource group for the docker provider", () => {
+      const [app] = parseContainerApps([{ id: "gateway", name: "API Gateway", containerAppName: "fw-admin-api-gateway" }], {}, "docker");
+
+      expect(app).toMatchObject({ id: "gateway", containerAppName: "fw-admin-api-gateway", subscriptionId: "", resourceGroup: "" });
+    });
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Service Registry Configuration Tests
+ *
+ * Tests parseServiceRegistry for:
+ * - Defaults (mount path, health path, timeouts, auth policy)
+ * - Accepted document shapes (bare array, { services: [...] })
+ * - Validation failures (bad URLs, duplicates, malformed identifiers)
+ * - The default registry built from the legacy service URL variables
+ * - Idle auto-stop settings and their container app (findIdleStopIssues)
+ */
+
+import { describe, it, expect } from "vitest";
+import { config, findIdleStopIssues, parseServiceRegistry, type ContainerAppDefinition } from "../../src/config";
+
+// =============================================================================
+// TEST SUITE
+// =============================================================================
+
+describe("service registry", () => {
+  // ---------------------------------------------------------------------------
+  // DEFAULTS
+  // ---------------------------------------------------------------------------
+
+  describe("defaults", () => {
+    it("should derive the mount path from the service name", () => {
+      const [service] = parseServiceRegistry([
+        { id: "ocrWorker", name: "ocr-worker", baseUrl: "http://localhost:7000" }
+      ]);
+
+      expect(service.mountPath).toBe("/api/v1/ocr-worker");
+    });
+
+    it("should apply default health path, timeouts and auth policy", () => {
+      const [service] = parseServiceRegistry([
+        { id: "pricing", name: "pricing", baseUrl: "http://localhost:7100" }
+      ]);
+
+      expect(service.healthPath).toBe("/health");
+      expect(service.timeouts).toEqual({ healthMs: 5000, proxyMs: 300000 });
+      expect(service.auth).toBe("api-key");
+    });
+
+    it("should keep explicit overrides", () => {
+      const [service] = parseServiceRegistry([
+        {
+          id: "pricing",
+          name: "pricing",
+          baseUrl: "http://localhost:7100",
+          mountPath: "/api/v2/prices",
+          healthPath: "/healthz",
+          timeouts: { healthMs: 1000 },
+          auth: "public"
+        }
+      ]);
+
+      expect(service.mountPath).toBe("/api/v2/prices");
+      expect(service.healthPath).toBe("/healthz");
+      expect(service.timeouts).toEqual({ healthMs: 1000, proxyMs: 300000 });
+      expect(service.auth).toBe("public");
+    });
+
+    it("should cache nothing unless cache routes are listed", () => {
+      const [plain, cached] = parseServiceRegistry([
+        { id: "pricing", name: "pricing", baseUrl: "http://localhost:7100" },
+        {
+          id: "catalogue",
+          name: "catalogue",
+          baseUrl: "http://localhost:7200",
+          cache: [{ path: "/products", ttlMs: 60000 }]
+        }
+      ]);
+
+      expect(plain.cache).toEqual([]);
+      expect(cached.cache).toEqual([{ path: "/products", ttlMs: 60000, staleWhileRevalidateMs: 0 }]);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // DOCUMENT SHAPES
+  // ---------------------------------------------------------------------------
+
+  describe("document shapes", () => {
+    it("should accept an object with a services array", () => {
+      const services = parseServiceRegistry({
+        services: [{ id: "pricing", name: "pricing", baseUrl: "http://localhost:7100" }]
+      });
+
+      expect(services).toHaveLength(1);
+      expect(services[0].id).toBe("pricing");
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // VALIDATION
+  // ---------------------------------------------------------------------------
+
+  describe("validation", () => {
+    it("should reject an empty registry", () => {
+      expect(() => parseServiceRegistry([])).toThrow();
+    });
+
+    it("should reject non-http base URLs", () => {
+      expect(() =>
+        parseServiceRegistry([{ id: "pricing", name: "pricing", baseUrl: "ftp://localhost" }])
+      ).toThrow(/http/);
+    });
+
+    it("should reject duplicate ids", () => {
+      expect(() =>
+        parseServiceRegistry([
+          { id: "pricing", name: "pricing", baseUrl: "http://localhost:7100" },
+          { id: "pricing", name: "pricing-v2", baseUrl: "http://localhost:7101" }
+        ])
+      ).toThrow(/Duplicate service id/);
+    });
+
+    it("should reject duplicate mount paths", () => {
+      expect(() =>
+        parseServiceRegistry([
+          { id: "pricing", name: "pricing", baseUrl: "http://localhost:7100" },
+          { id: "pricingV2", name: "pricing-v2", baseUrl: "http://localhost:7101", mountPath: "/api/v1/pricing" }
+        ])
+      ).toThrow(/Duplicate service mountPath/);
+    });
+
+    it("should reject names that are not kebab-case", () => {
+      expect(() =>
+        parseServiceRegistry([{ id: "pricing", name: "Pricing_Service", baseUrl: "http://localhost:7100" }])
+      ).toThrow(/kebab-case/);
+    });
+
+    it("should reject malformed cache routes", () => {
+      expect(() =>
+        parseServiceRegistry([
+          { id: "pricing", name: "pricing", baseUrl: "http://localhost:7100", cache: [{ path: "products", ttlMs: 60000 }] }
+        ])
+      ).toThrow(/Cache path/);
+    });
+
+    it("should reject unknown auth policies", () => {
+      expect(() =>
+        parseServiceRegistry([
+          { id: "pricing", name: "pricing", baseUrl: "http://localhost:7100", auth: "none" }
+        ])
+      ).toThrow();
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // DEFAULT REGISTRY
+  // ---------------------------------------------------------------------------
+
+  describe("default registry", () => {
+    it("should register fw-analysis and backpro from the legacy URL variables", () => {
+      expect(config.services.map((service) => service.id)).toEqual(["fwAnalysis", "backpro"]);
+      expect(config.services[0].baseUrl).toBe("http://localhost:5050");
+      expect(config.services[0].mountPath).toBe("/api/v1/fw-analysis");
+      expect(config.services[1].mountPath).toBe("/api/v1/backpro");
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // IDLE AUTO-STOP
+  // ---------------------------------------------------------------------------
+
+  describe("idle auto-stop", () => {
+    const APPS: ContainerAppDefinition[] = [
+      { id: "analysis", name: "FW Analysis", subscriptionId: "sub-1", resourceGroup: "rg", containerAppName: "fw-analysis", actions: ["start", "stop"] },
+      { id: "viewer", name: "Viewer", subscriptionId: "sub-1", resourceGroup: "rg", containerAppName: "viewer", actions: ["start"] }
+    ];
+
+    it("should default the idle period, wake timeout and waiting limit", () => {
+      const [service] = parseServiceRegistry([
+        { id: "analysis", name: "analysis", baseUrl: "http://localhost:5050", idleStop: { containerAppId: "analysis" } }
+      ]);
+
+      expect(service.idleStop).toEqual({
+        containerAppId: "analysis",
+        idleMs: 1800000,
+        wakeTimeoutMs: 120000,
+        maxWaitingRequests: 100
+      });
+      expect(findIdleStopIssues([service], APPS)).toEqual([]);
+    });
+
+    it("should reject idle periods under a minute", () => {
+      expect(() =>
+        parseServiceRegistry([
+          { id: "analysis", name: "analysis", baseUrl: "http://localhost:5050", idleStop: { containerAppId: "analysis", idleMs: 1000 } }
+        ])
+      ).toThrow(/idleStop.idleMs/);
+    });
+
+    it("should report unknown container apps and apps that may not be stopped", () => {
+      const services = parseServiceRegistry([
+        { id: "analysis", name: "analysis", baseUrl: "http://localhost:5050", idleStop: { containerAppId: "missing" } },
+        { id: "viewer", name: "viewer", baseUrl: "http://localhost:5060", idleStop: { containerAppId: "viewer" } }
+      ]);
+
+      const issues = findIdleStopIssues(services, APPS);
+      expect(issues).toHaveLength(2);
+      expect(issues[0]).toMatch(/"missing" is not configured/);
+      expect(issues[1]).toMatch(/must allow the start and stop actions/);
+    });
+  });
+});
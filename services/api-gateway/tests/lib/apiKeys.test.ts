@@ -0,0 +1,181 @@
+/**
+ * Managed API Key Tests
+ *
+ * Tests key minting, rotation and revocation for:
+ * - Key format and id/secret parsing
+ * - Salted hashing (no plaintext at rest)
+ * - Rotation overlap windows and lineage
+ * - Metadata status and hash stripping
+ * - The file store (persistence across instances)
+ */
+
+import { describe, it, expect, afterAll } from "vitest";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import {
+  hashSecret,
+  mintApiKey,
+  parseManagedKey,
+  revokeApiKey,
+  rotateApiKey,
+  toApiKeyMetadata,
+  verifySecret
+} from "../../src/lib/apiKeys";
+import { FileApiKeyStore, MemoryApiKeyStore } from "../../src/lib/apiKeyStore";
+
+const grant = { name: "partner", scopes: ["backpro:read"], expiresAt: null, allowedCidrs: [] };
+
+// =============================================================================
+// TEST SUITE
+// =============================================================================
+
+describe("managed API keys", () => {
+  // ---------------------------------------------------------------------------
+  // MINTING & HASHING
+  // ---------------------------------------------------------------------------
+
+  describe("mintApiKey", () => {
+    it("should return a prefixed key whose id selects the stored record", async () => {
+      const store = new MemoryApiKeyStore();
+      const { key, record } = await mintApiKey(store, grant);
+
+      const parsed = parseManagedKey(key);
+      expect(parsed?.id).toBe(record.id);
+      expect(await store.get(record.id)).toEqual(record);
+    });
+
+    it("should store only a salted hash of the secret", async () => {
+      const store = new MemoryApiKeyStore();
+      const { key, record } = await mintApiKey(store, grant);
+      const { secret } = parseManagedKey(key)!;
+
+      expect(JSON.stringify(record)).not.toContain(secret);
+      expect(record.hash).toBe(hashSecret(secret, record.salt));
+      expect(verifySecret(secret, record.salt, record.hash)).toBe(true);
+      expect(verifySecret(`${secret.slice(0, -1)}x`, record.salt, record.hash)).toBe(false);
+    });
+
+    it("should use a different salt for every key", async () => {
+      const store = new MemoryApiKeyStore();
+      const first = await mintApiKey(store, grant);
+      const second = await mintApiKey(store, grant);
+
+      expect(first.record.salt).not.toBe(second.record.salt);
+    });
+
+    it("should not parse static keys as managed keys", () => {
+      expect(parseManagedKey("dev")).toBeNull();
+      expect(parseManagedKey("fwk_nothex000000_secret")).toBeNull();
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // ROTATION & REVOCATION
+  // ---------------------------------------------------------------------------
+
+  describe("rotateApiKey", () => {
+    it("should mint a replacement and keep the old key for the overlap window", async () => {
+      const store = new MemoryApiKeyStore();
+      const { record } = await mintApiKey(store, grant);
+      const before = Date.now();
+
+      const { minted, previous } = await rotateApiKey(store, record, 60000);
+
+      expect(minted.record).toMatchObject({ name: "partner", scopes: ["backpro:read"], rotatedFrom: record.id });
+      expect(previous.replacedBy).toBe(minted.record.id);
+      expect(Date.parse(previous.expiresAt!)).toBeGreaterThanOrEqual(before + 60000);
+      expect(Date.parse(previous.expiresAt!)).toBeLessThanOrEqual(Date.now() + 60000);
+      expect(await store.get(record.id)).toEqual(previous);
+    });
+
+    it("should not extend a key that expires before the overlap ends", async () => {
+      const store = new MemoryApiKeyStore();
+      const expiresAt = new Date(Date.now() + 1000);
+      const { record } = await mintApiKey(store, { ...grant, expiresAt });
+
+      const { minted, previous } = await rotateApiKey(store, record, 60000);
+
+      expect(previous.expiresAt).toBe(expiresAt.toISOString());
+      expect(minted.record.expiresAt).toBe(expiresAt.toISOString());
+    });
+  });
+
+  describe("revokeApiKey", () => {
+    it("should mark the key revoked and keep the first timestamp", async () => {
+      const store = new MemoryApiKeyStore();
+      const { record } = await mintApiKey(store, grant);
+
+      const revoked = await revokeApiKey(store, record);
+      const again = await revokeApiKey(store, revoked);
+
+      expect(revoked.revokedAt).not.toBeNull();
+      expect(again.revokedAt).toBe(revoked.revokedAt);
+      expect(toApiKeyMetadata(revoked).status).toBe("revoked");
+    });
+  });
+
+  describe("toApiKeyMetadata", () => {
+    it("should strip the salt and hash", async () => {
+      const { record } = await mintApiKey(new MemoryApiKeyStore(), grant);
+      const metadata = toApiKeyMetadata(record);
+
+      expect(metadata).not.toHaveProperty("salt");
+      expect(metadata).not.toHaveProperty("hash");
+      expect(metadata.status).toBe("active");
+    });
+
+    it("should report expired keys", async () => {
+      const { record } = await mintApiKey(new MemoryApiKeyStore(), { ...grant, expiresAt: new Date(Date.now() - 1000) });
+
+      expect(toApiKeyMetadata(record).status).toBe("expired");
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // FILE STORE
+  // ---------------------------------------------------------------------------
+
+  describe("FileApiKeyStore", () => {
+    const dir = mkdtempSync(path.join(tmpdir(), "api-keys-"));
+    const filePath = path.join(dir, "nested", "api-keys.json");
+
+    afterAll(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("should start empty when the file does not exist", async () => {
+      expect(await new FileApiKeyStore(filePath).list()).toEqual([]);
+    });
+
+    it("should persist keys across store instances", async () => {
+      const { key, record } = await mintApiKey(new FileApiKeyStore(filePath), grant);
+
+      const reloaded = new FileApiKeyStore(filePath);
+      expect(await reloaded.get(record.id)).toEqual(record);
+      expect(readFileSync(filePath, "utf8")).not.toContain(parseManagedKey(key)!.secret);
+    });
+
+    it("should keep every key when saves run concurrently", async () => {
+      const store = new FileApiKeyStore(filePath);
+      await Promise.all([mintApiKey(store, grant), mintApiKey(store, grant), mintApiKey(store, grant)]);
+
+      expect(await new FileApiKeyStore(filePath).list()).toHaveLength(4);
+    });
+
+    it("should see and keep keys written by another store instance", async () => {
+      const gateway = new FileApiKeyStore(filePath);
+      expect(await gateway.list()).toHaveLength(4);
+
+      // e.g. scripts/bootstrap-api-key.mjs while the gateway is running
+      const { record: bootstrapped } = await mintApiKey(new FileApiKeyStore(filePath), grant);
+      expect(await gateway.get(bootstrapped.id)).toEqual(bootstrapped);
+
+      const { record: minted } = await mintApiKey(gateway, grant);
+      const ids = (await new FileApiKeyStore(filePath).list()).map((key) => key.id);
+      expect(ids).toContain(bootstrapped.id);
+      expect(ids).toContain(minted.id);
+      expect(ids).toHaveLength(6);
+    });
+  });
+});
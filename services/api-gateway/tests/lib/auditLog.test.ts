@@ -0,0 +1,255 @@
+/**
+ * Audit Log Tests
+ *
+ * Tests the hash-chained audit log for:
+ * - Chaining entries to their predecessor
+ * - Detecting edited, removed and reordered entries
+ * - Continuing verification from the last verified entry
+ * - Serialising concurrent appends
+ * - Query filters and paging, across store pages
+ * - The file store (append-only, persistence across instances, ranges by seq)
+ */
+
+import { describe, it, expect, afterAll } from "vitest";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import {
+  AuditLog,
+  FileAuditStore,
+  GENESIS_HASH,
+  MemoryAuditStore,
+  hashAuditEntry,
+  type AuditEntry,
+  type AuditEvent
+} from "../../src/lib/auditLog";
+
+/**
+ * An event with overridable fields.
+ */
+function event(overrides: Partial<AuditEvent> = {}): AuditEvent {
+  return {
+    actor: "ops@fw.dev",
+    actorRole: "admin",
+    action: "container.stop",
+    target: "container:processor",
+    before: null,
+    after: null,
+    requestId: "req-1",
+    ip: "10.0.0.1",
+    ...overrides
+  };
+}
+
+// =============================================================================
+// TEST SUITE
+// =============================================================================
+
+describe("audit log", () => {
+  // ---------------------------------------------------------------------------
+  // CHAINING
+  // ---------------------------------------------------------------------------
+
+  describe("record", () => {
+    it("should chain each entry to the previous entry's hash", async () => {
+      const audit = new AuditLog(new MemoryAuditStore(), () => Date.parse("2026-03-02T09:00:00Z"));
+
+      const first = await audit.record(event());
+      const second = await audit.record(event({ action: "container.start" }));
+
+      expect(first).toMatchObject({ seq: 1, prevHash: GENESIS_HASH, timestamp: "2026-03-02T09:00:00.000Z" });
+      expect(second).toMatchObject({ seq: 2, prevHash: first.hash });
+      const { hash, ...content } = second;
+      expect(hash).toBe(hashAuditEntry(content));
+    });
+
+    it("should give concurrent records consecutive positions", async () => {
+      const audit = new AuditLog(new MemoryAuditStore());
+
+      const entries = await Promise.all([1, 2, 3, 4].map((n) => audit.record(event({ target: `container:${n}` }))));
+
+      expect(entries.map((entry) => entry.seq)).toEqual([1, 2, 3, 4]);
+      expect(await audit.verify()).toEqual({ valid: true, entries: 4, brokenAt: null });
+    });
+
+    it("should hash independently of key order", async () => {
+      const audit = new AuditLog(new MemoryAuditStore());
+      const entry = await audit.record(event({ after: { b: 1, a: { d: 2, c: 3 } } }));
+
+      const { hash, ...content } = JSON.parse(JSON.stringify({ ...entry, after: { a: { c: 3, d: 2 }, b: 1 } })) as AuditEntry;
+
+      expect(hashAuditEntry(content)).toBe(hash);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // VERIFICATION
+  // ---------------------------------------------------------------------------
+
+  describe("verify", () => {
+    /**
+     * A log of three entries whose stored array the test can tamper with.
+     */
+    async function recordedLog() {
+      const store = new MemoryAuditStore();
+      const audit = new AuditLog(store);
+      for (const target of ["container:a", "container:b", "container:c"]) {
+        await audit.record(event({ target }));
+      }
+      const entries = (store as unknown as { entries: AuditEntry[] }).entries;
+      return { audit, entries };
+    }
+
+    it("should detect an edited entry", async () => {
+      const { audit, entries } = await recordedLog();
+      entries[1] = { ...entries[1], actor: "someone-else@fw.dev" };
+
+      expect(await audit.verify()).toEqual({ valid: false, entries: 3, brokenAt: 2 });
+    });
+
+    it("should detect an edited entry whose hash was recomputed", async () => {
+      const { audit, entries } = await recordedLog();
+      const { hash: _hash, ...content } = { ...entries[0], action: "container.start" };
+      entries[0] = { ...content, hash: hashAuditEntry(content) };
+
+      expect(await audit.verify()).toMatchObject({ valid: false, brokenAt: 2 });
+    });
+
+    it("should detect a removed entry", async () => {
+      const { audit, entries } = await recordedLog();
+      entries.splice(1, 1);
+
+      expect(await audit.verify()).toMatchObject({ valid: false, brokenAt: 3 });
+    });
+
+    it("should detect reordered entries", async () => {
+      const { audit, entries } = await recordedLog();
+      [entries[1], entries[2]] = [entries[2], entries[1]];
+
+      expect(await audit.verify()).toMatchObject({ valid: false, brokenAt: 3 });
+    });
+
+    it("should continue from the last verified entry unless asked for a full check", async () => {
+      const { audit, entries } = await recordedLog();
+      await audit.verify();
+      await audit.record(event({ target: "container:d" }));
+      entries[0] = { ...entries[0], actor: "someone-else@fw.dev" };
+
+      expect(await audit.verify()).toEqual({ valid: true, entries: 4, brokenAt: null });
+      expect(await audit.verify({ full: true })).toEqual({ valid: false, entries: 4, brokenAt: 1 });
+    });
+
+    it("should detect a change to the last verified entry", async () => {
+      const { audit, entries } = await recordedLog();
+      await audit.verify();
+      entries[2] = { ...entries[2], actor: "someone-else@fw.dev" };
+
+      expect(await audit.verify()).toMatchObject({ valid: false, brokenAt: 3 });
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // QUERIES
+  // ---------------------------------------------------------------------------
+
+  describe("query", () => {
+    let now = Date.parse("2026-03-01T00:00:00Z");
+    const audit = new AuditLog(new MemoryAuditStore(), () => now);
+
+    it("should filter by actor, action prefix and time, newest first", async () => {
+      await audit.record(event({ actor: "Ops@fw.dev", action: "container.start" }));
+      now += 86_400_000;
+      await audit.record(event({ actor: "ops@fw.dev", action: "container.revision.activate" }));
+      await audit.record(event({ actor: "admin@fw.dev", action: "user.create" }));
+      now += 86_400_000;
+      await audit.record(event({ actor: "ops@fw.dev", action: "containers.misnamed" }));
+
+      const byActor = await audit.query({ actor: "OPS@fw.dev", limit: 10 });
+      const byAction = await audit.query({ action: "container", limit: 10 });
+      const byTime = await audit.query({ from: "2026-03-02T00:00:00.000Z", to: "2026-03-02T23:59:59.999Z", limit: 10 });
+
+      expect(byActor.map((entry) => entry.seq)).toEqual([4, 2, 1]);
+      expect(byAction.map((entry) => entry.action)).toEqual(["container.revision.activate", "container.start"]);
+      expect(byTime.map((entry) => entry.seq)).toEqual([3, 2]);
+    });
+
+    it("should page backwards from a seq", async () => {
+      const page = await audit.query({ beforeSeq: 4, limit: 2 });
+
+      expect(page.map((entry) => entry.seq)).toEqual([3, 2]);
+    });
+
+    it("should search past the first page of the store", async () => {
+      const large = new AuditLog(new MemoryAuditStore());
+      await large.record(event({ actor: "rare@fw.dev" }));
+      for (let n = 0; n < 1200; n++) {
+        await large.record(event());
+      }
+
+      const found = await large.query({ actor: "rare@fw.dev", limit: 10 });
+
+      expect(found.map((entry) => entry.seq)).toEqual([1]);
+      expect(await large.verify()).toEqual({ valid: true, entries: 1201, brokenAt: null });
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // FILE STORE
+  // ---------------------------------------------------------------------------
+
+  describe("FileAuditStore", () => {
+    const directory = mkdtempSync(path.join(tmpdir(), "audit-log-"));
+
+    afterAll(() => {
+      rmSync(directory, { recursive: true, force: true });
+    });
+
+    it("should append one JSON line per entry and continue the chain after a restart", async () => {
+      const filePath = path.join(directory, "nested", "audit.jsonl");
+      const first = await new AuditLog(new FileAuditStore(filePath)).record(event());
+
+      const restarted = new AuditLog(new FileAuditStore(filePath));
+      const second = await restarted.record(event({ action: "container.start" }));
+
+      expect(second).toMatchObject({ seq: 2, prevHash: first.hash });
+      expect(readFileSync(filePath, "utf8").trim().split("\n")).toHaveLength(2);
+      expect(await restarted.verify()).toEqual({ valid: true, entries: 2, brokenAt: null });
+    });
+
+    it("should report an entry edited in the file", async () => {
+      const filePath = path.join(directory, "edited.jsonl");
+      const audit = new AuditLog(new FileAuditStore(filePath));
+      await audit.record(event());
+      await audit.record(event());
+
+      writeFileSync(filePath, readFileSync(filePath, "utf8").replace(/"ip":"10\.0\.0\.1"/, '"ip":"10.0.0.2"'));
+
+      expect(await audit.verify()).toMatchObject({ valid: false, brokenAt: 1 });
+    });
+
+    it("should read ranges by seq after a restart", async () => {
+      const filePath = path.join(directory, "ranges.jsonl");
+      const audit = new AuditLog(new FileAuditStore(filePath));
+      for (const target of ["container:a", "container:b", "container:c", "container:d"]) {
+        await audit.record(event({ target }));
+      }
+
+      const restarted = new FileAuditStore(filePath);
+
+      expect((await restarted.range(2, 2)).map((entry) => entry.target)).toEqual(["container:b", "container:c"]);
+      expect((await restarted.rangeBefore(4, 2)).map((entry) => entry.target)).toEqual(["container:c", "container:b"]);
+      expect((await restarted.rangeBefore(99, 1)).map((entry) => entry.seq)).toEqual([4]);
+      expect(await restarted.range(5, 10)).toEqual([]);
+      expect(await restarted.head()).toMatchObject({ seq: 4 });
+    });
+
+    it("should refuse an entry not chained to the head", async () => {
+      const store = new FileAuditStore(path.join(directory, "race.jsonl"));
+      await new AuditLog(store).record(event());
+
+      const stale = { ...(await store.range(1, 1))[0], seq: 1, prevHash: GENESIS_HASH };
+
+      expect(await store.append(stale)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Circuit Breaker Tests
+ *
+ * Tests the CircuitBreaker state machine for:
+ * - Consecutive-failure threshold
+ * - Failure-rate threshold over the rolling window
+ * - Cool-down and half-open trial requests
+ * - Snapshot reporting
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { CircuitBreaker, type CircuitBreakerOptions } from "../../src/lib/circuitBreaker";
+
+// =============================================================================
+// TEST SETUP
+// =============================================================================
+
+const OPTIONS: CircuitBreakerOptions = {
+  consecutiveFailureThreshold: 3,
+  failureRateThreshold: 0.5,
+  minimumRequests: 4,
+  windowSize: 10,
+  coolDownMs: 10000,
+  halfOpenMaxRequests: 1
+};
+
+/**
+ * Runs one request through the breaker with the given outcome.
+ */
+function send(breaker: CircuitBreaker, ok: boolean): boolean {
+  if (!breaker.tryAcquire()) {
+    return false;
+  }
+  if (ok) {
+    breaker.recordSuccess();
+  } else {
+    breaker.recordFailure();
+  }
+  return true;
+}
+
+// =============================================================================
+// TEST SUITE
+// =============================================================================
+
+describe("CircuitBreaker", () => {
+  let now: number;
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    breaker = new CircuitBreaker(OPTIONS, () => now);
+  });
+
+  // ---------------------------------------------------------------------------
+  // OPENING
+  // ---------------------------------------------------------------------------
+
+  describe("opening", () => {
+    it("should start closed", () => {
+      expect(breaker.snapshot().state).toBe("closed");
+      expect(breaker.tryAcquire()).toBe(true);
+    });
+
+    it("should open after consecutive failures", () => {
+      send(breaker, false);
+      send(breaker, false);
+      expect(breaker.snapshot().state).toBe("closed");
+
+      send(breaker, false);
+      expect(breaker.snapshot().state).toBe("open");
+      expect(breaker.tryAcquire()).toBe(false);
+    });
+
+    it("should reset the consecutive count on success", () => {
+      send(breaker, true);
+      send(breaker, true);
+      send(breaker, true);
+      send(breaker, false);
+      send(breaker, false);
+      send(breaker, true);
+      send(breaker, false);
+
+      expect(breaker.snapshot().state).toBe("closed");
+      expect(breaker.snapshot().consecutiveFailures).toBe(1);
+    });
+
+    it("should open when the failure rate crosses the threshold", () => {
+      send(breaker, true);
+      send(breaker, false);
+      send(breaker, true);
+      expect(breaker.snapshot().state).toBe("closed");
+
+      // 2 failures out of 4 requests = 50%
+      send(breaker, false);
+      expect(breaker.snapshot().state).toBe("open");
+    });
+
+    it("should not evaluate the failure rate below minimumRequests", () => {
+      send(breaker, true);
+      send(breaker, false);
+
+      expect(breaker.snapshot().failureRate).toBe(0.5);
+      expect(breaker.snapshot().state).toBe("closed");
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // COOL-DOWN & HALF-OPEN
+  // ---------------------------------------------------------------------------
+
+  describe("cool-down", () => {
+    beforeEach(() => {
+      for (let i = 0; i < 3; i++) send(breaker, false);
+    });
+
+    it("should report time until retry while open", () => {
+      now += 4000;
+
+      expect(breaker.retryAfterMs()).toBe(6000);
+      expect(breaker.snapshot().retryAt).toBe(new Date(1_000_000 + 10000).toISOString());
+    });
+
+    it("should allow a single trial request after the cool-down", () => {
+      now += 10000;
+
+      expect(breaker.snapshot().state).toBe("half-open");
+      expect(breaker.tryAcquire()).toBe(true);
+      expect(breaker.tryAcquire()).toBe(false);
+    });
+
+    it("should close after a successful trial", () => {
+      now += 10000;
+      send(breaker, true);
+
+      expect(breaker.snapshot()).toMatchObject({ state: "closed", consecutiveFailures: 0, windowRequests: 0 });
+    });
+
+    it("should re-open after a failed trial", () => {
+      now += 10000;
+      send(breaker, false);
+
+      expect(breaker.snapshot().state).toBe("open");
+      expect(breaker.retryAfterMs()).toBe(10000);
+    });
+
+    it("should free the trial slot when a permit is released", () => {
+      now += 10000;
+      expect(breaker.tryAcquire()).toBe(true);
+
+      breaker.release();
+      expect(breaker.tryAcquire()).toBe(true);
+    });
+
+    it("should ignore late outcomes while open", () => {
+      now += 5000;
+      breaker.recordFailure();
+
+      expect(breaker.retryAfterMs()).toBe(5000);
+    });
+  });
+});
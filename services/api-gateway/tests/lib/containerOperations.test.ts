@@ -0,0 +1,193 @@
+/**
+ * Container Operation Tracker Tests
+ *
+ * Tests ContainerOperationTracker (with a scripted provider and clock) for:
+ * - Recording completed (200) and accepted (202) start/stop requests
+ * - Following Azure-AsyncOperation status to success or failure
+ * - Falling back to the app's running status without an operation handle
+ * - Timeouts and repeated poll failures
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import type { ContainerAppDefinition } from "../../src/config";
+import { ContainerOperationTracker } from "../../src/lib/containerOperations";
+import {
+  FakeContainerProvider,
+  type ContainerActionResult,
+  type OperationHandle,
+  type OperationStatus
+} from "../../src/lib/containerProvider";
+import { MemoryOperationStore } from "../../src/lib/operationStore";
+
+// =============================================================================
+// TEST SETUP
+// =============================================================================
+
+const APP: ContainerAppDefinition = {
+  id: "processor",
+  name: "Document Processor",
+  subscriptionId: "sub-1",
+  resourceGroup: "rg-docs",
+  containerAppName: "doc-processor",
+  actions: ["start", "stop"]
+};
+
+const HANDLE: OperationHandle = {
+  url: "https://management.azure.com/providers/Microsoft.App/locations/westeurope/containerappOperationStatuses/op-1",
+  kind: "async-operation",
+  retryAfterMs: 2000
+};
+
+let clock: number;
+let store: MemoryOperationStore;
+let response: ContainerActionResult;
+/** Results of successive polls; an Error is thrown, the last entry repeats */
+let polls: Array<OperationStatus | Error>;
+let runningStatuses: string[];
+let sleeps: number[];
+
+function inProgress(retryAfterMs: number | null = null): OperationStatus {
+  return { status: "InProgress", error: null, retryAfterMs };
+}
+
+/**
+ * Provider answering start/stop with `response`, polls with `polls` and
+ * status lookups with `runningStatuses`.
+ */
+class ScriptedProvider extends FakeContainerProvider {
+  async start(): Promise<ContainerActionResult> {
+    return response;
+  }
+
+  async stop(): Promise<ContainerActionResult> {
+    return response;
+  }
+
+  async pollOperation(): Promise<OperationStatus> {
+    const next = polls.length > 1 ? polls.shift()! : polls[0];
+    if (next instanceof Error) {
+      throw next;
+    }
+    return next;
+  }
+
+  async status(app: ContainerAppDefinition) {
+    const runningStatus = runningStatuses.length > 1 ? runningStatuses.shift()! : runningStatuses[0];
+    return { ...(await super.status(app)), runningStatus };
+  }
+}
+
+function createTracker(): ContainerOperationTracker {
+  return new ContainerOperationTracker(store, { pollIntervalMs: 5000, timeoutMs: 60000 }, {
+    provider: new ScriptedProvider(),
+    now: () => clock,
+    sleep: async (ms) => {
+      sleeps.push(ms);
+      clock += ms;
+    }
+  });
+}
+
+// =============================================================================
+// TEST SUITE
+// =============================================================================
+
+describe("ContainerOperationTracker", () => {
+  beforeEach(() => {
+    clock = Date.parse("2026-03-02T09:00:00Z");
+    store = new MemoryOperationStore(3600000, () => clock);
+    response = { status: "accepted", operation: HANDLE };
+    polls = [{ status: "Succeeded", error: null, retryAfterMs: null }];
+    runningStatuses = ["Running"];
+    sleeps = [];
+  });
+
+  it("should record a completed request as succeeded without polling", async () => {
+    response = { status: "completed", operation: null };
+    const tracker = createTracker();
+
+    const operation = await tracker.begin(APP, "stop", "ops");
+    await tracker.settled();
+
+    expect(operation).toMatchObject({
+      appId: "processor",
+      action: "stop",
+      state: "succeeded",
+      azureStatus: "Succeeded",
+      requestedBy: "ops",
+      completedAt: "2026-03-02T09:00:00.000Z",
+      error: null
+    });
+    expect(operation.id).toMatch(/^[0-9a-f]{16}$/);
+    expect(sleeps).toEqual([]);
+  });
+
+  it("should follow an accepted request until Azure reports success", async () => {
+    polls = [inProgress(3000), inProgress(), { status: "Succeeded", error: null, retryAfterMs: null }];
+    const tracker = createTracker();
+
+    const operation = await tracker.begin(APP, "start", "ops");
+    expect(operation.state).toBe("running");
+    await tracker.settled();
+
+    // Retry-After from the 202, then from the poll, then the poll interval
+    expect(sleeps).toEqual([2000, 3000, 5000]);
+    expect(await store.get(operation.id)).toMatchObject({
+      state: "succeeded",
+      azureStatus: "Succeeded",
+      completedAt: "2026-03-02T09:00:10.000Z"
+    });
+  });
+
+  it("should record Azure's error for failed operations", async () => {
+    polls = [{ status: "Failed", error: { code: "ContainerAppOperationError", message: "Quota exceeded" }, retryAfterMs: null }];
+    const tracker = createTracker();
+
+    const operation = await tracker.begin(APP, "start", "ops");
+    await tracker.settled();
+
+    expect(await store.get(operation.id)).toMatchObject({
+      state: "failed",
+      error: { code: "ContainerAppOperationError", message: "Quota exceeded" }
+    });
+  });
+
+  it("should follow the running status when the provider gives no operation handle", async () => {
+    response = { status: "accepted", operation: null };
+    runningStatuses = ["Running", "Running", "Stopped"];
+    const tracker = createTracker();
+
+    const operation = await tracker.begin(APP, "stop", "ops");
+    await tracker.settled();
+
+    expect(sleeps).toEqual([5000, 5000, 5000]);
+    expect((await store.get(operation.id))?.state).toBe("succeeded");
+  });
+
+  it("should time out operations without an outcome", async () => {
+    polls = [inProgress()];
+    const tracker = createTracker();
+
+    const operation = await tracker.begin(APP, "start", "ops");
+    await tracker.settled();
+
+    expect(await store.get(operation.id)).toMatchObject({
+      state: "timed-out",
+      azureStatus: "InProgress",
+      error: { code: "TIMEOUT" }
+    });
+  });
+
+  it("should give up after repeated poll failures", async () => {
+    polls = [inProgress(), new Error("socket hang up")];
+    const tracker = createTracker();
+
+    const operation = await tracker.begin(APP, "start", "ops");
+    await tracker.settled();
+
+    expect(await store.get(operation.id)).toMatchObject({
+      state: "failed",
+      error: { code: "POLL_FAILED", message: "socket hang up" }
+    });
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Container Scheduler Tests
+ *
+ * Tests ContainerScheduler (with a scripted executor and clock) for:
+ * - Running schedules that fell due since the previous check, once
+ * - Disabled schedules, holidays and actions the app no longer allows
+ * - Recording the outcome of each run (including Azure failures)
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import type { ContainerAppDefinition } from "../../src/config";
+import { ContainerScheduler } from "../../src/lib/containerScheduler";
+import { MemoryScheduleStore, type ContainerSchedule } from "../../src/lib/scheduleStore";
+
+// =============================================================================
+// TEST SETUP
+// =============================================================================
+
+const APPS: ContainerAppDefinition[] = [
+  {
+    id: "processor",
+    name: "Document Processor",
+    subscriptionId: "sub-1",
+    resourceGroup: "rg-docs",
+    containerAppName: "doc-processor",
+    actions: ["start", "stop"]
+  },
+  {
+    id: "ocr",
+    name: "OCR Worker",
+    subscriptionId: "sub-1",
+    resourceGroup: "rg-docs",
+    containerAppName: "ocr-worker",
+    actions: ["start"]
+  }
+];
+
+let clock: number;
+let store: MemoryScheduleStore;
+let executed: string[];
+let failWith: Error | null;
+
+function schedule(overrides: Partial<ContainerSchedule> = {}): ContainerSchedule {
+  return {
+    id: "a1b2c3d4e5f6",
+    appId: "processor",
+    action: "stop",
+    cron: "0 19 * * MON-FRI",
+    timezone: "UTC",
+    holidays: [],
+    enabled: true,
+    description: null,
+    createdAt: "2026-01-01T00:00:00.000Z",
+    updatedAt: "2026-01-01T00:00:00.000Z",
+    lastRun: null,
+    ...overrides
+  };
+}
+
+function createScheduler(): ContainerScheduler {
+  return new ContainerScheduler(
+    store,
+    APPS,
+    { intervalMs: 30000 },
+    async (app, action) => {
+      executed.push(`${app.id}:${action}`);
+      if (failWith) {
+        throw failWith;
+      }
+      return "accepted";
+    },
+    () => clock
+  );
+}
+
+// =============================================================================
+// TEST SUITE
+// =============================================================================
+
+describe("ContainerScheduler", () => {
+  beforeEach(() => {
+    // Monday 19 January 2026, 18:59:45 UTC
+    clock = Date.parse("2026-01-19T18:59:45Z");
+    store = new MemoryScheduleStore();
+    executed = [];
+    failWith = null;
+  });
+
+  it("should run a schedule that fell due since the previous check, once", async () => {
+    await store.save(schedule());
+    const scheduler = createScheduler();
+    scheduler.start();
+    scheduler.stop();
+
+    clock += 30000;
+    await scheduler.check();
+    clock += 30000;
+    await scheduler.check();
+
+    expect(executed).toEqual(["processor:stop"]);
+    expect((await store.get("a1b2c3d4e5f6"))?.lastRun).toEqual({
+      scheduledFor: "2026-01-19T19:00:00.000Z",
+      ranAt: "2026-01-19T19:00:15.000Z",
+      outcome: "accepted"
+    });
+  });
+
+  it("should not run schedules before they are due", async () => {
+    await store.save(schedule({ cron: "0 20 * * *" }));
+    const scheduler = createScheduler();
+    scheduler.start();
+    scheduler.stop();
+
+    clock += 30000;
+    await scheduler.check();
+
+    expect(executed).toEqual([]);
+  });
+
+  it("should skip disabled schedules and holidays", async () => {
+    await store.save(schedule({ id: "000000000001", enabled: false }));
+    await store.save(schedule({ id: "000000000002", holidays: ["2026-01-19"] }));
+    const scheduler = createScheduler();
+    scheduler.start();
+    scheduler.stop();
+
+    clock += 30000;
+    await scheduler.check();
+
+    expect(executed).toEqual([]);
+  });
+
+  it("should record actions the app does not allow as failed without calling Azure", async () => {
+    await store.save(schedule({ appId: "ocr" }));
+    const scheduler = createScheduler();
+    scheduler.start();
+    scheduler.stop();
+
+    clock += 30000;
+    await scheduler.check();
+
+    expect(executed).toEqual([]);
+    expect((await store.get("a1b2c3d4e5f6"))?.lastRun).toMatchObject({
+      outcome: "failed",
+      error: 'Action "stop" is not allowed for container app ocr'
+    });
+  });
+
+  it("should record Azure failures", async () => {
+    failWith = new Error("Azure API error (500)");
+    await store.save(schedule());
+    const scheduler = createScheduler();
+    scheduler.start();
+    scheduler.stop();
+
+    clock += 30000;
+    await scheduler.check();
+
+    expect(executed).toEqual(["processor:stop"]);
+    expect((await store.get("a1b2c3d4e5f6"))?.lastRun).toMatchObject({ outcome: "failed", error: "Azure API error (500)" });
+  });
+
+  it("should not run a run another replica already claimed", async () => {
+    await store.save(schedule());
+    await store.claim("a1b2c3d4e5f6", "2026-01-19T19:00:00.000Z");
+    const scheduler = createScheduler();
+    scheduler.start();
+    scheduler.stop();
+
+    clock += 30000;
+    await scheduler.check();
+
+    expect(executed).toEqual([]);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Cron Expression Tests
+ *
+ * Tests parseCron and nextCronRun for:
+ * - Field syntax (lists, ranges, steps, month and weekday names)
+ * - Day-of-month / day-of-week matching
+ * - Time zones, including daylight saving transitions
+ * - Holiday skip dates and expressions that never fire
+ */
+
+import { describe, it, expect } from "vitest";
+import { isValidTimeZone, nextCronRun, parseCron } from "../../src/lib/cron";
+
+function next(expression: string, after: string, timeZone = "UTC", skipDates: string[] = []): string | null {
+  return nextCronRun(parseCron(expression), new Date(after), timeZone, { skipDates })?.toISOString() ?? null;
+}
+
+// =============================================================================
+// TEST SUITE
+// =============================================================================
+
+describe("cron", () => {
+  // ---------------------------------------------------------------------------
+  // PARSING
+  // ---------------------------------------------------------------------------
+
+  describe("parseCron", () => {
+    it("should expand lists, ranges and steps", () => {
+      const cron = parseCron("*/15 8-9,18 * * *");
+
+      expect(cron.minutes).toEqual([0, 15, 30, 45]);
+      expect(cron.hours).toEqual([8, 9, 18]);
+    });
+
+    it("should accept month and weekday names and treat 7 as Sunday", () => {
+      const cron = parseCron("0 7 * jan-mar MON-FRI");
+
+      expect([...cron.months]).toEqual([1, 2, 3]);
+      expect([...cron.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+      expect([...parseCron("0 7 * * 7").daysOfWeek]).toEqual([0]);
+    });
+
+    it("should normalise whitespace in the source", () => {
+      expect(parseCron("  0   7 * *  1-5 ").source).toBe("0 7 * * 1-5");
+    });
+
+    it.each([
+      ["* * *", /5 fields/],
+      ["61 * * * *", /minute value "61"/],
+      ["0 5-1 * * *", /reversed/],
+      ["0 7 * * FUNDAY", /day-of-week value/],
+      ["*/0 * * * *", /step/]
+    ])("should reject %s", (expression, message) => {
+      expect(() => parseCron(expression)).toThrow(message);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // NEXT RUN
+  // ---------------------------------------------------------------------------
+
+  describe("nextCronRun", () => {
+    it("should find the next weekday run in the schedule's time zone", () => {
+      // Friday 11:00 in Sydney (AEDT, UTC+11)
+      expect(next("0 7 * * MON-FRI", "2026-01-16T00:00:00Z", "Australia/Sydney")).toBe("2026-01-18T20:00:00.000Z");
+    });
+
+    it("should be strictly after the given instant", () => {
+      expect(next("0 7 * * *", "2026-01-16T07:00:00Z")).toBe("2026-01-17T07:00:00.000Z");
+    });
+
+    it("should skip holiday dates", () => {
+      expect(next("0 7 * * MON-FRI", "2026-01-16T00:00:00Z", "Australia/Sydney", ["2026-01-19"])).toBe(
+        "2026-01-19T20:00:00.000Z"
+      );
+    });
+
+    it("should fire on either day field when both are restricted", () => {
+      // 1 January 2026 is a Thursday; the first Monday after it is the 5th
+      expect(next("0 0 1 * MON", "2026-01-01T00:00:00Z")).toBe("2026-01-05T00:00:00.000Z");
+    });
+
+    it("should not fire at wall-clock times skipped by daylight saving", () => {
+      // Sydney skips 02:00-03:00 on 4 October 2026
+      expect(next("30 2 * * *", "2026-10-03T00:00:00Z", "Australia/Sydney")).toBe("2026-10-04T15:30:00.000Z");
+    });
+
+    it("should fire once, on the first occurrence, at repeated wall-clock times", () => {
+      // Sydney repeats 02:00-03:00 on 5 April 2026; the first 02:30 is still AEDT (UTC+11)
+      expect(next("30 2 * * *", "2026-04-04T12:00:00Z", "Australia/Sydney")).toBe("2026-04-04T15:30:00.000Z");
+      expect(next("30 2 * * *", "2026-04-04T15:30:00Z", "Australia/Sydney")).toBe("2026-04-05T16:30:00.000Z");
+    });
+
+    it("should return null for expressions that never fire", () => {
+      expect(next("0 0 30 2 *", "2026-01-01T00:00:00Z")).toBeNull();
+    });
+  });
+
+  describe("isValidTimeZone", () => {
+    it("should accept IANA zones and reject unknown ones", () => {
+      expect(isValidTimeZone("Australia/Sydney")).toBe(true);
+      expect(isValidTimeZone("Mars/Olympus_Mons")).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * Docker Container Provider Tests
+ *
+ * Tests DockerContainerProvider against a stub Docker Engine API on a unix socket for:
+ * - Status mapping from the container's State
+ * - Start/stop/restart, including "already in that state" (304)
+ * - Multiplexed and TTY log output, followed log streams and container events
+ * - Error mapping (CONTAINER_NOT_FOUND, DOCKER_API_ERROR, NOT_SUPPORTED)
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import http from "http";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import type { ContainerAppDefinition } from "../../src/config";
+import { DockerContainerProvider } from "../../src/lib/dockerContainers";
+
+// =============================================================================
+// TEST SETUP
+// =============================================================================
+
+const APP: ContainerAppDefinition = {
+  id: "gateway",
+  name: "API Gateway",
+  subscriptionId: "",
+  resourceGroup: "",
+  containerAppName: "fw-admin-api-gateway",
+  actions: ["start", "stop", "restart"]
+};
+
+const CONTAINER_PATH = "/v1.43/containers/fw-admin-api-gateway";
+
+let directory: string;
+let server: http.Server;
+let provider: DockerContainerProvider;
+let requests: string[];
+let container: { Name: string; State: { Status: string }; Config: { Tty: boolean } };
+let actionStatus: number;
+let logBody: Buffer;
+
+/** One frame of a multiplexed log stream */
+function frame(stream: 1 | 2, text: string): Buffer {
+  const header = Buffer.alloc(8);
+  header[0] = stream;
+  header.writeUInt32BE(Buffer.byteLength(text), 4);
+  return Buffer.concat([header, Buffer.from(text)]);
+}
+
+// =============================================================================
+// TEST SUITE
+// =============================================================================
+
+describe("DockerContainerProvider", () => {
+  beforeAll(async () => {
+    directory = mkdtempSync(path.join(tmpdir(), "docker-provider-"));
+    const socketPath = path.join(directory, "docker.sock");
+
+    server = http.createServer((req, res) => {
+      requests.push(`${req.method} ${req.url}`);
+      const url = req.url ?? "";
+      if (url.startsWith("/v1.43/events?")) {
+        res.writeHead(200, { "Content-Type": "application/json" }).end(
+          '{"Type":"container","Action":"start","timeNano":1772442000000000000}\n' +
+          '{"Type":"container","Action":"die","Actor":{"Attributes":{"exitCode":"137"}},"timeNano":1772442060000000000}\n'
+        );
+      } else if (!url.startsWith(CONTAINER_PATH)) {
+        res.writeHead(404).end('{"message":"No such container"}');
+      } else if (url === `${CONTAINER_PATH}/json`) {
+        res.writeHead(200, { "Content-Type": "application/json" }).end(JSON.stringify(container));
+      } else if (url.startsWith(`${CONTAINER_PATH}/logs`)) {
+        // Followed streams arrive in pieces that need not match frame boundaries
+        res.writeHead(200);
+        res.write(logBody.subarray(0, 5));
+        setTimeout(() => res.end(logBody.subarray(5)), 10);
+      } else {
+        res.writeHead(actionStatus).end();
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(socketPath, resolve));
+    provider = new DockerContainerProvider(`unix://${socketPath}`);
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    requests = [];
+    container = { Name: "/fw-admin-api-gateway", State: { Status: "running" }, Config: { Tty: false } };
+    actionStatus = 204;
+    logBody = Buffer.alloc(0);
+  });
+
+  // ---------------------------------------------------------------------------
+  // STATUS & ACTIONS
+  // ---------------------------------------------------------------------------
+
+  describe("status and actions", () => {
+    it("should map the container state to a running status", async () => {
+      const running = await provider.status(APP);
+      container.State.Status = "exited";
+      const exited = await provider.status(APP);
+
+      expect(running).toMatchObject({ name: "fw-admin-api-gateway", runningStatus: "Running", provisioningState: "running" });
+      expect(exited.runningStatus).toBe("Stopped");
+    });
+
+    it("should start, stop and restart the container", async () => {
+      await expect(provider.start(APP)).resolves.toEqual({ status: "completed", operation: null });
+      await expect(provider.stop(APP)).resolves.toEqual({ status: "completed", operation: null });
+      await expect(provider.restart(APP)).resolves.toEqual({ status: "completed", revision: null });
+
+      expect(requests).toEqual([
+        `POST ${CONTAINER_PATH}/start`,
+        `POST ${CONTAINER_PATH}/stop?t=10`,
+        `POST ${CONTAINER_PATH}/restart?t=10`
+      ]);
+    });
+
+    it("should treat a container already in the requested state as done", async () => {
+      actionStatus = 304;
+
+      await expect(provider.start(APP)).resolves.toEqual({ status: "completed", operation: null });
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // LOGS
+  // ---------------------------------------------------------------------------
+
+  describe("logs", () => {
+    it("should split multiplexed output into stdout and stderr lines", async () => {
+      logBody = Buffer.concat([
+        frame(1, "2026-03-02T09:00:00.123456789Z Listening on 8787\n"),
+        frame(2, "2026-03-02T09:00:01.000000000Z Upstream backpro unreachable\n")
+      ]);
+
+      const lines = await provider.logs(APP, { tail: 50 });
+
+      expect(lines).toEqual([
+        { timestamp: "2026-03-02T09:00:00.123Z", stream: "stdout", message: "Listening on 8787" },
+        { timestamp: "2026-03-02T09:00:01.000Z", stream: "stderr", message: "Upstream backpro unreachable" }
+      ]);
+      expect(requests).toContain(`GET ${CONTAINER_PATH}/logs?stdout=1&stderr=1&timestamps=1&tail=50`);
+    });
+
+    it("should follow output split across chunks", async () => {
+      logBody = Buffer.concat([
+        frame(1, "2026-03-02T09:00:00Z first "),
+        frame(1, "line continued\n2026-03-02T09:00:02Z second\n"),
+        frame(2, "2026-03-02T09:00:03Z oops\n")
+      ]);
+
+      const entries = [];
+      for await (const entry of await provider.openLogStream(APP, { type: "console", tail: 5, signal: new AbortController().signal })) {
+        entries.push(entry);
+      }
+
+      expect(entries).toEqual([
+        { timestamp: "2026-03-02T09:00:00.000Z", stream: "stdout", message: "first line continued" },
+        { timestamp: "2026-03-02T09:00:02.000Z", stream: "stdout", message: "second" },
+        { timestamp: "2026-03-02T09:00:03.000Z", stream: "stderr", message: "oops" }
+      ]);
+      expect(requests).toContain(`GET ${CONTAINER_PATH}/logs?follow=1&stdout=1&stderr=1&timestamps=1&tail=5`);
+    });
+
+    it("should stream container events as system logs", async () => {
+      const entries = [];
+      for await (const entry of await provider.openLogStream(APP, { type: "system", tail: 5, signal: new AbortController().signal })) {
+        entries.push(entry);
+      }
+
+      expect(entries).toEqual([
+        { timestamp: "2026-03-02T09:00:00.000Z", stream: "system", message: "start" },
+        { timestamp: "2026-03-02T09:01:00.000Z", stream: "system", message: "die (exit code 137)" }
+      ]);
+      const filters = new URL(`http://docker${requests[0].split(" ")[1]}`).searchParams.get("filters");
+      expect(JSON.parse(filters ?? "")).toEqual({ type: ["container"], container: ["fw-admin-api-gateway"] });
+    });
+
+    it("should end a followed stream on abort", async () => {
+      logBody = frame(1, "2026-03-02T09:00:00Z first\n");
+      const abort = new AbortController();
+      const stream = await provider.openLogStream(APP, { type: "console", tail: 5, signal: abort.signal });
+
+      abort.abort();
+
+      await expect((async () => {
+        for await (const _entry of stream) {
+          // drain
+        }
+      })()).rejects.toThrow(/abort/i);
+    });
+
+    it("should read TTY output as plain stdout", async () => {
+      container.Config.Tty = true;
+      logBody = Buffer.from("2026-03-02T09:00:00Z first\nsecond without timestamp\n");
+
+      const lines = await provider.logs(APP, { tail: 10 });
+
+      expect(lines).toEqual([
+        { timestamp: "2026-03-02T09:00:00.000Z", stream: "stdout", message: "first" },
+        { timestamp: null, stream: "stdout", message: "second without timestamp" }
+      ]);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // ERRORS
+  // ---------------------------------------------------------------------------
+
+  describe("errors", () => {
+    it("should report unknown containers as CONTAINER_NOT_FOUND", async () => {
+      await expect(provider.status({ ...APP, containerAppName: "missing" })).rejects.toMatchObject({
+        statusCode: 404,
+        code: "CONTAINER_NOT_FOUND"
+      });
+    });
+
+    it("should report Docker failures as DOCKER_API_ERROR", async () => {
+      actionStatus = 500;
+
+      await expect(provider.stop(APP)).rejects.toMatchObject({ statusCode: 502, code: "DOCKER_API_ERROR" });
+    });
+
+    it("should report an unreachable Docker Engine as DOCKER_API_ERROR", async () => {
+      const offline = new DockerContainerProvider(`unix://${path.join(directory, "missing.sock")}`);
+
+      await expect(offline.status(APP)).rejects.toMatchObject({ statusCode: 502, code: "DOCKER_API_ERROR" });
+    });
+
+    it("should reject named revisions with NOT_SUPPORTED", async () => {
+      await expect(provider.restart(APP, "gateway--v2")).rejects.toMatchObject({ statusCode: 501, code: "NOT_SUPPORTED" });
+      expect(requests).toEqual([]);
+    });
+  });
+});
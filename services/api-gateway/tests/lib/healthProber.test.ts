@@ -0,0 +1,189 @@
+/**
+ * Health Prober Tests
+ *
+ * Tests HealthProber (with a scripted probe and clock) for:
+ * - Uptime percentage and p50/p95 latency over the window
+ * - Outage detection (ended and ongoing)
+ * - Pruning of samples older than the window and the sample limit
+ * - latest() freshness and joining of in-flight probe rounds
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { parseServiceRegistry, type ServiceDefinition } from "../../src/config";
+import { HealthProber } from "../../src/lib/healthProber";
+import type { HealthProbeResult } from "../../src/lib/health";
+
+// =============================================================================
+// TEST SETUP
+// =============================================================================
+
+const [service] = parseServiceRegistry([{ id: "ocrWorker", name: "ocr-worker", baseUrl: "http://localhost:7000" }]);
+
+const INTERVAL_MS = 30000;
+const WINDOW_MS = 10 * INTERVAL_MS;
+
+let clock: number;
+let results: HealthProbeResult[];
+let probes: number;
+
+function healthy(latencyMs: number): HealthProbeResult {
+  return { status: "healthy", latencyMs };
+}
+
+function unhealthy(code: HealthProbeResult["code"] = "TIMEOUT"): HealthProbeResult {
+  return { status: "unhealthy", latencyMs: 5000, code };
+}
+
+/**
+ * Creates a prober whose probe returns the scripted results in order.
+ */
+function createProber(): HealthProber {
+  return new HealthProber(
+    [service],
+    { intervalMs: INTERVAL_MS, windowMs: WINDOW_MS },
+    async (_service: ServiceDefinition) => {
+      probes++;
+      return results.shift() ?? healthy(10);
+    },
+    () => clock
+  );
+}
+
+/**
+ * Runs one probe round per scripted result, advancing the clock by one interval each.
+ */
+async function runRounds(prober: HealthProber, scripted: HealthProbeResult[]): Promise<void> {
+  results = [...scripted];
+  for (let i = 0; i < scripted.length; i++) {
+    await prober.probeAll();
+    clock += INTERVAL_MS;
+  }
+}
+
+// =============================================================================
+// TEST SUITE
+// =============================================================================
+
+describe("HealthProber", () => {
+  beforeEach(() => {
+    clock = Date.parse("2026-01-24T10:00:00.000Z");
+    results = [];
+    probes = 0;
+  });
+
+  // ---------------------------------------------------------------------------
+  // STATISTICS
+  // ---------------------------------------------------------------------------
+
+  describe("history", () => {
+    it("should report unknown status before the first probe", () => {
+      expect(createProber().history(service)).toEqual({
+        name: "ocr-worker",
+        current: "unknown",
+        uptimePercent: null,
+        latency: { p50: null, p95: null },
+        samples: [],
+        outages: []
+      });
+    });
+
+    it("should compute uptime and latency percentiles", async () => {
+      const prober = createProber();
+      await runRounds(prober, [healthy(10), healthy(20), healthy(30), unhealthy(), healthy(40)]);
+
+      const history = prober.history(service);
+
+      expect(history.current).toBe("healthy");
+      expect(history.uptimePercent).toBe(80);
+      expect(history.latency).toEqual({ p50: 30, p95: 5000 });
+      expect(history.samples).toHaveLength(5);
+      expect(history.samples[3]).toEqual({
+        timestamp: "2026-01-24T10:01:30.000Z",
+        status: "unhealthy",
+        latencyMs: 5000,
+        code: "TIMEOUT"
+      });
+    });
+
+    it("should record ended and ongoing outages", async () => {
+      const prober = createProber();
+      await runRounds(prober, [
+        healthy(10),
+        unhealthy("CONNECTION_FAILED"),
+        unhealthy("TIMEOUT"),
+        healthy(10),
+        unhealthy("UPSTREAM_ERROR")
+      ]);
+
+      const { outages, current } = prober.history(service);
+
+      expect(current).toBe("unhealthy");
+      expect(outages).toEqual([
+        {
+          startedAt: "2026-01-24T10:00:30.000Z",
+          endedAt: "2026-01-24T10:01:30.000Z",
+          durationMs: 2 * INTERVAL_MS,
+          code: "CONNECTION_FAILED"
+        },
+        {
+          startedAt: "2026-01-24T10:02:00.000Z",
+          endedAt: null,
+          durationMs: INTERVAL_MS,
+          code: "UPSTREAM_ERROR"
+        }
+      ]);
+    });
+
+    it("should drop samples older than the window", async () => {
+      const prober = createProber();
+      await runRounds(prober, [unhealthy(), ...Array.from({ length: 11 }, () => healthy(10))]);
+
+      const history = prober.history(service);
+
+      expect(history.samples).toHaveLength(10);
+      expect(history.uptimePercent).toBe(100);
+      expect(history.outages).toEqual([]);
+    });
+
+    it("should limit returned samples but not the statistics", async () => {
+      const prober = createProber();
+      await runRounds(prober, [unhealthy(), healthy(10), healthy(10), healthy(10)]);
+
+      const history = prober.history(service, 2);
+
+      expect(history.samples).toHaveLength(2);
+      expect(history.uptimePercent).toBe(75);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // LATEST SAMPLE AND ROUNDS
+  // ---------------------------------------------------------------------------
+
+  describe("latest", () => {
+    it("should return the latest sample while it is recent", async () => {
+      const prober = createProber();
+      await runRounds(prober, [healthy(15)]);
+
+      expect(prober.latest("ocrWorker")).toMatchObject({ status: "healthy", latencyMs: 15 });
+    });
+
+    it("should return null once the prober has stalled", async () => {
+      const prober = createProber();
+      await runRounds(prober, [healthy(15)]);
+      clock += 2 * INTERVAL_MS;
+
+      expect(prober.latest("ocrWorker")).toBeNull();
+      expect(prober.latest("unknownService")).toBeNull();
+    });
+
+    it("should join a round that is still in flight", async () => {
+      const prober = createProber();
+
+      await Promise.all([prober.probeAll(), prober.probeAll()]);
+
+      expect(probes).toBe(1);
+      expect(prober.history(service).samples).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Idle Auto-Stop Tests
+ *
+ * Tests IdleStopController (with scripted Azure calls, health checks and clock) for:
+ * - Stopping the app after idleMs without requests, never with requests in flight
+ * - Waking a stopped app once for all waiting requests
+ * - Giving up after wakeTimeoutMs or when too many requests are waiting
+ * - Noticing apps stopped elsewhere once the health check fails
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { parseServiceRegistry, type ContainerAppDefinition } from "../../src/config";
+import { IdleStopController } from "../../src/lib/idleStop";
+
+// =============================================================================
+// TEST SETUP
+// =============================================================================
+
+const [SERVICE] = parseServiceRegistry([
+  {
+    id: "fwAnalysis",
+    name: "fw-analysis",
+    baseUrl: "http://localhost:5050",
+    idleStop: { containerAppId: "analysis", idleMs: 600000, wakeTimeoutMs: 10000, maxWaitingRequests: 2 }
+  }
+]);
+
+const APP: ContainerAppDefinition = {
+  id: "analysis",
+  name: "FW Analysis",
+  subscriptionId: "sub-1",
+  resourceGroup: "rg-docs",
+  containerAppName: "fw-analysis",
+  actions: ["start", "stop"]
+};
+
+let clock: number;
+let executed: string[];
+let runningStatus: string;
+/** Health results returned by successive probes (the last one repeats) */
+let probes: Array<"healthy" | "unhealthy">;
+let lastHealth: "healthy" | "unhealthy" | null;
+let startFails: boolean;
+
+function createController(): IdleStopController {
+  return new IdleStopController(SERVICE, APP, {
+    execute: async (app, action) => {
+      executed.push(`${app.id}:${action}`);
+      if (action === "start" && startFails) {
+        throw new Error("Azure API error (500)");
+      }
+      runningStatus = action === "start" ? "Running" : "Stopped";
+      return "accepted";
+    },
+    runningStatus: async () => runningStatus,
+    probe: async () => ({ status: probes.length > 1 ? probes.shift()! : probes[0], latencyMs: 5 }),
+    lastHealth: () => lastHealth,
+    now: () => clock,
+    sleep: async (ms) => {
+      clock += ms;
+    }
+  });
+}
+
+/** Puts the controller in the "stopped" state through an idle stop */
+async function stopIdle(controller: IdleStopController): Promise<void> {
+  clock += 600000;
+  await controller.checkIdle();
+  executed = [];
+}
+
+// =============================================================================
+// TEST SUITE
+// =============================================================================
+
+describe("IdleStopController", () => {
+  beforeEach(() => {
+    clock = Date.parse("2026-03-02T09:00:00Z");
+    executed = [];
+    runningStatus = "Running";
+    probes = ["healthy"];
+    lastHealth = "healthy";
+    startFails = false;
+  });
+
+  // ---------------------------------------------------------------------------
+  // IDLE STOP
+  // ---------------------------------------------------------------------------
+
+  describe("idle stop", () => {
+    it("should stop the app once it has been idle for idleMs", async () => {
+      const controller = createController();
+      controller.track()();
+
+      clock += 599999;
+      await controller.checkIdle();
+      expect(executed).toEqual([]);
+
+      clock += 1;
+      await controller.checkIdle();
+      await controller.checkIdle();
+      expect(executed).toEqual(["analysis:stop"]);
+      expect(controller.currentState).toBe("stopped");
+    });
+
+    it("should not stop the app while a request is in flight", async () => {
+      const controller = createController();
+      const done = controller.track();
+
+      clock += 3600000;
+      await controller.checkIdle();
+      expect(executed).toEqual([]);
+
+      // Idle time counts from the end of the request
+      done();
+      clock += 599999;
+      await controller.checkIdle();
+      expect(executed).toEqual([]);
+    });
+
+    it("should not call stop when Azure already reports the app stopped", async () => {
+      runningStatus = "Stopped";
+      const controller = createController();
+
+      clock += 600000;
+      await controller.checkIdle();
+
+      expect(executed).toEqual([]);
+      expect(controller.currentState).toBe("stopped");
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // WAKE ON REQUEST
+  // ---------------------------------------------------------------------------
+
+  describe("wake on request", () => {
+    it("should let requests through while the app is running", async () => {
+      const controller = createController();
+
+      expect(await controller.ensureAwake()).toBe(true);
+      expect(executed).toEqual([]);
+    });
+
+    it("should start a stopped app once and wait for the health check", async () => {
+      const controller = createController();
+      await stopIdle(controller);
+      probes = ["unhealthy", "unhealthy", "healthy"];
+
+      const results = await Promise.all([controller.ensureAwake(), controller.ensureAwake()]);
+
+      expect(results).toEqual([true, true]);
+      expect(executed).toEqual(["analysis:start"]);
+      expect(controller.currentState).toBe("running");
+    });
+
+    it("should give up after wakeTimeoutMs and keep waiting on the next request", async () => {
+      const controller = createController();
+      await stopIdle(controller);
+      probes = ["unhealthy"];
+
+      expect(await controller.ensureAwake()).toBe(false);
+      expect(controller.currentState).toBe("waking");
+
+      probes = ["healthy"];
+      expect(await controller.ensureAwake()).toBe(true);
+    });
+
+    it("should reject requests beyond maxWaitingRequests", async () => {
+      const controller = createController();
+      await stopIdle(controller);
+
+      const results = await Promise.all([controller.ensureAwake(), controller.ensureAwake(), controller.ensureAwake()]);
+
+      expect(results).toEqual([true, true, false]);
+    });
+
+    it("should report a failed start without waiting for health", async () => {
+      const controller = createController();
+      await stopIdle(controller);
+      startFails = true;
+
+      expect(await controller.ensureAwake()).toBe(false);
+      expect(controller.currentState).toBe("stopped");
+    });
+
+    it("should notice an app stopped elsewhere once the health check fails", async () => {
+      const controller = createController();
+      expect(await controller.ensureAwake()).toBe(true);
+
+      runningStatus = "Stopped";
+      lastHealth = "unhealthy";
+
+      expect(await controller.ensureAwake()).toBe(true);
+      expect(executed).toEqual(["analysis:start"]);
+    });
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Metrics Registry Tests
+ *
+ * Tests MetricsRegistry rendering in the Prometheus text format:
+ * - Counters with labelled series and HELP/TYPE headers
+ * - Cumulative histogram buckets, sum and count
+ * - Label value escaping
+ * - Callback metrics and the Node.js process metrics
+ */
+
+import { describe, it, expect } from "vitest";
+import { MetricsRegistry, registerProcessMetrics } from "../../src/lib/metrics";
+
+// =============================================================================
+// TEST SUITE
+// =============================================================================
+
+describe("MetricsRegistry", () => {
+  // ---------------------------------------------------------------------------
+  // COUNTERS
+  // ---------------------------------------------------------------------------
+
+  describe("counter", () => {
+    it("should render one line per label combination", () => {
+      const registry = new MetricsRegistry();
+      const counter = registry.counter("test_requests_total", "Requests.", ["method", "status"]);
+
+      counter.inc({ method: "GET", status: "200" });
+      counter.inc({ status: "200", method: "GET" }, 2);
+      counter.inc({ method: "POST", status: "500" });
+
+      expect(registry.render()).toBe(
+        [
+          "# HELP test_requests_total Requests.",
+          "# TYPE test_requests_total counter",
+          'test_requests_total{method="GET",status="200"} 3',
+          'test_requests_total{method="POST",status="500"} 1',
+          ""
+        ].join("\n")
+      );
+      expect(counter.get({ method: "GET", status: "200" })).toBe(3);
+      expect(counter.get({ method: "DELETE", status: "200" })).toBe(0);
+    });
+
+    it("should escape label values", () => {
+      const registry = new MetricsRegistry();
+      registry.counter("test_errors_total", "Errors.", ["code"]).inc({ code: 'say "hi"\\\n' });
+
+      expect(registry.render()).toContain('test_errors_total{code="say \\"hi\\"\\\\\\n"} 1');
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // HISTOGRAMS
+  // ---------------------------------------------------------------------------
+
+  describe("histogram", () => {
+    it("should render cumulative buckets with sum and count", () => {
+      const registry = new MetricsRegistry();
+      const histogram = registry.histogram("test_duration_seconds", "Duration.", ["route"], [0.1, 1]);
+
+      histogram.observe({ route: "health" }, 0.05);
+      histogram.observe({ route: "health" }, 0.5);
+      histogram.observe({ route: "health" }, 3);
+
+      expect(registry.render().split("\n")).toEqual([
+        "# HELP test_duration_seconds Duration.",
+        "# TYPE test_duration_seconds histogram",
+        'test_duration_seconds_bucket{route="health",le="0.1"} 1',
+        'test_duration_seconds_bucket{route="health",le="1"} 2',
+        'test_duration_seconds_bucket{route="health",le="+Inf"} 3',
+        'test_duration_seconds_sum{route="health"} 3.55',
+        'test_duration_seconds_count{route="health"} 3',
+        ""
+      ]);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // CALLBACK & PROCESS METRICS
+  // ---------------------------------------------------------------------------
+
+  describe("callback metrics", () => {
+    it("should sample the value at render time", () => {
+      const registry = new MetricsRegistry();
+      let value = 1;
+      registry.callback("test_queue_depth", "Queue depth.", () => value);
+
+      value = 7;
+
+      expect(registry.render()).toContain("# TYPE test_queue_depth gauge\ntest_queue_depth 7");
+    });
+
+    it("should expose the Node.js process metrics", () => {
+      const registry = new MetricsRegistry();
+      registerProcessMetrics(registry);
+
+      const output = registry.render();
+
+      expect(output).toContain("# TYPE process_cpu_user_seconds_total counter");
+      expect(output).toMatch(/^process_resident_memory_bytes \d+$/m);
+      expect(output).toMatch(/^nodejs_heap_size_used_bytes \d+$/m);
+      expect(output).toMatch(/^nodejs_eventloop_lag_seconds\{quantile="0.99"\} [\d.e-]+$/m);
+      expect(output).toContain(`nodejs_version_info{version="${process.version}"} 1`);
+    });
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Retry Helper Tests
+ *
+ * Tests the retry policy helpers for:
+ * - Idempotency detection (method / Idempotency-Key)
+ * - Replayable body detection
+ * - Exponential backoff with jitter
+ * - Retry-After parsing (seconds and HTTP-date)
+ */
+
+import { describe, it, expect } from "vitest";
+import type { IncomingMessage } from "http";
+import {
+  computeBackoffDelay,
+  hasReplayableBody,
+  isIdempotentRequest,
+  parseRetryAfter,
+  type RetryPolicy
+} from "../../src/lib/retry";
+
+// =============================================================================
+// TEST SETUP
+// =============================================================================
+
+const POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 100,
+  maxDelayMs: 1000,
+  retryableStatuses: [502, 503, 504],
+  retryableErrors: ["ECONNRESET"]
+};
+
+function fakeRequest(
+  method: string,
+  headers: Record<string, string> = {},
+  readableEnded = false
+): IncomingMessage {
+  return { method, headers, readableEnded } as unknown as IncomingMessage;
+}
+
+// =============================================================================
+// TEST SUITE
+// =============================================================================
+
+describe("retry helpers", () => {
+  describe("isIdempotentRequest", () => {
+    it.each(["GET", "HEAD", "PUT", "DELETE"])("should treat %s as idempotent", (method) => {
+      expect(isIdempotentRequest(fakeRequest(method))).toBe(true);
+    });
+
+    it("should not treat POST or PATCH as idempotent", () => {
+      expect(isIdempotentRequest(fakeRequest("POST"))).toBe(false);
+      expect(isIdempotentRequest(fakeRequest("PATCH"))).toBe(false);
+    });
+
+    it("should treat POST with an Idempotency-Key as idempotent", () => {
+      expect(isIdempotentRequest(fakeRequest("POST", { "idempotency-key": "abc" }))).toBe(true);
+    });
+  });
+
+  describe("hasReplayableBody", () => {
+    it("should accept requests without a body", () => {
+      expect(hasReplayableBody(fakeRequest("GET"))).toBe(true);
+      expect(hasReplayableBody(fakeRequest("DELETE", { "content-length": "0" }))).toBe(true);
+    });
+
+    it("should accept bodies already buffered by the body parser", () => {
+      expect(hasReplayableBody(fakeRequest("PUT", { "content-length": "12" }, true))).toBe(true);
+    });
+
+    it("should reject streamed bodies", () => {
+      expect(hasReplayableBody(fakeRequest("PUT", { "content-length": "12" }))).toBe(false);
+      expect(hasReplayableBody(fakeRequest("PUT", { "transfer-encoding": "chunked" }))).toBe(false);
+    });
+  });
+
+  describe("computeBackoffDelay", () => {
+    it("should double the delay on every retry", () => {
+      expect(computeBackoffDelay(POLICY, 1, () => 1)).toBe(100);
+      expect(computeBackoffDelay(POLICY, 2, () => 1)).toBe(200);
+      expect(computeBackoffDelay(POLICY, 3, () => 1)).toBe(400);
+    });
+
+    it("should keep at least half of the delay when jittered", () => {
+      expect(computeBackoffDelay(POLICY, 2, () => 0)).toBe(100);
+    });
+
+    it("should cap the delay at maxDelayMs", () => {
+      expect(computeBackoffDelay(POLICY, 10, () => 1)).toBe(1000);
+    });
+  });
+
+  describe("parseRetryAfter", () => {
+    it("should parse delta-seconds", () => {
+      expect(parseRetryAfter("3")).toBe(3000);
+    });
+
+    it("should parse HTTP-dates relative to now", () => {
+      const now = Date.parse("2026-01-24T10:30:00Z");
+      expect(parseRetryAfter("Sat, 24 Jan 2026 10:30:05 GMT", now)).toBe(5000);
+    });
+
+    it("should return null for missing or malformed values", () => {
+      expect(parseRetryAfter(undefined)).toBeNull();
+      expect(parseRetryAfter("soon")).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Tracing Tests
+ *
+ * Tests the tracer and W3C trace context helpers for:
+ * - traceparent parsing (valid, malformed, forbidden values) and formatting
+ * - Parent-based sampling and export of sampled spans only
+ * - Active span propagation across async work and exception recording
+ * - The OTLP/HTTP JSON encoding of exported spans
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { Tracer, activeTraceFields, formatTraceparent, parseTraceparent, tracer, type FinishedSpan } from "../../src/lib/tracing";
+import { toOtlpRequest } from "../../src/lib/traceExporters";
+
+// =============================================================================
+// TEST SETUP
+// =============================================================================
+
+const TRACE_ID = "4bf92f3577b34da6a3ce929d0e0e4736";
+const SPAN_ID = "00f067aa0ba902b7";
+
+let exported: FinishedSpan[];
+
+function createTracer(sampleRatio = 1): Tracer {
+  const instance = new Tracer();
+  instance.start({ export: (span) => void exported.push(span), shutdown: async () => {} }, sampleRatio);
+  return instance;
+}
+
+// =============================================================================
+// TEST SUITE
+// =============================================================================
+
+describe("tracing", () => {
+  beforeEach(() => {
+    exported = [];
+  });
+
+  // ---------------------------------------------------------------------------
+  // W3C TRACE CONTEXT
+  // ---------------------------------------------------------------------------
+
+  describe("parseTraceparent", () => {
+    it("should parse a valid header with its tracestate", () => {
+      expect(parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}-01`, "congo=t61rcWkgMzE")).toEqual({
+        traceId: TRACE_ID,
+        spanId: SPAN_ID,
+        sampled: true,
+        traceState: "congo=t61rcWkgMzE"
+      });
+      expect(parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}-00`)?.sampled).toBe(false);
+    });
+
+    it("should reject malformed and forbidden values", () => {
+      expect(parseTraceparent(undefined)).toBeNull();
+      expect(parseTraceparent("not-a-traceparent")).toBeNull();
+      expect(parseTraceparent(`ff-${TRACE_ID}-${SPAN_ID}-01`)).toBeNull();
+      expect(parseTraceparent(`00-${"0".repeat(32)}-${SPAN_ID}-01`)).toBeNull();
+      expect(parseTraceparent(`00-${TRACE_ID}-${"0".repeat(16)}-01`)).toBeNull();
+      expect(parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}-01-extra`)).toBeNull();
+    });
+
+    it("should accept future versions with extra fields", () => {
+      expect(parseTraceparent(`01-${TRACE_ID}-${SPAN_ID}-01-extra`)?.traceId).toBe(TRACE_ID);
+    });
+
+    it("should round-trip through formatTraceparent", () => {
+      const header = `00-${TRACE_ID}-${SPAN_ID}-01`;
+
+      expect(formatTraceparent(parseTraceparent(header)!)).toBe(header);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // SPANS & SAMPLING
+  // ---------------------------------------------------------------------------
+
+  describe("Tracer", () => {
+    it("should create children of the active span", async () => {
+      const instance = createTracer();
+
+      await instance.trace("parent", {}, async (parent) => {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        instance.startSpan("child").end();
+        expect(exported[0]).toMatchObject({ traceId: parent.context.traceId, parentSpanId: parent.context.spanId });
+      });
+
+      expect(exported.map((span) => span.name)).toEqual(["child", "parent"]);
+      expect(exported[1].parentSpanId).toBeUndefined();
+    });
+
+    it("should keep the caller's sampling decision", () => {
+      const instance = createTracer(1);
+
+      instance.startSpan("unsampled", { parent: parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}-00`) }).end();
+
+      expect(exported).toEqual([]);
+    });
+
+    it("should sample new traces at the configured ratio", () => {
+      const instance = createTracer(0);
+
+      const span = instance.startSpan("root");
+      span.end();
+
+      expect(span.context.sampled).toBe(false);
+      expect(exported).toEqual([]);
+    });
+
+    it("should record exceptions and rethrow them", async () => {
+      const instance = createTracer();
+
+      await expect(
+        instance.trace("failing", {}, async () => {
+          throw new Error("boom");
+        })
+      ).rejects.toThrow("boom");
+
+      expect(exported[0].status).toEqual({ code: "error", message: "boom" });
+      expect(exported[0].events[0]).toMatchObject({
+        name: "exception",
+        attributes: { "exception.type": "Error", "exception.message": "boom" }
+      });
+    });
+
+    it("should expose the active trace IDs for log lines", () => {
+      const span = tracer.startSpan("request", { parent: parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}-01`) });
+
+      expect(activeTraceFields()).toEqual({});
+      tracer.withSpan(span, () => {
+        expect(activeTraceFields()).toEqual({ traceId: TRACE_ID, spanId: span.context.spanId });
+      });
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // OTLP ENCODING
+  // ---------------------------------------------------------------------------
+
+  describe("toOtlpRequest", () => {
+    it("should encode spans in the OTLP JSON format", () => {
+      const request = toOtlpRequest(
+        [
+          {
+            name: "GET backpro",
+            kind: "client",
+            traceId: TRACE_ID,
+            spanId: SPAN_ID,
+            parentSpanId: "b7ad6b7169203331",
+            startTimeMs: 1769248800000.5,
+            endTimeMs: 1769248800120,
+            attributes: { "http.response.status_code": 503, "gateway.upstream": "backpro", retried: true, ratio: 0.5 },
+            status: { code: "error", message: "HTTP 503" },
+            events: []
+          }
+        ],
+        "fw-api-gateway"
+      );
+
+      const [resourceSpans] = request.resourceSpans;
+      expect(resourceSpans.resource.attributes).toContainEqual({ key: "service.name", value: { stringValue: "fw-api-gateway" } });
+      expect(resourceSpans.scopeSpans[0].spans[0]).toEqual({
+        traceId: TRACE_ID,
+        spanId: SPAN_ID,
+        parentSpanId: "b7ad6b7169203331",
+        name: "GET backpro",
+        kind: 3,
+        startTimeUnixNano: "1769248800000500000",
+        endTimeUnixNano: "1769248800120000000",
+        attributes: [
+          { key: "http.response.status_code", value: { intValue: "503" } },
+          { key: "gateway.upstream", value: { stringValue: "backpro" } },
+          { key: "retried", value: { boolValue: true } },
+          { key: "ratio", value: { doubleValue: 0.5 } }
+        ],
+        events: [],
+        status: { code: 2, message: "HTTP 503" }
+      });
+    });
+  });
+});
@@ -7,12 +7,21 @@
  * - Missing API key handling
  * - Array header handling (edge case)
  * - Timing-safe comparison (security)
+ * - Named keys: scopes, expiry, allowed CIDRs, identity on req
  */
 
 import { describe, it, expect, beforeAll, afterAll } from "vitest";
 import request from "supertest";
 import express, { type Express } from "express";
-import { apiKeyGuard } from "../../src/middleware/apiKey";
+import {
+  apiKeyGuard,
+  createApiKeyGuard,
+  hasScope,
+  methodScope,
+  requireScope
+} from "../../src/middleware/apiKey";
+import { config, parseApiKeyFile } from "../../src/config";
+import { hashStaticKeys } from "../../src/lib/apiKeys";
 
 // =============================================================================
 // TEST APPLICATION SETUP
@@ -238,4 +247,143 @@ describe("apiKeyGuard middleware", () => {
       expect(response.body.code).toBe("INVALID_API_KEY");
     });
   });
+
+  // ---------------------------------------------------------------------------
+  // NAMED, SCOPED KEYS
+  // ---------------------------------------------------------------------------
+
+  describe("named keys", () => {
+    const keys = parseApiKeyFile({
+      keys: [
+        { name: "partner", key: "partner-key-0123456789", scopes: ["fw-analysis:read"] },
+        { name: "ops", key: "ops-key-01234567890123", scopes: ["backpro:*", "container:control"] },
+        { name: "expired", key: "expired-key-0123456789", scopes: ["*"], expiresAt: "2020-01-01T00:00:00Z" },
+        { name: "office", key: "office-key-0123456789", scopes: ["*"], allowedCidrs: ["10.0.0.0/8"] },
+        { name: "loopback", key: "loopback-key-01234567", scopes: ["*"], allowedCidrs: ["127.0.0.0/8", "::1/128"] }
+      ]
+    });
+
+    function createScopedApp(): Express {
+      const scopedApp = express();
+      const guard = createApiKeyGuard(hashStaticKeys(keys));
+
+      scopedApp.get("/whoami", guard, (req, res) => {
+        res.json(req.apiKey);
+      });
+      scopedApp.all("/fw-analysis", guard, requireScope(methodScope("fw-analysis")), (_req, res) => {
+        res.json({ ok: true });
+      });
+      scopedApp.post("/container/stop", guard, requireScope("container:control"), (_req, res) => {
+        res.json({ ok: true });
+      });
+      return scopedApp;
+    }
+
+    const scopedApp = createScopedApp();
+
+    it("should attach the resolved key identity to the request", async () => {
+      const response = await request(scopedApp).get("/whoami").set("x-fw-admin-key", "partner-key-0123456789");
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ name: "partner", scopes: ["fw-analysis:read"] });
+    });
+
+    it("should allow a request covered by the key's scopes", async () => {
+      const response = await request(scopedApp).get("/fw-analysis").set("x-fw-admin-key", "partner-key-0123456789");
+
+      expect(response.status).toBe(200);
+    });
+
+    it("should reject a write with a read-only key", async () => {
+      const response = await request(scopedApp).post("/fw-analysis").set("x-fw-admin-key", "partner-key-0123456789");
+
+      expect(response.status).toBe(403);
+      expect(response.body).toEqual({
+        status: "error",
+        code: "INSUFFICIENT_SCOPE",
+        message: "API key is missing the required scope: fw-analysis:write"
+      });
+    });
+
+    it("should stop a partner key from controlling the container", async () => {
+      const partner = await request(scopedApp).post("/container/stop").set("x-fw-admin-key", "partner-key-0123456789");
+      const ops = await request(scopedApp).post("/container/stop").set("x-fw-admin-key", "ops-key-01234567890123");
+
+      expect(partner.status).toBe(403);
+      expect(ops.status).toBe(200);
+    });
+
+    it("should reject expired keys", async () => {
+      const response = await request(scopedApp).get("/whoami").set("x-fw-admin-key", "expired-key-0123456789");
+
+      expect(response.status).toBe(401);
+      expect(response.body.code).toBe("EXPIRED_API_KEY");
+    });
+
+    it("should reject requests from outside the allowed CIDRs", async () => {
+      const response = await request(scopedApp).get("/whoami").set("x-fw-admin-key", "office-key-0123456789");
+
+      expect(response.status).toBe(403);
+      expect(response.body.code).toBe("IP_NOT_ALLOWED");
+    });
+
+    it("should accept requests from inside the allowed CIDRs", async () => {
+      const response = await request(scopedApp).get("/whoami").set("x-fw-admin-key", "loopback-key-01234567");
+
+      expect(response.status).toBe(200);
+    });
+
+    it("should treat legacy FW_ADMIN_API_KEYS entries as unrestricted", async () => {
+      const legacyApp = express();
+      legacyApp.post("/container/stop", apiKeyGuard, requireScope("container:control"), (req, res) => {
+        res.json(req.apiKey);
+      });
+
+      const response = await request(legacyApp).post("/container/stop").set("x-fw-admin-key", "test-key-2");
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ name: "env-key-2", scopes: ["*"] });
+    });
+  });
+
+  describe("hasScope", () => {
+    it("should match exact scopes, resource wildcards and the global wildcard", () => {
+      expect(hasScope(["backpro:read"], "backpro:read")).toBe(true);
+      expect(hasScope(["backpro:*"], "backpro:write")).toBe(true);
+      expect(hasScope(["*"], "container:control")).toBe(true);
+      expect(hasScope(["backpro:read"], "backpro:write")).toBe(false);
+      expect(hasScope(["backpro:*"], "fw-analysis:read")).toBe(false);
+    });
+  });
+
+  describe("parseApiKeyFile", () => {
+    it("should reject malformed scopes", () => {
+      expect(() =>
+        parseApiKeyFile({ keys: [{ name: "bad", key: "bad-key-0123456789", scopes: ["everything"] }] })
+      ).toThrow(/resource:action/);
+    });
+
+    it("should reject short keys and duplicate names", () => {
+      expect(() => parseApiKeyFile({ keys: [{ name: "short", key: "abc", scopes: ["*"] }] })).toThrow(/16 characters/);
+      expect(() =>
+        parseApiKeyFile({
+          keys: [
+            { name: "dup", key: "dup-key-a-0123456789", scopes: ["*"] },
+            { name: "dup", key: "dup-key-b-0123456789", scopes: ["*"] }
+          ]
+        })
+      ).toThrow(/Duplicate key name/);
+    });
+  });
+
+  describe("loaded configuration", () => {
+    it("should keep only salted hashes of the configured keys", () => {
+      expect(config.apiKeys.map((key) => key.name)).toContain("env-key-1");
+      for (const key of config.apiKeys) {
+        expect(key).not.toHaveProperty("key");
+        expect(key.hash).toMatch(/^[0-9a-f]{64}$/);
+      }
+      expect(JSON.stringify(config)).not.toContain("test-key-1");
+    });
+  });
 });
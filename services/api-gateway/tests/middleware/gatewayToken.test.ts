@@ -0,0 +1,204 @@
+/**
+ * Gateway Token Middleware Tests
+ *
+ * Tests createGatewayTokenGuard (in front of apiKeyGuard) for:
+ * - Valid tokens: identity, role and scopes on req.apiKey
+ * - Expired, too old, wrongly signed and wrong-audience tokens
+ * - Missing role / scope claims
+ * - Fall-through to API keys when no bearer token is sent
+ * - Disabled tokens (no GATEWAY_TOKEN_SECRET)
+ */
+
+import { describe, it, expect } from "vitest";
+import request from "supertest";
+import express, { type Express } from "express";
+import { SignJWT } from "jose";
+import { createGatewayTokenGuard } from "../../src/middleware/gatewayToken";
+import { apiKeyGuard, requireScope } from "../../src/middleware/apiKey";
+import type { GatewayTokenOptions } from "../../src/lib/gatewayToken";
+
+// =============================================================================
+// TEST APPLICATION SETUP
+// =============================================================================
+
+const options: GatewayTokenOptions = {
+  secret: "test-gateway-token-secret-0123456789",
+  issuer: "fw-admin-dashboard",
+  audience: "fw-admin-gateway",
+  maxTtlSeconds: 900
+};
+
+/**
+ * Signs a token the way the dashboard does, with overridable claims.
+ */
+async function signToken(overrides?: {
+  claims?: Record<string, unknown>;
+  secret?: string;
+  audience?: string;
+  issuedAt?: number;
+  expiresAt?: number;
+}): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  return new SignJWT({ role: "viewer", scopes: ["backpro:read", "container:read"], ...overrides?.claims })
+    .setProtectedHeader({ alg: "HS256" })
+    .setSubject("viewer@fw.dev")
+    .setIssuer(options.issuer)
+    .setAudience(overrides?.audience ?? options.audience)
+    .setIssuedAt(overrides?.issuedAt ?? now)
+    .setExpirationTime(overrides?.expiresAt ?? now + 300)
+    .sign(new TextEncoder().encode(overrides?.secret ?? options.secret));
+}
+
+/**
+ * Creates an app with the token guard in front of the real apiKeyGuard.
+ */
+function createTestApp(tokenOptions: GatewayTokenOptions | null = options): Express {
+  const app = express();
+  app.use(createGatewayTokenGuard(tokenOptions), apiKeyGuard);
+
+  app.get("/whoami", (req, res) => {
+    res.json(req.apiKey);
+  });
+  app.post("/container/stop", requireScope("container:control"), (_req, res) => {
+    res.json({ ok: true });
+  });
+
+  return app;
+}
+
+// =============================================================================
+// TEST SUITE
+// =============================================================================
+
+describe("gatewayTokenGuard middleware", () => {
+  const app = createTestApp();
+
+  // ---------------------------------------------------------------------------
+  // VALID TOKENS
+  // ---------------------------------------------------------------------------
+
+  describe("with a valid token", () => {
+    it("should attach the token identity and scopes", async () => {
+      const response = await request(app).get("/whoami").set("Authorization", `Bearer ${await signToken()}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({
+        name: "user:viewer@fw.dev",
+        scopes: ["backpro:read", "container:read"],
+        token: { subject: "viewer@fw.dev", role: "viewer" }
+      });
+    });
+
+    it("should enforce the token's scopes", async () => {
+      const response = await request(app)
+        .post("/container/stop")
+        .set("Authorization", `Bearer ${await signToken()}`);
+
+      expect(response.status).toBe(403);
+      expect(response.body.code).toBe("INSUFFICIENT_SCOPE");
+    });
+
+    it("should accept custom roles and authorize by scope alone", async () => {
+      const token = await signToken({ claims: { role: "operator", scopes: ["container:read", "container:control"] } });
+
+      const response = await request(app).post("/container/stop").set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toBe(200);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // REJECTED TOKENS
+  // ---------------------------------------------------------------------------
+
+  describe("with an invalid token", () => {
+    it("should reject expired tokens", async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const token = await signToken({ issuedAt: now - 600, expiresAt: now - 120 });
+
+      const response = await request(app).get("/whoami").set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toBe(401);
+      expect(response.body).toEqual({ status: "error", code: "EXPIRED_TOKEN", message: "Gateway token has expired" });
+    });
+
+    it("should reject tokens issued longer ago than the maximum lifetime", async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const token = await signToken({ issuedAt: now - 3600, expiresAt: now + 3600 });
+
+      const response = await request(app).get("/whoami").set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toBe(401);
+      expect(response.body.code).toBe("EXPIRED_TOKEN");
+    });
+
+    it("should reject tokens signed with another secret", async () => {
+      const token = await signToken({ secret: "some-other-secret-0123456789-abcdef" });
+
+      const response = await request(app).get("/whoami").set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toBe(401);
+      expect(response.body.code).toBe("INVALID_TOKEN");
+    });
+
+    it("should reject tokens for another audience", async () => {
+      const token = await signToken({ audience: "some-other-api" });
+
+      const response = await request(app).get("/whoami").set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toBe(401);
+      expect(response.body.code).toBe("INVALID_TOKEN");
+    });
+
+    it("should reject tokens without a valid role", async () => {
+      const token = await signToken({ claims: { role: "Super User" } });
+
+      const response = await request(app).get("/whoami").set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toBe(401);
+      expect(response.body.message).toBe("Gateway token is missing role or scope claims");
+    });
+
+    it("should reject garbage", async () => {
+      const response = await request(app).get("/whoami").set("Authorization", "Bearer not-a-jwt");
+
+      expect(response.status).toBe(401);
+      expect(response.body.code).toBe("INVALID_TOKEN");
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // FALL-THROUGH
+  // ---------------------------------------------------------------------------
+
+  describe("without a token", () => {
+    it("should fall through to API key authentication", async () => {
+      const withKey = await request(app).get("/whoami").set("x-fw-admin-key", "test-key-1");
+      const withoutKey = await request(app).get("/whoami");
+
+      expect(withKey.status).toBe(200);
+      expect(withKey.body.name).toBe("env-key-1");
+      expect(withoutKey.status).toBe(401);
+      expect(withoutKey.body.code).toBe("MISSING_API_KEY");
+    });
+
+    it("should prefer the API key when both are sent", async () => {
+      const response = await request(app)
+        .get("/whoami")
+        .set("x-fw-admin-key", "test-key-1")
+        .set("Authorization", "Bearer not-a-jwt");
+
+      expect(response.status).toBe(200);
+      expect(response.body.name).toBe("env-key-1");
+    });
+
+    it("should reject tokens when GATEWAY_TOKEN_SECRET is not set", async () => {
+      const response = await request(createTestApp(null))
+        .get("/whoami")
+        .set("Authorization", `Bearer ${await signToken()}`);
+
+      expect(response.status).toBe(401);
+      expect(response.body.code).toBe("INVALID_TOKEN");
+    });
+  });
+});
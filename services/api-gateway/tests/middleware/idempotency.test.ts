@@ -0,0 +1,232 @@
+/**
+ * Idempotency Middleware Tests
+ *
+ * Tests createIdempotencyMiddleware for:
+ * - Pass-through for non-POST requests and requests without a key
+ * - Storing and replaying the first response
+ * - IDEMPOTENCY_KEY_MISMATCH for a reused key with a different body
+ * - IDEMPOTENCY_KEY_IN_PROGRESS while the first request is in flight
+ * - Short-lived in-flight claims, kept for the full TTL once completed
+ * - Not storing 5xx responses or oversized bodies
+ * - Streamed (unparsed) request bodies
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import request from "supertest";
+import express, { type Express } from "express";
+import { createIdempotencyMiddleware } from "../../src/middleware/idempotency";
+import { MemoryIdempotencyStore } from "../../src/lib/idempotencyStore";
+import { errorHandler } from "../../src/middleware/errorHandler";
+
+// =============================================================================
+// TEST APPLICATION SETUP
+// =============================================================================
+
+let handlerCalls = 0;
+
+/**
+ * Creates an app whose POST /jobs handler counts invocations, standing in
+ * for a proxied upstream.
+ */
+function createTestApp(options?: { maxBodyBytes?: number; delayMs?: number; store?: MemoryIdempotencyStore }): Express {
+  const app = express();
+  app.use(express.json());
+
+  app.use(
+    createIdempotencyMiddleware({
+      store: options?.store ?? new MemoryIdempotencyStore(),
+      ttlMs: 60000,
+      inFlightTtlMs: 5000,
+      maxBodyBytes: options?.maxBodyBytes ?? 1024,
+      scope: "test"
+    })
+  );
+
+  app.post("/jobs", (req, res) => {
+    handlerCalls++;
+    const send = () => res.status(201).setHeader("x-job", String(handlerCalls)).json({ job: handlerCalls, input: req.body });
+    if (options?.delayMs) {
+      setTimeout(send, options.delayMs);
+    } else {
+      send();
+    }
+  });
+
+  app.post("/failing", (_req, res) => {
+    handlerCalls++;
+    res.status(503).json({ status: "error" });
+  });
+
+  app.post("/upload", (req, res) => {
+    handlerCalls++;
+    let size = 0;
+    req.on("data", (chunk: Buffer) => (size += chunk.length));
+    req.on("end", () => res.json({ job: handlerCalls, size }));
+  });
+
+  app.get("/jobs", (_req, res) => {
+    handlerCalls++;
+    res.json({ job: handlerCalls });
+  });
+
+  app.use(errorHandler);
+  return app;
+}
+
+// =============================================================================
+// TEST SUITE
+// =============================================================================
+
+describe("idempotency middleware", () => {
+  let app: Express;
+
+  beforeEach(() => {
+    handlerCalls = 0;
+    app = createTestApp();
+  });
+
+  // ---------------------------------------------------------------------------
+  // PASS-THROUGH
+  // ---------------------------------------------------------------------------
+
+  describe("pass-through", () => {
+    it("should not de-duplicate POSTs without a key", async () => {
+      await request(app).post("/jobs").send({ a: 1 });
+      await request(app).post("/jobs").send({ a: 1 });
+
+      expect(handlerCalls).toBe(2);
+    });
+
+    it("should ignore the key on non-POST requests", async () => {
+      await request(app).get("/jobs").set("Idempotency-Key", "k1");
+      await request(app).get("/jobs").set("Idempotency-Key", "k1");
+
+      expect(handlerCalls).toBe(2);
+    });
+
+    it("should reject overly long keys", async () => {
+      const response = await request(app).post("/jobs").set("Idempotency-Key", "k".repeat(256)).send({});
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe("INVALID_IDEMPOTENCY_KEY");
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // REPLAY
+  // ---------------------------------------------------------------------------
+
+  describe("replay", () => {
+    it("should replay the first response for a repeated request", async () => {
+      const first = await request(app).post("/jobs").set("Idempotency-Key", "k1").send({ a: 1 });
+      const second = await request(app).post("/jobs").set("Idempotency-Key", "k1").send({ a: 1 });
+
+      expect(handlerCalls).toBe(1);
+      expect(second.status).toBe(201);
+      expect(second.body).toEqual(first.body);
+      expect(second.headers["x-job"]).toBe("1");
+      expect(second.headers["idempotent-replayed"]).toBe("true");
+      expect(first.headers["idempotent-replayed"]).toBeUndefined();
+    });
+
+    it("should scope keys per API key", async () => {
+      await request(app).post("/jobs").set("Idempotency-Key", "k1").set("x-fw-admin-key", "a").send({ a: 1 });
+      const other = await request(app).post("/jobs").set("Idempotency-Key", "k1").set("x-fw-admin-key", "b").send({ a: 1 });
+
+      expect(handlerCalls).toBe(2);
+      expect(other.headers["idempotent-replayed"]).toBeUndefined();
+    });
+
+    it("should reject a reused key with a different body", async () => {
+      await request(app).post("/jobs").set("Idempotency-Key", "k1").send({ a: 1 });
+      const response = await request(app).post("/jobs").set("Idempotency-Key", "k1").send({ a: 2 });
+
+      expect(response.status).toBe(422);
+      expect(response.body).toEqual({
+        status: "error",
+        code: "IDEMPOTENCY_KEY_MISMATCH",
+        message: "Idempotency-Key was already used with a different request body"
+      });
+      expect(handlerCalls).toBe(1);
+    });
+
+    it("should reject a repeat while the first request is in flight", async () => {
+      const slowApp = createTestApp({ delayMs: 200 });
+
+      const first = request(slowApp).post("/jobs").set("Idempotency-Key", "k1").send({ a: 1 });
+      const firstDone = first.then((res) => res);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      const second = await request(slowApp).post("/jobs").set("Idempotency-Key", "k1").send({ a: 1 });
+
+      expect(second.status).toBe(409);
+      expect(second.body.code).toBe("IDEMPOTENCY_KEY_IN_PROGRESS");
+      expect((await firstDone).status).toBe(201);
+    });
+
+    it("should hold the key briefly while in flight and for the full TTL once stored", async () => {
+      let now = 0;
+      const local = createTestApp({ delayMs: 100, store: new MemoryIdempotencyStore(() => now) });
+
+      const stuck = request(local).post("/jobs").set("Idempotency-Key", "k1").send({ a: 1 }).then((res) => res);
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      // The first claim has lapsed, as it would after its replica crashed
+      now = 5000;
+      const retried = await request(local).post("/jobs").set("Idempotency-Key", "k1").send({ a: 1 });
+      await stuck;
+      now = 5000 + 59_999;
+      const repeat = await request(local).post("/jobs").set("Idempotency-Key", "k1").send({ a: 1 });
+
+      expect(retried.status).toBe(201);
+      expect(repeat.headers["idempotent-replayed"]).toBe("true");
+      expect(handlerCalls).toBe(2);
+    });
+
+    it("should replay streamed request bodies and detect mismatches", async () => {
+      const payload = Buffer.alloc(2048, 7);
+
+      const first = await request(app)
+        .post("/upload")
+        .set("Idempotency-Key", "u1")
+        .set("Content-Type", "application/octet-stream")
+        .send(payload);
+      const repeat = await request(app)
+        .post("/upload")
+        .set("Idempotency-Key", "u1")
+        .set("Content-Type", "application/octet-stream")
+        .send(payload);
+      const mismatch = await request(app)
+        .post("/upload")
+        .set("Idempotency-Key", "u1")
+        .set("Content-Type", "application/octet-stream")
+        .send(Buffer.alloc(2048, 8));
+
+      expect(first.body).toEqual({ job: 1, size: 2048 });
+      expect(repeat.body).toEqual(first.body);
+      expect(mismatch.status).toBe(422);
+      expect(handlerCalls).toBe(1);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // NOT STORED
+  // ---------------------------------------------------------------------------
+
+  describe("responses that are not stored", () => {
+    it("should not store 5xx responses", async () => {
+      await request(app).post("/failing").set("Idempotency-Key", "k1").send({});
+      const response = await request(app).post("/failing").set("Idempotency-Key", "k1").send({});
+
+      expect(handlerCalls).toBe(2);
+      expect(response.headers["idempotent-replayed"]).toBeUndefined();
+    });
+
+    it("should not store bodies larger than maxBodyBytes", async () => {
+      const smallApp = createTestApp({ maxBodyBytes: 10 });
+
+      await request(smallApp).post("/jobs").set("Idempotency-Key", "k1").send({ a: 1 });
+      await request(smallApp).post("/jobs").set("Idempotency-Key", "k1").send({ a: 1 });
+
+      expect(handlerCalls).toBe(2);
+    });
+  });
+});
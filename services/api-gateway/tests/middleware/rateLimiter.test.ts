@@ -5,14 +5,20 @@
  * - Request counting within window
  * - Rate limit enforcement
  * - Health check bypass
- * - X-Forwarded-For header handling
+ * - X-Forwarded-For header handling (trusted proxies only)
  * - Response headers
+ * - Per-route policies with per-API-key counters
+ * - Failed-authentication throttling
  */
 
 import { describe, it, expect, beforeEach } from "vitest";
 import request from "supertest";
 import express, { type Express } from "express";
 import rateLimit from "express-rate-limit";
+import { authRateLimiter, createPolicyRateLimiter } from "../../src/middleware/rateLimiter";
+import { apiKeyGuard, createApiKeyGuard } from "../../src/middleware/apiKey";
+import { parseRateLimitPolicies } from "../../src/config";
+import { hashStaticKeys } from "../../src/lib/apiKeys";
 
 // =============================================================================
 // TEST APPLICATION SETUP
@@ -20,10 +26,16 @@ import rateLimit from "express-rate-limit";
 
 /**
  * Creates a test app with configurable rate limiting.
- * Uses small limits for faster testing.
+ * Uses small limits for faster testing. Supertest connects over loopback,
+ * which the default trust setting treats as a trusted proxy.
  */
-function createTestApp(options?: { maxRequests?: number; windowMs?: number }): Express {
+function createTestApp(options?: {
+  maxRequests?: number;
+  windowMs?: number;
+  trustProxy?: boolean | string;
+}): Express {
   const app = express();
+  app.set("trust proxy", options?.trustProxy ?? "loopback");
 
   const limiter = rateLimit({
     windowMs: options?.windowMs ?? 60000,
@@ -37,14 +49,8 @@ function createTestApp(options?: { maxRequests?: number; windowMs?: number }): E
     },
     // Skip rate limiting for health checks
     skip: (req) => req.path === "/api/v1/health",
-    // Use request IP as the key
-    keyGenerator: (req) => {
-      const forwarded = req.headers["x-forwarded-for"];
-      if (typeof forwarded === "string") {
-        return forwarded.split(",")[0].trim();
-      }
-      return req.ip ?? "unknown";
-    }
+    // Use request IP (resolved through trusted proxies) as the key
+    keyGenerator: (req) => req.ip ?? "unknown"
   });
 
   app.use(limiter);
@@ -199,19 +205,32 @@ describe("globalRateLimiter middleware", () => {
       expect(clientBResponse.status).toBe(200);
     });
 
-    it("should use first IP from comma-separated X-Forwarded-For", async () => {
-      // Both requests should be from the same "client"
+    it("should ignore spoofed entries left of the address added by the trusted proxy", async () => {
+      // The client prepends a different fake IP each time; the trusted proxy
+      // appends the real client address (203.0.113.7)
       await request(app)
         .get("/api/test")
-        .set("X-Forwarded-For", "192.168.1.100, 10.0.0.1, 172.16.0.1");
+        .set("X-Forwarded-For", "192.168.1.100, 203.0.113.7");
       await request(app)
         .get("/api/test")
-        .set("X-Forwarded-For", "192.168.1.100, 10.0.0.2");
+        .set("X-Forwarded-For", "10.0.0.1, 203.0.113.7");
 
-      // Should be rate limited based on first IP
       const response = await request(app)
         .get("/api/test")
-        .set("X-Forwarded-For", "192.168.1.100");
+        .set("X-Forwarded-For", "172.16.0.1, 203.0.113.7");
+
+      expect(response.status).toBe(429);
+    });
+
+    it("should ignore X-Forwarded-For from untrusted peers", async () => {
+      const untrustedApp = createTestApp({ maxRequests: 2, trustProxy: false });
+
+      await request(untrustedApp).get("/api/test").set("X-Forwarded-For", "192.168.1.100");
+      await request(untrustedApp).get("/api/test").set("X-Forwarded-For", "192.168.1.101");
+
+      const response = await request(untrustedApp)
+        .get("/api/test")
+        .set("X-Forwarded-For", "192.168.1.102");
 
       expect(response.status).toBe(429);
     });
@@ -355,4 +374,129 @@ describe("globalRateLimiter middleware", () => {
       expect(response.headers["content-type"]).toMatch(/application\/json/);
     });
   });
+  // ---------------------------------------------------------------------------
+  // PER-ROUTE POLICIES
+  // ---------------------------------------------------------------------------
+
+  describe("policy rate limiter", () => {
+    /**
+     * Creates an app with the real API key guard and policy limiter.
+     * The named keys stand in for a dashboard and a partner integration.
+     */
+    function createPolicyApp(): Express {
+      const app = express();
+      const guard = createApiKeyGuard(
+        hashStaticKeys([
+          { name: "dashboard", key: "dashboard-key-0123456789", scopes: ["*"], expiresAt: null, allowedCidrs: [] },
+          { name: "partner", key: "partner-key-0123456789", scopes: ["*"], expiresAt: null, allowedCidrs: [] }
+        ])
+      );
+      const policies = parseRateLimitPolicies({
+        policies: [
+          { name: "container-control", paths: ["/api/v1/container/start", "/api/v1/container/stop"], methods: ["POST"], limit: 2 },
+          { name: "backpro-chat", paths: ["/api/v1/backpro/chat"], limit: 1, keyLimits: { dashboard: 3 } },
+          { name: "public-status", paths: ["/api/v1/status"], limit: 1, keyBy: "ip" }
+        ]
+      });
+
+      app.use("/api/v1/status", createPolicyRateLimiter(policies, "memory"), (_req, res) => res.json({ ok: true }));
+      app.use("/api/v1", guard, createPolicyRateLimiter(policies, "memory"), (_req, res) => res.json({ ok: true }));
+      return app;
+    }
+
+    it("should limit a route group independently of other routes", async () => {
+      const app = createPolicyApp();
+      const stop = () => request(app).post("/api/v1/container/stop").set("x-fw-admin-key", "partner-key-0123456789");
+
+      await stop();
+      await request(app).post("/api/v1/container/start").set("x-fw-admin-key", "partner-key-0123456789");
+      const blocked = await stop();
+      const status = await request(app).get("/api/v1/container/status").set("x-fw-admin-key", "partner-key-0123456789");
+
+      expect(blocked.status).toBe(429);
+      expect(blocked.body).toEqual({
+        status: "error",
+        code: "RATE_LIMITED",
+        message: "Rate limit exceeded for container-control, please try again later"
+      });
+      expect(status.status).toBe(200);
+    });
+
+    it("should only apply to the listed methods", async () => {
+      const app = createPolicyApp();
+
+      for (let i = 0; i < 3; i++) {
+        const response = await request(app).get("/api/v1/container/stop").set("x-fw-admin-key", "partner-key-0123456789");
+        expect(response.status).toBe(200);
+      }
+    });
+
+    it("should count each API key separately and honour per-key limits", async () => {
+      const app = createPolicyApp();
+      const chat = (key: string) => request(app).post("/api/v1/backpro/chat/completions").set("x-fw-admin-key", key);
+
+      expect((await chat("partner-key-0123456789")).status).toBe(200);
+      expect((await chat("partner-key-0123456789")).status).toBe(429);
+
+      for (let i = 0; i < 3; i++) {
+        expect((await chat("dashboard-key-0123456789")).status).toBe(200);
+      }
+      expect((await chat("dashboard-key-0123456789")).status).toBe(429);
+    });
+
+    it("should match whole path segments only", async () => {
+      const app = createPolicyApp();
+
+      await request(app).post("/api/v1/backpro/chatty").set("x-fw-admin-key", "partner-key-0123456789");
+      const response = await request(app).post("/api/v1/backpro/chatty").set("x-fw-admin-key", "partner-key-0123456789");
+
+      expect(response.status).toBe(200);
+    });
+
+    it("should count unauthenticated routes per IP", async () => {
+      const app = createPolicyApp();
+
+      await request(app).get("/api/v1/status");
+      const response = await request(app).get("/api/v1/status");
+
+      expect(response.status).toBe(429);
+    });
+  });
+
+  describe("parseRateLimitPolicies", () => {
+    it("should reject duplicate names and malformed paths", () => {
+      expect(() =>
+        parseRateLimitPolicies([
+          { name: "dup", paths: ["/a"], limit: 1 },
+          { name: "dup", paths: ["/b"], limit: 1 }
+        ])
+      ).toThrow(/Duplicate rate limit policy/);
+      expect(() => parseRateLimitPolicies([{ name: "bad", paths: ["no-slash"], limit: 1 }])).toThrow(/Path must look like/);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // FAILED AUTHENTICATION THROTTLING
+  // ---------------------------------------------------------------------------
+
+  describe("authRateLimiter", () => {
+    it("should only count failed authentications", async () => {
+      const app = express();
+      app.use(authRateLimiter, apiKeyGuard, (_req, res) => res.json({ ok: true }));
+
+      // Successful requests do not use up the budget
+      for (let i = 0; i < 12; i++) {
+        await request(app).get("/").set("x-fw-admin-key", "test-key-1");
+      }
+
+      for (let i = 0; i < 10; i++) {
+        const failed = await request(app).get("/").set("x-fw-admin-key", `wrong-key-${i}`);
+        expect(failed.status).toBe(401);
+      }
+
+      const response = await request(app).get("/").set("x-fw-admin-key", "test-key-1");
+      expect(response.status).toBe(429);
+      expect(response.body.code).toBe("AUTH_RATE_LIMITED");
+    });
+  });
 });
@@ -0,0 +1,276 @@
+/**
+ * Response Cache Middleware Tests
+ *
+ * Tests createResponseCache for:
+ * - MISS then HIT, with ETag, Age and Cache-Control freshness headers
+ * - If-None-Match revalidation (304)
+ * - Stale-while-revalidate with a single background refresh
+ * - Not storing errors, no-store / private responses and oversized bodies
+ * - Pass-through for non-GET requests and skipped requests
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import request from "supertest";
+import express, { type Express } from "express";
+import { createResponseCache, type ResponseCacheOptions } from "../../src/middleware/responseCache";
+import { additionalSecurityHeaders } from "../../src/middleware/security";
+import { MemoryResponseCacheStore } from "../../src/lib/responseCacheStore";
+
+// =============================================================================
+// TEST APPLICATION SETUP
+// =============================================================================
+
+let handlerCalls = 0;
+let revalidations = 0;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Creates an app whose handlers count invocations, standing in for the
+ * status endpoint or a proxied upstream.
+ */
+function createTestApp(overrides?: Partial<ResponseCacheOptions>): Express {
+  const app = express();
+  app.use(additionalSecurityHeaders);
+
+  app.use(
+    createResponseCache({
+      store: new MemoryResponseCacheStore(100),
+      policy: { ttlMs: 60000, staleWhileRevalidateMs: 0 },
+      maxBodyBytes: 1024,
+      scope: "test",
+      revalidate: async () => {
+        revalidations++;
+        return {
+          statusCode: 200,
+          headers: { "content-type": "application/json; charset=utf-8" },
+          body: Buffer.from(JSON.stringify({ calls: handlerCalls, revalidated: revalidations }))
+        };
+      },
+      skip: (req) => req.headers["x-skip-cache"] !== undefined,
+      ...overrides
+    })
+  );
+
+  app.all("/catalogue", (_req, res) => {
+    handlerCalls++;
+    res.json({ calls: handlerCalls });
+  });
+
+  app.get("/failing", (_req, res) => {
+    handlerCalls++;
+    res.status(503).json({ status: "error" });
+  });
+
+  app.get("/uncacheable", (_req, res) => {
+    handlerCalls++;
+    res.setHeader("Cache-Control", "no-store");
+    res.json({ calls: handlerCalls });
+  });
+
+  app.get("/large", (_req, res) => {
+    handlerCalls++;
+    res.json({ data: "x".repeat(2048) });
+  });
+
+  return app;
+}
+
+// =============================================================================
+// TEST SUITE
+// =============================================================================
+
+describe("response cache middleware", () => {
+  beforeEach(() => {
+    handlerCalls = 0;
+    revalidations = 0;
+  });
+
+  // ---------------------------------------------------------------------------
+  // HITS AND MISSES
+  // ---------------------------------------------------------------------------
+
+  describe("fresh entries", () => {
+    it("should store a 200 response and serve it from the cache", async () => {
+      const app = createTestApp();
+
+      const first = await request(app).get("/catalogue");
+      const second = await request(app).get("/catalogue");
+
+      expect(first.headers["x-cache"]).toBe("MISS");
+      expect(second.headers["x-cache"]).toBe("HIT");
+      expect(second.body).toEqual({ calls: 1 });
+      expect(second.headers["content-type"]).toContain("application/json");
+      expect(second.headers.etag).toBe(first.headers.etag);
+      expect(second.headers.age).toBe("0");
+      expect(handlerCalls).toBe(1);
+    });
+
+    it("should replace the no-store defaults with freshness headers", async () => {
+      const app = createTestApp({ policy: { ttlMs: 30000, staleWhileRevalidateMs: 60000 } });
+
+      const first = await request(app).get("/catalogue");
+      const second = await request(app).get("/catalogue");
+
+      expect(first.headers["cache-control"]).toBe("private, max-age=30, stale-while-revalidate=60");
+      expect(first.headers.pragma).toBeUndefined();
+      expect(second.headers["cache-control"]).toBe("private, max-age=30, stale-while-revalidate=60");
+      expect(second.headers.expires).toBeUndefined();
+    });
+
+    it("should cache each URL separately", async () => {
+      const app = createTestApp();
+
+      await request(app).get("/catalogue?page=1");
+      const other = await request(app).get("/catalogue?page=2");
+
+      expect(other.headers["x-cache"]).toBe("MISS");
+      expect(handlerCalls).toBe(2);
+    });
+
+    it("should answer a matching If-None-Match with 304", async () => {
+      const app = createTestApp();
+
+      const first = await request(app).get("/catalogue");
+      const response = await request(app).get("/catalogue").set("If-None-Match", first.headers.etag);
+
+      expect(response.status).toBe(304);
+      expect(response.headers["x-cache"]).toBe("HIT");
+      expect(response.text).toBe("");
+    });
+
+    it("should serve the full body for a different If-None-Match", async () => {
+      const app = createTestApp();
+
+      await request(app).get("/catalogue");
+      const response = await request(app).get("/catalogue").set("If-None-Match", '"something-else"');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ calls: 1 });
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // STALE-WHILE-REVALIDATE
+  // ---------------------------------------------------------------------------
+
+  describe("stale entries", () => {
+    it("should serve stale responses while refreshing them once in the background", async () => {
+      const app = createTestApp({
+        policy: { ttlMs: 50, staleWhileRevalidateMs: 60000 },
+        revalidate: async () => {
+          revalidations++;
+          await sleep(30);
+          return {
+            statusCode: 200,
+            headers: { "content-type": "application/json; charset=utf-8" },
+            body: Buffer.from(JSON.stringify({ calls: handlerCalls, revalidated: revalidations }))
+          };
+        }
+      });
+
+      await request(app).get("/catalogue");
+      await sleep(80);
+
+      const [stale, concurrent] = await Promise.all([
+        request(app).get("/catalogue"),
+        request(app).get("/catalogue")
+      ]);
+      expect(stale.headers["x-cache"]).toBe("STALE");
+      expect(stale.headers["cache-control"]).toBe("private, max-age=0, stale-while-revalidate=60");
+      expect(stale.body).toEqual({ calls: 1 });
+      expect(concurrent.headers["x-cache"]).toBe("STALE");
+
+      await sleep(50);
+      const refreshed = await request(app).get("/catalogue");
+
+      expect(refreshed.headers["x-cache"]).toBe("HIT");
+      expect(refreshed.body).toEqual({ calls: 1, revalidated: 1 });
+      expect(revalidations).toBe(1);
+      expect(handlerCalls).toBe(1);
+    });
+
+    it("should go back to the origin once the stale window has passed", async () => {
+      const app = createTestApp({ policy: { ttlMs: 20, staleWhileRevalidateMs: 20 } });
+
+      await request(app).get("/catalogue");
+      await sleep(60);
+      const response = await request(app).get("/catalogue");
+
+      expect(response.headers["x-cache"]).toBe("MISS");
+      expect(revalidations).toBe(0);
+      expect(handlerCalls).toBe(2);
+    });
+
+    it("should keep serving the stale entry when revalidation fails", async () => {
+      const app = createTestApp({
+        policy: { ttlMs: 50, staleWhileRevalidateMs: 60000 },
+        revalidate: async () => {
+          revalidations++;
+          throw new Error("upstream down");
+        }
+      });
+
+      await request(app).get("/catalogue");
+      await sleep(80);
+      await request(app).get("/catalogue");
+      await sleep(10);
+      const response = await request(app).get("/catalogue");
+
+      expect(response.headers["x-cache"]).toBe("STALE");
+      expect(response.body).toEqual({ calls: 1 });
+      expect(revalidations).toBe(2);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // UNCACHEABLE RESPONSES
+  // ---------------------------------------------------------------------------
+
+  describe("uncacheable responses", () => {
+    it("should not store error responses and keep them no-store", async () => {
+      const app = createTestApp();
+
+      const first = await request(app).get("/failing");
+      const second = await request(app).get("/failing");
+
+      expect(first.headers["cache-control"]).toBe("no-store, no-cache, must-revalidate, proxy-revalidate");
+      expect(second.headers["x-cache"]).toBe("MISS");
+      expect(handlerCalls).toBe(2);
+    });
+
+    it("should not store responses marked no-store by the origin", async () => {
+      const app = createTestApp();
+
+      await request(app).get("/uncacheable");
+      const response = await request(app).get("/uncacheable");
+
+      expect(response.headers["cache-control"]).toBe("no-store");
+      expect(response.headers["x-cache"]).toBe("MISS");
+      expect(handlerCalls).toBe(2);
+    });
+
+    it("should not store bodies larger than maxBodyBytes", async () => {
+      const app = createTestApp();
+
+      await request(app).get("/large");
+      const response = await request(app).get("/large");
+
+      expect(response.headers["x-cache"]).toBe("MISS");
+      expect(handlerCalls).toBe(2);
+    });
+
+    it("should pass through non-GET and skipped requests", async () => {
+      const app = createTestApp();
+
+      await request(app).get("/catalogue");
+      const post = await request(app).post("/catalogue");
+      const skipped = await request(app).get("/catalogue").set("x-skip-cache", "1");
+
+      expect(post.headers["x-cache"]).toBeUndefined();
+      expect(post.headers["cache-control"]).toBe("no-store, no-cache, must-revalidate, proxy-revalidate");
+      expect(skipped.headers["x-cache"]).toBeUndefined();
+      expect(handlerCalls).toBe(3);
+    });
+  });
+});
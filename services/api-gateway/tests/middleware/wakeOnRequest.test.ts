@@ -0,0 +1,117 @@
+/**
+ * Wake-on-Request Middleware Tests
+ *
+ * Tests createWakeOnRequest for:
+ * - Holding requests until a stopped upstream is healthy again
+ * - 503 UPSTREAM_STARTING with Retry-After when it does not come up in time
+ * - Counting held and proxied requests as activity for idle auto-stop
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import request from "supertest";
+import express, { type Express } from "express";
+import { parseServiceRegistry, type ContainerAppDefinition } from "../../src/config";
+import { IdleStopController } from "../../src/lib/idleStop";
+import { createWakeOnRequest } from "../../src/middleware/wakeOnRequest";
+import { errorHandler } from "../../src/middleware/errorHandler";
+
+// =============================================================================
+// TEST APPLICATION SETUP
+// =============================================================================
+
+const [SERVICE] = parseServiceRegistry([
+  {
+    id: "fwAnalysis",
+    name: "fw-analysis",
+    baseUrl: "http://localhost:5050",
+    idleStop: { containerAppId: "analysis", idleMs: 600000, wakeTimeoutMs: 10000 }
+  }
+]);
+
+const APP: ContainerAppDefinition = {
+  id: "analysis",
+  name: "FW Analysis",
+  subscriptionId: "sub-1",
+  resourceGroup: "rg-docs",
+  containerAppName: "fw-analysis",
+  actions: ["start", "stop"]
+};
+
+let clock: number;
+let executed: string[];
+let healthy: boolean;
+let controller: IdleStopController;
+
+/**
+ * Creates an app whose GET /jobs handler stands in for the proxied upstream.
+ */
+function createTestApp(): Express {
+  const app = express();
+  app.use(createWakeOnRequest(controller));
+  app.get("/jobs", (_req, res) => {
+    res.json({ jobs: [] });
+  });
+  app.use(errorHandler);
+  return app;
+}
+
+// =============================================================================
+// TEST SUITE
+// =============================================================================
+
+describe("wake-on-request middleware", () => {
+  beforeEach(async () => {
+    clock = Date.parse("2026-03-02T09:00:00Z");
+    executed = [];
+    healthy = true;
+    controller = new IdleStopController(SERVICE, APP, {
+      execute: async (app, action) => {
+        executed.push(`${app.id}:${action}`);
+        return "accepted";
+      },
+      runningStatus: async () => "Running",
+      probe: async () => ({ status: healthy ? "healthy" : "unhealthy", latencyMs: 5 }),
+      lastHealth: () => null,
+      now: () => clock,
+      sleep: async (ms) => {
+        clock += ms;
+      }
+    });
+
+    // Idle for the full period: the app is stopped
+    clock += 600000;
+    await controller.checkIdle();
+  });
+
+  it("should start the upstream and forward the request once it is healthy", async () => {
+    const res = await request(createTestApp()).get("/jobs");
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ jobs: [] });
+    expect(executed).toEqual(["analysis:stop", "analysis:start"]);
+  });
+
+  it("should answer 503 UPSTREAM_STARTING with Retry-After when the upstream stays down", async () => {
+    healthy = false;
+
+    const res = await request(createTestApp()).get("/jobs");
+
+    expect(res.status).toBe(503);
+    expect(res.headers["retry-after"]).toBe("30");
+    expect(res.body).toMatchObject({ status: "error", code: "UPSTREAM_STARTING" });
+  });
+
+  it("should count requests as activity", async () => {
+    const app = createTestApp();
+    await request(app).get("/jobs");
+    executed = [];
+
+    clock += 599999;
+    await controller.checkIdle();
+    await request(app).get("/jobs");
+    clock += 599999;
+    await controller.checkIdle();
+
+    expect(executed).toEqual([]);
+  });
+});
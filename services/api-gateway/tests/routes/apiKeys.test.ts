@@ -0,0 +1,180 @@
+/**
+ * API Key Admin Endpoint Tests
+ *
+ * Tests /api/v1/admin/keys end to end through the gateway app:
+ * - Minting keys and authenticating with them
+ * - Listing metadata without secrets or hashes
+ * - Rotation with an overlap window
+ * - Revocation
+ * - The api-keys:admin scope and body validation
+ */
+
+import { describe, it, expect, beforeAll } from "vitest";
+import request from "supertest";
+import type { Express } from "express";
+import { createApp } from "../../src/app";
+import { TEST_API_KEYS } from "../setup";
+
+const ADMIN_PATH = "/api/v1/admin/keys";
+
+// =============================================================================
+// TEST SUITE
+// =============================================================================
+
+describe("API key admin endpoints", () => {
+  let app: Express;
+
+  beforeAll(() => {
+    app = createApp({ skipRateLimiter: true });
+  });
+
+  /**
+   * Mints a key through the admin API with the unrestricted test key.
+   */
+  async function mint(body: Record<string, unknown>) {
+    return request(app).post(ADMIN_PATH).set("x-fw-admin-key", TEST_API_KEYS.valid).send(body);
+  }
+
+  // ---------------------------------------------------------------------------
+  // MINT & LIST
+  // ---------------------------------------------------------------------------
+
+  describe("POST /api/v1/admin/keys", () => {
+    it("should mint a key that authenticates with its scopes", async () => {
+      const minted = await mint({ name: "key-admin", scopes: ["api-keys:admin"] });
+
+      expect(minted.status).toBe(201);
+      expect(minted.body.key).toMatch(/^fwk_[0-9a-f]{12}_/);
+      expect(minted.body.apiKey).toMatchObject({ name: "key-admin", scopes: ["api-keys:admin"], status: "active" });
+
+      const response = await request(app).get(ADMIN_PATH).set("x-fw-admin-key", minted.body.key);
+      expect(response.status).toBe(200);
+    });
+
+    it("should reject invalid grants", async () => {
+      const response = await mint({ name: "Bad Name", scopes: [] });
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe("VALIDATION_ERROR");
+    });
+
+    it("should require the api-keys:admin scope", async () => {
+      const minted = await mint({ name: "reader", scopes: ["backpro:read"] });
+
+      const response = await request(app).get(ADMIN_PATH).set("x-fw-admin-key", minted.body.key);
+
+      expect(response.status).toBe(403);
+      expect(response.body.code).toBe("INSUFFICIENT_SCOPE");
+    });
+
+    it("should reject a managed key with a wrong secret", async () => {
+      const minted = await mint({ name: "tampered", scopes: ["*"] });
+      const tampered = `${minted.body.key.slice(0, -4)}AAAA`;
+
+      const response = await request(app).get(ADMIN_PATH).set("x-fw-admin-key", tampered);
+
+      expect(response.status).toBe(401);
+      expect(response.body.code).toBe("INVALID_API_KEY");
+    });
+  });
+
+  describe("GET /api/v1/admin/keys", () => {
+    it("should list metadata without secrets or hashes", async () => {
+      const minted = await mint({ name: "listed", scopes: ["backpro:*"] });
+
+      const response = await request(app).get(ADMIN_PATH).set("x-fw-admin-key", TEST_API_KEYS.valid);
+
+      expect(response.status).toBe(200);
+      const listed = response.body.keys.find((key: { id: string }) => key.id === minted.body.apiKey.id);
+      expect(listed).toMatchObject({ name: "listed", scopes: ["backpro:*"], status: "active" });
+      expect(listed).not.toHaveProperty("hash");
+      expect(listed).not.toHaveProperty("salt");
+      expect(JSON.stringify(response.body)).not.toContain(minted.body.key);
+    });
+
+    it("should return 404 for unknown ids", async () => {
+      const response = await request(app).get(`${ADMIN_PATH}/000000000000`).set("x-fw-admin-key", TEST_API_KEYS.valid);
+
+      expect(response.status).toBe(404);
+      expect(response.body.code).toBe("API_KEY_NOT_FOUND");
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // ROTATE & REVOKE
+  // ---------------------------------------------------------------------------
+
+  describe("POST /api/v1/admin/keys/:id/rotate", () => {
+    it("should keep both keys working during the overlap window", async () => {
+      const minted = await mint({ name: "rotating", scopes: ["api-keys:admin"] });
+
+      const rotated = await request(app)
+        .post(`${ADMIN_PATH}/${minted.body.apiKey.id}/rotate`)
+        .set("x-fw-admin-key", TEST_API_KEYS.valid)
+        .send({ overlapMs: 60000 });
+
+      expect(rotated.status).toBe(201);
+      expect(rotated.body.apiKey.rotatedFrom).toBe(minted.body.apiKey.id);
+      expect(rotated.body.previous.replacedBy).toBe(rotated.body.apiKey.id);
+      expect(rotated.body.previous.expiresAt).not.toBeNull();
+
+      const oldKey = await request(app).get(ADMIN_PATH).set("x-fw-admin-key", minted.body.key);
+      const newKey = await request(app).get(ADMIN_PATH).set("x-fw-admin-key", rotated.body.key);
+      expect(oldKey.status).toBe(200);
+      expect(newKey.status).toBe(200);
+    });
+
+    it("should expire the old key immediately with a zero overlap", async () => {
+      const minted = await mint({ name: "cutover", scopes: ["api-keys:admin"] });
+
+      await request(app)
+        .post(`${ADMIN_PATH}/${minted.body.apiKey.id}/rotate`)
+        .set("x-fw-admin-key", TEST_API_KEYS.valid)
+        .send({ overlapMs: 0 });
+
+      const response = await request(app).get(ADMIN_PATH).set("x-fw-admin-key", minted.body.key);
+      expect(response.status).toBe(401);
+      expect(response.body.code).toBe("EXPIRED_API_KEY");
+    });
+
+    it("should refuse to rotate a key twice", async () => {
+      const minted = await mint({ name: "twice", scopes: ["*"] });
+      const rotatePath = `${ADMIN_PATH}/${minted.body.apiKey.id}/rotate`;
+
+      await request(app).post(rotatePath).set("x-fw-admin-key", TEST_API_KEYS.valid);
+      const response = await request(app).post(rotatePath).set("x-fw-admin-key", TEST_API_KEYS.valid);
+
+      expect(response.status).toBe(409);
+      expect(response.body.code).toBe("API_KEY_ROTATED");
+    });
+  });
+
+  describe("DELETE /api/v1/admin/keys/:id", () => {
+    it("should revoke the key immediately", async () => {
+      const minted = await mint({ name: "revoked", scopes: ["*"] });
+
+      const revoked = await request(app)
+        .delete(`${ADMIN_PATH}/${minted.body.apiKey.id}`)
+        .set("x-fw-admin-key", TEST_API_KEYS.valid);
+
+      expect(revoked.status).toBe(200);
+      expect(revoked.body.apiKey.status).toBe("revoked");
+
+      const response = await request(app).get(ADMIN_PATH).set("x-fw-admin-key", minted.body.key);
+      expect(response.status).toBe(401);
+      expect(response.body.code).toBe("REVOKED_API_KEY");
+    });
+
+    it("should not rotate a revoked key", async () => {
+      const minted = await mint({ name: "gone", scopes: ["*"] });
+      await request(app).delete(`${ADMIN_PATH}/${minted.body.apiKey.id}`).set("x-fw-admin-key", TEST_API_KEYS.valid);
+
+      const response = await request(app)
+        .post(`${ADMIN_PATH}/${minted.body.apiKey.id}/rotate`)
+        .set("x-fw-admin-key", TEST_API_KEYS.valid);
+
+      expect(response.status).toBe(409);
+      expect(response.body.code).toBe("API_KEY_REVOKED");
+    });
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * Audit Endpoint Tests
+ *
+ * Tests /api/v1/audit:
+ * - Listing with filters and paging
+ * - CSV and JSON export
+ * - Chain verification
+ * - Recording on behalf of the caller (actor taken from the credentials)
+ * - The audit:read / audit:write scopes
+ * - Privileged gateway actions being recorded
+ */
+
+import { describe, it, expect, beforeAll } from "vitest";
+import request from "supertest";
+import express, { type Express } from "express";
+import { SignJWT } from "jose";
+import { createApp } from "../../src/app";
+import { AuditLog, MemoryAuditStore } from "../../src/lib/auditLog";
+import type { GatewayTokenOptions } from "../../src/lib/gatewayToken";
+import { apiKeyGuard } from "../../src/middleware/apiKey";
+import { errorHandler } from "../../src/middleware/errorHandler";
+import { createGatewayTokenGuard } from "../../src/middleware/gatewayToken";
+import { createAuditRouter } from "../../src/routes/audit";
+import { TEST_API_KEYS } from "../setup";
+
+// =============================================================================
+// TEST APPLICATION SETUP
+// =============================================================================
+
+const tokenOptions: GatewayTokenOptions = {
+  secret: "test-gateway-token-secret-0123456789",
+  issuer: "fw-admin-dashboard",
+  audience: "fw-admin-gateway",
+  maxTtlSeconds: 900
+};
+
+/**
+ * Signs a dashboard token for `subject` with the given role and scopes.
+ */
+async function signToken(subject: string, role: string, scopes: string[]): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  return new SignJWT({ role, scopes })
+    .setProtectedHeader({ alg: "HS256" })
+    .setSubject(subject)
+    .setIssuer(tokenOptions.issuer)
+    .setAudience(tokenOptions.audience)
+    .setIssuedAt(now)
+    .setExpirationTime(now + 300)
+    .sign(new TextEncoder().encode(tokenOptions.secret));
+}
+
+/**
+ * Creates an app serving the audit router over its own log.
+ */
+function createTestApp(audit: AuditLog): Express {
+  const app = express();
+  app.use(express.json());
+  app.use("/api/v1/audit", createGatewayTokenGuard(tokenOptions), apiKeyGuard, createAuditRouter(audit));
+  app.use(errorHandler);
+  return app;
+}
+
+// =============================================================================
+// TEST SUITE
+// =============================================================================
+
+describe("audit endpoints", () => {
+  let audit: AuditLog;
+  let app: Express;
+  let adminToken: string;
+
+  beforeAll(async () => {
+    let now = Date.parse("2026-03-01T09:00:00Z");
+    audit = new AuditLog(new MemoryAuditStore(), () => (now += 3_600_000));
+    app = createTestApp(audit);
+    adminToken = await signToken("admin@fw.dev", "admin", ["audit:*"]);
+
+    for (const [actor, action] of [
+      ["ops@fw.dev", "container.stop"],
+      ["ops@fw.dev", "container.start"],
+      ["admin@fw.dev", "user.create"],
+      ["ops@fw.dev", "schedule.create"]
+    ]) {
+      await audit.record({
+        actor,
+        actorRole: "admin",
+        action,
+        target: "container:processor",
+        before: null,
+        after: { note: "=HYPERLINK(\"x\")" },
+        requestId: null,
+        ip: null
+      });
+    }
+  });
+
+  // ---------------------------------------------------------------------------
+  // LIST
+  // ---------------------------------------------------------------------------
+
+  describe("GET /api/v1/audit", () => {
+    it("should return matching entries newest first with a cursor", async () => {
+      const first = await request(app)
+        .get("/api/v1/audit?actor=ops@fw.dev&limit=2")
+        .set("Authorization", `Bearer ${adminToken}`);
+
+      expect(first.status).toBe(200);
+      expect(first.body.entries.map((entry: { action: string }) => entry.action)).toEqual(["schedule.create", "container.start"]);
+      expect(first.body.nextBefore).toBe(2);
+
+      const second = await request(app)
+        .get(`/api/v1/audit?actor=ops@fw.dev&limit=2&before=${first.body.nextBefore}`)
+        .set("Authorization", `Bearer ${adminToken}`);
+
+      expect(second.body.entries.map((entry: { seq: number }) => entry.seq)).toEqual([1]);
+      expect(second.body.nextBefore).toBeNull();
+    });
+
+    it("should filter by action prefix and time range", async () => {
+      const response = await request(app)
+        .get("/api/v1/audit?action=container&from=2026-03-01T11:30:00%2B01:00&to=2026-03-01T23:00:00Z")
+        .set("Authorization", `Bearer ${adminToken}`);
+
+      expect(response.body.entries.map((entry: { action: string }) => entry.action)).toEqual(["container.start"]);
+    });
+
+    it("should reject invalid filters", async () => {
+      const response = await request(app).get("/api/v1/audit?from=yesterday").set("Authorization", `Bearer ${adminToken}`);
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe("VALIDATION_ERROR");
+    });
+
+    it("should require the audit:read scope", async () => {
+      const token = await signToken("viewer@fw.dev", "viewer", ["container:read"]);
+
+      const response = await request(app).get("/api/v1/audit").set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toBe(403);
+      expect(response.body.code).toBe("INSUFFICIENT_SCOPE");
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // EXPORT & VERIFY
+  // ---------------------------------------------------------------------------
+
+  describe("GET /api/v1/audit/export", () => {
+    it("should download CSV oldest first with formula cells neutralised", async () => {
+      const response = await request(app)
+        .get("/api/v1/audit/export?format=csv&actor=ops@fw.dev")
+        .set("Authorization", `Bearer ${adminToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.headers["content-type"]).toMatch(/^text\/csv/);
+      expect(response.headers["content-disposition"]).toMatch(/^attachment; filename="audit-log-\d{4}-\d{2}-\d{2}\.csv"$/);
+      const lines = response.text.trim().split("\r\n");
+      expect(lines[0]).toBe("seq,timestamp,actor,actorRole,action,target,before,after,requestId,ip,prevHash,hash");
+      expect(lines.slice(1).map((line) => line.split(",")[0])).toEqual(["1", "2", "4"]);
+      expect(lines[1]).toContain('"{""note"":""=HYPERLINK(\\""x\\"")""}"');
+    });
+
+    it("should download JSON", async () => {
+      const response = await request(app).get("/api/v1/audit/export?action=user").set("Authorization", `Bearer ${adminToken}`);
+
+      expect(response.headers["content-disposition"]).toMatch(/\.json"$/);
+      expect(response.body.entries).toHaveLength(1);
+    });
+  });
+
+  describe("GET /api/v1/audit/verify", () => {
+    it("should report an intact chain", async () => {
+      const response = await request(app).get("/api/v1/audit/verify").set("Authorization", `Bearer ${adminToken}`);
+
+      expect(response.body).toMatchObject({ valid: true, brokenAt: null });
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // RECORD
+  // ---------------------------------------------------------------------------
+
+  describe("POST /api/v1/audit", () => {
+    it("should attribute the entry to the token's user", async () => {
+      const response = await request(app)
+        .post("/api/v1/audit")
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send({ action: "user.update", target: "user:ops@fw.dev", before: { role: "viewer" }, after: { role: "admin" }, ip: "203.0.113.7" });
+
+      expect(response.status).toBe(201);
+      expect(response.body.entry).toMatchObject({
+        actor: "admin@fw.dev",
+        actorRole: "admin",
+        action: "user.update",
+        before: { role: "viewer" },
+        after: { role: "admin" },
+        ip: "203.0.113.7"
+      });
+      expect((await audit.verify()).valid).toBe(true);
+    });
+
+    it("should not accept an actor from the body", async () => {
+      const response = await request(app)
+        .post("/api/v1/audit")
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send({ action: "user.delete", target: "user:ops@fw.dev", actor: "someone-else@fw.dev" });
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should only accept an ip from a dashboard token", async () => {
+      const response = await request(app)
+        .post("/api/v1/audit")
+        .set("x-fw-admin-key", TEST_API_KEYS.valid)
+        .send({ action: "user.delete", target: "user:ops@fw.dev", ip: "203.0.113.7" });
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe("VALIDATION_ERROR");
+    });
+
+    it("should require the audit:write scope", async () => {
+      const token = await signToken("reader@fw.dev", "viewer", ["audit:read"]);
+
+      const response = await request(app)
+        .post("/api/v1/audit")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ action: "user.delete", target: "user:ops@fw.dev" });
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // GATEWAY ACTIONS
+  // ---------------------------------------------------------------------------
+
+  describe("recorded gateway actions", () => {
+    it("should record API key minting without the secret", async () => {
+      const gateway = createApp({ skipRateLimiter: true });
+      const minted = await request(gateway)
+        .post("/api/v1/admin/keys")
+        .set("x-fw-admin-key", TEST_API_KEYS.valid)
+        .send({ name: "audited", scopes: ["backpro:read"] });
+
+      const response = await request(gateway).get("/api/v1/audit?action=api-key").set("x-fw-admin-key", TEST_API_KEYS.valid);
+
+      expect(response.status).toBe(200);
+      const [entry] = response.body.entries;
+      expect(entry).toMatchObject({
+        actor: "env-key-1",
+        actorRole: "api-key",
+        action: "api-key.mint",
+        target: `api-key:${minted.body.apiKey.id}`,
+        after: { name: "audited", status: "active" }
+      });
+      expect(JSON.stringify(entry)).not.toContain(minted.body.key);
+      expect(entry.after).not.toHaveProperty("hash");
+    });
+  });
+});
@@ -0,0 +1,613 @@
+/**
+ * Container Lifecycle Endpoint Tests
+ *
+ * Tests the container router against a stubbed Azure Management API (tokens
+ * from the fake managed identity endpoint) for:
+ * - The app registry: listing, per-app routing, allowed actions and legacy aliases
+ * - Revisions with traffic weights, activation and deactivation
+ * - Restart of the latest ready (or a named) revision
+ * - Traffic split and min/max replica updates, with validation
+ * - Live replicas of a revision
+ * - Scopes and Azure error mapping (AZURE_API_ERROR, REVISION_NOT_FOUND)
+ * - Other providers (in-memory fake): status, restart, logs, NOT_SUPPORTED
+ * - The live log stream (Server-Sent Events)
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from "vitest";
+import http from "http";
+import type { AddressInfo } from "net";
+import request from "supertest";
+import { startFakeTokenEndpoint, type FakeTokenEndpoint } from "@fw-admin/azure-credentials";
+import express, { type Express } from "express";
+import type { ContainerAppDefinition } from "../../src/config";
+import { ContainerOperationTracker } from "../../src/lib/containerOperations";
+import {
+  FakeContainerProvider,
+  type ContainerLogEntry,
+  type ContainerLogStreamOptions,
+  type ContainerProvider
+} from "../../src/lib/containerProvider";
+import { MemoryOperationStore } from "../../src/lib/operationStore";
+import { createContainerRouter } from "../../src/routes/container";
+import { errorHandler } from "../../src/middleware/errorHandler";
+
+// =============================================================================
+// TEST SETUP
+// =============================================================================
+
+const APPS: ContainerAppDefinition[] = [
+  {
+    id: "processor",
+    name: "Document Processor",
+    subscriptionId: "sub-1",
+    resourceGroup: "rg-docs",
+    containerAppName: "doc-processor",
+    actions: ["start", "stop", "restart", "revisions", "traffic", "scale"]
+  },
+  {
+    id: "ocr",
+    name: "OCR Worker",
+    subscriptionId: "sub-2",
+    resourceGroup: "rg-ocr",
+    containerAppName: "ocr-worker",
+    actions: ["start", "stop"]
+  }
+];
+
+const APP_RESOURCE = /^\/subscriptions\/([^/]+)\/resourceGroups\/([^/]+)\/providers\/Microsoft\.App\/containerApps\/([^/]+)(.*)$/;
+
+interface AzureCall {
+  /** subscription/resource group/app name */
+  app: string;
+  method: string;
+  path: string;
+  body: unknown;
+}
+
+let calls: AzureCall[];
+let azureStatus: number;
+
+const CONTAINER_APP = {
+  name: "doc-processor",
+  properties: {
+    latestRevisionName: "doc-processor--v3",
+    latestReadyRevisionName: "doc-processor--v2",
+    configuration: {
+      activeRevisionsMode: "Multiple",
+      ingress: {
+        traffic: [
+          { revisionName: "doc-processor--v2", weight: 80 },
+          { latestRevision: true, weight: 20, label: "canary" }
+        ]
+      }
+    },
+    template: { scale: { minReplicas: 0, maxReplicas: 4, rules: [{ name: "http-rule", http: { metadata: {} } }] } }
+  }
+};
+
+const REVISIONS = {
+  value: [
+    { name: "doc-processor--v2", properties: { active: true, createdTime: "2026-01-20T10:00:00Z", replicas: 2, runningState: "Running", healthState: "Healthy", provisioningState: "Provisioned" } },
+    { name: "doc-processor--v3", properties: { active: true, createdTime: "2026-01-24T10:00:00Z", replicas: 1, runningState: "Running", healthState: "Healthy", provisioningState: "Provisioned" } }
+  ]
+};
+
+const REPLICAS = {
+  value: [
+    {
+      name: "doc-processor--v2-7f9c",
+      properties: {
+        createdTime: "2026-01-24T09:00:00Z",
+        runningState: "Running",
+        containers: [{ name: "processor", ready: true, restartCount: 1, runningState: "Running" }]
+      }
+    }
+  ]
+};
+
+const realFetch = globalThis.fetch;
+let tokenEndpoint: FakeTokenEndpoint;
+
+/**
+ * Stub for the Azure Management API; token requests go to the fake endpoint.
+ */
+async function azureStub(input: string | URL | Request, init?: RequestInit): Promise<Response> {
+  const url = new URL(String(input));
+  if (url.origin === tokenEndpoint.url) {
+    return realFetch(input, init);
+  }
+
+  const [, subscriptionId, resourceGroup, appName, suffix] = APP_RESOURCE.exec(url.pathname) ?? [];
+  const path = suffix || "/";
+  const method = init?.method ?? "GET";
+  calls.push({
+    app: `${subscriptionId}/${resourceGroup}/${appName}`,
+    method,
+    path,
+    body: init?.body ? JSON.parse(String(init.body)) : undefined
+  });
+
+  if (azureStatus !== 200) {
+    return new Response("upstream failure", { status: azureStatus });
+  }
+  if (path.startsWith("/revisions/doc-processor--missing")) {
+    return new Response("not found", { status: 404 });
+  }
+  if (method === "GET" && path === "/") return Response.json(CONTAINER_APP);
+  if (method === "GET" && path === "/revisions") return Response.json(REVISIONS);
+  if (method === "GET" && path.endsWith("/replicas")) return Response.json(REPLICAS);
+  if (method === "PATCH") return new Response(null, { status: 202 });
+  return new Response(null, { status: 200 });
+}
+
+/** Events of an SSE body, in order */
+function sseEvents(body: string): Array<{ event: string; data: unknown }> {
+  return body
+    .split("\n\n")
+    .filter((event) => event.startsWith("event: "))
+    .map((event) => {
+      const [name, data] = event.split("\n");
+      return { event: name.slice("event: ".length), data: JSON.parse(data.slice("data: ".length)) };
+    });
+}
+
+/**
+ * Fake provider whose log stream yields `entries` and then ends, or fails with `failure`.
+ */
+class FiniteLogProvider extends FakeContainerProvider {
+  streams: Array<Omit<ContainerLogStreamOptions, "signal">> = [];
+
+  constructor(private readonly entries: ContainerLogEntry[], private readonly failure?: Error) {
+    super();
+  }
+
+  async openLogStream(_app: ContainerAppDefinition, { signal: _signal, ...options }: ContainerLogStreamOptions) {
+    this.streams.push(options);
+    const { entries, failure } = this;
+    return (async function* () {
+      yield* entries;
+      if (failure) {
+        throw failure;
+      }
+    })();
+  }
+}
+
+/**
+ * Mounts the container router behind a stand-in for the API key guard.
+ */
+function createTestApp(scopes: string[], apps: ContainerAppDefinition[] = APPS, provider?: ContainerProvider): Express {
+  const app = express();
+  app.use(express.json());
+  app.use((req, _res, next) => {
+    req.apiKey = { name: "ops", scopes };
+    next();
+  });
+  const operations = new ContainerOperationTracker(
+    new MemoryOperationStore(60000),
+    { pollIntervalMs: 1000, timeoutMs: 60000 },
+    provider ? { provider } : {}
+  );
+  app.use("/api/v1/container", createContainerRouter(apps, operations, provider));
+  app.use(errorHandler);
+  return app;
+}
+
+// =============================================================================
+// TEST SUITE
+// =============================================================================
+
+describe("Container lifecycle endpoints", () => {
+  const app = createTestApp(["container:read", "container:control"]);
+
+  beforeAll(async () => {
+    tokenEndpoint = await startFakeTokenEndpoint();
+    vi.stubEnv("IDENTITY_ENDPOINT", tokenEndpoint.identityEndpoint);
+    vi.stubEnv("IDENTITY_HEADER", tokenEndpoint.identityHeader);
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await tokenEndpoint.close();
+  });
+
+  beforeEach(() => {
+    calls = [];
+    azureStatus = 200;
+    vi.spyOn(globalThis, "fetch").mockImplementation(azureStub);
+  });
+
+  // ---------------------------------------------------------------------------
+  // APP REGISTRY
+  // ---------------------------------------------------------------------------
+
+  describe("app registry", () => {
+    it("should list the configured apps with their allowed actions", async () => {
+      const response = await request(app).get("/api/v1/container");
+
+      expect(response.status).toBe(200);
+      expect(response.body.apps).toEqual([
+        { id: "processor", name: "Document Processor", actions: ["start", "stop", "restart", "revisions", "traffic", "scale"] },
+        { id: "ocr", name: "OCR Worker", actions: ["start", "stop"] }
+      ]);
+    });
+
+    it("should call Azure for the app in the path", async () => {
+      const response = await request(app).post("/api/v1/container/ocr/start");
+
+      expect(response.body).toMatchObject({
+        ok: true,
+        action: "start",
+        status: "completed",
+        operation: { appId: "ocr", action: "start", state: "succeeded", requestedBy: "ops" }
+      });
+      expect(calls).toEqual([{ app: "sub-2/rg-ocr/ocr-worker", method: "POST", path: "/start", body: undefined }]);
+    });
+
+    it("should return CONTAINER_APP_NOT_FOUND for unknown apps", async () => {
+      const response = await request(app).get("/api/v1/container/embedder/status");
+
+      expect(response.status).toBe(404);
+      expect(response.body.code).toBe("CONTAINER_APP_NOT_FOUND");
+      expect(calls).toEqual([]);
+    });
+
+    it("should reject actions the app does not allow", async () => {
+      const response = await request(app).put("/api/v1/container/ocr/scale").send({ minReplicas: 1, maxReplicas: 2 });
+
+      expect(response.status).toBe(403);
+      expect(response.body.code).toBe("ACTION_NOT_ALLOWED");
+      expect(calls).toEqual([]);
+    });
+
+    it("should still allow reads for apps with restricted actions", async () => {
+      const response = await request(app).get("/api/v1/container/ocr/scale");
+
+      expect(response.status).toBe(200);
+      expect(calls[0].app).toBe("sub-2/rg-ocr/ocr-worker");
+    });
+
+    it("should serve the legacy paths for the first app, marked deprecated", async () => {
+      const response = await request(app).get("/api/v1/container/status");
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({ id: "processor", name: "doc-processor" });
+      expect(response.headers.deprecation).toBe("true");
+      expect(response.headers.link).toBe('</api/v1/container/processor/status>; rel="successor-version"');
+      expect(calls[0].app).toBe("sub-1/rg-docs/doc-processor");
+    });
+
+    it("should return CONTAINER_APP_NOT_FOUND on legacy paths when no apps are configured", async () => {
+      const response = await request(createTestApp(["container:read"], [])).get("/api/v1/container/status");
+
+      expect(response.status).toBe(404);
+      expect(response.body.code).toBe("CONTAINER_APP_NOT_FOUND");
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // REVISIONS
+  // ---------------------------------------------------------------------------
+
+  describe("revisions", () => {
+    it("should list revisions newest first with their traffic weights", async () => {
+      const response = await request(app).get("/api/v1/container/processor/revisions");
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({
+        latestRevisionName: "doc-processor--v3",
+        latestReadyRevisionName: "doc-processor--v2",
+        activeRevisionsMode: "Multiple",
+        traffic: [
+          { revisionName: "doc-processor--v2", weight: 80 },
+          { latestRevision: true, weight: 20, label: "canary" }
+        ]
+      });
+      expect(response.body.revisions.map((revision: { name: string; trafficWeight: number }) => [revision.name, revision.trafficWeight])).toEqual([
+        ["doc-processor--v3", 20],
+        ["doc-processor--v2", 80]
+      ]);
+    });
+
+    it("should activate and deactivate a revision", async () => {
+      const activate = await request(app).post("/api/v1/container/processor/revisions/doc-processor--v2/activate");
+      const deactivate = await request(app).post("/api/v1/container/processor/revisions/doc-processor--v2/deactivate");
+
+      expect(activate.body).toEqual({ ok: true, action: "activate", revision: "doc-processor--v2", status: "completed" });
+      expect(deactivate.body.action).toBe("deactivate");
+      expect(calls.map((call) => `${call.method} ${call.path}`)).toEqual([
+        "POST /revisions/doc-processor--v2/activate",
+        "POST /revisions/doc-processor--v2/deactivate"
+      ]);
+    });
+
+    it("should reject invalid revision names before calling Azure", async () => {
+      const response = await request(app).post("/api/v1/container/processor/revisions/Bad_Name/activate");
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe("VALIDATION_ERROR");
+      expect(calls).toEqual([]);
+    });
+
+    it("should map unknown revisions to REVISION_NOT_FOUND", async () => {
+      const response = await request(app).get("/api/v1/container/processor/revisions/doc-processor--missing/replicas");
+
+      expect(response.status).toBe(404);
+      expect(response.body.code).toBe("REVISION_NOT_FOUND");
+    });
+
+    it("should list the live replicas of a revision", async () => {
+      const response = await request(app).get("/api/v1/container/processor/revisions/doc-processor--v2/replicas");
+
+      expect(response.body).toEqual({
+        revision: "doc-processor--v2",
+        replicas: [
+          {
+            name: "doc-processor--v2-7f9c",
+            createdTime: "2026-01-24T09:00:00Z",
+            runningState: "Running",
+            containers: [{ name: "processor", ready: true, restartCount: 1, runningState: "Running" }]
+          }
+        ]
+      });
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // RESTART
+  // ---------------------------------------------------------------------------
+
+  describe("POST /restart", () => {
+    it("should restart the latest ready revision by default", async () => {
+      const response = await request(app).post("/api/v1/container/processor/restart");
+
+      expect(response.body).toEqual({ ok: true, action: "restart", revision: "doc-processor--v2", status: "completed" });
+      expect(calls[calls.length - 1]).toMatchObject({ method: "POST", path: "/revisions/doc-processor--v2/restart" });
+    });
+
+    it("should restart a named revision", async () => {
+      await request(app).post("/api/v1/container/processor/restart").send({ revision: "doc-processor--v3" });
+
+      expect(calls).toHaveLength(1);
+      expect(calls[0].path).toBe("/revisions/doc-processor--v3/restart");
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // TRAFFIC & SCALE
+  // ---------------------------------------------------------------------------
+
+  describe("traffic and scale", () => {
+    it("should patch the ingress traffic split", async () => {
+      const traffic = [
+        { revisionName: "doc-processor--v2", weight: 50 },
+        { latestRevision: true, weight: 50 }
+      ];
+
+      const response = await request(app).put("/api/v1/container/processor/traffic").send({ traffic });
+
+      expect(response.body).toEqual({ ok: true, action: "traffic", status: "accepted", traffic });
+      expect(calls[0]).toMatchObject({
+        method: "PATCH",
+        path: "/",
+        body: { properties: { configuration: { ingress: { traffic } } } }
+      });
+    });
+
+    it("should reject traffic weights that do not add up to 100", async () => {
+      const response = await request(app)
+        .put("/api/v1/container/processor/traffic")
+        .send({ traffic: [{ revisionName: "doc-processor--v2", weight: 60 }] });
+
+      expect(response.status).toBe(400);
+      expect(response.body.message).toContain("add up to 100");
+      expect(calls).toEqual([]);
+    });
+
+    it("should read replica bounds and rules", async () => {
+      const response = await request(app).get("/api/v1/container/processor/scale");
+
+      expect(response.body).toEqual({ minReplicas: 0, maxReplicas: 4, rules: [{ name: "http-rule", type: "http" }] });
+    });
+
+    it("should patch min and max replicas", async () => {
+      const response = await request(app).put("/api/v1/container/processor/scale").send({ minReplicas: 1, maxReplicas: 6 });
+
+      expect(response.body).toEqual({ ok: true, action: "scale", status: "accepted", scale: { minReplicas: 1, maxReplicas: 6 } });
+      expect(calls[0].body).toEqual({ properties: { template: { scale: { minReplicas: 1, maxReplicas: 6 } } } });
+    });
+
+    it("should reject minReplicas above maxReplicas", async () => {
+      const response = await request(app).put("/api/v1/container/processor/scale").send({ minReplicas: 5, maxReplicas: 2 });
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe("VALIDATION_ERROR");
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // ACCESS & ERRORS
+  // ---------------------------------------------------------------------------
+
+  describe("access and errors", () => {
+    it("should require container:control for changes", async () => {
+      const readOnly = createTestApp(["container:read"]);
+
+      const read = await request(readOnly).get("/api/v1/container/processor/scale");
+      const write = await request(readOnly).put("/api/v1/container/processor/scale").send({ minReplicas: 1, maxReplicas: 2 });
+
+      expect(read.status).toBe(200);
+      expect(write.status).toBe(403);
+      expect(write.body.code).toBe("INSUFFICIENT_SCOPE");
+    });
+
+    it("should report Azure failures as AZURE_API_ERROR", async () => {
+      azureStatus = 500;
+
+      const response = await request(app).get("/api/v1/container/processor/revisions");
+
+      expect(response.status).toBe(502);
+      expect(response.body).toEqual({ status: "error", code: "AZURE_API_ERROR", message: "Azure API error (500)" });
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // OTHER PROVIDERS
+  // ---------------------------------------------------------------------------
+
+  describe("other providers", () => {
+    let provider: FakeContainerProvider;
+    let local: Express;
+
+    beforeEach(() => {
+      provider = new FakeContainerProvider(() => Date.parse("2026-03-02T09:00:00Z"));
+      local = createTestApp(["container:read", "container:logs", "container:control"], APPS, provider);
+    });
+
+    it("should name the provider in the app list", async () => {
+      const response = await request(local).get("/api/v1/container");
+
+      expect(response.body.provider).toBe("fake");
+    });
+
+    it("should run lifecycle actions through the provider", async () => {
+      const stop = await request(local).post("/api/v1/container/processor/stop");
+      const status = await request(local).get("/api/v1/container/processor/status");
+      const restart = await request(local).post("/api/v1/container/processor/restart").send({});
+
+      expect(stop.body).toMatchObject({ status: "completed", operation: { state: "succeeded" } });
+      expect(status.body).toMatchObject({ id: "processor", runningStatus: "Stopped" });
+      expect(restart.body).toEqual({ ok: true, action: "restart", revision: null, status: "completed" });
+      expect(provider.calls).toEqual(["processor:stop", "processor:restart"]);
+      expect(calls).toEqual([]);
+    });
+
+    it("should return the latest log lines", async () => {
+      await request(local).post("/api/v1/container/processor/stop");
+      await request(local).post("/api/v1/container/processor/start");
+
+      const response = await request(local).get("/api/v1/container/processor/logs?tail=1");
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({
+        id: "processor",
+        lines: [{ timestamp: "2026-03-02T09:00:00.000Z", stream: "stdout", message: "start doc-processor" }]
+      });
+    });
+
+    it("should require container:logs for log lines", async () => {
+      const response = await request(createTestApp(["container:read"], APPS, provider)).get("/api/v1/container/processor/logs");
+
+      expect(response.status).toBe(403);
+      expect(response.body.code).toBe("INSUFFICIENT_SCOPE");
+    });
+
+    it("should validate the log tail", async () => {
+      const response = await request(local).get("/api/v1/container/processor/logs?tail=5000");
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe("VALIDATION_ERROR");
+    });
+
+    it("should answer Azure-only routes with NOT_SUPPORTED", async () => {
+      const revisions = await request(local).get("/api/v1/container/processor/revisions");
+      const scale = await request(local).put("/api/v1/container/processor/scale").send({ minReplicas: 1, maxReplicas: 2 });
+      const restart = await request(local).post("/api/v1/container/processor/restart").send({ revision: "doc-processor--v2" });
+
+      expect([revisions.status, scale.status, restart.status]).toEqual([501, 501, 501]);
+      expect(revisions.body.code).toBe("NOT_SUPPORTED");
+      expect(provider.calls).toEqual([]);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // LOG STREAM
+  // ---------------------------------------------------------------------------
+
+  describe("log stream", () => {
+    const ENTRIES: ContainerLogEntry[] = [
+      { timestamp: "2026-03-02T09:00:00.000Z", stream: "stdout", message: "Listening on 5050" },
+      { timestamp: "2026-03-02T09:00:01.000Z", stream: "stderr", message: "WARN slow upstream" }
+    ];
+
+    it("should stream log entries and end when the provider closes the stream", async () => {
+      const provider = new FiniteLogProvider(ENTRIES);
+
+      const response = await request(createTestApp(["container:logs"], APPS, provider)).get(
+        "/api/v1/container/logs?app=ocr&type=system&tail=20"
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.headers["content-type"]).toMatch(/^text\/event-stream/);
+      expect(sseEvents(response.text)).toEqual([
+        { event: "log", data: ENTRIES[0] },
+        { event: "log", data: ENTRIES[1] },
+        { event: "end", data: { error: null } }
+      ]);
+      expect(provider.streams).toEqual([{ type: "system", tail: 20 }]);
+    });
+
+    it("should report a failing stream in the end event", async () => {
+      const provider = new FiniteLogProvider(ENTRIES.slice(0, 1), new Error("connection reset"));
+
+      const response = await request(createTestApp(["container:logs"], APPS, provider)).get("/api/v1/container/logs?app=ocr");
+
+      expect(sseEvents(response.text).at(-1)).toEqual({
+        event: "end",
+        data: { error: { code: "LOG_STREAM_FAILED", message: "connection reset" } }
+      });
+      expect(provider.streams).toEqual([{ type: "console", tail: 100 }]);
+    });
+
+    it("should follow new output until the client disconnects", async () => {
+      const provider = new FakeContainerProvider(() => Date.parse("2026-03-02T09:00:00Z"));
+      const server = createTestApp(["container:logs", "container:control"], APPS, provider).listen(0);
+      const { port } = server.address() as AddressInfo;
+
+      try {
+        const received = await new Promise<string>((resolve, reject) => {
+          http.get(`http://127.0.0.1:${port}/api/v1/container/logs?app=processor`, (res) => {
+            let body = "";
+            res.on("data", (chunk) => {
+              body += chunk;
+              if (body.includes("restart doc-processor")) {
+                res.destroy();
+                resolve(body);
+              }
+            });
+            // Written after the stream is open, so it arrives as a followed line
+            request(server).post("/api/v1/container/processor/restart").send({}).then(() => undefined, reject);
+          }).on("error", reject);
+        });
+
+        expect(sseEvents(received)).toEqual([
+          { event: "log", data: { timestamp: "2026-03-02T09:00:00.000Z", stream: "stdout", message: "restart doc-processor" } }
+        ]);
+      } finally {
+        await new Promise((resolve) => server.close(resolve));
+      }
+    });
+
+    it("should require container:logs", async () => {
+      const provider = new FiniteLogProvider(ENTRIES);
+
+      const response = await request(createTestApp(["container:read"], APPS, provider)).get("/api/v1/container/logs?app=ocr");
+
+      expect(response.status).toBe(403);
+      expect(response.body.code).toBe("INSUFFICIENT_SCOPE");
+      expect(provider.streams).toEqual([]);
+    });
+
+    it("should reject unknown apps and invalid queries before streaming", async () => {
+      const local = createTestApp(["container:logs"], APPS, new FiniteLogProvider(ENTRIES));
+
+      const unknown = await request(local).get("/api/v1/container/logs?app=embedder");
+      const invalid = await request(local).get("/api/v1/container/logs?app=ocr&type=audit");
+      const missing = await request(local).get("/api/v1/container/logs");
+
+      expect(unknown.status).toBe(404);
+      expect(unknown.body.code).toBe("CONTAINER_APP_NOT_FOUND");
+      expect([invalid.status, missing.status]).toEqual([400, 400]);
+    });
+  });
+});
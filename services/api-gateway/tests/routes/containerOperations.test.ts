@@ -0,0 +1,126 @@
+/**
+ * Container Operation Endpoint Tests
+ *
+ * Tests the operations router (in-memory store) for:
+ * - Reading an operation, and OPERATION_NOT_FOUND
+ * - The event stream: current state, each change, and the end after the final state
+ * - Scopes
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import request from "supertest";
+import express, { type Express } from "express";
+import { MemoryOperationStore, type ContainerOperation } from "../../src/lib/operationStore";
+import { createContainerOperationsRouter } from "../../src/routes/containerOperations";
+import { errorHandler } from "../../src/middleware/errorHandler";
+
+// =============================================================================
+// TEST SETUP
+// =============================================================================
+
+const RUNNING: ContainerOperation = {
+  id: "0a1b2c3d4e5f6a7b",
+  appId: "processor",
+  action: "start",
+  state: "running",
+  azureStatus: "InProgress",
+  requestedBy: "ops",
+  createdAt: "2026-03-02T09:00:00.000Z",
+  updatedAt: "2026-03-02T09:00:00.000Z",
+  completedAt: null,
+  error: null
+};
+
+let store: MemoryOperationStore;
+
+function createTestApp(scopes: string[]): Express {
+  const app = express();
+  app.use((req, _res, next) => {
+    req.apiKey = { name: "ops", scopes };
+    next();
+  });
+  app.use("/api/v1/container/operations", createContainerOperationsRouter(store, { eventsPollMs: 10 }));
+  app.use(errorHandler);
+  return app;
+}
+
+/** `operation` events of an SSE body, in order */
+function operationEvents(body: string): ContainerOperation[] {
+  return body
+    .split("\n\n")
+    .filter((event) => event.startsWith("event: operation\n"))
+    .map((event) => JSON.parse(event.slice(event.indexOf("data: ") + 6)) as ContainerOperation);
+}
+
+// =============================================================================
+// TEST SUITE
+// =============================================================================
+
+describe("Container operation endpoints", () => {
+  beforeEach(async () => {
+    store = new MemoryOperationStore(60000);
+    await store.save(RUNNING);
+  });
+
+  // ---------------------------------------------------------------------------
+  // GET /:id
+  // ---------------------------------------------------------------------------
+
+  describe("GET /:id", () => {
+    it("should return the operation", async () => {
+      const response = await request(createTestApp(["container:read"])).get(`/api/v1/container/operations/${RUNNING.id}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ operation: RUNNING });
+    });
+
+    it("should return OPERATION_NOT_FOUND for unknown ids", async () => {
+      const response = await request(createTestApp(["container:read"])).get("/api/v1/container/operations/ffffffffffffffff");
+
+      expect(response.status).toBe(404);
+      expect(response.body.code).toBe("OPERATION_NOT_FOUND");
+    });
+
+    it("should require container:read", async () => {
+      const response = await request(createTestApp(["fw-analysis:read"])).get(`/api/v1/container/operations/${RUNNING.id}`);
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // GET /:id/events
+  // ---------------------------------------------------------------------------
+
+  describe("GET /:id/events", () => {
+    it("should stream each change and end after the final state", async () => {
+      setTimeout(() => void store.save({ ...RUNNING, azureStatus: "Provisioning", updatedAt: "2026-03-02T09:00:05.000Z" }), 30);
+      setTimeout(
+        () =>
+          void store.save({
+            ...RUNNING,
+            state: "succeeded",
+            azureStatus: "Succeeded",
+            updatedAt: "2026-03-02T09:00:10.000Z",
+            completedAt: "2026-03-02T09:00:10.000Z"
+          }),
+        80
+      );
+
+      const response = await request(createTestApp(["container:read"])).get(`/api/v1/container/operations/${RUNNING.id}/events`);
+
+      expect(response.status).toBe(200);
+      expect(response.headers["content-type"]).toMatch(/^text\/event-stream/);
+      expect(operationEvents(response.text).map((event) => event.azureStatus)).toEqual(["InProgress", "Provisioning", "Succeeded"]);
+    });
+
+    it("should send a finished operation once and end", async () => {
+      await store.save({ ...RUNNING, state: "failed", azureStatus: "Failed", error: { code: "Failed", message: "Quota exceeded" } });
+
+      const response = await request(createTestApp(["container:read"])).get(`/api/v1/container/operations/${RUNNING.id}/events`);
+
+      expect(operationEvents(response.text)).toHaveLength(1);
+      expect(operationEvents(response.text)[0].error).toEqual({ code: "Failed", message: "Quota exceeded" });
+    });
+  });
+});
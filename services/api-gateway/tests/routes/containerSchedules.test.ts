@@ -0,0 +1,190 @@
+/**
+ * Container Schedule Endpoint Tests
+ *
+ * Tests the schedules router (in-memory store, fixed clock) for:
+ * - Create, read, replace and delete with the next run of each schedule
+ * - The earliest upcoming run per app, as shown on the dashboard
+ * - Validation of cron expressions, time zones, apps and allowed actions
+ * - Scopes
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import request from "supertest";
+import express, { type Express } from "express";
+import type { ContainerAppDefinition } from "../../src/config";
+import { MemoryScheduleStore } from "../../src/lib/scheduleStore";
+import { createContainerSchedulesRouter } from "../../src/routes/containerSchedules";
+import { errorHandler } from "../../src/middleware/errorHandler";
+
+// =============================================================================
+// TEST SETUP
+// =============================================================================
+
+const APPS: ContainerAppDefinition[] = [
+  {
+    id: "processor",
+    name: "Document Processor",
+    subscriptionId: "sub-1",
+    resourceGroup: "rg-docs",
+    containerAppName: "doc-processor",
+    actions: ["start", "stop"]
+  },
+  {
+    id: "ocr",
+    name: "OCR Worker",
+    subscriptionId: "sub-1",
+    resourceGroup: "rg-docs",
+    containerAppName: "ocr-worker",
+    actions: ["start"]
+  }
+];
+
+/** Friday 16 January 2026, 12:00 in Sydney */
+const NOW = Date.parse("2026-01-16T01:00:00Z");
+
+const WEEKNIGHT_STOP = {
+  appId: "processor",
+  action: "stop",
+  cron: "0 19 * * MON-FRI",
+  timezone: "Australia/Sydney",
+  holidays: ["2026-01-26"],
+  description: "Stop overnight"
+};
+
+let store: MemoryScheduleStore;
+
+function createTestApp(scopes: string[]): Express {
+  const app = express();
+  app.use(express.json());
+  app.use((req, _res, next) => {
+    req.apiKey = { name: "ops", scopes };
+    next();
+  });
+  app.use("/api/v1/container/schedules", createContainerSchedulesRouter(store, APPS, () => NOW));
+  app.use(errorHandler);
+  return app;
+}
+
+// =============================================================================
+// TEST SUITE
+// =============================================================================
+
+describe("Container schedule endpoints", () => {
+  let app: Express;
+
+  beforeEach(() => {
+    store = new MemoryScheduleStore();
+    app = createTestApp(["container:read", "container:control"]);
+  });
+
+  // ---------------------------------------------------------------------------
+  // CRUD
+  // ---------------------------------------------------------------------------
+
+  describe("CRUD", () => {
+    it("should create a schedule with defaults and its next run", async () => {
+      const response = await request(app).post("/api/v1/container/schedules").send(WEEKNIGHT_STOP);
+
+      expect(response.status).toBe(201);
+      expect(response.body.schedule).toMatchObject({
+        ...WEEKNIGHT_STOP,
+        enabled: true,
+        lastRun: null,
+        // 19:00 AEDT (UTC+11) the same day
+        nextRunAt: "2026-01-16T08:00:00.000Z"
+      });
+      expect(response.body.schedule.id).toMatch(/^[0-9a-f]{12}$/);
+    });
+
+    it("should read, replace and delete a schedule", async () => {
+      const created = await request(app).post("/api/v1/container/schedules").send(WEEKNIGHT_STOP);
+      const id = created.body.schedule.id;
+
+      const read = await request(app).get(`/api/v1/container/schedules/${id}`);
+      const replaced = await request(app)
+        .put(`/api/v1/container/schedules/${id}`)
+        .send({ ...WEEKNIGHT_STOP, action: "start", cron: "0 7 * * MON-FRI", enabled: false });
+      const deleted = await request(app).delete(`/api/v1/container/schedules/${id}`);
+      const missing = await request(app).get(`/api/v1/container/schedules/${id}`);
+
+      expect(read.body.schedule.id).toBe(id);
+      expect(replaced.body.schedule).toMatchObject({ id, action: "start", cron: "0 7 * * MON-FRI", enabled: false, nextRunAt: null });
+      expect(replaced.body.schedule.createdAt).toBe(created.body.schedule.createdAt);
+      expect(deleted.status).toBe(200);
+      expect(missing.status).toBe(404);
+      expect(missing.body.code).toBe("SCHEDULE_NOT_FOUND");
+    });
+
+    it("should list schedules for an app with the earliest upcoming run", async () => {
+      await request(app).post("/api/v1/container/schedules").send(WEEKNIGHT_STOP);
+      const start = await request(app)
+        .post("/api/v1/container/schedules")
+        .send({ ...WEEKNIGHT_STOP, action: "start", cron: "0 7 * * MON-FRI" });
+      await request(app)
+        .post("/api/v1/container/schedules")
+        .send({ ...WEEKNIGHT_STOP, appId: "ocr", action: "start", cron: "0 6 * * MON-FRI" });
+
+      const response = await request(app).get("/api/v1/container/schedules?app=processor");
+
+      expect(response.body.schedules).toHaveLength(2);
+      expect(response.body.next).toEqual({
+        scheduleId: expect.any(String),
+        appId: "processor",
+        action: "stop",
+        at: "2026-01-16T08:00:00.000Z"
+      });
+      expect(response.body.next.scheduleId).not.toBe(start.body.schedule.id);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // VALIDATION
+  // ---------------------------------------------------------------------------
+
+  describe("validation", () => {
+    it("should reject invalid cron expressions", async () => {
+      const response = await request(app)
+        .post("/api/v1/container/schedules")
+        .send({ ...WEEKNIGHT_STOP, cron: "0 25 * * *" });
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe("VALIDATION_ERROR");
+      expect(response.body.message).toContain("hour");
+    });
+
+    it("should reject unknown time zones and malformed holidays", async () => {
+      const zone = await request(app).post("/api/v1/container/schedules").send({ ...WEEKNIGHT_STOP, timezone: "Sydney" });
+      const holiday = await request(app).post("/api/v1/container/schedules").send({ ...WEEKNIGHT_STOP, holidays: ["26/01/2026"] });
+
+      expect(zone.status).toBe(400);
+      expect(holiday.status).toBe(400);
+    });
+
+    it("should reject unknown apps and actions the app does not allow", async () => {
+      const unknown = await request(app).post("/api/v1/container/schedules").send({ ...WEEKNIGHT_STOP, appId: "embedder" });
+      const notAllowed = await request(app).post("/api/v1/container/schedules").send({ ...WEEKNIGHT_STOP, appId: "ocr" });
+
+      expect(unknown.status).toBe(404);
+      expect(unknown.body.code).toBe("CONTAINER_APP_NOT_FOUND");
+      expect(notAllowed.status).toBe(403);
+      expect(notAllowed.body.code).toBe("ACTION_NOT_ALLOWED");
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // ACCESS
+  // ---------------------------------------------------------------------------
+
+  describe("access", () => {
+    it("should require container:control for changes", async () => {
+      const readOnly = createTestApp(["container:read"]);
+
+      const list = await request(readOnly).get("/api/v1/container/schedules");
+      const create = await request(readOnly).post("/api/v1/container/schedules").send(WEEKNIGHT_STOP);
+
+      expect(list.status).toBe(200);
+      expect(create.status).toBe(403);
+      expect(create.body.code).toBe("INSUFFICIENT_SCOPE");
+    });
+  });
+});
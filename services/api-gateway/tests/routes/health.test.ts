@@ -4,6 +4,7 @@
  * Tests the health check endpoints:
  * - GET /api/v1/health (gateway health)
  * - GET /api/v1/services/status (aggregated services status)
+ * - GET /api/v1/services/history (background prober history)
  */
 
 import { describe, it, expect, beforeAll, vi, afterEach } from "vitest";
@@ -167,6 +168,39 @@ describe("Health endpoints", () => {
     });
   });
 
+  // ---------------------------------------------------------------------------
+  // SERVICES HISTORY ENDPOINT
+  // ---------------------------------------------------------------------------
+
+  describe("GET /api/v1/services/history", () => {
+    it("should not require authentication", async () => {
+      const response = await request(app).get("/api/v1/services/history");
+
+      expect(response.status).toBe(200);
+    });
+
+    it("should include the probe interval, window and every registered service", async () => {
+      const response = await request(app).get("/api/v1/services/history");
+
+      expect(response.body.intervalMs).toBe(30000);
+      expect(response.body.windowMs).toBe(86400000);
+      expect(Object.keys(response.body.services)).toEqual(["fwAnalysis", "backpro"]);
+      expect(response.body.services.backpro).toMatchObject({
+        name: "backpro",
+        current: "unknown",
+        samples: [],
+        outages: []
+      });
+    });
+
+    it("should reject an invalid limit", async () => {
+      const response = await request(app).get("/api/v1/services/history?limit=0");
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe("VALIDATION_ERROR");
+    });
+  });
+
   // ---------------------------------------------------------------------------
   // PROTECTED ENDPOINTS REQUIRE AUTH
   // ---------------------------------------------------------------------------
@@ -0,0 +1,115 @@
+/**
+ * Metrics Endpoint Tests
+ *
+ * Tests GET /metrics through the gateway app:
+ * - Authentication and the metrics:read scope
+ * - Request counts labelled by route group, method and status
+ * - Auth failure counts by code
+ * - The unauthenticated metrics-only app (METRICS_PORT)
+ */
+
+import { describe, it, expect, beforeAll } from "vitest";
+import request from "supertest";
+import type { Express } from "express";
+import { createApp, createMetricsApp } from "../../src/app";
+import { metrics } from "../../src/lib/metrics";
+import { TEST_API_KEYS } from "../setup";
+
+// =============================================================================
+// TEST SUITE
+// =============================================================================
+
+describe("Metrics endpoint", () => {
+  let app: Express;
+
+  beforeAll(() => {
+    app = createApp({ skipRateLimiter: true });
+  });
+
+  // ---------------------------------------------------------------------------
+  // ACCESS
+  // ---------------------------------------------------------------------------
+
+  describe("GET /metrics", () => {
+    it("should require an API key", async () => {
+      const response = await request(app).get("/metrics");
+
+      expect(response.status).toBe(401);
+      expect(response.body.code).toBe("MISSING_API_KEY");
+    });
+
+    it("should require the metrics:read scope", async () => {
+      const minted = await request(app)
+        .post("/api/v1/admin/keys")
+        .set("x-fw-admin-key", TEST_API_KEYS.valid)
+        .send({ name: "status-reader", scopes: ["container:read"] });
+
+      const response = await request(app).get("/metrics").set("x-fw-admin-key", minted.body.key);
+
+      expect(response.status).toBe(403);
+      expect(response.body.code).toBe("INSUFFICIENT_SCOPE");
+    });
+
+    it("should serve the Prometheus text format", async () => {
+      const response = await request(app).get("/metrics").set("x-fw-admin-key", TEST_API_KEYS.valid);
+
+      expect(response.status).toBe(200);
+      expect(response.headers["content-type"]).toMatch(/^text\/plain;.*version=0\.0\.4/);
+      expect(response.text).toContain("# TYPE gateway_http_requests_total counter");
+      expect(response.text).toContain("# TYPE process_resident_memory_bytes gauge");
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // INSTRUMENTATION
+  // ---------------------------------------------------------------------------
+
+  describe("instrumentation", () => {
+    it("should count requests by route group, method and status", async () => {
+      const labels = { route: "health", method: "GET", status: "200" };
+      const before = metrics.httpRequests.get(labels);
+
+      await request(app).get("/api/v1/health");
+      const response = await request(app).get("/metrics").set("x-fw-admin-key", TEST_API_KEYS.valid);
+
+      expect(metrics.httpRequests.get(labels)).toBe(before + 1);
+      expect(response.text).toContain('gateway_http_request_duration_seconds_count{route="health",method="GET",status="200"}');
+    });
+
+    it("should group unknown paths without using them as labels", async () => {
+      await request(app).get("/no/such/path-12345");
+      const response = await request(app).get("/metrics").set("x-fw-admin-key", TEST_API_KEYS.valid);
+
+      expect(response.text).toMatch(/gateway_http_requests_total\{route="unmatched",method="GET",status="404"\} \d+/);
+      expect(response.text).not.toContain("path-12345");
+    });
+
+    it("should count authentication failures by code", async () => {
+      const missing = metrics.authFailures.get({ code: "MISSING_API_KEY" });
+      const invalid = metrics.authFailures.get({ code: "INVALID_API_KEY" });
+
+      await request(app).get("/api/v1/container/status");
+      await request(app).get("/api/v1/container/status").set("x-fw-admin-key", TEST_API_KEYS.invalid);
+
+      expect(metrics.authFailures.get({ code: "MISSING_API_KEY" })).toBe(missing + 1);
+      expect(metrics.authFailures.get({ code: "INVALID_API_KEY" })).toBe(invalid + 1);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // SEPARATE LISTENER
+  // ---------------------------------------------------------------------------
+
+  describe("metrics-only app", () => {
+    it("should serve /metrics without authentication and nothing else", async () => {
+      const metricsApp = createMetricsApp();
+
+      const scrape = await request(metricsApp).get("/metrics");
+      const other = await request(metricsApp).get("/api/v1/health");
+
+      expect(scrape.status).toBe(200);
+      expect(scrape.text).toContain("gateway_http_requests_total");
+      expect(other.status).toBe(404);
+    });
+  });
+});
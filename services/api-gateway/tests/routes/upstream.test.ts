@@ -0,0 +1,425 @@
+/**
+ * Upstream Router Tests
+ *
+ * Tests createUpstreamRouter against a local stub upstream for:
+ * - Health endpoint (healthy, error status, invalid JSON, connection failure)
+ * - Proxying of other requests (path rewriting, gateway key and token stripping)
+ * - Proxy error envelope when the upstream is unreachable
+ * - Circuit breaker short-circuiting (UPSTREAM_CIRCUIT_OPEN)
+ * - Retries with backoff for idempotent requests
+ * - Response cache routes (hits, uncompressed storage, forwarded credentials)
+ * - W3C trace context propagation and upstream client spans
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { createServer, type IncomingMessage, type Server } from "http";
+import type { AddressInfo } from "net";
+import request from "supertest";
+import express, { type Express } from "express";
+import { parseServiceRegistry } from "../../src/config";
+import { createUpstreamRouter } from "../../src/routes/upstream";
+import { CircuitBreaker } from "../../src/lib/circuitBreaker";
+import { errorHandler } from "../../src/middleware/errorHandler";
+import { MemoryResponseCacheStore } from "../../src/lib/responseCacheStore";
+import { createTracingMiddleware } from "../../src/middleware/tracing";
+import { parseTraceparent, tracer, type FinishedSpan } from "../../src/lib/tracing";
+
+// =============================================================================
+// TEST UPSTREAM SETUP
+// =============================================================================
+
+let upstream: Server;
+let upstreamUrl: string;
+let lastRequest: IncomingMessage | null = null;
+let healthMode: "ok" | "error" | "invalid" = "ok";
+let flakyFailures = 0;
+let flakyHits = 0;
+let catalogueHits = 0;
+
+/**
+ * Starts a stub upstream that records the last proxied request.
+ */
+function startUpstream(): Promise<void> {
+  upstream = createServer((req, res) => {
+    if (req.url === "/health") {
+      if (healthMode === "error") {
+        res.writeHead(500).end();
+      } else if (healthMode === "invalid") {
+        res.writeHead(200, { "Content-Type": "text/plain" }).end("not json");
+      } else {
+        res.writeHead(200, { "Content-Type": "application/json" }).end(JSON.stringify({ ok: true }));
+      }
+      return;
+    }
+
+    // Fails with 503 until flakyFailures is exhausted
+    if (req.url?.startsWith("/flaky")) {
+      flakyHits++;
+      if (flakyFailures > 0) {
+        flakyFailures--;
+        res.writeHead(503, { "Retry-After": "0" }).end();
+        return;
+      }
+    }
+
+    if (req.url?.startsWith("/catalogue")) {
+      catalogueHits++;
+    }
+
+    lastRequest = req;
+    res.writeHead(200, { "Content-Type": "application/json" }).end(JSON.stringify({ path: req.url }));
+  });
+
+  return new Promise((resolve) => {
+    upstream.listen(0, "127.0.0.1", () => {
+      upstreamUrl = `http://127.0.0.1:${(upstream.address() as AddressInfo).port}`;
+      resolve();
+    });
+  });
+}
+
+/**
+ * Creates an app that mounts a single registered service.
+ * GET /catalogue is cached when `withCache` is set.
+ */
+function createTestApp(baseUrl: string, breaker?: CircuitBreaker, withCache = false): Express {
+  const [service] = parseServiceRegistry([
+    {
+      id: "ocrWorker",
+      name: "ocr-worker",
+      baseUrl,
+      timeouts: { healthMs: 1000 },
+      retry: { baseDelayMs: 10, maxDelayMs: 100 },
+      cache: [{ path: "/catalogue", ttlMs: 60000 }]
+    }
+  ]);
+
+  const responseCache = withCache ? { store: new MemoryResponseCacheStore(100), maxBodyBytes: 4096 } : undefined;
+
+  const app = express();
+  app.use(express.json());
+  app.use(service.mountPath, createUpstreamRouter(service, { breaker, responseCache }));
+  app.use(errorHandler);
+  return app;
+}
+
+// =============================================================================
+// TEST SUITE
+// =============================================================================
+
+describe("createUpstreamRouter", () => {
+  let app: Express;
+
+  beforeAll(async () => {
+    await startUpstream();
+    app = createTestApp(upstreamUrl);
+  });
+
+  afterAll(() => {
+    upstream.close();
+  });
+
+  // ---------------------------------------------------------------------------
+  // HEALTH ENDPOINT
+  // ---------------------------------------------------------------------------
+
+  describe("GET /health", () => {
+    it("should report healthy with the upstream payload", async () => {
+      healthMode = "ok";
+      const response = await request(app).get("/api/v1/ocr-worker/health");
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ status: "healthy", service: "ocr-worker", upstream: { ok: true } });
+    });
+
+    it("should return UPSTREAM_ERROR when the upstream fails", async () => {
+      healthMode = "error";
+      const response = await request(app).get("/api/v1/ocr-worker/health");
+
+      expect(response.status).toBe(503);
+      expect(response.body.code).toBe("UPSTREAM_ERROR");
+    });
+
+    it("should return INVALID_RESPONSE for non-JSON health payloads", async () => {
+      healthMode = "invalid";
+      const response = await request(app).get("/api/v1/ocr-worker/health");
+
+      expect(response.status).toBe(503);
+      expect(response.body.code).toBe("INVALID_RESPONSE");
+    });
+
+    it("should return CONNECTION_FAILED when the upstream is down", async () => {
+      const response = await request(createTestApp("http://127.0.0.1:1")).get("/api/v1/ocr-worker/health");
+
+      expect(response.status).toBe(503);
+      expect(response.body).toMatchObject({ status: "unhealthy", service: "ocr-worker", code: "CONNECTION_FAILED" });
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // PROXY
+  // ---------------------------------------------------------------------------
+
+  describe("proxy", () => {
+    it("should forward requests relative to the mount path", async () => {
+      const response = await request(app).get("/api/v1/ocr-worker/jobs/42?full=1");
+
+      expect(response.status).toBe(200);
+      expect(response.body.path).toBe("/jobs/42?full=1");
+    });
+
+    it("should strip the gateway API key before forwarding", async () => {
+      await request(app).get("/api/v1/ocr-worker/jobs").set("x-fw-admin-key", "test-key-1");
+
+      expect(lastRequest?.headers["x-fw-admin-key"]).toBeUndefined();
+    });
+
+    it("should strip gateway tokens but forward upstream Authorization headers", async () => {
+      const [service] = parseServiceRegistry([{ id: "ocrWorker", name: "ocr-worker", baseUrl: upstreamUrl }]);
+      const tokenApp = express();
+      // Stands in for gatewayTokenGuard
+      tokenApp.use((req, _res, next) => {
+        if (req.headers.authorization === "Bearer gateway-token") {
+          req.apiKey = { name: "user:ops@fw.dev", scopes: ["*"], token: { subject: "ops@fw.dev", role: "admin" } };
+        }
+        next();
+      });
+      tokenApp.use(service.mountPath, createUpstreamRouter(service));
+
+      await request(tokenApp).get("/api/v1/ocr-worker/jobs").set("Authorization", "Bearer gateway-token");
+      expect(lastRequest?.headers.authorization).toBeUndefined();
+
+      await request(tokenApp).get("/api/v1/ocr-worker/jobs").set("Authorization", "Bearer upstream-token");
+      expect(lastRequest?.headers.authorization).toBe("Bearer upstream-token");
+    });
+
+    it("should return PROXY_ERROR when the upstream is unreachable", async () => {
+      const response = await request(createTestApp("http://127.0.0.1:1")).get("/api/v1/ocr-worker/jobs");
+
+      expect(response.status).toBe(502);
+      expect(response.body).toEqual({
+        status: "error",
+        code: "PROXY_ERROR",
+        message: "Unable to reach upstream service"
+      });
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // CIRCUIT BREAKER
+  // ---------------------------------------------------------------------------
+
+  describe("circuit breaker", () => {
+    function createBreaker(): CircuitBreaker {
+      return new CircuitBreaker({
+        consecutiveFailureThreshold: 2,
+        failureRateThreshold: 1,
+        minimumRequests: 10,
+        windowSize: 10,
+        coolDownMs: 30000,
+        halfOpenMaxRequests: 1
+      });
+    }
+
+    it("should short-circuit with UPSTREAM_CIRCUIT_OPEN after repeated proxy errors", async () => {
+      const breaker = createBreaker();
+      const deadApp = createTestApp("http://127.0.0.1:1", breaker);
+
+      await request(deadApp).get("/api/v1/ocr-worker/jobs");
+      await request(deadApp).get("/api/v1/ocr-worker/jobs");
+      const response = await request(deadApp).get("/api/v1/ocr-worker/jobs");
+
+      expect(response.status).toBe(503);
+      expect(response.headers["retry-after"]).toBe("30");
+      expect(response.body).toEqual({
+        status: "error",
+        code: "UPSTREAM_CIRCUIT_OPEN",
+        message: "Upstream service ocr-worker is unavailable, retry later"
+      });
+      expect(breaker.snapshot().state).toBe("open");
+    });
+
+    it("should keep the circuit closed for successful upstream responses", async () => {
+      const breaker = createBreaker();
+      const liveApp = createTestApp(upstreamUrl, breaker);
+
+      for (let i = 0; i < 3; i++) {
+        const response = await request(liveApp).get("/api/v1/ocr-worker/jobs");
+        expect(response.status).toBe(200);
+      }
+      expect(breaker.snapshot()).toMatchObject({ state: "closed", windowRequests: 3 });
+    });
+
+    it("should still serve the health endpoint while the circuit is open", async () => {
+      const breaker = createBreaker();
+      breaker.tryAcquire();
+      breaker.recordFailure();
+      breaker.tryAcquire();
+      breaker.recordFailure();
+
+      healthMode = "ok";
+      const response = await request(createTestApp(upstreamUrl, breaker)).get("/api/v1/ocr-worker/health");
+
+      expect(response.status).toBe(200);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // RETRIES
+  // ---------------------------------------------------------------------------
+
+  describe("retries", () => {
+    beforeEach(() => {
+      flakyHits = 0;
+    });
+
+    it("should retry idempotent requests on retryable statuses", async () => {
+      flakyFailures = 2;
+      const response = await request(app).get("/api/v1/ocr-worker/flaky");
+
+      expect(response.status).toBe(200);
+      expect(response.headers["x-upstream-retries"]).toBe("2");
+      expect(flakyHits).toBe(3);
+    });
+
+    it("should give up after maxAttempts and return the upstream response", async () => {
+      flakyFailures = 5;
+      const response = await request(app).get("/api/v1/ocr-worker/flaky");
+
+      expect(response.status).toBe(503);
+      expect(response.headers["x-upstream-retries"]).toBe("2");
+      expect(flakyHits).toBe(3);
+    });
+
+    it("should not retry POST requests without an Idempotency-Key", async () => {
+      flakyFailures = 1;
+      const response = await request(app).post("/api/v1/ocr-worker/flaky").send({ a: 1 });
+
+      expect(response.status).toBe(503);
+      expect(response.headers["x-upstream-retries"]).toBeUndefined();
+      expect(flakyHits).toBe(1);
+    });
+
+    it("should retry POST requests carrying an Idempotency-Key and replay the body", async () => {
+      flakyFailures = 1;
+      const response = await request(app)
+        .post("/api/v1/ocr-worker/flaky")
+        .set("Idempotency-Key", "job-123")
+        .send({ a: 1 });
+
+      expect(response.status).toBe(200);
+      expect(response.headers["x-upstream-retries"]).toBe("1");
+      expect(lastRequest?.headers["content-length"]).toBe(String(JSON.stringify({ a: 1 }).length));
+    });
+
+    it("should not send the retry header when the first attempt succeeds", async () => {
+      flakyFailures = 0;
+      const response = await request(app).get("/api/v1/ocr-worker/flaky");
+
+      expect(response.status).toBe(200);
+      expect(response.headers["x-upstream-retries"]).toBeUndefined();
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // RESPONSE CACHE
+  // ---------------------------------------------------------------------------
+
+  describe("response cache", () => {
+    let cachedApp: Express;
+
+    beforeEach(() => {
+      cachedApp = createTestApp(upstreamUrl, undefined, true);
+      catalogueHits = 0;
+    });
+
+    it("should serve repeated GETs on cached routes without calling the upstream", async () => {
+      const first = await request(cachedApp).get("/api/v1/ocr-worker/catalogue/items");
+      const second = await request(cachedApp).get("/api/v1/ocr-worker/catalogue/items");
+
+      expect(first.headers["x-cache"]).toBe("MISS");
+      expect(second.headers["x-cache"]).toBe("HIT");
+      expect(second.body).toEqual({ path: "/catalogue/items" });
+      expect(catalogueHits).toBe(1);
+    });
+
+    it("should request uncompressed bodies from the upstream", async () => {
+      await request(cachedApp).get("/api/v1/ocr-worker/catalogue").set("Accept-Encoding", "gzip");
+
+      expect(lastRequest?.headers["accept-encoding"]).toBeUndefined();
+    });
+
+    it("should not cache routes outside the cache list", async () => {
+      const response = await request(cachedApp).get("/api/v1/ocr-worker/catalogues");
+
+      expect(response.headers["x-cache"]).toBeUndefined();
+    });
+
+    it("should bypass the cache for credentials meant for the upstream", async () => {
+      await request(cachedApp).get("/api/v1/ocr-worker/catalogue");
+      const response = await request(cachedApp)
+        .get("/api/v1/ocr-worker/catalogue")
+        .set("Authorization", "Bearer upstream-token");
+
+      expect(response.headers["x-cache"]).toBeUndefined();
+      expect(catalogueHits).toBe(2);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // TRACE CONTEXT
+  // ---------------------------------------------------------------------------
+
+  describe("trace context", () => {
+    const INCOMING = "00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01";
+    let tracedApp: Express;
+    let exported: FinishedSpan[];
+
+    beforeEach(() => {
+      const [service] = parseServiceRegistry([{ id: "ocrWorker", name: "ocr-worker", baseUrl: upstreamUrl }]);
+      tracedApp = express();
+      tracedApp.use(createTracingMiddleware(tracer, [{ prefix: service.mountPath, group: service.name }]));
+      tracedApp.use(service.mountPath, createUpstreamRouter(service));
+
+      exported = [];
+      tracer.start({ export: (span) => void exported.push(span), shutdown: async () => {} }, 1);
+    });
+
+    afterAll(async () => {
+      await tracer.stop();
+    });
+
+    it("should continue the caller's trace in the proxied request", async () => {
+      await request(tracedApp).get("/api/v1/ocr-worker/jobs").set("traceparent", INCOMING).set("tracestate", "fw=1");
+
+      const forwarded = parseTraceparent(lastRequest?.headers.traceparent, lastRequest?.headers.tracestate);
+      expect(forwarded).toMatchObject({ traceId: "0af7651916cd43dd8448eb211c80319c", sampled: true, traceState: "fw=1" });
+      expect(forwarded?.spanId).not.toBe("b7ad6b7169203331");
+    });
+
+    it("should start a trace when the caller sends none", async () => {
+      await request(tracedApp).get("/api/v1/ocr-worker/jobs");
+
+      expect(parseTraceparent(lastRequest?.headers.traceparent)).not.toBeNull();
+    });
+
+    it("should export a server span and a client span per upstream call", async () => {
+      await request(tracedApp).get("/api/v1/ocr-worker/jobs?full=1").set("traceparent", INCOMING);
+
+      const server = exported.find((span) => span.kind === "server");
+      const client = exported.find((span) => span.kind === "client");
+      expect(server).toMatchObject({
+        name: "GET ocr-worker",
+        parentSpanId: "b7ad6b7169203331",
+        attributes: { "http.response.status_code": 200 }
+      });
+      expect(client).toMatchObject({
+        name: "GET ocr-worker",
+        traceId: server?.traceId,
+        parentSpanId: server?.spanId,
+        attributes: { "url.path": "/jobs", "gateway.upstream": "ocr-worker", "http.response.status_code": 200 }
+      });
+      expect(lastRequest?.headers.traceparent).toContain(client?.spanId);
+    });
+  });
+});